@@ -0,0 +1,38 @@
+// Copies the pdf.js worker and the Tesseract worker, core and language data
+// into public/ocr-assets so the app serves them from its own origin and never
+// reaches out to a CDN. Runs before `next dev` and `next build`.
+import { copyFileSync, existsSync, mkdirSync, readdirSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+const target = join(root, 'public', 'ocr-assets')
+const modules = join(root, 'node_modules')
+
+function copy(from, to) {
+  mkdirSync(dirname(to), { recursive: true })
+  copyFileSync(from, to)
+  console.log(`ocr-assets: ${to.slice(root.length + 1)}`)
+}
+
+copy(join(modules, 'pdfjs-dist', 'build', 'pdf.worker.min.mjs'), join(target, 'pdfjs', 'pdf.worker.min.mjs'))
+copy(join(modules, 'tesseract.js', 'dist', 'worker.min.js'), join(target, 'tesseract', 'worker.min.js'))
+
+// tesseract.js picks the SIMD and/or LSTM-only build at runtime, so ship all of them
+const coreDir = join(modules, 'tesseract.js-core')
+for (const file of readdirSync(coreDir).filter(name => name.endsWith('.wasm.js'))) {
+  copy(join(coreDir, file), join(target, 'tesseract', 'core', file))
+}
+
+// Language data is not part of tesseract.js; it comes from the @tesseract.js-data/eng
+// dev dependency, or OCR_TESSDATA_DIR can point at a folder with eng.traineddata.gz (4.0.0_best_int).
+const tessdataDirs = [
+  process.env.OCR_TESSDATA_DIR,
+  join(modules, '@tesseract.js-data', 'eng', '4.0.0_best_int')
+].filter(Boolean)
+const tessdataDir = tessdataDirs.find(dir => existsSync(join(dir, 'eng.traineddata.gz')))
+if (!tessdataDir) {
+  console.error('ocr-assets: eng.traineddata.gz not found; run npm install (it comes with @tesseract.js-data/eng) or set OCR_TESSDATA_DIR. OCR cannot load its language model without it.')
+  process.exit(1)
+}
+copy(join(tessdataDir, 'eng.traineddata.gz'), join(target, 'tesseract', 'lang', 'eng.traineddata.gz'))
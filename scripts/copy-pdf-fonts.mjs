@@ -0,0 +1,21 @@
+// Copies the DejaVu Sans fonts into public/pdf-fonts. PDF/A forbids referencing
+// fonts that are not embedded, so Factur-X export fetches and embeds these.
+// Runs before `next dev` and `next build`.
+import { copyFileSync, existsSync, mkdirSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+const target = join(root, 'public', 'pdf-fonts')
+const fontDir = join(root, 'node_modules', 'dejavu-fonts-ttf', 'ttf')
+
+mkdirSync(target, { recursive: true })
+for (const file of ['DejaVuSans.ttf', 'DejaVuSans-Bold.ttf']) {
+  const from = join(fontDir, file)
+  if (!existsSync(from)) {
+    console.error(`pdf-fonts: ${file} not found in dejavu-fonts-ttf; run npm install, otherwise Factur-X export cannot embed its font`)
+    process.exit(1)
+  }
+  copyFileSync(from, join(target, file))
+  console.log(`pdf-fonts: public/pdf-fonts/${file}`)
+}
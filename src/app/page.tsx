@@ -4,16 +4,56 @@ import { useState, useCallback } from 'react'
 import { FileText, Zap, Shield, Download } from 'lucide-react'
 import { FileUpload } from '@/components/file-upload'
 import { InvoiceTable } from '@/components/invoice-table'
+import { InvoiceEditor } from '@/components/invoice-editor'
+import { EInvoiceSettings } from '@/components/einvoice-settings'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import type { ExtractedInvoiceData } from '@/lib/optimized-ocr'
-import { exportToCSV, exportToExcel } from '@/lib/export'
+import type { ExtractedInvoiceData } from '@/lib/ocr'
+import type { FileProgress, OCRPreset, PipelineStageName } from '@/lib/ocr-pipeline'
+import {
+  exportToCSV,
+  exportToExcel,
+  exportToEInvoice,
+  validateEInvoiceData,
+  type EInvoiceExportOptions,
+  type EInvoiceFormat,
+  type EInvoiceValidationResult
+} from '@/lib/export'
+
+const OCR_PRESET_OPTIONS: Array<{ value: OCRPreset, label: string, description: string }> = [
+  { value: 'fast', label: 'Fast', description: 'One enhanced OCR pass per image, first scanned PDF page only' },
+  { value: 'thorough', label: 'Thorough', description: 'Several image variants and segmentation modes on every scanned page' }
+]
+
+const STAGE_LABELS: Record<PipelineStageName, string> = {
+  load: 'Reading file',
+  rasterize: 'Rendering pages',
+  preprocess: 'Enhancing image',
+  recognize: 'Recognizing text',
+  parse: 'Extracting fields',
+  validate: 'Checking quality'
+}
+
+function getFileProgressLabel(progress?: FileProgress): string {
+  if (!progress || progress.status === 'queued') return 'Queued'
+  if (progress.status === 'processing') return progress.stage ? `${STAGE_LABELS[progress.stage]}...` : 'Processing...'
+
+  const result = progress.result
+  if (progress.status === 'done') return `Done • ${result?.data.confidence?.toFixed(0) ?? 'N/A'}% quality`
+  return `Warning: ${result?.error || 'Processing failed'}`
+}
 
 export default function Home() {
   const [invoices, setInvoices] = useState<ExtractedInvoiceData[]>([])
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
   const [processingStatus, setProcessingStatus] = useState<string>('')
+  const [ocrPreset, setOcrPreset] = useState<OCRPreset>('fast')
+  const [fileProgress, setFileProgress] = useState<FileProgress[]>([])
+  const [exportValidation, setExportValidation] = useState<EInvoiceValidationResult | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [eInvoiceOptions, setEInvoiceOptions] = useState<EInvoiceExportOptions>({})
+  const [editingInvoice, setEditingInvoice] = useState<ExtractedInvoiceData | null>(null)
 
   const handleFilesSelected = useCallback((files: File[]) => {
     if (files.length === 0) return
@@ -23,64 +63,30 @@ export default function Home() {
   const handleStartProcessing = useCallback(async () => {
     if (uploadedFiles.length === 0) return
 
+    const preset = OCR_PRESET_OPTIONS.find(option => option.value === ocrPreset)!
     setIsProcessing(true)
-    setProcessingStatus('🚀 Loading Enterprise OCR System...')
+    setFileProgress([])
+    setProcessingStatus(`🚀 Loading ${preset.label} OCR pipeline...`)
 
     try {
-      // Dynamically import the enterprise OCR service
-      const { optimizedOCRService } = await import('@/lib/optimized-ocr')
-      
-      setProcessingStatus('⚡ Initializing Optimized OCR Engine...')
-      await optimizedOCRService.initialize()
-      const newInvoices: ExtractedInvoiceData[] = []
-      const processedResults: ExtractedInvoiceData[] = []
-
-      for (let i = 0; i < uploadedFiles.length; i++) {
-        const file = uploadedFiles[i]
-        const fileType = file.type === 'application/pdf' ? 'PDF' : 'Image'
-        
-        setProcessingStatus(`🎯 Processing ${fileType}: ${file.name} (${i + 1}/${uploadedFiles.length})\n⚡ Using optimized OCR with smart image enhancement...`)
+      // Dynamically import the OCR pipeline to keep Tesseract out of the server bundle
+      const { getOCRPipeline } = await import('@/lib/ocr-pipeline')
+      const pipeline = getOCRPipeline(ocrPreset)
+      setProcessingStatus(`🎯 Processing ${uploadedFiles.length} files with ${preset.label} OCR\n⚡ ${preset.description}`)
 
-        try {
-          const startTime = performance.now()
-          
-          // Use enterprise OCR with all advanced features
-          const result = await optimizedOCRService.processDocument(file)
-          
-          const processingTime = performance.now() - startTime
-          processedResults.push(result)
-          
-          if (result.success) {
-            newInvoices.push(result.data)
-            setProcessingStatus(`✅ Successfully processed ${file.name}\n📊 Quality: ${result.data.confidence?.toFixed(1) || 'N/A'}% | Time: ${processingTime.toFixed(0)}ms\n🎨 Method: ${result.data.processingMethod || 'Advanced Multi-Engine'}`)
-          } else {
-            console.warn(`Partial processing for ${file.name}:`, result.error)
-            // Still add the data even if quality is low
-            newInvoices.push(result.data)
-            setProcessingStatus(`⚠️ Processed ${file.name} with warnings\n❗ Issue: ${result.error}\n📊 Attempts: ${result.performance.attemptsUsed}`)
-          }
-          
-        } catch (error) {
-          console.error(`Enterprise OCR failed for ${file.name}:`, error)
-          const errorMsg = error instanceof Error ? error.message : 'Unknown error'
-          
-          // Create minimal error data
-          const errorData: ExtractedInvoiceData = {
-            id: crypto.randomUUID(),
-            vendor: `Error processing: ${file.name}`,
-            rawText: `Processing failed: ${errorMsg}`,
-            extraField1: errorMsg
-          }
-          newInvoices.push(errorData)
-          
-          setProcessingStatus(`❌ Error processing ${file.name}\n🔧 Error: ${errorMsg}\n💡 The file may be corrupted or in an unsupported format`)
+      // Files run in parallel on the pipeline's worker pool; results keep the upload order
+      const processedResults = await pipeline.processBatch(uploadedFiles, (index, progress) => {
+        setFileProgress(prev => {
+          const next = [...prev]
+          next[index] = progress
+          return next
+        })
+        if (progress.result && !progress.result.success) {
+          console.warn(`Partial processing for ${uploadedFiles[index].name}:`, progress.result.error)
         }
-        
-        // Brief pause between files for UX
-        if (i < uploadedFiles.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 500))
-        }
-      }
+      })
+      // Low quality results are still listed so they can be reviewed
+      const newInvoices = processedResults.map(result => result.data)
 
       // Show final summary
       const successful = processedResults.filter(r => r.success).length
@@ -97,12 +103,12 @@ export default function Home() {
       }, 5000)
       
     } catch (error) {
-      console.error('Enterprise OCR system error:', error)
+      console.error('OCR pipeline error:', error)
       setProcessingStatus(`💥 System Error: ${error instanceof Error ? error.message : 'Unknown error'}\n🔧 Please try again or contact support if the issue persists`)
     } finally {
       setIsProcessing(false)
     }
-  }, [uploadedFiles])
+  }, [uploadedFiles, ocrPreset])
 
   const handleExportCSV = useCallback(() => {
     exportToCSV(invoices, { 
@@ -119,9 +125,37 @@ export default function Home() {
     })
   }, [invoices])
 
+  const handleExportEInvoice = useCallback((format: EInvoiceFormat) => {
+    // Non-compliant invoices are listed instead of exported; warnings such as lossy mappings are listed alongside the export
+    setExportError(null)
+    let validation: EInvoiceValidationResult
+    try {
+      validation = validateEInvoiceData(invoices, format, eInvoiceOptions)
+    } catch (error) {
+      // Serializers throw on data they cannot represent at all, e.g. an unknown currency
+      console.error('E-invoice validation failed:', error)
+      setExportValidation(null)
+      setExportError(error instanceof Error ? error.message : 'Unknown error')
+      return
+    }
+    setExportValidation(validation.invoices.length > 0 ? validation : null)
+    if (!validation.isValid) return
+
+    exportToEInvoice(invoices, format, { 
+      ...eInvoiceOptions,
+      filename: `invoice_export_${format}`
+    }).catch(error => {
+      console.error('E-invoice export failed:', error)
+      setExportError(error instanceof Error ? error.message : 'Unknown error')
+    })
+  }, [invoices, eInvoiceOptions])
+
   const handleEditInvoice = useCallback((invoice: ExtractedInvoiceData) => {
-    // Placeholder for edit functionality
-    console.log('Edit invoice:', invoice)
+    setEditingInvoice(invoice)
+  }, [])
+
+  const handleSaveInvoice = useCallback((updated: ExtractedInvoiceData) => {
+    setInvoices(prev => prev.map(inv => inv.id === updated.id ? updated : inv))
   }, [])
 
   const handleDeleteInvoice = useCallback((id: string) => {
@@ -229,7 +263,7 @@ export default function Home() {
         <div className="mb-8">
           <FileUpload 
             onFilesSelected={handleFilesSelected}
-            accept="image/*,.pdf"
+            accept="image/*,.pdf,.xml,.edi,.edifact,.x12,.810"
             multiple={true}
             maxSize={10 * 1024 * 1024}
           />
@@ -242,6 +276,22 @@ export default function Home() {
               <div className="flex items-center justify-between">
                 <CardTitle className="text-lg">Ready to Process ({uploadedFiles.length} files)</CardTitle>
                 <div className="flex gap-2">
+                  <div className="flex rounded-md border p-0.5" role="radiogroup" aria-label="OCR mode">
+                    {OCR_PRESET_OPTIONS.map(option => (
+                      <Button
+                        key={option.value}
+                        variant={ocrPreset === option.value ? 'default' : 'ghost'}
+                        size="sm"
+                        role="radio"
+                        aria-checked={ocrPreset === option.value}
+                        title={option.description}
+                        onClick={() => setOcrPreset(option.value)}
+                        className="h-8 text-sm"
+                      >
+                        {option.label}
+                      </Button>
+                    ))}
+                  </div>
                   <Button 
                     variant="outline" 
                     onClick={handleClearAllFiles}
@@ -297,13 +347,90 @@ export default function Home() {
             <CardContent className="flex items-center space-x-3 p-6">
               <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
               <div>
-                <p className="font-medium">Processing Documents</p>
+                <p className="font-medium">
+                  Processing Documents ({fileProgress.filter(progress => progress?.result).length}/{uploadedFiles.length})
+                </p>
                 <p className="text-sm text-muted-foreground">{processingStatus}</p>
               </div>
             </CardContent>
+            {fileProgress.length > 0 && (
+              <CardContent className="pt-0">
+                <div className="grid gap-1">
+                  {uploadedFiles.map((file, index) => {
+                    const progress = fileProgress[index]
+                    return (
+                      <div key={index} className="flex items-center justify-between gap-4 text-sm">
+                        <span className="truncate">{file.name}</span>
+                        <span className={`shrink-0 text-xs ${
+                          progress?.status === 'done' ? 'text-green-600' :
+                          progress?.status === 'failed' ? 'text-yellow-600' : 'text-muted-foreground'
+                        }`}>
+                          {getFileProgressLabel(progress)}
+                        </span>
+                      </div>
+                    )
+                  })}
+                </div>
+              </CardContent>
+            )}
+          </Card>
+        )}
+
+        {/* E-Invoice Compliance Issues */}
+        {(exportValidation || exportError) && (
+          <Card className={`mb-8 ${!exportError && exportValidation?.isValid ? 'border-yellow-200' : 'border-red-200'}`}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className={`text-lg ${!exportError && exportValidation?.isValid ? 'text-yellow-700' : 'text-red-700'}`}>
+                  {exportError
+                    ? 'E-invoice export failed'
+                    : exportValidation?.isValid
+                      ? 'E-invoice exported with warnings: some fields are not carried by the format'
+                      : 'E-invoice export blocked: business rule violations'}
+                </CardTitle>
+                <Button variant="ghost" size="sm" onClick={() => { setExportValidation(null); setExportError(null) }}>
+                  ×
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+                {exportValidation?.invoices.map(invoice => (
+                  <div key={invoice.row}>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium text-sm">
+                        Row {invoice.row}{invoice.invoiceNumber ? ` • ${invoice.invoiceNumber}` : ''}
+                      </p>
+                      {invoices[invoice.row - 1] && (
+                        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setEditingInvoice(invoices[invoice.row - 1])}>
+                          Edit
+                        </Button>
+                      )}
+                    </div>
+                    <ul className="mt-1 space-y-1">
+                      {invoice.issues.map((issue, index) => (
+                        <li key={index} className="text-xs flex gap-2">
+                          <span className={`font-mono ${issue.severity === 'fatal' ? 'text-red-600' : 'text-yellow-600'}`}>
+                            {issue.ruleId}
+                          </span>
+                          <span className="text-muted-foreground">{issue.field}</span>
+                          <span>{issue.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
           </Card>
         )}
 
+        {/* E-Invoice Settings */}
+        {invoices.length > 0 && (
+          <EInvoiceSettings options={eInvoiceOptions} onChange={setEInvoiceOptions} />
+        )}
+
         {/* Results Table */}
         {invoices.length > 0 && (
           <InvoiceTable
@@ -312,8 +439,17 @@ export default function Home() {
             onDelete={handleDeleteInvoice}
             onExportCSV={handleExportCSV}
             onExportExcel={handleExportExcel}
+            onExportEInvoice={handleExportEInvoice}
           />
         )}
+
+        <InvoiceEditor
+          invoice={editingInvoice}
+          issues={exportValidation?.invoices.find(invoice => invoices[invoice.row - 1]?.id === editingInvoice?.id)?.issues}
+          open={!!editingInvoice}
+          onOpenChange={open => !open && setEditingInvoice(null)}
+          onSave={handleSaveInvoice}
+        />
       </main>
 
       {/* Footer */}
@@ -0,0 +1,101 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { EInvoiceExportOptions } from '@/lib/export'
+import { getTaxCategoryName } from '@/lib/einvoice'
+
+type SettingKey = 'sellerCountryCode' | 'buyerCountryCode' | 'sellerContactName'
+
+interface SettingField {
+  key: SettingKey
+  label: string
+  hint: string
+  uppercase?: boolean
+}
+
+// Defaults for fields every invoice in the batch shares; values edited on an invoice take precedence
+const SETTING_FIELDS: SettingField[] = [
+  { key: 'sellerCountryCode', label: 'Seller country', hint: 'ISO 3166-1 alpha-2, used when an invoice has none (BR-09)', uppercase: true },
+  { key: 'buyerCountryCode', label: 'Buyer country', hint: 'ISO 3166-1 alpha-2, used when an invoice has none (BR-11)', uppercase: true },
+  { key: 'sellerContactName', label: 'Seller contact name', hint: 'Contact point for XRechnung; the seller name otherwise (BR-DE-5)' }
+]
+
+// Exchange rates to the currency a tax authority wants the VAT or totals stated in
+const RATE_FIELDS: Array<{ key: 'exchangeRate' | 'tipoCambio' | 'plnExchangeRate', label: string, hint: string }> = [
+  { key: 'exchangeRate', label: 'SAR exchange rate', hint: 'SAR per unit of the invoice currency, for ZATCA invoices not issued in SAR (BT-111)' },
+  { key: 'tipoCambio', label: 'MXN exchange rate', hint: 'MXN per unit of the invoice currency, for CFDIs not issued in MXN (TipoCambio)' },
+  { key: 'plnExchangeRate', label: 'PLN exchange rate', hint: 'PLN per unit of the invoice currency, for KSeF invoices not issued in PLN (P_14_xW)' }
+]
+
+// Categories that need no data beyond the VAT IDs; exempt (E) invoices also need a reason per breakdown
+const DEFAULT_TAX_CATEGORIES = ['S', 'Z', 'AE', 'K', 'G', 'O']
+
+interface EInvoiceSettingsProps {
+  options: EInvoiceExportOptions
+  onChange: (options: EInvoiceExportOptions) => void
+}
+
+export function EInvoiceSettings({ options, onChange }: EInvoiceSettingsProps) {
+  const update = <K extends keyof EInvoiceExportOptions>(key: K, value: EInvoiceExportOptions[K]) => {
+    onChange({ ...options, [key]: value })
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="text-lg">E-invoice settings</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+          {SETTING_FIELDS.map(field => (
+            <div key={field.key} className="space-y-1">
+              <label htmlFor={`einvoice-${field.key}`} className="text-sm font-medium">{field.label}</label>
+              <Input
+                id={`einvoice-${field.key}`}
+                value={options[field.key] || ''}
+                onChange={event => {
+                  const value = field.uppercase ? event.target.value.trim().toUpperCase() : event.target.value
+                  update(field.key, value || undefined)
+                }}
+              />
+              <p className="text-xs text-muted-foreground">{field.hint}</p>
+            </div>
+          ))}
+          <div className="space-y-1">
+            <label htmlFor="einvoice-defaultTaxCategory" className="text-sm font-medium">VAT category</label>
+            <select
+              id="einvoice-defaultTaxCategory"
+              value={options.defaultTaxCategory || ''}
+              onChange={event => update('defaultTaxCategory', event.target.value || undefined)}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              <option value="">Derived from the VAT amount</option>
+              {DEFAULT_TAX_CATEGORIES.map(category => (
+                <option key={category} value={category}>{category} • {getTaxCategoryName(category)}</option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">For invoices without a VAT breakdown (BT-118)</p>
+          </div>
+          {RATE_FIELDS.map(field => (
+            <div key={field.key} className="space-y-1">
+              <label htmlFor={`einvoice-${field.key}`} className="text-sm font-medium">{field.label}</label>
+              <Input
+                id={`einvoice-${field.key}`}
+                type="number"
+                min="0"
+                step="any"
+                value={options[field.key] ?? ''}
+                onChange={event => {
+                  const rate = parseFloat(event.target.value)
+                  update(field.key, isNaN(rate) ? undefined : rate)
+                }}
+              />
+              <p className="text-xs text-muted-foreground">{field.hint}</p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,13 +1,17 @@
 'use client'
 
 import { useState, useCallback, useRef } from 'react'
-import { Upload, FileText, Image, X, Camera } from 'lucide-react'
+import { Upload, FileText, FileCode, Image, X, Camera } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { cn } from '@/lib/utils'
+import { DetectedFileType, FILE_TYPE_LABELS, isPdfFileType, isStructuredFileType, sniffFile } from '@/lib/file-sniffer'
+import { openPdf } from '@/lib/pdfjs'
 
 interface FileUploadProps {
   onFilesSelected: (files: File[]) => void
+  // Content sniffer used for the type shown next to each file; defaults to the one the OCR pipeline uses
+  detectFileType?: (file: File) => Promise<DetectedFileType>
   accept?: string
   multiple?: boolean
   maxSize?: number
@@ -15,12 +19,14 @@ interface FileUploadProps {
 
 export function FileUpload({ 
   onFilesSelected, 
-  accept = "image/*,.pdf", 
+  detectFileType = file => sniffFile(file, openPdf),
+  accept = "image/*,.pdf,.xml,.edi,.edifact,.x12,.810", 
   multiple = true,
   maxSize = 10 * 1024 * 1024 // 10MB default
 }: FileUploadProps) {
   const [dragActive, setDragActive] = useState(false)
   const [selectedFiles, setSelectedFiles] = useState<File[]>([])
+  const [detectedTypes, setDetectedTypes] = useState<Map<File, DetectedFileType>>(new Map())
   const inputRef = useRef<HTMLInputElement>(null)
   const cameraInputRef = useRef<HTMLInputElement>(null)
 
@@ -79,8 +85,17 @@ export function FileUpload({
       const newFiles = multiple ? [...selectedFiles, ...validFiles] : validFiles
       setSelectedFiles(newFiles)
       onFilesSelected(validFiles)
+
+      validFiles.forEach(file => {
+        detectFileType(file)
+          .catch(error => {
+            console.warn(`Could not detect the type of ${file.name}:`, error)
+            return 'unknown' as const
+          })
+          .then(type => setDetectedTypes(prev => new Map(prev).set(file, type)))
+      })
     }
-  }, [selectedFiles, multiple, onFilesSelected, maxSize, accept, validateFile])
+  }, [selectedFiles, multiple, onFilesSelected, detectFileType, maxSize, accept, validateFile])
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -112,16 +127,24 @@ export function FileUpload({
     setSelectedFiles(newFiles)
   }, [selectedFiles])
 
-  const getFileIcon = (file: File) => {
-    if (file.type.startsWith('image/')) {
+  const getFileIcon = (type?: DetectedFileType) => {
+    if (type === 'image') {
       return <Image className="h-4 w-4" aria-hidden="true" />
     }
-    if (file.type === 'application/pdf') {
+    if (type && isPdfFileType(type)) {
       return <FileText className="h-4 w-4" />
     }
+    if (type && isStructuredFileType(type)) {
+      return <FileCode className="h-4 w-4" />
+    }
     return <FileText className="h-4 w-4" />
   }
 
+  const getFileTypeLabel = (file: File) => {
+    const type = detectedTypes.get(file)
+    return type ? FILE_TYPE_LABELS[type] : 'Detecting type...'
+  }
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -155,7 +178,7 @@ export function FileUpload({
               Drag & drop your invoices here, or click to select files
             </p>
             <p className="text-xs text-muted-foreground">
-              Supports PDF, JPEG, PNG, GIF, BMP • Max {Math.round(maxSize / (1024 * 1024))}MB per file
+              Supports PDF, JPEG, PNG, GIF, BMP, UBL/CII/FatturaPA/CFDI/NF-e XML, EDIFACT, X12 810 • Max {Math.round(maxSize / (1024 * 1024))}MB per file
             </p>
           </div>
 
@@ -202,11 +225,11 @@ export function FileUpload({
               <Card key={index} className="p-3">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-3">
-                    {getFileIcon(file)}
+                    {getFileIcon(detectedTypes.get(file))}
                     <div className="min-w-0 flex-1">
                       <p className="text-sm font-medium truncate">{file.name}</p>
                       <p className="text-xs text-muted-foreground">
-                        {formatFileSize(file.size)} • {file.type || 'Unknown type'}
+                        {formatFileSize(file.size)} • {getFileTypeLabel(file)}
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,203 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { ExtractedInvoiceData } from '@/lib/ocr'
+import type { ValidationIssue } from '@/lib/en16931-validator'
+import { cn } from '@/lib/utils'
+
+type TextField = {
+  [K in keyof ExtractedInvoiceData]-?: ExtractedInvoiceData[K] extends string | undefined ? K : never
+}[keyof ExtractedInvoiceData]
+
+type AmountField = 'subtotal' | 'tax' | 'total'
+
+type EditorField =
+  | { key: Exclude<TextField, 'id'>, label: string, hint?: string, uppercase?: boolean, multiline?: boolean }
+  | { key: AmountField, label: string, hint?: string, amount: true }
+
+interface EditorSection {
+  title: string
+  fields: EditorField[]
+}
+
+// The fields OCR can't read reliably but the e-invoice formats require, grouped like the invoice viewer
+const EDITOR_SECTIONS: EditorSection[] = [
+  {
+    title: 'Invoice',
+    fields: [
+      { key: 'invoiceNumber', label: 'Invoice number' },
+      { key: 'date', label: 'Issue date', hint: 'YYYY-MM-DD' },
+      { key: 'dueDate', label: 'Due date', hint: 'YYYY-MM-DD, required when an amount is due (BR-CO-25)' },
+      { key: 'currency', label: 'Currency', hint: 'ISO 4217, e.g. EUR', uppercase: true },
+      { key: 'buyerReference', label: 'Buyer reference', hint: 'Leitweg-ID for German public buyers, e.g. 04011000-1234512345-06 (BR-DE-15)' }
+    ]
+  },
+  {
+    title: 'Seller',
+    fields: [
+      { key: 'vendor', label: 'Name' },
+      { key: 'vendorAddress', label: 'Address', hint: 'Street, post code and city on separate lines', multiline: true },
+      { key: 'vendorCountry', label: 'Country', hint: 'ISO 3166-1 alpha-2, e.g. DE (BR-09)', uppercase: true },
+      { key: 'vendorVatId', label: 'VAT ID', hint: 'With country prefix, e.g. DE123456789 (BR-S-02); the 10-digit NIP for KSeF', uppercase: true },
+      { key: 'vendorPhone', label: 'Contact phone', hint: 'Required for XRechnung (BR-DE-6)' },
+      { key: 'vendorEmail', label: 'Contact email', hint: 'Required for XRechnung (BR-DE-7)' }
+    ]
+  },
+  {
+    title: 'Buyer',
+    fields: [
+      { key: 'billTo', label: 'Name' },
+      { key: 'billToAddress', label: 'Address', multiline: true },
+      { key: 'billToCountry', label: 'Country', hint: 'ISO 3166-1 alpha-2 (BR-11)', uppercase: true },
+      { key: 'billToVatId', label: 'VAT ID', hint: 'NIP or EU VAT number for KSeF; other buyers are exported without ID', uppercase: true },
+      { key: 'buyerAccountingOffice', label: 'DIR3 oficina contable', hint: 'FACe administrative centre 01, e.g. L01280796', uppercase: true },
+      { key: 'buyerManagementBody', label: 'DIR3 órgano gestor', hint: 'FACe administrative centre 02', uppercase: true },
+      { key: 'buyerProcessingUnit', label: 'DIR3 unidad tramitadora', hint: 'FACe administrative centre 03', uppercase: true }
+    ]
+  },
+  {
+    title: 'Payment',
+    fields: [
+      { key: 'paymentMethod', label: 'Payment method', hint: 'Card brand (VISA, MAESTRO...) or a payment means name such as Credit transfer or SEPA direct debit (BR-DE-1)' },
+      { key: 'cardNumber', label: 'Card number', hint: 'Only the last digits are exported (BR-DE-24)' },
+      { key: 'paymentAccountIban', label: 'IBAN', hint: 'Account paid into (BR-DE-23), or the buyer account debited for direct debit (BR-DE-25)', uppercase: true },
+      { key: 'paymentAccountBic', label: 'BIC', hint: 'Bank of the account paid into', uppercase: true }
+    ]
+  },
+  {
+    title: 'Amounts',
+    fields: [
+      { key: 'subtotal', label: 'Total without VAT', amount: true },
+      { key: 'tax', label: 'VAT', amount: true },
+      { key: 'total', label: 'Total with VAT', amount: true }
+    ]
+  }
+]
+
+interface InvoiceEditorProps {
+  invoice: ExtractedInvoiceData | null
+  // Issues from the last export attempt, highlighted on the fields they refer to
+  issues?: ValidationIssue[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (invoice: ExtractedInvoiceData) => void
+}
+
+function toFormValues(invoice: ExtractedInvoiceData): Record<string, string> {
+  const values: Record<string, string> = {}
+  EDITOR_SECTIONS.forEach(section => section.fields.forEach(field => {
+    const value = invoice[field.key]
+    values[field.key] = value === undefined ? '' : String(value)
+  }))
+  return values
+}
+
+function applyFormValues(invoice: ExtractedInvoiceData, values: Record<string, string>): ExtractedInvoiceData {
+  const updated: ExtractedInvoiceData = { ...invoice }
+  EDITOR_SECTIONS.forEach(section => section.fields.forEach(field => {
+    const value = values[field.key].trim()
+    if ('amount' in field) {
+      const amount = parseFloat(value.replace(',', '.'))
+      updated[field.key] = value === '' || isNaN(amount) ? undefined : amount
+    } else {
+      updated[field.key] = value === '' ? undefined : field.uppercase ? value.toUpperCase() : value
+    }
+  }))
+  return updated
+}
+
+function InvoiceEditorForm({ invoice, issues = [], onOpenChange, onSave }: Omit<InvoiceEditorProps, 'invoice' | 'open'> & { invoice: ExtractedInvoiceData }) {
+  const [values, setValues] = useState(() => toFormValues(invoice))
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    onSave(applyFormValues(invoice, values))
+    onOpenChange(false)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {EDITOR_SECTIONS.map(section => (
+        <section key={section.title}>
+          <h4 className="mb-2 font-semibold">{section.title}</h4>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            {section.fields.map(field => {
+              const fieldIssues = issues.filter(issue => issue.field === field.key)
+              const id = `invoice-editor-${field.key}`
+              const inputClassName = cn(fieldIssues.length > 0 && 'border-red-500')
+              return (
+                <div key={field.key} className={cn('space-y-1', 'multiline' in field && field.multiline && 'sm:col-span-2')}>
+                  <label htmlFor={id} className="text-sm font-medium">{field.label}</label>
+                  {'multiline' in field && field.multiline ? (
+                    <textarea
+                      id={id}
+                      rows={3}
+                      value={values[field.key]}
+                      onChange={event => setValues(prev => ({ ...prev, [field.key]: event.target.value }))}
+                      className={cn('flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2', inputClassName)}
+                    />
+                  ) : (
+                    <Input
+                      id={id}
+                      inputMode={'amount' in field ? 'decimal' : undefined}
+                      value={values[field.key]}
+                      onChange={event => setValues(prev => ({ ...prev, [field.key]: event.target.value }))}
+                      className={inputClassName}
+                    />
+                  )}
+                  {field.hint && <p className="text-xs text-muted-foreground">{field.hint}</p>}
+                  {fieldIssues.map((issue, index) => (
+                    <p key={index} className="text-xs text-red-600">
+                      <span className="font-mono">{issue.ruleId}</span> {issue.message}
+                    </p>
+                  ))}
+                </div>
+              )
+            })}
+          </div>
+        </section>
+      ))}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+          Cancel
+        </Button>
+        <Button type="submit">Save</Button>
+      </DialogFooter>
+    </form>
+  )
+}
+
+/**
+ * Edit dialog for the invoice fields the e-invoice formats require but OCR
+ * rarely extracts, such as country codes and VAT IDs. Changes are only
+ * applied on save.
+ */
+export function InvoiceEditor({ invoice, open, ...props }: InvoiceEditorProps) {
+  if (!invoice) return null
+
+  return (
+    <Dialog open={open} onOpenChange={props.onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit invoice {invoice.invoiceNumber}</DialogTitle>
+          <DialogDescription>
+            Complete the fields required for e-invoice export. Empty fields are left out of the export.
+          </DialogDescription>
+        </DialogHeader>
+        {/* Keyed so the form starts from the saved values each time another invoice is opened */}
+        <InvoiceEditorForm key={invoice.id} invoice={invoice} {...props} />
+      </DialogContent>
+    </Dialog>
+  )
+}
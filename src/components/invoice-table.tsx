@@ -19,11 +19,13 @@ import {
   Edit, 
   Trash2, 
   Search,
-  Filter
+  Filter,
+  Eye
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { InvoiceViewer } from '@/components/invoice-viewer'
 import { 
   Table, 
   TableBody, 
@@ -33,6 +35,7 @@ import {
   TableRow 
 } from '@/components/ui/table'
 import { ExtractedInvoiceData } from '@/lib/ocr'
+import { E_INVOICE_FORMATS, type EInvoiceFormat } from '@/lib/export'
 import { cn } from '@/lib/utils'
 
 interface InvoiceTableProps {
@@ -41,6 +44,7 @@ interface InvoiceTableProps {
   onDelete?: (id: string) => void
   onExportCSV?: () => void
   onExportExcel?: () => void
+  onExportEInvoice?: (format: EInvoiceFormat) => void
 }
 
 const columnHelper = createColumnHelper<ExtractedInvoiceData>()
@@ -50,13 +54,16 @@ export function InvoiceTable({
   onEdit, 
   onDelete, 
   onExportCSV, 
-  onExportExcel 
+  onExportExcel,
+  onExportEInvoice
 }: InvoiceTableProps) {
   const [sorting, setSorting] = useState<SortingState>([])
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
   const [globalFilter, setGlobalFilter] = useState('')
   const [editingCell, setEditingCell] = useState<{ rowId: string; columnId: string } | null>(null)
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
+  const [showEInvoiceMenu, setShowEInvoiceMenu] = useState(false)
+  const [viewingInvoice, setViewingInvoice] = useState<ExtractedInvoiceData | null>(null)
 
   const columns = useMemo(() => [
     columnHelper.accessor('invoiceNumber', {
@@ -293,7 +300,8 @@ export function InvoiceTable({
       header: 'Details',
       cell: ({ row }) => {
         const invoice = row.original
-        const hasAdditionalData = invoice.vendorPhone || invoice.vendorEmail || invoice.authorizationCode || invoice.terminalId || invoice.merchantId || invoice.cardNumber || invoice.extraField1
+        const hasAdditionalData = invoice.vendorPhone || invoice.vendorEmail || invoice.authorizationCode || invoice.terminalId || invoice.merchantId || invoice.cardNumber || invoice.extraField1 ||
+          invoice.vendorVatId || invoice.billToVatId || invoice.vendorEndpointId || invoice.billToEndpointId || invoice.buyerReference || invoice.buyerAccountingOffice || invoice.fiscalUuid || invoice.taxBreakdown?.length || invoice.taxComponents?.length
         
         if (!hasAdditionalData) return null
         
@@ -325,6 +333,15 @@ export function InvoiceTable({
       header: 'Actions',
       cell: ({ row }) => (
         <div className="flex items-center space-x-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setViewingInvoice(row.original)}
+            className="h-8 w-8 p-0"
+            title="View invoice"
+          >
+            <Eye className="h-4 w-4" />
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -343,7 +360,7 @@ export function InvoiceTable({
           </Button>
         </div>
       ),
-      size: 100,
+      size: 140,
     }),
   ], [editingCell, expandedRows, onEdit, onDelete])
 
@@ -410,6 +427,37 @@ export function InvoiceTable({
                 <Download className="mr-2 h-4 w-4" />
                 Excel
               </Button>
+              {onExportEInvoice && (
+                <div className="relative">
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => setShowEInvoiceMenu(!showEInvoiceMenu)}
+                    className="h-9"
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    E-Invoice
+                    <ChevronDown className="ml-2 h-4 w-4" />
+                  </Button>
+                  {showEInvoiceMenu && (
+                    <div className="absolute right-0 z-10 mt-1 w-72 rounded-md border bg-white p-1 shadow-lg">
+                      {E_INVOICE_FORMATS.map((format) => (
+                        <button
+                          key={format.id}
+                          className="flex w-full flex-col items-start rounded px-3 py-2 text-left hover:bg-muted/50"
+                          onClick={() => {
+                            setShowEInvoiceMenu(false)
+                            onExportEInvoice(format.id)
+                          }}
+                        >
+                          <span className="text-sm font-medium">{format.label}</span>
+                          <span className="text-xs text-muted-foreground">{format.description}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -505,6 +553,43 @@ export function InvoiceTable({
                             {row.original.vendorAddress && (
                               <div><strong>Address:</strong> {row.original.vendorAddress}</div>
                             )}
+                            {row.original.vendorVatId && (
+                              <div><strong>Vendor VAT ID:</strong> {row.original.vendorVatId}{row.original.vendorCountry && ` (${row.original.vendorCountry})`}</div>
+                            )}
+                            {row.original.vendorEndpointId && (
+                              <div><strong>Vendor Peppol ID:</strong> {row.original.vendorEndpointScheme}:{row.original.vendorEndpointId}</div>
+                            )}
+                            {row.original.billTo && (
+                              <div><strong>Bill To:</strong> {row.original.billTo}</div>
+                            )}
+                            {row.original.billToVatId && (
+                              <div><strong>Buyer VAT ID:</strong> {row.original.billToVatId}{row.original.billToCountry && ` (${row.original.billToCountry})`}</div>
+                            )}
+                            {row.original.billToEndpointId && (
+                              <div><strong>Buyer Peppol ID:</strong> {row.original.billToEndpointScheme}:{row.original.billToEndpointId}</div>
+                            )}
+                            {row.original.buyerReference && (
+                              <div><strong>Buyer Reference:</strong> {row.original.buyerReference}</div>
+                            )}
+                            {(row.original.buyerAccountingOffice || row.original.buyerManagementBody || row.original.buyerProcessingUnit) && (
+                              <div><strong>DIR3:</strong> {[row.original.buyerAccountingOffice, row.original.buyerManagementBody, row.original.buyerProcessingUnit].map(code => code || '—').join(' / ')}</div>
+                            )}
+                            {row.original.fiscalUuid && (
+                              <div className="break-all"><strong>Fiscal ID:</strong> {row.original.fiscalUuid}</div>
+                            )}
+                            {row.original.taxBreakdown?.map((subtotal, index) => (
+                              <div key={`tax-${index}`}>
+                                <strong>VAT {subtotal.category} {subtotal.rate}%:</strong> {subtotal.taxAmount.toFixed(2)} on {subtotal.taxableAmount.toFixed(2)}
+                              </div>
+                            ))}
+                            {row.original.taxComponents?.map((component, index) => (
+                              <div key={`tax-component-${index}`}>
+                                <strong>{component.name}:</strong> {component.amount.toFixed(2)}{component.taxableAmount !== undefined && ` on ${component.taxableAmount.toFixed(2)}`}
+                              </div>
+                            ))}
+                            {row.original.items && row.original.items.length > 0 && (
+                              <div><strong>Line Items:</strong> {row.original.items.length}</div>
+                            )}
                             {row.original.authorizationCode && (
                               <div><strong>Auth Code:</strong> {row.original.authorizationCode}</div>
                             )}
@@ -577,6 +662,12 @@ export function InvoiceTable({
           )}
         </CardContent>
       </Card>
+
+      <InvoiceViewer
+        invoice={viewingInvoice}
+        open={viewingInvoice !== null}
+        onOpenChange={open => !open && setViewingInvoice(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
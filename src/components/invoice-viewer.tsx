@@ -0,0 +1,252 @@
+'use client'
+
+import { Printer } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { ExtractedInvoiceData } from '@/lib/ocr'
+import {
+  calculateInvoiceTotals,
+  getInvoiceLines,
+  getPaymentMeansCode,
+  getPaymentMeansName,
+  getTaxBreakdown,
+  getTaxCategoryName,
+  hasNegativeTotal
+} from '@/lib/einvoice'
+
+interface InvoiceViewerProps {
+  invoice: ExtractedInvoiceData | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+interface PartyDetails {
+  role: string
+  name?: string
+  address?: string
+  country?: string
+  vatId?: string
+  endpointId?: string
+  endpointScheme?: string
+  contact?: string[]
+  extra?: Array<[string, string]>
+}
+
+function formatAmount(value: number | undefined, currency?: string): string {
+  if (value === undefined) return '—'
+  if (currency) {
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value)
+    } catch {
+      // Not an ISO 4217 code, e.g. a '$' read by OCR
+      return `${value.toFixed(2)} ${currency}`
+    }
+  }
+  return value.toFixed(2)
+}
+
+function DetailRow({ label, value }: { label: string; value?: string }) {
+  if (!value) return null
+  return (
+    <div className="flex justify-between gap-4">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="text-right font-medium break-all">{value}</dd>
+    </div>
+  )
+}
+
+function PartyBlock({ party }: { party: PartyDetails }) {
+  return (
+    <section className="rounded-md border p-4 break-inside-avoid">
+      <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">{party.role}</h4>
+      <p className="font-semibold">{party.name || '—'}</p>
+      {party.address && <p className="whitespace-pre-line text-sm">{party.address}</p>}
+      {party.country && <p className="text-sm">{party.country}</p>}
+      <dl className="mt-3 space-y-1 text-sm">
+        <DetailRow label="VAT ID" value={party.vatId} />
+        <DetailRow label="Electronic address" value={party.endpointId && (party.endpointScheme ? `${party.endpointScheme}:${party.endpointId}` : party.endpointId)} />
+        {party.contact?.map(contact => <DetailRow key={contact} label="Contact" value={contact} />)}
+        {party.extra?.map(([label, value]) => <DetailRow key={label} label={label} value={value} />)}
+      </dl>
+    </section>
+  )
+}
+
+/**
+ * Printable rendering of an invoice in the layout of the XRechnung
+ * visualisation: header, seller and buyer, lines, VAT breakdown, totals and
+ * payment. It works from the parsed data, so every importable syntax (UBL,
+ * CII, FatturaPA, CFDI, NF-e, EDIFACT, X12) and OCR'd invoices render alike.
+ */
+export function InvoiceViewer({ invoice, open, onOpenChange }: InvoiceViewerProps) {
+  if (!invoice) return null
+
+  const currency = invoice.currency
+  const totals = calculateInvoiceTotals(invoice)
+  const lines = getInvoiceLines(invoice)
+  const taxBreakdown = getTaxBreakdown(invoice)
+  // Imported invoices already store the code name, OCR'd ones a card brand that maps to a code
+  const paymentMeansName = getPaymentMeansName(getPaymentMeansCode(invoice.paymentMethod))
+  const paymentMeans = paymentMeansName && paymentMeansName !== invoice.paymentMethod && paymentMeansName !== 'Not defined'
+    ? `${paymentMeansName} (${invoice.paymentMethod})`
+    : invoice.paymentMethod
+  const documentTitle = hasNegativeTotal(invoice) ? 'Credit Note' : 'Invoice'
+  const dir3 = [invoice.buyerAccountingOffice, invoice.buyerManagementBody, invoice.buyerProcessingUnit]
+
+  const seller: PartyDetails = {
+    role: 'Seller',
+    name: invoice.vendor,
+    address: invoice.vendorAddress,
+    country: invoice.vendorCountry,
+    vatId: invoice.vendorVatId,
+    endpointId: invoice.vendorEndpointId,
+    endpointScheme: invoice.vendorEndpointScheme,
+    contact: [invoice.vendorPhone, invoice.vendorEmail].filter((value): value is string => !!value)
+  }
+  const buyer: PartyDetails = {
+    role: 'Buyer',
+    name: invoice.billTo,
+    address: invoice.billToAddress,
+    country: invoice.billToCountry,
+    vatId: invoice.billToVatId,
+    endpointId: invoice.billToEndpointId,
+    endpointScheme: invoice.billToEndpointScheme,
+    extra: dir3.some(Boolean) ? [['DIR3', dir3.map(code => code || '—').join(' / ')]] : undefined
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="invoice-print max-w-4xl max-h-[90vh] overflow-y-auto print:static print:max-h-none print:max-w-none print:translate-x-0 print:translate-y-0 print:overflow-visible print:border-0 print:p-0 print:shadow-none">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">
+            {documentTitle} {invoice.invoiceNumber}
+          </DialogTitle>
+          <DialogDescription>
+            {invoice.processingMethod ? `Source: ${invoice.processingMethod}` : 'Extracted invoice'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <dl className="grid grid-cols-1 gap-x-8 gap-y-1 text-sm sm:grid-cols-2">
+          <DetailRow label="Issue date" value={[invoice.date, invoice.time].filter(Boolean).join(' ')} />
+          <DetailRow label="Due date" value={invoice.dueDate} />
+          <DetailRow label="Currency" value={currency} />
+          <DetailRow label="Buyer reference" value={invoice.buyerReference} />
+          <DetailRow label="Fiscal ID" value={invoice.fiscalUuid} />
+        </dl>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 print:grid-cols-2">
+          <PartyBlock party={seller} />
+          <PartyBlock party={buyer} />
+        </div>
+
+        <section>
+          <h4 className="mb-2 font-semibold">Invoice lines</h4>
+          <table className="w-full text-sm">
+            <thead className="border-b text-left text-muted-foreground">
+              <tr>
+                <th className="py-2 pr-2 font-medium">#</th>
+                <th className="py-2 pr-2 font-medium">Description</th>
+                <th className="py-2 pr-2 text-right font-medium">Quantity</th>
+                <th className="py-2 pr-2 text-right font-medium">Unit price</th>
+                <th className="py-2 pr-2 text-right font-medium">VAT</th>
+                <th className="py-2 text-right font-medium">Net amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map((line, index) => (
+                <tr key={index} className="border-b last:border-0 break-inside-avoid">
+                  <td className="py-2 pr-2 align-top">{index + 1}</td>
+                  <td className="py-2 pr-2 align-top">
+                    {line.description}
+                    {line.productCode && <span className="block text-xs text-muted-foreground">{line.productCode}</span>}
+                  </td>
+                  <td className="py-2 pr-2 text-right align-top">{line.quantity ?? 1}{line.unitCode && ` ${line.unitCode}`}</td>
+                  <td className="py-2 pr-2 text-right align-top">{formatAmount(line.unitPrice, currency)}</td>
+                  <td className="py-2 pr-2 text-right align-top">{line.taxCategory} {line.taxRate}%</td>
+                  <td className="py-2 text-right align-top">{formatAmount(line.amount, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 print:grid-cols-2">
+          <section className="break-inside-avoid">
+            <h4 className="mb-2 font-semibold">VAT breakdown</h4>
+            <table className="w-full text-sm">
+              <thead className="border-b text-left text-muted-foreground">
+                <tr>
+                  <th className="py-2 pr-2 font-medium">Category</th>
+                  <th className="py-2 pr-2 text-right font-medium">Taxable</th>
+                  <th className="py-2 text-right font-medium">VAT</th>
+                </tr>
+              </thead>
+              <tbody>
+                {taxBreakdown.map((subtotal, index) => (
+                  <tr key={index} className="border-b last:border-0">
+                    <td className="py-2 pr-2 align-top">
+                      {getTaxCategoryName(subtotal.category)} {subtotal.rate}%
+                      {subtotal.exemptionReason && <span className="block text-xs text-muted-foreground">{subtotal.exemptionReason}</span>}
+                    </td>
+                    <td className="py-2 pr-2 text-right align-top">{formatAmount(subtotal.taxableAmount, currency)}</td>
+                    <td className="py-2 text-right align-top">{formatAmount(subtotal.taxAmount, currency)}</td>
+                  </tr>
+                ))}
+                {invoice.taxComponents?.map((component, index) => (
+                  <tr key={`component-${index}`} className="border-b last:border-0">
+                    <td className="py-2 pr-2">{component.name}</td>
+                    <td className="py-2 pr-2 text-right">{formatAmount(component.taxableAmount, currency)}</td>
+                    <td className="py-2 text-right">{formatAmount(component.amount, currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <section className="break-inside-avoid">
+            <h4 className="mb-2 font-semibold">Totals</h4>
+            <dl className="space-y-1 text-sm">
+              <DetailRow label="Sum of line net amounts" value={formatAmount(totals.lineExtensionAmount, currency)} />
+              <DetailRow label="Total without VAT" value={formatAmount(totals.taxExclusiveAmount, currency)} />
+              <DetailRow label="Total VAT" value={formatAmount(totals.taxAmount, currency)} />
+              <div className="flex justify-between gap-4 border-t pt-2 text-base font-semibold">
+                <dt>Amount due</dt>
+                <dd>{formatAmount(totals.taxInclusiveAmount, currency)}</dd>
+              </div>
+            </dl>
+          </section>
+        </div>
+
+        <section className="break-inside-avoid">
+          <h4 className="mb-2 font-semibold">Payment</h4>
+          <dl className="grid grid-cols-1 gap-x-8 gap-y-1 text-sm sm:grid-cols-2">
+            <DetailRow label="Payment means" value={paymentMeans} />
+            <DetailRow label="Due date" value={invoice.dueDate} />
+            <DetailRow label="Card" value={invoice.cardNumber} />
+            <DetailRow label="IBAN" value={invoice.paymentAccountIban} />
+            <DetailRow label="BIC" value={invoice.paymentAccountBic} />
+            <DetailRow label="Transaction" value={invoice.transactionId} />
+            <DetailRow label="Authorization code" value={invoice.authorizationCode} />
+          </dl>
+          {!invoice.paymentMethod && !invoice.dueDate && !invoice.cardNumber && !invoice.paymentAccountIban && !invoice.transactionId && (
+            <p className="text-sm text-muted-foreground">No payment details on this invoice.</p>
+          )}
+        </section>
+
+        <DialogFooter className="print:hidden">
+          <Button variant="outline" onClick={() => window.print()}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
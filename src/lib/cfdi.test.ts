@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { CFDIParser, CFDISerializer, CFDIValidator } from './cfdi'
+import { ExtractedInvoiceData } from './ocr'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'cfdi-1',
+  invoiceNumber: 'A123',
+  date: '03/15/2025',
+  vendor: 'Empresa SA de CV',
+  vendorVatId: 'EKU9003173C9',
+  vendorAddress: 'Av Reforma 1, 06600 CDMX',
+  billTo: 'Cliente SA',
+  billToVatId: 'XOJI740919U48',
+  billToAddress: 'Calle 2, 44100 Guadalajara',
+  billToCountry: 'MX',
+  subtotal: 100,
+  tax: 16,
+  total: 116,
+  currency: 'MXN',
+  paymentMethod: 'VISA',
+  items: [{ description: 'Servicio', quantity: 1, unitPrice: 100, amount: 100, productCode: '81111500', unitCode: 'E48' }]
+}
+
+// What the PAC adds when stamping
+const TIMBRE = '<cfdi:Complemento><tfd:TimbreFiscalDigital xmlns:tfd="http://www.sat.gob.mx/TimbreFiscalDigital" ' +
+  'Version="1.1" UUID="6F8B6B5E-1234-4C3A-9E2B-111111111111"/></cfdi:Complemento>'
+
+describe('CFDI round trip', () => {
+  it('reads back what it writes', () => {
+    const parsed = CFDIParser.parse(CFDISerializer.toXML(invoice))
+
+    // Names are exported in upper case and addresses reduced to their postal code, as the SAT requires
+    expect(parsed).toMatchObject({
+      invoiceNumber: 'A123',
+      date: '03/15/2025',
+      vendor: 'EMPRESA SA DE CV',
+      vendorVatId: 'EKU9003173C9',
+      vendorCountry: 'MX',
+      vendorAddress: '06600',
+      billTo: 'CLIENTE SA',
+      billToVatId: 'XOJI740919U48',
+      billToCountry: 'MX',
+      billToAddress: '44100',
+      subtotal: 100,
+      tax: 16,
+      total: 116,
+      currency: 'MXN',
+      paymentMethod: 'Credit card',
+      processingMethod: 'cfdi-xml'
+    })
+    expect(parsed.taxBreakdown).toMatchObject([{ category: 'S', rate: 16, taxableAmount: 100, taxAmount: 16 }])
+    expect(parsed.items).toMatchObject([
+      { description: 'Servicio', quantity: 1, unitPrice: 100, amount: 100, unitCode: 'E48', productCode: '81111500' }
+    ])
+  })
+
+  it('reads the folio fiscal of a stamped CFDI', () => {
+    const stamped = CFDISerializer.toXML(invoice).replace('</cfdi:Comprobante>', `${TIMBRE}</cfdi:Comprobante>`)
+
+    expect(CFDIParser.parse(stamped).fiscalUuid).toBe('6F8B6B5E-1234-4C3A-9E2B-111111111111')
+  })
+
+  it('states the exchange rate for other currencies', () => {
+    expect(CFDISerializer.toXML({ ...invoice, currency: 'USD' }, { tipoCambio: 17.1234 })).toContain('Moneda="USD" TipoCambio="17.123400"')
+    expect(CFDISerializer.toXML(invoice, { tipoCambio: 17.1234 })).not.toContain('TipoCambio')
+  })
+
+  it('uses the generic RFC for foreign receivers', () => {
+    const xml = CFDISerializer.toXML({ ...invoice, billToCountry: 'US', billToVatId: undefined })
+
+    expect(xml).toContain('Rfc="XEXX010101000"')
+    expect(CFDIParser.parse(xml).billToVatId).toBeUndefined()
+  })
+})
+
+describe('CFDIValidator', () => {
+  it('accepts a complete invoice', () => {
+    expect(CFDIValidator.validate(invoice)).toEqual([])
+  })
+
+  it('requires valid RFCs and the postal code of the place of issue', () => {
+    const issues = CFDIValidator.validate({ ...invoice, vendorVatId: 'ABC', billToVatId: 'bad', vendorAddress: 'Av Reforma 1' })
+
+    expect(issues.map(issue => [issue.ruleId, issue.field])).toEqual([
+      ['CFDI-RFC', 'vendorVatId'],
+      ['CFDI-RFC', 'billToVatId'],
+      ['CFDI-LugarExpedicion', 'vendorAddress']
+    ])
+    expect(CFDIValidator.validate({ ...invoice, vendorAddress: 'Av Reforma 1' }, { lugarExpedicion: '06600' })).toEqual([])
+  })
+
+  it('requires the exchange rate unless the currency is MXN', () => {
+    expect(CFDIValidator.validate({ ...invoice, currency: 'USD' })).toMatchObject([
+      { ruleId: 'CFDI-TipoCambio', severity: 'fatal', field: 'currency' }
+    ])
+    expect(CFDIValidator.validate({ ...invoice, currency: 'USD' }, { tipoCambio: 17.1234 })).toEqual([])
+    expect(CFDIValidator.validate({ ...invoice, currency: undefined })).toEqual([])
+  })
+
+  it('only warns about a malformed folio fiscal', () => {
+    expect(CFDIValidator.validate({ ...invoice, fiscalUuid: 'xyz' })).toMatchObject([
+      { ruleId: 'CFDI-UUID', severity: 'warning', field: 'fiscalUuid' }
+    ])
+  })
+})
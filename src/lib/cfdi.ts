@@ -0,0 +1,371 @@
+import { ExtractedInvoiceData, InvoiceItem, TaxBreakdown } from './ocr'
+import {
+  calculateInvoiceTotals,
+  getInvoiceLines,
+  getPaymentMeansCode,
+  getPaymentMeansName,
+  getTaxBreakdown,
+  hasNegativeTotal,
+  splitPostalAddress
+} from './einvoice'
+import {
+  el,
+  serializeXml,
+  formatXmlAmount,
+  formatXmlDate,
+  XmlAttributes,
+  XmlElement,
+  parseXml,
+  findElement,
+  findElements,
+  parseXmlDate
+} from './xml'
+import { ValidationIssue, ValidationSeverity } from './en16931-validator'
+
+export interface CFDIExportOptions {
+  // SAT c_RegimenFiscal of the issuer and receiver (601 = General de Ley Personas Morales)
+  regimenFiscal?: string
+  regimenFiscalReceptor?: string
+  // SAT c_UsoCFDI (G03 = Gastos en general)
+  usoCFDI?: string
+  // SAT c_MetodoPago: PUE (single payment) or PPD (installments / deferred)
+  metodoPago?: 'PUE' | 'PPD'
+  // Postal code of the place of issue when the seller address has none
+  lugarExpedicion?: string
+  // Default SAT c_ClaveProdServ for lines without a product code
+  defaultClaveProdServ?: string
+  // MXN per unit of the invoice currency (TipoCambio); required unless Moneda is MXN
+  tipoCambio?: number
+}
+
+const CFDI_NAMESPACE = 'http://www.sat.gob.mx/cfd/4'
+const CFDI_SCHEMA_LOCATION = 'http://www.sat.gob.mx/cfd/4 http://www.sat.gob.mx/sitio_internet/cfd/4/cfdv40.xsd'
+
+// Generic RFCs for the general public and foreign receivers
+const RFC_PUBLICO_GENERAL = 'XAXX010101000'
+const RFC_EXTRANJERO = 'XEXX010101000'
+
+// Personas morales have a three letter prefix, personas físicas four; then the date and the homoclave
+const RFC_PATTERN = /^[A-ZÑ&]{3,4}\d{6}[A-Z\d]{3}$/
+
+// Currencies without an exchange rate: the peso itself and XXX (no currency involved)
+const CURRENCIES_WITHOUT_TIPO_CAMBIO = ['MXN', 'XXX']
+
+// Folio fiscal assigned by the PAC in the TimbreFiscalDigital
+const UUID_PATTERN = /^[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}$/i
+
+// SAT c_ClaveProdServ "No existe en el catálogo"
+const DEFAULT_CLAVE_PROD_SERV = '01010101'
+
+// SAT c_Impuesto: 002 = IVA
+const IMPUESTO_IVA = '002'
+
+// UNTDID 4461 payment means to SAT c_FormaPago
+const FORMA_PAGO: Record<string, string> = {
+  '10': '01',
+  '20': '02',
+  '30': '03',
+  '31': '03',
+  '42': '03',
+  '58': '03',
+  '54': '04',
+  '48': '04',
+  '55': '28'
+}
+
+const FORMA_PAGO_MEANS: Record<string, string> = {
+  '01': '10',
+  '02': '20',
+  '03': '30',
+  '04': '54',
+  '28': '55'
+}
+
+// Empty element with attributes only; el() drops elements without content
+function attributesOnly(name: string, attributes: XmlAttributes): XmlElement {
+  return { name, attributes }
+}
+
+// Imported CFDIs store the bare postal code (LugarExpedicion, DomicilioFiscalReceptor) as the address
+function getPostCode(address?: string): string | undefined {
+  return splitPostalAddress(address).postCode || address?.trim().match(/^\d{5}$/)?.[0]
+}
+
+function formatRate(rate: number): string {
+  return (rate / 100).toFixed(6)
+}
+
+function getAttributeNumber(element: Element | undefined, name: string): number | undefined {
+  const value = element?.getAttribute(name)
+  if (!value) return undefined
+  const number = parseFloat(value)
+  return isNaN(number) ? undefined : number
+}
+
+function getAttribute(element: Element | undefined, name: string): string | undefined {
+  return element?.getAttribute(name) || undefined
+}
+
+export class CFDISerializer {
+  /**
+   * Unsigned CFDI 4.0 Comprobante. Sello, NoCertificado and Certificado are
+   * added when the issuer signs with its CSD, and the TimbreFiscalDigital by
+   * the PAC when stamping.
+   */
+  static toXML(invoice: ExtractedInvoiceData, options: CFDIExportOptions = {}): string {
+    const isCreditNote = hasNegativeTotal(invoice)
+    // Egresos carry positive amounts; TipoDeComprobante conveys the sign
+    const sign = isCreditNote ? -1 : 1
+    const amount = (value: number | undefined) => formatXmlAmount(value === undefined ? undefined : value * sign)
+
+    const totals = calculateInvoiceTotals(invoice)
+    const lines = getInvoiceLines(invoice)
+    const taxBreakdown = getTaxBreakdown(invoice)
+    const paymentMeansCode = getPaymentMeansCode(invoice.paymentMethod)
+    const metodoPago = options.metodoPago || 'PUE'
+    // PPD invoices must leave the payment form open ("99 Por definir")
+    const formaPago = metodoPago === 'PPD' ? '99' : FORMA_PAGO[paymentMeansCode || ''] || '99'
+
+    const moneda = invoice.currency || 'MXN'
+    const lugarExpedicion = options.lugarExpedicion || getPostCode(invoice.vendorAddress)
+    const receptor = this.getReceptor(invoice, options, lugarExpedicion)
+
+    const trasladosTotal = taxBreakdown
+      .filter(subtotal => subtotal.category !== 'E')
+      .reduce((sum, subtotal) => sum + subtotal.taxAmount, 0)
+
+    const root = el('cfdi:Comprobante', [
+      attributesOnly('cfdi:Emisor', {
+        Rfc: invoice.vendorVatId?.toUpperCase(),
+        Nombre: invoice.vendor?.toUpperCase(),
+        RegimenFiscal: options.regimenFiscal || '601'
+      }),
+      attributesOnly('cfdi:Receptor', receptor),
+      el('cfdi:Conceptos', lines.map((item, index) => {
+        const base = amount(item.amount)
+        return el('cfdi:Concepto', [
+          el('cfdi:Impuestos', [
+            el('cfdi:Traslados', [
+              this.buildTraslado(item.taxCategory, item.taxRate ?? 0, base,
+                amount((item.amount || 0) * (item.taxRate ?? 0) / 100))
+            ])
+          ])
+        ], {
+          ClaveProdServ: item.productCode || options.defaultClaveProdServ || DEFAULT_CLAVE_PROD_SERV,
+          Cantidad: formatXmlAmount(item.quantity ?? 1, 6),
+          ClaveUnidad: item.unitCode || 'H87',
+          Descripcion: item.description || `Item ${index + 1}`,
+          ValorUnitario: amount(item.unitPrice ?? item.amount),
+          Importe: base,
+          ObjetoImp: '02'
+        })
+      })),
+      el('cfdi:Impuestos', [
+        el('cfdi:Traslados', taxBreakdown.map(subtotal =>
+          this.buildTraslado(subtotal.category, subtotal.rate, amount(subtotal.taxableAmount), amount(subtotal.taxAmount))
+        ))
+      ], {
+        TotalImpuestosTrasladados: amount(trasladosTotal)
+      })
+    ], {
+      'xmlns:cfdi': CFDI_NAMESPACE,
+      'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+      'xsi:schemaLocation': CFDI_SCHEMA_LOCATION,
+      Version: '4.0',
+      Folio: invoice.invoiceNumber,
+      Fecha: this.formatFecha(invoice.date),
+      FormaPago: formaPago,
+      SubTotal: amount(totals.taxExclusiveAmount),
+      Moneda: moneda,
+      TipoCambio: CURRENCIES_WITHOUT_TIPO_CAMBIO.includes(moneda) ? undefined : formatXmlAmount(options.tipoCambio, 6),
+      Total: amount(totals.taxInclusiveAmount),
+      TipoDeComprobante: isCreditNote ? 'E' : 'I',
+      Exportacion: '01',
+      MetodoPago: metodoPago,
+      LugarExpedicion: lugarExpedicion
+    })
+
+    return serializeXml(root)
+  }
+
+  static getFilename(invoice: ExtractedInvoiceData, index: number = 0): string {
+    const base = (invoice.invoiceNumber || `invoice_${index + 1}`).replace(/[^A-Za-z0-9._-]/g, '_')
+    return `${base}_cfdi.xml`
+  }
+
+  // CFDI uses local date-time without offset
+  private static formatFecha(date?: string): string | undefined {
+    const isoDate = formatXmlDate(date)
+    return isoDate ? `${isoDate}T00:00:00` : undefined
+  }
+
+  private static getReceptor(invoice: ExtractedInvoiceData, options: CFDIExportOptions, lugarExpedicion?: string): XmlAttributes {
+    const isForeign = !!invoice.billToCountry && invoice.billToCountry !== 'MX'
+    const rfc = isForeign ? RFC_EXTRANJERO : invoice.billToVatId?.toUpperCase() || RFC_PUBLICO_GENERAL
+    const isPublicoGeneral = rfc === RFC_PUBLICO_GENERAL
+
+    return {
+      Rfc: rfc,
+      Nombre: isPublicoGeneral ? 'PUBLICO EN GENERAL' : invoice.billTo?.toUpperCase(),
+      // Generic receivers use the place of issue as fiscal domicile
+      DomicilioFiscalReceptor: isPublicoGeneral || isForeign
+        ? lugarExpedicion
+        : getPostCode(invoice.billToAddress),
+      ResidenciaFiscal: isForeign ? this.toAlpha3(invoice.billToCountry!) : undefined,
+      NumRegIdTrib: isForeign ? invoice.billToVatId : undefined,
+      RegimenFiscalReceptor: isPublicoGeneral || isForeign ? '616' : options.regimenFiscalReceptor || '601',
+      UsoCFDI: isPublicoGeneral || isForeign ? 'S01' : options.usoCFDI || 'G03'
+    }
+  }
+
+  // ResidenciaFiscal uses the SAT c_Pais (ISO 3166-1 alpha-3) codes
+  private static toAlpha3(countryCode: string): string {
+    const codes: Record<string, string> = {
+      US: 'USA', CA: 'CAN', ES: 'ESP', DE: 'DEU', FR: 'FRA', IT: 'ITA', GB: 'GBR', BR: 'BRA', CN: 'CHN', JP: 'JPN'
+    }
+    return codes[countryCode] || countryCode
+  }
+
+  private static buildTraslado(category: string | undefined, rate: number, base?: string, importe?: string): XmlElement {
+    // Exempt amounts carry no rate or tax amount
+    if (category === 'E') {
+      return attributesOnly('cfdi:Traslado', { Base: base, Impuesto: IMPUESTO_IVA, TipoFactor: 'Exento' })
+    }
+    return attributesOnly('cfdi:Traslado', {
+      Base: base,
+      Impuesto: IMPUESTO_IVA,
+      TipoFactor: 'Tasa',
+      TasaOCuota: formatRate(rate),
+      Importe: importe
+    })
+  }
+}
+
+export class CFDIParser {
+  static isCFDI(doc: Document): boolean {
+    const root = doc.documentElement
+    return root.localName === 'Comprobante' && (root.namespaceURI || '').startsWith('http://www.sat.gob.mx/cfd/')
+  }
+
+  static parse(xml: string, doc: Document = parseXml(xml)): ExtractedInvoiceData {
+    if (!this.isCFDI(doc)) {
+      throw new Error(`Not a CFDI invoice: unexpected root element <${doc.documentElement.localName}>`)
+    }
+
+    const root = doc.documentElement
+    const isCreditNote = root.getAttribute('TipoDeComprobante') === 'E'
+    // Stored with a negative sign so the row totals and re-exports treat it as a credit
+    const sign = isCreditNote ? -1 : 1
+    const signed = (value: number | undefined) => value === undefined ? undefined : value * sign
+
+    const emisor = findElement(root, 'Emisor')
+    const receptor = findElement(root, 'Receptor')
+    const impuestos = findElement(root, 'Impuestos')
+    const timbre = findElement(root, 'Complemento', 'TimbreFiscalDigital')
+
+    const taxBreakdown: TaxBreakdown[] = findElements(impuestos, 'Traslados', 'Traslado')
+      .filter(traslado => getAttribute(traslado, 'Impuesto') === IMPUESTO_IVA)
+      .map(traslado => {
+        const isExempt = getAttribute(traslado, 'TipoFactor') === 'Exento'
+        const rate = (getAttributeNumber(traslado, 'TasaOCuota') ?? 0) * 100
+        return {
+          category: isExempt ? 'E' : rate === 0 ? 'Z' : 'S',
+          rate: Math.round(rate * 100) / 100,
+          taxableAmount: signed(getAttributeNumber(traslado, 'Base')) ?? 0,
+          taxAmount: signed(getAttributeNumber(traslado, 'Importe')) ?? 0
+        }
+      })
+
+    const items: InvoiceItem[] = findElements(root, 'Conceptos', 'Concepto').map(concepto => {
+      const traslado = findElement(concepto, 'Impuestos', 'Traslados', 'Traslado')
+      const isExempt = getAttribute(traslado, 'TipoFactor') === 'Exento'
+      const rate = traslado ? (getAttributeNumber(traslado, 'TasaOCuota') ?? 0) * 100 : undefined
+      return {
+        description: getAttribute(concepto, 'Descripcion') || '',
+        quantity: getAttributeNumber(concepto, 'Cantidad'),
+        unitPrice: signed(getAttributeNumber(concepto, 'ValorUnitario')),
+        amount: signed(getAttributeNumber(concepto, 'Importe')),
+        unitCode: getAttribute(concepto, 'ClaveUnidad'),
+        productCode: getAttribute(concepto, 'ClaveProdServ'),
+        taxRate: rate === undefined ? undefined : Math.round(rate * 100) / 100,
+        taxCategory: traslado ? (isExempt ? 'E' : rate === 0 ? 'Z' : 'S') : undefined
+      }
+    })
+
+    const serie = getAttribute(root, 'Serie')
+    const folio = getAttribute(root, 'Folio')
+    const formaPago = getAttribute(root, 'FormaPago')
+    const residencia = getAttribute(receptor, 'ResidenciaFiscal')
+
+    return {
+      id: crypto.randomUUID(),
+      invoiceNumber: serie && folio ? `${serie}-${folio}` : folio || serie,
+      date: parseXmlDate(getAttribute(root, 'Fecha')),
+      vendor: getAttribute(emisor, 'Nombre'),
+      vendorVatId: getAttribute(emisor, 'Rfc'),
+      vendorCountry: 'MX',
+      vendorAddress: getAttribute(root, 'LugarExpedicion'),
+      billTo: getAttribute(receptor, 'Nombre'),
+      billToVatId: residencia ? getAttribute(receptor, 'NumRegIdTrib') : getAttribute(receptor, 'Rfc'),
+      billToCountry: residencia ? undefined : 'MX',
+      billToAddress: getAttribute(receptor, 'DomicilioFiscalReceptor'),
+      subtotal: signed(getAttributeNumber(root, 'SubTotal')),
+      tax: signed(getAttributeNumber(impuestos, 'TotalImpuestosTrasladados')),
+      total: signed(getAttributeNumber(root, 'Total')),
+      currency: getAttribute(root, 'Moneda'),
+      paymentMethod: formaPago && FORMA_PAGO_MEANS[formaPago]
+        ? getPaymentMeansName(FORMA_PAGO_MEANS[formaPago])
+        : undefined,
+      fiscalUuid: getAttribute(timbre, 'UUID'),
+      taxBreakdown: taxBreakdown.length > 0 ? taxBreakdown : undefined,
+      items,
+      rawText: xml,
+      processingMethod: 'cfdi-xml',
+      confidence: 100
+    }
+  }
+}
+
+export class CFDIValidator {
+  /**
+   * The SAT checks a PAC applies before stamping that we can make without the
+   * catalogues: issuer and receiver RFCs, the place of issue and the format
+   * of an imported folio fiscal.
+   */
+  static validate(invoice: ExtractedInvoiceData, options: CFDIExportOptions = {}): ValidationIssue[] {
+    const issues: ValidationIssue[] = []
+    const report = (ruleId: string, field: string, message: string, severity: ValidationSeverity = 'fatal') => {
+      issues.push({ ruleId, severity, field, message })
+    }
+
+    const emisorRfc = invoice.vendorVatId?.trim().toUpperCase()
+    if (!emisorRfc) {
+      report('CFDI-RFC', 'vendorVatId', 'The issuer RFC (Emisor Rfc) is required')
+    } else if (!RFC_PATTERN.test(emisorRfc)) {
+      report('CFDI-RFC', 'vendorVatId', `"${invoice.vendorVatId}" is not a valid RFC for the issuer`)
+    }
+
+    // Foreign receivers carry their tax ID in NumRegIdTrib and the generic RFC instead
+    const isForeign = !!invoice.billToCountry && invoice.billToCountry !== 'MX'
+    const receptorRfc = invoice.billToVatId?.trim().toUpperCase()
+    if (!isForeign && receptorRfc && !RFC_PATTERN.test(receptorRfc)) {
+      report('CFDI-RFC', 'billToVatId', `"${invoice.billToVatId}" is not a valid RFC for the receiver`)
+    }
+
+    const moneda = invoice.currency || 'MXN'
+    if (!CURRENCIES_WITHOUT_TIPO_CAMBIO.includes(moneda) && !(options.tipoCambio && options.tipoCambio > 0)) {
+      report('CFDI-TipoCambio', 'currency', `CFDIs in ${moneda} need the exchange rate to MXN (TipoCambio)`)
+    }
+
+    if (!options.lugarExpedicion && !getPostCode(invoice.vendorAddress)) {
+      report('CFDI-LugarExpedicion', 'vendorAddress', 'The place of issue (LugarExpedicion) needs the postal code of the seller address')
+    }
+
+    // The folio fiscal is assigned on stamping, so a malformed one only points at a bad import or OCR read
+    if (invoice.fiscalUuid && !UUID_PATTERN.test(invoice.fiscalUuid)) {
+      report('CFDI-UUID', 'fiscalUuid', `"${invoice.fiscalUuid}" is not a valid folio fiscal UUID`, 'warning')
+    }
+
+    return issues
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { CII_PROFILE_GUIDELINES, CIIParser, CIISerializer } from './cii'
+import { ExtractedInvoiceData } from './ocr'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'cii-1',
+  invoiceNumber: 'RE-2025-17',
+  date: '03/15/2025',
+  dueDate: '04/01/2025',
+  vendor: 'Muster GmbH',
+  vendorAddress: 'Hauptstraße 5, 10115 Berlin',
+  vendorVatId: 'DE123456789',
+  vendorCountry: 'DE',
+  vendorEmail: 'rechnung@muster.de',
+  billTo: 'Kunde AG',
+  billToCountry: 'AT',
+  billToVatId: 'ATU12345678',
+  subtotal: 100,
+  tax: 19,
+  total: 119,
+  currency: 'EUR',
+  paymentMethod: 'SEPA credit transfer',
+  items: [{ description: 'Beratung', quantity: 2, unitPrice: 50, amount: 100 }]
+}
+
+describe('CII round trip', () => {
+  it('reads back what it writes', () => {
+    const parsed = CIIParser.parse(CIISerializer.toXML(invoice))
+
+    expect(parsed).toMatchObject({
+      invoiceNumber: 'RE-2025-17',
+      date: '03/15/2025',
+      dueDate: '04/01/2025',
+      vendor: 'Muster GmbH',
+      vendorVatId: 'DE123456789',
+      vendorCountry: 'DE',
+      vendorEmail: 'rechnung@muster.de',
+      vendorEndpointScheme: '9930',
+      vendorEndpointId: 'DE123456789',
+      billTo: 'Kunde AG',
+      billToCountry: 'AT',
+      billToVatId: 'ATU12345678',
+      billToEndpointScheme: '9914',
+      billToEndpointId: 'ATU12345678',
+      subtotal: 100,
+      tax: 19,
+      total: 119,
+      currency: 'EUR',
+      paymentMethod: 'SEPA credit transfer',
+      processingMethod: 'cii-xml'
+    })
+    expect(parsed.taxBreakdown).toMatchObject([{ category: 'S', rate: 19, taxableAmount: 100, taxAmount: 19 }])
+    expect(parsed.items).toMatchObject([{ description: 'Beratung', quantity: 2, unitPrice: 50, amount: 100 }])
+  })
+
+  it('writes negative totals as a credit note and reads them back negative', () => {
+    const credit: ExtractedInvoiceData = {
+      ...invoice,
+      subtotal: -100,
+      tax: -19,
+      total: -119,
+      items: [{ description: 'Beratung', quantity: 2, unitPrice: -50, amount: -100 }]
+    }
+    const xml = CIISerializer.toXML(credit)
+
+    expect(xml).toContain('<ram:TypeCode>381</ram:TypeCode>')
+    expect(CIIParser.parse(xml)).toMatchObject({ subtotal: -100, tax: -19, total: -119 })
+  })
+
+  it('states the guideline of the chosen profile', () => {
+    const xml = CIISerializer.toXML(invoice, { profile: 'EXTENDED' })
+
+    expect(xml).toContain(`<ram:ID>${CII_PROFILE_GUIDELINES.EXTENDED}</ram:ID>`)
+  })
+
+  it('rejects documents that are not CII', () => {
+    expect(() => CIIParser.parse('<Invoice/>')).toThrow('Not a CII invoice')
+  })
+})
@@ -0,0 +1,351 @@
+import { ExtractedInvoiceData, InvoiceItem, TaxBreakdown } from './ocr'
+import {
+  calculateInvoiceTotals,
+  getCardAccountNumber,
+  getInvoiceLines,
+  getPaymentMeansCode,
+  getPaymentMeansName,
+  getTaxBreakdown,
+  hasNegativeTotal,
+  isDirectDebit,
+  normalizeIban,
+  splitPostalAddress
+} from './einvoice'
+import { getPeppolEndpoint, PeppolEndpoint } from './peppol-identifiers'
+import {
+  el,
+  serializeXml,
+  formatXmlAmount,
+  formatXmlDate,
+  XmlElement,
+  parseXml,
+  findElement,
+  findElements,
+  elementText,
+  elementNumber,
+  parseXmlDate
+} from './xml'
+
+export type CIIProfile = 'MINIMUM' | 'BASIC WL' | 'BASIC' | 'EN 16931' | 'EXTENDED'
+
+export interface CIIExportOptions {
+  profile?: CIIProfile
+  guidelineId?: string
+  sellerContactName?: string
+  sellerCountryCode?: string
+  buyerCountryCode?: string
+  defaultTaxCategory?: string
+}
+
+// Guideline identifiers (BT-24) of the Factur-X 1.0 / ZUGFeRD 2.x profiles
+export const CII_PROFILE_GUIDELINES: Record<CIIProfile, string> = {
+  'MINIMUM': 'urn:factur-x.eu:1p0:minimum',
+  'BASIC WL': 'urn:factur-x.eu:1p0:basicwl',
+  'BASIC': 'urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:basic',
+  'EN 16931': 'urn:cen.eu:en16931:2017',
+  'EXTENDED': 'urn:cen.eu:en16931:2017#conformant#urn:factur-x.eu:1p0:extended'
+}
+
+const CII_NAMESPACES = {
+  'xmlns:rsm': 'urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100',
+  'xmlns:ram': 'urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100',
+  'xmlns:qdt': 'urn:un:unece:uncefact:data:standard:QualifiedDataType:100',
+  'xmlns:udt': 'urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100'
+}
+
+// UNTDID 1001 document types that reverse the sign of the amounts
+const CREDIT_TYPE_CODES = ['381', '261', '262', '296', '308', '396', '420', '458']
+
+export class CIISerializer {
+  static toXML(invoice: ExtractedInvoiceData, options: CIIExportOptions = {}): string {
+    const isCreditNote = hasNegativeTotal(invoice)
+    // Credit notes carry positive amounts; the type code conveys the sign
+    const sign = isCreditNote ? -1 : 1
+    const currency = invoice.currency || 'EUR'
+    const amount = (value: number | undefined) => formatXmlAmount(value === undefined ? undefined : value * sign)
+
+    const totals = calculateInvoiceTotals(invoice)
+    const taxBreakdown = getTaxBreakdown(invoice, options.defaultTaxCategory)
+    const lines = getInvoiceLines(invoice, options.defaultTaxCategory)
+    const paymentMeansCode = getPaymentMeansCode(invoice.paymentMethod)
+    const paymentAccount = normalizeIban(invoice.paymentAccountIban)
+    const profile = options.profile || 'EN 16931'
+    // MINIMUM and BASIC WL carry header data only; MINIMUM also drops the VAT breakdown and contacts
+    const isMinimum = profile === 'MINIMUM'
+    const includeLines = profile !== 'MINIMUM' && profile !== 'BASIC WL'
+
+    const root = el('rsm:CrossIndustryInvoice', [
+      el('rsm:ExchangedDocumentContext', [
+        el('ram:GuidelineSpecifiedDocumentContextParameter', [
+          el('ram:ID', options.guidelineId || CII_PROFILE_GUIDELINES[profile])
+        ])
+      ]),
+      el('rsm:ExchangedDocument', [
+        el('ram:ID', invoice.invoiceNumber),
+        el('ram:TypeCode', isCreditNote ? '381' : '380'),
+        this.buildDateTime('ram:IssueDateTime', invoice.date)
+      ]),
+      el('rsm:SupplyChainTradeTransaction', [
+        ...(includeLines ? lines : []).map((item, index) => el('ram:IncludedSupplyChainTradeLineItem', [
+          el('ram:AssociatedDocumentLineDocument', [el('ram:LineID', index + 1)]),
+          el('ram:SpecifiedTradeProduct', [el('ram:Name', item.description || `Item ${index + 1}`)]),
+          el('ram:SpecifiedLineTradeAgreement', [
+            el('ram:NetPriceProductTradePrice', [
+              el('ram:ChargeAmount', amount(item.unitPrice ?? item.amount))
+            ])
+          ]),
+          el('ram:SpecifiedLineTradeDelivery', [
+            el('ram:BilledQuantity', item.quantity ?? 1, { unitCode: item.unitCode || 'C62' })
+          ]),
+          el('ram:SpecifiedLineTradeSettlement', [
+            el('ram:ApplicableTradeTax', [
+              el('ram:TypeCode', 'VAT'),
+              el('ram:CategoryCode', item.taxCategory || 'S'),
+              el('ram:RateApplicablePercent', formatXmlAmount(item.taxRate ?? 0))
+            ]),
+            el('ram:SpecifiedTradeSettlementLineMonetarySummation', [
+              el('ram:LineTotalAmount', amount(item.amount))
+            ])
+          ])
+        ])),
+        el('ram:ApplicableHeaderTradeAgreement', [
+          el('ram:BuyerReference', invoice.buyerReference),
+          this.buildParty('ram:SellerTradeParty', {
+            name: invoice.vendor,
+            address: invoice.vendorAddress,
+            countryCode: invoice.vendorCountry || options.sellerCountryCode,
+            vatId: invoice.vendorVatId,
+            contactName: options.sellerContactName,
+            phone: invoice.vendorPhone,
+            email: invoice.vendorEmail,
+            endpoint: getPeppolEndpoint(invoice, 'vendor')
+          }, isMinimum),
+          this.buildParty('ram:BuyerTradeParty', {
+            name: invoice.billTo,
+            address: invoice.billToAddress,
+            countryCode: invoice.billToCountry || options.buyerCountryCode,
+            vatId: invoice.billToVatId,
+            endpoint: getPeppolEndpoint(invoice, 'billTo')
+          }, isMinimum, true)
+        ]),
+        // Mandatory even when no delivery information is known
+        { name: 'ram:ApplicableHeaderTradeDelivery' },
+        el('ram:ApplicableHeaderTradeSettlement', [
+          !isMinimum && el('ram:PaymentReference', invoice.transactionId),
+          el('ram:InvoiceCurrencyCode', currency),
+          !isMinimum && paymentMeansCode && el('ram:SpecifiedTradeSettlementPaymentMeans', [
+            el('ram:TypeCode', paymentMeansCode),
+            el('ram:ApplicableTradeSettlementFinancialCard', [el('ram:ID', getCardAccountNumber(invoice.cardNumber))]),
+            isDirectDebit(paymentMeansCode) && el('ram:PayerPartyDebtorFinancialAccount', [el('ram:IBANID', paymentAccount)]),
+            !isDirectDebit(paymentMeansCode) && el('ram:PayeePartyCreditorFinancialAccount', [el('ram:IBANID', paymentAccount)]),
+            !isDirectDebit(paymentMeansCode) && paymentAccount &&
+              el('ram:PayeeSpecifiedCreditorFinancialInstitution', [el('ram:BICID', invoice.paymentAccountBic)])
+          ]),
+          ...(isMinimum ? [] : taxBreakdown).map(subtotal => el('ram:ApplicableTradeTax', [
+            el('ram:CalculatedAmount', amount(subtotal.taxAmount)),
+            el('ram:TypeCode', 'VAT'),
+            el('ram:ExemptionReason', subtotal.exemptionReason),
+            el('ram:BasisAmount', amount(subtotal.taxableAmount)),
+            el('ram:CategoryCode', subtotal.category),
+            el('ram:RateApplicablePercent', formatXmlAmount(subtotal.rate))
+          ])),
+          !isMinimum && el('ram:SpecifiedTradePaymentTerms', [this.buildDateTime('ram:DueDateDateTime', invoice.dueDate)]),
+          el('ram:SpecifiedTradeSettlementHeaderMonetarySummation', [
+            !isMinimum && el('ram:LineTotalAmount', amount(totals.lineExtensionAmount)),
+            el('ram:TaxBasisTotalAmount', amount(totals.taxExclusiveAmount)),
+            el('ram:TaxTotalAmount', amount(totals.taxAmount), { currencyID: currency }),
+            el('ram:GrandTotalAmount', amount(totals.taxInclusiveAmount)),
+            el('ram:DuePayableAmount', amount(totals.taxInclusiveAmount))
+          ])
+        ])
+      ])
+    ], CII_NAMESPACES)
+
+    return serializeXml(root)
+  }
+
+  static getFilename(invoice: ExtractedInvoiceData, index: number = 0): string {
+    const base = (invoice.invoiceNumber || `invoice_${index + 1}`).replace(/[^A-Za-z0-9._-]/g, '_')
+    return `${base}_cii.xml`
+  }
+
+  // CII dates use format 102 (YYYYMMDD)
+  private static buildDateTime(name: string, date?: string): XmlElement | undefined {
+    const isoDate = formatXmlDate(date)
+    return el(name, [
+      el('udt:DateTimeString', isoDate?.replace(/-/g, ''), { format: '102' })
+    ])
+  }
+
+  private static buildParty(name: string, party: {
+    name?: string
+    address?: string
+    countryCode?: string
+    vatId?: string
+    contactName?: string
+    phone?: string
+    email?: string
+    endpoint?: PeppolEndpoint
+  }, minimal: boolean = false, isBuyer: boolean = false): XmlElement | undefined {
+    // In MINIMUM the seller keeps only name, country and VAT ID, the buyer only its name
+    const buyerMinimal = minimal && isBuyer
+    const address = splitPostalAddress(party.address)
+    return el(name, [
+      el('ram:Name', party.name),
+      !minimal && el('ram:DefinedTradeContact', [
+        el('ram:PersonName', party.contactName),
+        el('ram:TelephoneUniversalCommunication', [el('ram:CompleteNumber', party.phone)]),
+        el('ram:EmailURIUniversalCommunication', [el('ram:URIID', party.email)])
+      ]),
+      !buyerMinimal && el('ram:PostalTradeAddress', [
+        !minimal && el('ram:PostcodeCode', address.postCode),
+        !minimal && el('ram:LineOne', address.street),
+        !minimal && el('ram:CityName', address.city),
+        el('ram:CountryID', party.countryCode)
+      ]),
+      // The electronic address (BT-34/BT-49) is the Peppol endpoint, else the email
+      !minimal && el('ram:URIUniversalCommunication', [
+        party.endpoint
+          ? el('ram:URIID', party.endpoint.id, { schemeID: party.endpoint.scheme })
+          : el('ram:URIID', party.email, { schemeID: 'EM' })
+      ]),
+      !buyerMinimal && el('ram:SpecifiedTaxRegistration', [el('ram:ID', party.vatId, { schemeID: 'VA' })])
+    ])
+  }
+}
+
+export class CIIParser {
+  static isCII(doc: Document): boolean {
+    const root = doc.documentElement
+    return root.localName === 'CrossIndustryInvoice' &&
+      (root.namespaceURI || '').startsWith('urn:un:unece:uncefact:data:standard:CrossIndustryInvoice')
+  }
+
+  static parse(xml: string, doc: Document = parseXml(xml)): ExtractedInvoiceData {
+    if (!this.isCII(doc)) {
+      throw new Error(`Not a CII invoice: unexpected root element <${doc.documentElement.localName}>`)
+    }
+
+    const root = doc.documentElement
+    const document = findElement(root, 'ExchangedDocument')
+    const transaction = findElement(root, 'SupplyChainTradeTransaction')
+    const agreement = findElement(transaction, 'ApplicableHeaderTradeAgreement')
+    const settlement = findElement(transaction, 'ApplicableHeaderTradeSettlement')
+    const summation = findElement(settlement, 'SpecifiedTradeSettlementHeaderMonetarySummation')
+    const seller = findElement(agreement, 'SellerTradeParty')
+    const buyer = findElement(agreement, 'BuyerTradeParty')
+    const paymentMeans = findElement(settlement, 'SpecifiedTradeSettlementPaymentMeans')
+
+    const isCreditNote = CREDIT_TYPE_CODES.includes(elementText(document, 'TypeCode') || '')
+    // Stored with a negative sign so the row totals and a re-export treat it as a credit
+    const sign = isCreditNote ? -1 : 1
+    const signed = (value: number | undefined) => value === undefined ? undefined : value * sign
+
+    const currency = elementText(settlement, 'InvoiceCurrencyCode')
+    // TaxTotalAmount may be repeated in the tax currency (BT-111)
+    const taxTotal = findElements(summation, 'TaxTotalAmount').find(element =>
+      !currency || !element.getAttribute('currencyID') || element.getAttribute('currencyID') === currency
+    )
+
+    const taxBreakdown: TaxBreakdown[] = findElements(settlement, 'ApplicableTradeTax').map(tax => ({
+      category: elementText(tax, 'CategoryCode') || 'S',
+      rate: elementNumber(tax, 'RateApplicablePercent') ?? 0,
+      taxableAmount: signed(elementNumber(tax, 'BasisAmount')) ?? 0,
+      taxAmount: signed(elementNumber(tax, 'CalculatedAmount')) ?? 0,
+      exemptionReason: elementText(tax, 'ExemptionReason')
+    }))
+
+    const items: InvoiceItem[] = findElements(transaction, 'IncludedSupplyChainTradeLineItem').map(line => {
+      const price = findElement(line, 'SpecifiedLineTradeAgreement', 'NetPriceProductTradePrice')
+      const priceAmount = elementNumber(price, 'ChargeAmount')
+      const basisQuantity = elementNumber(price, 'BasisQuantity') || 1
+      const quantity = findElement(line, 'SpecifiedLineTradeDelivery', 'BilledQuantity')
+      const lineTax = findElement(line, 'SpecifiedLineTradeSettlement', 'ApplicableTradeTax')
+
+      return {
+        description: elementText(line, 'SpecifiedTradeProduct', 'Name') ||
+          elementText(line, 'SpecifiedTradeProduct', 'Description') || '',
+        quantity: elementNumber(quantity),
+        unitPrice: signed(priceAmount === undefined ? undefined : priceAmount / basisQuantity),
+        amount: signed(elementNumber(line, 'SpecifiedLineTradeSettlement', 'SpecifiedTradeSettlementLineMonetarySummation', 'LineTotalAmount')),
+        unitCode: quantity?.getAttribute('unitCode') || undefined,
+        taxRate: elementNumber(lineTax, 'RateApplicablePercent'),
+        taxCategory: elementText(lineTax, 'CategoryCode')
+      }
+    })
+
+    return {
+      id: crypto.randomUUID(),
+      invoiceNumber: elementText(document, 'ID'),
+      date: parseXmlDate(elementText(document, 'IssueDateTime', 'DateTimeString')),
+      dueDate: parseXmlDate(elementText(settlement, 'SpecifiedTradePaymentTerms', 'DueDateDateTime', 'DateTimeString')),
+      vendor: elementText(seller, 'Name'),
+      vendorAddress: this.getPartyAddress(seller),
+      vendorPhone: elementText(seller, 'DefinedTradeContact', 'TelephoneUniversalCommunication', 'CompleteNumber'),
+      vendorEmail: elementText(seller, 'DefinedTradeContact', 'EmailURIUniversalCommunication', 'URIID') ||
+        this.getPartyEmail(seller),
+      ...this.getPartyEndpoint(seller, 'vendor'),
+      vendorVatId: this.getVatId(seller),
+      vendorCountry: elementText(seller, 'PostalTradeAddress', 'CountryID'),
+      billTo: elementText(buyer, 'Name'),
+      billToAddress: this.getPartyAddress(buyer),
+      billToVatId: this.getVatId(buyer),
+      billToCountry: elementText(buyer, 'PostalTradeAddress', 'CountryID'),
+      ...this.getPartyEndpoint(buyer, 'billTo'),
+      buyerReference: elementText(agreement, 'BuyerReference'),
+      subtotal: signed(elementNumber(summation, 'TaxBasisTotalAmount')),
+      tax: signed(taxTotal ? elementNumber(taxTotal) : undefined),
+      total: signed(elementNumber(summation, 'GrandTotalAmount') ?? elementNumber(summation, 'DuePayableAmount')),
+      currency,
+      paymentMethod: getPaymentMeansName(elementText(paymentMeans, 'TypeCode')),
+      transactionId: elementText(settlement, 'PaymentReference'),
+      cardNumber: elementText(paymentMeans, 'ApplicableTradeSettlementFinancialCard', 'ID'),
+      paymentAccountIban: elementText(paymentMeans, 'PayeePartyCreditorFinancialAccount', 'IBANID') ||
+        elementText(paymentMeans, 'PayerPartyDebtorFinancialAccount', 'IBANID'),
+      paymentAccountBic: elementText(paymentMeans, 'PayeeSpecifiedCreditorFinancialInstitution', 'BICID'),
+      taxBreakdown: taxBreakdown.length > 0 ? taxBreakdown : undefined,
+      items,
+      rawText: xml,
+      processingMethod: 'cii-xml',
+      confidence: 100
+    }
+  }
+
+  private static getPartyEmail(party?: Element): string | undefined {
+    const uri = findElement(party, 'URIUniversalCommunication', 'URIID')
+    const scheme = uri?.getAttribute('schemeID')
+    return !scheme || scheme === 'EM' ? elementText(uri) : undefined
+  }
+
+  private static getPartyEndpoint(party: Element | undefined, prefix: 'vendor' | 'billTo'): Partial<ExtractedInvoiceData> {
+    const uri = findElement(party, 'URIUniversalCommunication', 'URIID')
+    const scheme = uri?.getAttribute('schemeID')
+    const id = elementText(uri)
+    if (!scheme || !id || scheme === 'EM') return {}
+    return prefix === 'vendor'
+      ? { vendorEndpointId: id, vendorEndpointScheme: scheme }
+      : { billToEndpointId: id, billToEndpointScheme: scheme }
+  }
+
+  private static getVatId(party?: Element): string | undefined {
+    const registrations = findElements(party, 'SpecifiedTaxRegistration')
+    const vat = registrations.find(registration => findElement(registration, 'ID')?.getAttribute('schemeID') === 'VA')
+    return elementText(vat || registrations[0], 'ID')
+  }
+
+  private static getPartyAddress(party?: Element): string | undefined {
+    const address = findElement(party, 'PostalTradeAddress')
+    if (!address) return undefined
+
+    const cityLine = [elementText(address, 'PostcodeCode'), elementText(address, 'CityName')].filter(Boolean).join(' ')
+    const parts = [
+      elementText(address, 'LineOne'),
+      elementText(address, 'LineTwo'),
+      elementText(address, 'LineThree'),
+      cityLine,
+      elementText(address, 'CountrySubDivisionName')
+    ].filter(Boolean)
+
+    return parts.length > 0 ? parts.join(', ') : undefined
+  }
+}
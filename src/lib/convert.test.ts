@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { convertInvoice, detectConversionFormat } from './convert'
+import { ExtractedInvoiceData } from './ocr'
+import { PeppolEnvelope } from './peppol'
+import { UBLSerializer } from './ubl'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'convert-1',
+  invoiceNumber: 'INV-2024-001',
+  date: '03/15/2024',
+  dueDate: '04/14/2024',
+  vendor: 'Acme GmbH',
+  vendorVatId: 'DE123456789',
+  vendorAddress: 'Hauptstraße 1, 10115 Berlin',
+  vendorCountry: 'DE',
+  billTo: 'Buyer BV',
+  billToVatId: 'NL123456789B01',
+  billToAddress: 'Damrak 1, 1012 LG Amsterdam',
+  billToCountry: 'NL',
+  subtotal: 200,
+  tax: 38,
+  total: 238,
+  currency: 'EUR',
+  paymentMethod: 'Bank transfer',
+  paymentAccountIban: 'DE89370400440532013000',
+  items: [
+    { description: 'Consulting', quantity: 2, unitCode: 'HUR', unitPrice: 50, amount: 100, taxRate: 19 },
+    { description: 'Licence', quantity: 1, unitPrice: 100, amount: 100, taxRate: 19 }
+  ]
+}
+
+const creditNote: ExtractedInvoiceData = {
+  ...invoice,
+  subtotal: -200,
+  tax: -38,
+  total: -238,
+  items: invoice.items!.map(item => ({ ...item, unitPrice: -item.unitPrice!, amount: -item.amount! }))
+}
+
+describe('convertInvoice', () => {
+  it('converts UBL to CII without losing anything', () => {
+    const result = convertInvoice(UBLSerializer.toXML(invoice), 'ubl', 'cii')
+
+    expect(result).toMatchObject({ fromFormat: 'ubl', toFormat: 'cii', filename: 'INV-2024-001_cii.xml' })
+    expect(result.lossy).toEqual([])
+  })
+
+  it('keeps a credit note as a credit note with positive amounts', () => {
+    const result = convertInvoice(UBLSerializer.toXML(creditNote), 'ubl', 'cii')
+
+    expect(result.invoice.documentType).toBe('credit-note')
+    expect(result.invoice.totals).toEqual({ netAmount: 200, taxAmount: 38, grossAmount: 238 })
+    expect(result.invoice.lines.map(line => line.netAmount)).toEqual([100, 100])
+    expect(result.lossy).toEqual([])
+  })
+
+  it('lists the address and tax fields X12 drops', () => {
+    const { lossy } = convertInvoice(UBLSerializer.toXML(invoice), 'ubl', 'x12')
+    const dropped = lossy.filter(mapping => mapping.reason === 'dropped').map(mapping => mapping.field)
+
+    expect(dropped).toEqual(expect.arrayContaining([
+      'seller.address.postCode',
+      'seller.address.city',
+      'buyer.address.countryCode',
+      'lines[0].taxCategory',
+      'taxSubtotals[0].rate',
+      'taxSubtotals[0].taxAmount'
+    ]))
+    expect(lossy.find(mapping => mapping.field === 'seller.address.city')).toMatchObject({
+      sourceValue: 'Berlin',
+      message: 'seller.address.city is not carried by X12 810'
+    })
+  })
+
+  it('detects the Peppol SBD before the UBL document it wraps', () => {
+    const sbd = PeppolEnvelope.fromInvoice(invoice)
+
+    expect(detectConversionFormat(sbd)).toBe('peppol-sbd')
+    expect(detectConversionFormat(UBLSerializer.toXML(invoice))).toBe('ubl')
+    expect(convertInvoice(sbd, 'auto', 'ubl')).toMatchObject({ fromFormat: 'peppol-sbd', lossy: [] })
+  })
+
+  it('rejects input it cannot detect', () => {
+    expect(() => convertInvoice('Invoice INV-1, total 119.00', 'auto', 'ubl')).toThrow('Could not detect the invoice format')
+  })
+})
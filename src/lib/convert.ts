@@ -0,0 +1,477 @@
+import { ExtractedInvoiceData, TaxBreakdown, TaxComponent } from './ocr'
+import { getPaymentMeansCode, getPaymentMeansName, hasNegativeTotal, splitPostalAddress } from './einvoice'
+import { formatXmlDate, parseXml, parseXmlDate } from './xml'
+import { UBLSerializer, UBLParser } from './ubl'
+import { CIISerializer, CIIParser, CIIExportOptions } from './cii'
+import { XRechnungSerializer, XRechnungExportOptions } from './xrechnung'
+import { PeppolEnvelope, PeppolEnvelopeOptions } from './peppol'
+import { PeppolEndpoint } from './peppol-identifiers'
+import { FatturaPASerializer, FatturaPAParser, FatturaPAExportOptions } from './fatturapa'
+import { CFDISerializer, CFDIParser, CFDIExportOptions } from './cfdi'
+import { NFeParser } from './nfe'
+import { KSeFSerializer, KSeFExportOptions } from './ksef'
+import { FacturaeSerializer, FacturaeExportOptions } from './facturae'
+import { EdifactSerializer, EdifactParser, EdifactExportOptions, isEdifact } from './edifact'
+import { X12Serializer, X12Parser, X12ExportOptions, isX12 } from './x12'
+
+export type ConversionFormat =
+  | 'ubl'
+  | 'cii'
+  | 'xrechnung-ubl'
+  | 'xrechnung-cii'
+  | 'peppol-sbd'
+  | 'fatturapa'
+  | 'cfdi'
+  | 'nfe'
+  | 'ksef'
+  | 'facturae'
+  | 'edifact'
+  | 'x12'
+
+export type ConversionOptions = XRechnungExportOptions & CIIExportOptions & PeppolEnvelopeOptions & FatturaPAExportOptions &
+  CFDIExportOptions & KSeFExportOptions & FacturaeExportOptions & EdifactExportOptions & X12ExportOptions
+
+export interface CanonicalAddress {
+  street?: string
+  postCode?: string
+  city?: string
+  countryCode?: string
+}
+
+export interface CanonicalParty {
+  name?: string
+  vatId?: string
+  endpoint?: PeppolEndpoint
+  address: CanonicalAddress
+  phone?: string
+  email?: string
+}
+
+export interface CanonicalLine {
+  description: string
+  quantity?: number
+  unitCode?: string
+  unitPrice?: number
+  netAmount?: number
+  taxCategory?: string
+  taxRate?: number
+  productCode?: string
+}
+
+/**
+ * Format-neutral invoice. Unlike ExtractedInvoiceData it keeps the document
+ * type explicit (amounts are always positive), uses ISO dates, splits
+ * addresses into their parts and groups party and payment data.
+ */
+export interface CanonicalInvoice {
+  documentType: 'invoice' | 'credit-note'
+  number?: string
+  issueDate?: string
+  dueDate?: string
+  currency?: string
+  seller: CanonicalParty
+  buyer: CanonicalParty
+  buyerReference?: string
+  fiscalId?: string
+  // DIR3 codes of a Spanish public buyer
+  publicBuyerCentres?: {
+    accountingOffice?: string
+    managementBody?: string
+    processingUnit?: string
+  }
+  lines: CanonicalLine[]
+  taxSubtotals: TaxBreakdown[]
+  taxComponents: TaxComponent[]
+  totals: {
+    netAmount?: number
+    taxAmount?: number
+    grossAmount?: number
+  }
+  payment: {
+    meansCode?: string // UNTDID 4461
+    reference?: string
+    cardNumber?: string
+    accountIban?: string
+    accountBic?: string
+  }
+}
+
+export interface InvoiceReader {
+  format: string
+  label: string
+  detect?: (input: string) => boolean
+  read: (input: string) => CanonicalInvoice
+}
+
+export interface InvoiceWriter {
+  format: string
+  label: string
+  mimeType: string
+  write: (invoice: CanonicalInvoice, options: ConversionOptions) => string
+  getFilename: (invoice: CanonicalInvoice, options: ConversionOptions) => string
+  // Canonical fields the format carries, for writers whose output cannot be read back
+  fields?: string[]
+}
+
+export interface LossyMapping {
+  field: string
+  reason: 'dropped' | 'changed'
+  sourceValue: string | number
+  targetValue?: string | number
+  message: string
+}
+
+export interface ConversionResult {
+  output: string
+  filename: string
+  mimeType: string
+  fromFormat: string
+  toFormat: string
+  invoice: CanonicalInvoice
+  lossy: LossyMapping[]
+}
+
+const XML_MIME_TYPE = 'application/xml;charset=utf-8'
+
+function toParty(
+  name: string | undefined,
+  vatId: string | undefined,
+  address: string | undefined,
+  countryCode: string | undefined,
+  endpoint: PeppolEndpoint | undefined,
+  phone?: string,
+  email?: string
+): CanonicalParty {
+  return { name, vatId, endpoint, address: { ...splitPostalAddress(address), countryCode }, phone, email }
+}
+
+function joinAddress(address: CanonicalAddress): string | undefined {
+  const cityLine = [address.postCode, address.city].filter(Boolean).join(' ')
+  return [address.street, cityLine].filter(Boolean).join(', ') || undefined
+}
+
+export function toCanonicalInvoice(data: ExtractedInvoiceData): CanonicalInvoice {
+  const isCreditNote = hasNegativeTotal(data)
+  // Credit notes are stored with negative amounts; the canonical model keeps them positive
+  const sign = isCreditNote ? -1 : 1
+  const unsigned = (value: number | undefined) => value === undefined ? undefined : value * sign
+  const meansCode = getPaymentMeansCode(data.paymentMethod)
+
+  return {
+    documentType: isCreditNote ? 'credit-note' : 'invoice',
+    number: data.invoiceNumber,
+    issueDate: formatXmlDate(data.date),
+    dueDate: formatXmlDate(data.dueDate),
+    currency: data.currency,
+    seller: toParty(data.vendor, data.vendorVatId, data.vendorAddress, data.vendorCountry,
+      data.vendorEndpointId && data.vendorEndpointScheme ? { scheme: data.vendorEndpointScheme, id: data.vendorEndpointId } : undefined,
+      data.vendorPhone, data.vendorEmail),
+    buyer: toParty(data.billTo, data.billToVatId, data.billToAddress, data.billToCountry,
+      data.billToEndpointId && data.billToEndpointScheme ? { scheme: data.billToEndpointScheme, id: data.billToEndpointId } : undefined),
+    buyerReference: data.buyerReference,
+    fiscalId: data.fiscalUuid,
+    publicBuyerCentres: data.buyerAccountingOffice || data.buyerManagementBody || data.buyerProcessingUnit
+      ? { accountingOffice: data.buyerAccountingOffice, managementBody: data.buyerManagementBody, processingUnit: data.buyerProcessingUnit }
+      : undefined,
+    lines: (data.items || []).map(item => ({
+      description: item.description,
+      quantity: item.quantity,
+      unitCode: item.unitCode,
+      unitPrice: unsigned(item.unitPrice),
+      netAmount: unsigned(item.amount),
+      taxCategory: item.taxCategory,
+      taxRate: item.taxRate,
+      productCode: item.productCode
+    })),
+    taxSubtotals: (data.taxBreakdown || []).map(subtotal => ({
+      ...subtotal,
+      taxableAmount: subtotal.taxableAmount * sign,
+      taxAmount: subtotal.taxAmount * sign
+    })),
+    taxComponents: (data.taxComponents || []).map(component => ({
+      ...component,
+      amount: component.amount * sign,
+      taxableAmount: unsigned(component.taxableAmount)
+    })),
+    totals: { netAmount: unsigned(data.subtotal), taxAmount: unsigned(data.tax), grossAmount: unsigned(data.total) },
+    // '1' (not defined) is what unknown payment method names map to
+    payment: {
+      meansCode: meansCode === '1' ? undefined : meansCode,
+      reference: data.transactionId,
+      cardNumber: data.cardNumber,
+      accountIban: data.paymentAccountIban,
+      accountBic: data.paymentAccountBic
+    }
+  }
+}
+
+export function fromCanonicalInvoice(invoice: CanonicalInvoice): ExtractedInvoiceData {
+  const sign = invoice.documentType === 'credit-note' ? -1 : 1
+  const signed = (value: number | undefined) => value === undefined ? undefined : value * sign
+  const { seller, buyer } = invoice
+
+  return {
+    id: crypto.randomUUID(),
+    invoiceNumber: invoice.number,
+    date: parseXmlDate(invoice.issueDate),
+    dueDate: parseXmlDate(invoice.dueDate),
+    currency: invoice.currency,
+    vendor: seller.name,
+    vendorAddress: joinAddress(seller.address),
+    vendorPhone: seller.phone,
+    vendorEmail: seller.email,
+    vendorVatId: seller.vatId,
+    vendorCountry: seller.address.countryCode,
+    vendorEndpointId: seller.endpoint?.id,
+    vendorEndpointScheme: seller.endpoint?.scheme,
+    billTo: buyer.name,
+    billToAddress: joinAddress(buyer.address),
+    billToVatId: buyer.vatId,
+    billToCountry: buyer.address.countryCode,
+    billToEndpointId: buyer.endpoint?.id,
+    billToEndpointScheme: buyer.endpoint?.scheme,
+    buyerReference: invoice.buyerReference,
+    buyerAccountingOffice: invoice.publicBuyerCentres?.accountingOffice,
+    buyerManagementBody: invoice.publicBuyerCentres?.managementBody,
+    buyerProcessingUnit: invoice.publicBuyerCentres?.processingUnit,
+    fiscalUuid: invoice.fiscalId,
+    subtotal: signed(invoice.totals.netAmount),
+    tax: signed(invoice.totals.taxAmount),
+    total: signed(invoice.totals.grossAmount),
+    paymentMethod: getPaymentMeansName(invoice.payment.meansCode),
+    transactionId: invoice.payment.reference,
+    cardNumber: invoice.payment.cardNumber,
+    paymentAccountIban: invoice.payment.accountIban,
+    paymentAccountBic: invoice.payment.accountBic,
+    items: invoice.lines.map(line => ({
+      description: line.description,
+      quantity: line.quantity,
+      unitCode: line.unitCode,
+      unitPrice: signed(line.unitPrice),
+      amount: signed(line.netAmount),
+      taxCategory: line.taxCategory,
+      taxRate: line.taxRate,
+      productCode: line.productCode
+    })),
+    taxBreakdown: invoice.taxSubtotals.length > 0
+      ? invoice.taxSubtotals.map(subtotal => ({ ...subtotal, taxableAmount: subtotal.taxableAmount * sign, taxAmount: subtotal.taxAmount * sign }))
+      : undefined,
+    taxComponents: invoice.taxComponents.length > 0
+      ? invoice.taxComponents.map(component => ({ ...component, amount: component.amount * sign, taxableAmount: signed(component.taxableAmount) }))
+      : undefined,
+    processingMethod: 'conversion',
+    confidence: 100
+  }
+}
+
+// Root element checks that do not throw on malformed or non-XML input
+function hasXmlRoot(input: string, check: (doc: Document) => boolean): boolean {
+  if (!input.trimStart().startsWith('<')) return false
+  try {
+    return check(parseXml(input))
+  } catch {
+    return false
+  }
+}
+
+const xmlReader = (
+  format: string,
+  label: string,
+  parser: { parse: (xml: string) => ExtractedInvoiceData },
+  detect?: (doc: Document) => boolean
+): InvoiceReader => ({
+  format,
+  label,
+  detect: detect && (input => hasXmlRoot(input, detect)),
+  read: input => toCanonicalInvoice(parser.parse(input))
+})
+
+const xmlWriter = (
+  format: string,
+  label: string,
+  write: (data: ExtractedInvoiceData, options: ConversionOptions) => string,
+  getFilename: (data: ExtractedInvoiceData, options: ConversionOptions) => string,
+  fields?: string[]
+): InvoiceWriter => ({
+  format,
+  label,
+  mimeType: XML_MIME_TYPE,
+  write: (invoice, options) => write(fromCanonicalInvoice(invoice), options),
+  getFilename: (invoice, options) => getFilename(fromCanonicalInvoice(invoice), options),
+  fields
+})
+
+const PARTY_FIELDS = ['name', 'vatId', 'address.street', 'address.postCode', 'address.city', 'address.countryCode']
+const SUMMARY_FIELDS = [
+  'documentType', 'number', 'issueDate', 'currency',
+  ...PARTY_FIELDS.map(field => `seller.${field}`),
+  ...PARTY_FIELDS.map(field => `buyer.${field}`),
+  'lines[].description', 'lines[].quantity', 'lines[].unitPrice', 'lines[].netAmount', 'lines[].taxRate',
+  'taxSubtotals[].rate', 'taxSubtotals[].taxableAmount', 'taxSubtotals[].taxAmount',
+  'totals.netAmount', 'totals.taxAmount', 'totals.grossAmount'
+]
+
+const readers = new Map<string, InvoiceReader>()
+const writers = new Map<string, InvoiceWriter>()
+
+export function registerInvoiceReader(reader: InvoiceReader): void {
+  readers.set(reader.format, reader)
+}
+
+export function registerInvoiceWriter(writer: InvoiceWriter): void {
+  writers.set(writer.format, writer)
+}
+
+export function getConversionFormats(): { readers: InvoiceReader[]; writers: InvoiceWriter[] } {
+  return { readers: Array.from(readers.values()), writers: Array.from(writers.values()) }
+}
+
+// Detection order matters: the Peppol SBD wraps a UBL document, and XRechnung is read as plain UBL/CII
+;[
+  xmlReader('peppol-sbd', 'Peppol SBD', { parse: xml => UBLParser.parse(PeppolEnvelope.unwrap(xml).payload) },
+    doc => doc.documentElement.localName === 'StandardBusinessDocument'),
+  xmlReader('ubl', 'UBL 2.1', UBLParser, doc => UBLParser.isUBL(doc)),
+  xmlReader('cii', 'UN/CEFACT CII', CIIParser, doc => CIIParser.isCII(doc)),
+  xmlReader('xrechnung-ubl', 'XRechnung (UBL)', UBLParser),
+  xmlReader('xrechnung-cii', 'XRechnung (CII)', CIIParser),
+  xmlReader('fatturapa', 'FatturaPA', FatturaPAParser, doc => FatturaPAParser.isFatturaPA(doc)),
+  xmlReader('cfdi', 'CFDI 4.0', CFDIParser, doc => CFDIParser.isCFDI(doc)),
+  xmlReader('nfe', 'NF-e', NFeParser, doc => NFeParser.isNFe(doc)),
+  { format: 'edifact', label: 'EDIFACT INVOIC', detect: isEdifact, read: (input: string) => toCanonicalInvoice(EdifactParser.parse(input)) },
+  { format: 'x12', label: 'X12 810', detect: isX12, read: (input: string) => toCanonicalInvoice(X12Parser.parse(input)) }
+].forEach(registerInvoiceReader)
+
+;[
+  xmlWriter('ubl', 'UBL 2.1', (data, options) => UBLSerializer.toXML(data, options), data => UBLSerializer.getFilename(data)),
+  xmlWriter('cii', 'UN/CEFACT CII', (data, options) => CIISerializer.toXML(data, options), data => CIISerializer.getFilename(data)),
+  xmlWriter('xrechnung-ubl', 'XRechnung (UBL)', (data, options) => XRechnungSerializer.toXML(data, 'ubl', options),
+    data => XRechnungSerializer.getFilename(data, 'ubl')),
+  xmlWriter('xrechnung-cii', 'XRechnung (CII)', (data, options) => XRechnungSerializer.toXML(data, 'cii', options),
+    data => XRechnungSerializer.getFilename(data, 'cii')),
+  xmlWriter('peppol-sbd', 'Peppol SBD', (data, options) => PeppolEnvelope.fromInvoice(data, options), data => PeppolEnvelope.getFilename(data)),
+  xmlWriter('fatturapa', 'FatturaPA', (data, options) => FatturaPASerializer.toXML(data, options),
+    (data, options) => FatturaPASerializer.getFilename(data, options)),
+  xmlWriter('cfdi', 'CFDI 4.0', (data, options) => CFDISerializer.toXML(data, options), data => CFDISerializer.getFilename(data)),
+  xmlWriter('ksef', 'KSeF FA(2)', (data, options) => KSeFSerializer.toXML(data, options), data => KSeFSerializer.getFilename(data),
+    [...SUMMARY_FIELDS, 'dueDate', 'lines[].unitCode', 'payment.meansCode']),
+  xmlWriter('facturae', 'Facturae 3.2.2', (data, options) => FacturaeSerializer.toXML(data, options), data => FacturaeSerializer.getFilename(data),
+    [...SUMMARY_FIELDS, 'dueDate', 'lines[].productCode', 'payment.meansCode',
+      'publicBuyerCentres.accountingOffice', 'publicBuyerCentres.managementBody', 'publicBuyerCentres.processingUnit']),
+  {
+    format: 'edifact',
+    label: 'EDIFACT INVOIC',
+    mimeType: 'application/edifact',
+    write: (invoice: CanonicalInvoice, options: ConversionOptions) => EdifactSerializer.toEDI(fromCanonicalInvoice(invoice), options),
+    getFilename: (invoice: CanonicalInvoice) => EdifactSerializer.getFilename(fromCanonicalInvoice(invoice))
+  },
+  {
+    format: 'x12',
+    label: 'X12 810',
+    mimeType: 'application/edi-x12',
+    write: (invoice: CanonicalInvoice, options: ConversionOptions) => X12Serializer.toX12(fromCanonicalInvoice(invoice), options),
+    getFilename: (invoice: CanonicalInvoice) => X12Serializer.getFilename(fromCanonicalInvoice(invoice))
+  }
+].forEach(registerInvoiceWriter)
+
+export function detectConversionFormat(input: string): string | undefined {
+  return Array.from(readers.values()).find(reader => reader.detect?.(input))?.format
+}
+
+function flattenInvoice(value: unknown, path: string = '', fields: Record<string, string | number> = {}): Record<string, string | number> {
+  if (value === undefined || value === null || value === '') return fields
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenInvoice(item, `${path}[${index}]`, fields))
+  } else if (typeof value === 'object') {
+    Object.entries(value).forEach(([key, child]) => flattenInvoice(child, path ? `${path}.${key}` : key, fields))
+  } else if (typeof value === 'string' || typeof value === 'number') {
+    fields[path] = value
+  }
+  return fields
+}
+
+function sameValue(source: string | number, target: string | number): boolean {
+  if (typeof source === 'number' && typeof target === 'number') return Math.abs(source - target) < 0.005
+  return String(source).replace(/\s+/g, ' ').trim().toLowerCase() === String(target).replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+/**
+ * Compare what went into a writer with what comes out. Formats with a reader
+ * are read back, so mappings that change a value (e.g. a payment means folded
+ * into a broader code) are caught too; the others are checked against the
+ * fields they declare. Fields the target adds on its own are not reported.
+ */
+function findLostFields(source: CanonicalInvoice, writer: InvoiceWriter, output: string): LossyMapping[] {
+  const reader = readers.get(writer.format)
+  if (!reader && !writer.fields) return []
+
+  const sourceFields = flattenInvoice(source)
+  const targetFields = reader ? flattenInvoice(reader.read(output)) : undefined
+  const lostLines = new Set<string>()
+  const lossy: LossyMapping[] = []
+
+  Object.entries(sourceFields).forEach(([field, sourceValue]) => {
+    const line = field.match(/^lines\[\d+\]/)?.[0]
+    if (line && lostLines.has(line)) return
+
+    if (targetFields) {
+      const targetValue = targetFields[field]
+      if (line && !Object.keys(targetFields).some(key => key.startsWith(`${line}.`))) {
+        lostLines.add(line)
+        lossy.push({ field: line, reason: 'dropped', sourceValue: String(sourceFields[`${line}.description`] ?? ''), message: `${line} is merged or dropped in ${writer.label}` })
+      } else if (targetValue === undefined) {
+        lossy.push({ field, reason: 'dropped', sourceValue, message: `${field} is not carried by ${writer.label}` })
+      } else if (!sameValue(sourceValue, targetValue)) {
+        lossy.push({ field, reason: 'changed', sourceValue, targetValue, message: `${field} "${sourceValue}" becomes "${targetValue}" in ${writer.label}` })
+      }
+    } else if (!writer.fields!.includes(field.replace(/\[\d+\]/g, '[]'))) {
+      lossy.push({ field, reason: 'dropped', sourceValue, message: `${field} is not carried by ${writer.label}` })
+    }
+  })
+
+  return lossy
+}
+
+function getWriter(format: string): InvoiceWriter {
+  const writer = writers.get(format)
+  if (!writer) throw new Error(`No writer for invoice format ${format}`)
+  return writer
+}
+
+/**
+ * Convert an invoice document between formats through the canonical model.
+ * Pass 'auto' as fromFormat to detect the input syntax. The result lists every
+ * source field the target format drops or changes.
+ */
+export function convertInvoice(
+  input: string,
+  fromFormat: ConversionFormat | 'auto' | string,
+  toFormat: ConversionFormat | string,
+  options: ConversionOptions = {}
+): ConversionResult {
+  const sourceFormat = fromFormat === 'auto' ? detectConversionFormat(input) : fromFormat
+  if (!sourceFormat) throw new Error('Could not detect the invoice format')
+  const reader = readers.get(sourceFormat)
+  if (!reader) throw new Error(`No reader for invoice format ${sourceFormat}`)
+  const writer = getWriter(toFormat)
+
+  const invoice = reader.read(input)
+  const output = writer.write(invoice, options)
+  return {
+    output,
+    filename: writer.getFilename(invoice, options),
+    mimeType: writer.mimeType,
+    fromFormat: sourceFormat,
+    toFormat,
+    invoice,
+    lossy: findLostFields(invoice, writer, output)
+  }
+}
+
+// Lossy mappings of exporting an extracted or imported invoice to a format; empty when no writer is registered
+export function findLossyMappings(data: ExtractedInvoiceData, toFormat: string, options: ConversionOptions = {}): LossyMapping[] {
+  const writer = writers.get(toFormat)
+  if (!writer) return []
+
+  const invoice = toCanonicalInvoice(data)
+  return findLostFields(invoice, writer, writer.write(invoice, options))
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import { EdifactParser, EdifactSerializer, EdifactValidator, isEdifact, tokenizeEdifact } from './edifact'
+import { ExtractedInvoiceData } from './ocr'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'edifact-1',
+  invoiceNumber: 'INV-77',
+  date: '03/15/2025',
+  dueDate: '04/14/2025',
+  vendor: "Müller's Handel+Co",
+  vendorVatId: 'DE123456789',
+  vendorAddress: 'Hauptstr. 1, 10115 Berlin',
+  vendorCountry: 'DE',
+  billTo: 'Käufer GmbH',
+  billToAddress: 'Nebenstr. 2, 80331 München',
+  billToCountry: 'DE',
+  subtotal: 100,
+  tax: 19,
+  total: 119,
+  currency: 'EUR',
+  items: [{ description: 'Schrauben: M4?', quantity: 10, unitPrice: 10, amount: 100, productCode: '4006381333931' }]
+}
+
+const options = { senderId: '4000001000002', recipientId: '4000001000003' }
+
+describe('EDIFACT INVOIC round trip', () => {
+  it('reads back what it writes', () => {
+    const edi = EdifactSerializer.toEDI(invoice, options)
+    const parsed = EdifactParser.parse(edi)
+
+    expect(isEdifact(edi)).toBe(true)
+    expect(parsed).toMatchObject({
+      invoiceNumber: 'INV-77',
+      date: '03/15/2025',
+      dueDate: '04/14/2025',
+      vendor: "Müller's Handel+Co",
+      vendorVatId: 'DE123456789',
+      vendorAddress: 'Hauptstr. 1, 10115 Berlin',
+      vendorCountry: 'DE',
+      billTo: 'Käufer GmbH',
+      billToAddress: 'Nebenstr. 2, 80331 München',
+      billToCountry: 'DE',
+      subtotal: 100,
+      tax: 19,
+      total: 119,
+      currency: 'EUR',
+      processingMethod: 'edifact-invoic'
+    })
+    expect(parsed.taxBreakdown).toMatchObject([{ category: 'S', rate: 19, taxableAmount: 100, taxAmount: 19 }])
+    expect(parsed.items).toMatchObject([
+      { description: 'Schrauben: M4?', quantity: 10, unitPrice: 10, amount: 100, productCode: '4006381333931' }
+    ])
+  })
+
+  it('escapes delimiters in values with the release character', () => {
+    const edi = EdifactSerializer.toEDI(invoice, options)
+
+    expect(edi).toContain("NAD+SU+++Müller?'s Handel?+Co+")
+    expect(edi).toContain('Schrauben?: M4??')
+  })
+
+  it('writes the interchange parties with their qualifier', () => {
+    expect(EdifactSerializer.toEDI(invoice, options)).toContain('UNB+UNOC:3+4000001000002:14+4000001000003:14+')
+  })
+})
+
+describe('EdifactParser', () => {
+  it('honours the delimiters and decimal mark of the UNA service string advice', () => {
+    const edi = [
+      'UNA:*,? ~',
+      'UNB*UNOC:3*SENDER*RECEIVER*250315:1200*1~',
+      'UNH*1*INVOIC:D:96A:UN~',
+      'BGM*380*A-1*9~',
+      'DTM*137:20250315:102~',
+      'NAD*SU***Seller?*Co~',
+      'UNS*S~',
+      'MOA*77:119,50~',
+      'MOA*79:100,42~',
+      'MOA*124:19,08~',
+      'UNT*9*1~',
+      'UNZ*1*1~'
+    ].join('\n')
+
+    expect(tokenizeEdifact(edi)[2]).toEqual({ tag: 'BGM', elements: [['380'], ['A-1'], ['9']] })
+    expect(EdifactParser.parse(edi)).toMatchObject({
+      invoiceNumber: 'A-1',
+      date: '03/15/2025',
+      vendor: 'Seller*Co',
+      subtotal: 100.42,
+      tax: 19.08,
+      total: 119.5
+    })
+  })
+})
+
+describe('EdifactValidator', () => {
+  it('accepts a complete invoice with GLN parties', () => {
+    expect(EdifactValidator.validate(invoice, options)).toEqual([])
+  })
+
+  it('requires the BGM number, DTM date and both NAD parties', () => {
+    const issues = EdifactValidator.validate(
+      { ...invoice, invoiceNumber: undefined, date: 'soon', billTo: undefined, billToAddress: undefined },
+      options
+    )
+
+    expect(issues.map(issue => [issue.ruleId, issue.field])).toEqual([
+      ['EDIFACT-BGM', 'invoiceNumber'],
+      ['EDIFACT-DTM', 'date'],
+      ['EDIFACT-NAD', 'billTo']
+    ])
+  })
+
+  it('checks the interchange IDs against their qualifier', () => {
+    expect(EdifactValidator.validate(invoice, { ...options, senderId: '123' })).toMatchObject([
+      { ruleId: 'EDIFACT-UNB', severity: 'fatal', field: 'senderId' }
+    ])
+    expect(EdifactValidator.validate(invoice).map(issue => [issue.field, issue.severity])).toEqual([
+      ['senderId', 'warning'],
+      ['recipientId', 'warning']
+    ])
+  })
+})
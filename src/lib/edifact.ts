@@ -0,0 +1,459 @@
+import { ExtractedInvoiceData, InvoiceItem, TaxBreakdown } from './ocr'
+import {
+  calculateInvoiceTotals,
+  getInvoiceLines,
+  getPaymentMeansCode,
+  getPaymentMeansName,
+  getTaxBreakdown,
+  hasNegativeTotal,
+  splitPostalAddress
+} from './einvoice'
+import { formatXmlAmount, formatXmlDate, parseXmlDate } from './xml'
+import { ValidationIssue, ValidationSeverity } from './en16931-validator'
+
+export interface EdifactDelimiters {
+  component: string
+  element: string
+  decimal: string
+  release: string
+  segment: string
+}
+
+// A segment as tag plus data elements, each split into its components
+export interface EdifactSegment {
+  tag: string
+  elements: string[][]
+}
+
+export interface EdifactExportOptions {
+  // Interchange sender and recipient, GLNs unless a different qualifier is given
+  senderId?: string
+  recipientId?: string
+  partyIdQualifier?: string
+  interchangeReference?: string
+  // Association assigned code of the message guideline, e.g. EAN008 for EANCOM
+  associationCode?: string
+  sellerCountryCode?: string
+  buyerCountryCode?: string
+  defaultTaxCategory?: string
+}
+
+// Writer input: plain data elements or composite elements as component lists
+type SegmentData = Array<string | Array<string | undefined> | undefined>
+
+export const DEFAULT_EDIFACT_DELIMITERS: EdifactDelimiters = {
+  component: ':',
+  element: '+',
+  decimal: '.',
+  release: '?',
+  segment: "'"
+}
+
+// DTM 2005 date/time qualifiers
+const DATE_DOCUMENT = '137'
+const DATE_DUE = '13'
+
+// MOA 5025 amount qualifiers
+const AMOUNT_LINE = '203'
+const AMOUNT_LINE_GOODS = '66'
+const AMOUNT_INVOICE_TOTALS = ['77', '86', '9', '128']
+const AMOUNT_TAXABLE = '125'
+const AMOUNT_LINE_ITEMS = '79'
+const AMOUNT_TAX = ['124', '176', '150']
+
+/**
+ * Split an interchange into segments, honouring the UNA service string advice
+ * and release characters. Line breaks between segments are ignored.
+ */
+export function tokenizeEdifact(text: string): EdifactSegment[] {
+  let content = text.replace(/^\uFEFF/, '').trimStart()
+  const delimiters = { ...DEFAULT_EDIFACT_DELIMITERS }
+
+  if (content.startsWith('UNA')) {
+    delimiters.component = content[3]
+    delimiters.element = content[4]
+    delimiters.decimal = content[5]
+    delimiters.release = content[6]
+    delimiters.segment = content[8]
+    content = content.slice(9)
+  }
+
+  const segments: EdifactSegment[] = []
+  let elements: string[][] = [['']]
+  let released = false
+
+  const current = () => elements[elements.length - 1]
+  const append = (char: string) => { current()[current().length - 1] += char }
+
+  for (const char of content) {
+    if (released) {
+      append(char)
+      released = false
+    } else if (char === delimiters.release) {
+      released = true
+    } else if (char === delimiters.component) {
+      current().push('')
+    } else if (char === delimiters.element) {
+      elements.push([''])
+    } else if (char === delimiters.segment) {
+      const [tag, ...data] = elements
+      segments.push({ tag: tag[0].trim(), elements: data })
+      elements = [['']]
+    } else if ((char === '\n' || char === '\r') && elements.length === 1 && current()[0].trim() === '') {
+      // Line breaks after a segment terminator are not part of the next tag
+    } else {
+      append(char)
+    }
+  }
+
+  return segments.filter(segment => segment.tag !== '')
+}
+
+export function isEdifact(text: string): boolean {
+  return /^\uFEFF?\s*(UNA.{6}\s*)?UNB./.test(text.slice(0, 64))
+}
+
+// 102 = CCYYMMDD, 203 = CCYYMMDDHHMM, 101 = YYMMDD
+function parseEdifactDate(value?: string, format?: string): string | undefined {
+  if (!value) return undefined
+  if (format === '101' && /^\d{6}$/.test(value)) return parseXmlDate(`20${value}`)
+  return parseXmlDate(value)
+}
+
+export class EdifactParser {
+  static parse(text: string): ExtractedInvoiceData {
+    const segments = tokenizeEdifact(text)
+    const messageStart = segments.findIndex(segment => segment.tag === 'UNH')
+    if (messageStart === -1) throw new Error('EDIFACT interchange without a message (UNH)')
+
+    const messageType = segments[messageStart].elements[1]?.[0]
+    if (messageType !== 'INVOIC') throw new Error(`Unsupported EDIFACT message type: ${messageType || 'unknown'}`)
+
+    const messageCount = segments.filter(segment => segment.tag === 'UNH').length
+    if (messageCount > 1) {
+      console.warn(`EDIFACT interchange contains ${messageCount} messages; only the first one is imported`)
+    }
+
+    const messageEnd = segments.findIndex((segment, index) => index > messageStart && segment.tag === 'UNT')
+    const message = segments.slice(messageStart + 1, messageEnd === -1 ? undefined : messageEnd)
+
+    const invoice: ExtractedInvoiceData = {
+      id: crypto.randomUUID(),
+      rawText: text,
+      processingMethod: 'edifact-invoic',
+      confidence: 100
+    }
+    const items: InvoiceItem[] = []
+    const taxBreakdown: TaxBreakdown[] = []
+    let isCreditNote = false
+
+    // Segments are read in context: the party after NAD, the line after LIN, the summary after UNS
+    let party: 'SU' | 'BY' | undefined
+    let item: InvoiceItem | undefined
+    let subtotal: TaxBreakdown | undefined
+    let inSummary = false
+
+    const value = (segment: EdifactSegment, element: number, component: number = 0) =>
+      segment.elements[element]?.[component]?.trim() || undefined
+    const number = (segment: EdifactSegment, element: number, component: number) => {
+      const parsed = parseFloat(value(segment, element, component)?.replace(',', '.') || '')
+      return isNaN(parsed) ? undefined : parsed
+    }
+
+    for (const segment of message) {
+      switch (segment.tag) {
+        case 'BGM':
+          isCreditNote = value(segment, 0) === '381'
+          invoice.invoiceNumber = value(segment, 1)
+          break
+
+        case 'DTM': {
+          const date = parseEdifactDate(value(segment, 0, 1), value(segment, 0, 2))
+          if (value(segment, 0) === DATE_DOCUMENT && !item) invoice.date = date
+          if (value(segment, 0) === DATE_DUE) invoice.dueDate = date
+          break
+        }
+
+        case 'PAI':
+          invoice.paymentMethod = getPaymentMeansName(value(segment, 0, 2))
+          break
+
+        case 'NAD': {
+          const qualifier = value(segment, 0)
+          party = qualifier === 'SU' || qualifier === 'BY' ? qualifier : undefined
+          if (!party) break
+
+          // NAD+qualifier+id+name/address lines+party name+street+city+region+post code+country
+          const name = segment.elements[3]?.filter(Boolean).join(' ') || segment.elements[2]?.filter(Boolean).join(' ')
+          const street = segment.elements[4]?.filter(Boolean).join(' ')
+          const cityLine = [value(segment, 7), value(segment, 5)].filter(Boolean).join(' ')
+          const address = [street, cityLine].filter(Boolean).join(', ') || undefined
+          if (party === 'SU') {
+            invoice.vendor = name
+            invoice.vendorAddress = address
+            invoice.vendorCountry = value(segment, 8)
+          } else {
+            invoice.billTo = name
+            invoice.billToAddress = address
+            invoice.billToCountry = value(segment, 8)
+          }
+          break
+        }
+
+        case 'RFF':
+          if (value(segment, 0) === 'VA' && party === 'SU') invoice.vendorVatId = value(segment, 0, 1)
+          if (value(segment, 0) === 'VA' && party === 'BY') invoice.billToVatId = value(segment, 0, 1)
+          break
+
+        case 'COM':
+          if (party === 'SU' && value(segment, 0, 1) === 'TE') invoice.vendorPhone = value(segment, 0)
+          if (party === 'SU' && value(segment, 0, 1) === 'EM') invoice.vendorEmail = value(segment, 0)
+          break
+
+        case 'CUX':
+          invoice.currency = value(segment, 0, 1)
+          break
+
+        case 'LIN':
+          party = undefined
+          item = { description: '' }
+          items.push(item)
+          if (value(segment, 2)) item.productCode = value(segment, 2)
+          break
+
+        case 'PIA':
+          if (item && !item.productCode) item.productCode = value(segment, 1)
+          break
+
+        case 'IMD':
+          if (item) item.description = [item.description, value(segment, 2, 3), value(segment, 2, 4)].filter(Boolean).join(' ')
+          break
+
+        case 'QTY':
+          if (item && ['47', '46'].includes(value(segment, 0) || '')) {
+            item.quantity = number(segment, 0, 1)
+            item.unitCode = value(segment, 0, 2)
+          }
+          break
+
+        case 'PRI':
+          if (item && item.unitPrice === undefined) item.unitPrice = number(segment, 0, 1)
+          break
+
+        case 'TAX':
+          if (value(segment, 1) !== 'VAT' && value(segment, 1) !== 'GST') break
+          if (inSummary) {
+            subtotal = {
+              category: value(segment, 5) || 'S',
+              rate: number(segment, 4, 3) ?? 0,
+              taxableAmount: 0,
+              taxAmount: 0
+            }
+            taxBreakdown.push(subtotal)
+          } else if (item) {
+            item.taxRate = number(segment, 4, 3)
+            item.taxCategory = value(segment, 5)
+          }
+          break
+
+        case 'UNS':
+          inSummary = true
+          item = undefined
+          break
+
+        case 'MOA': {
+          const qualifier = value(segment, 0) || ''
+          const amount = number(segment, 0, 1)
+          if (item && (qualifier === AMOUNT_LINE || (qualifier === AMOUNT_LINE_GOODS && item.amount === undefined))) {
+            item.amount = amount
+          } else if (inSummary && subtotal) {
+            if (qualifier === AMOUNT_TAXABLE) subtotal.taxableAmount = amount ?? 0
+            if (AMOUNT_TAX.includes(qualifier)) subtotal.taxAmount = amount ?? 0
+          } else if (inSummary) {
+            if (AMOUNT_INVOICE_TOTALS.includes(qualifier) && invoice.total === undefined) invoice.total = amount
+            // The taxable amount wins over the line item total, which excludes document allowances
+            if (qualifier === AMOUNT_TAXABLE) invoice.subtotal = amount
+            if (qualifier === AMOUNT_LINE_ITEMS && invoice.subtotal === undefined) invoice.subtotal = amount
+            if (AMOUNT_TAX.includes(qualifier) && invoice.tax === undefined) invoice.tax = amount
+          }
+          break
+        }
+      }
+    }
+
+    // Stored with a negative sign like the other credit note imports
+    if (isCreditNote) {
+      const negate = (amount?: number) => amount === undefined ? undefined : -Math.abs(amount)
+      invoice.total = negate(invoice.total)
+      invoice.subtotal = negate(invoice.subtotal)
+      invoice.tax = negate(invoice.tax)
+      items.forEach(line => {
+        line.amount = negate(line.amount)
+        line.unitPrice = negate(line.unitPrice)
+      })
+      taxBreakdown.forEach(entry => {
+        entry.taxableAmount = -Math.abs(entry.taxableAmount)
+        entry.taxAmount = -Math.abs(entry.taxAmount)
+      })
+    }
+
+    if (invoice.subtotal === undefined && invoice.total !== undefined && invoice.tax !== undefined) {
+      invoice.subtotal = Math.round((invoice.total - invoice.tax) * 100) / 100
+    }
+    invoice.items = items
+    if (taxBreakdown.length > 0) invoice.taxBreakdown = taxBreakdown
+    return invoice
+  }
+}
+
+export class EdifactSerializer {
+  static toEDI(invoice: ExtractedInvoiceData, options: EdifactExportOptions = {}, index: number = 0): string {
+    const isCreditNote = hasNegativeTotal(invoice)
+    // Credit notes carry positive amounts; BGM 381 conveys the sign
+    const sign = isCreditNote ? -1 : 1
+    const amount = (value: number | undefined) => formatXmlAmount(value === undefined ? undefined : value * sign)
+    const date = (value: string | undefined) => formatXmlDate(value)?.replace(/-/g, '')
+
+    const totals = calculateInvoiceTotals(invoice)
+    const taxBreakdown = getTaxBreakdown(invoice, options.defaultTaxCategory)
+    const lines = getInvoiceLines(invoice, options.defaultTaxCategory)
+    const paymentMeansCode = getPaymentMeansCode(invoice.paymentMethod)
+
+    const now = new Date()
+    const timestamp = now.toISOString()
+    const reference = (options.interchangeReference || `${timestamp.replace(/\D/g, '').slice(2, 14)}${index}`).slice(0, 14)
+    const qualifier = options.partyIdQualifier || '14'
+
+    const message: Array<SegmentData | undefined> = [
+      ['UNH', '1', ['INVOIC', 'D', '96A', 'UN', ...(options.associationCode ? [options.associationCode] : [])]],
+      ['BGM', isCreditNote ? '381' : '380', invoice.invoiceNumber, '9'],
+      ['DTM', [DATE_DOCUMENT, date(invoice.date), '102']],
+      paymentMeansCode ? ['PAI', ['', '', paymentMeansCode]] : undefined,
+      ...this.buildParty('SU', invoice.vendor, invoice.vendorAddress, invoice.vendorCountry || options.sellerCountryCode, invoice.vendorVatId, invoice.vendorPhone, invoice.vendorEmail),
+      ...this.buildParty('BY', invoice.billTo, invoice.billToAddress, invoice.billToCountry || options.buyerCountryCode, invoice.billToVatId),
+      ['CUX', ['2', invoice.currency || 'EUR', '4']],
+      ...(invoice.dueDate ? [['PAT', '1'], ['DTM', [DATE_DUE, date(invoice.dueDate), '102']]] : []),
+      ...lines.flatMap((item, lineIndex) => [
+        ['LIN', String(lineIndex + 1)],
+        item.productCode ? ['PIA', '5', [item.productCode, 'SA']] : undefined,
+        ['IMD', 'F', '', ['', '', '', (item.description || `Item ${lineIndex + 1}`).slice(0, 35), item.description?.slice(35, 70) || undefined]],
+        ['QTY', ['47', String(item.quantity ?? 1), item.unitCode]],
+        ['MOA', [AMOUNT_LINE, amount(item.amount)]],
+        ['PRI', ['AAA', amount(item.unitPrice ?? item.amount)]],
+        ['TAX', '7', 'VAT', '', '', ['', '', '', formatXmlAmount(item.taxRate ?? 0)], item.taxCategory || 'S']
+      ]),
+      ['UNS', 'S'],
+      ['CNT', ['2', String(lines.length)]],
+      ['MOA', ['77', amount(totals.taxInclusiveAmount)]],
+      ['MOA', [AMOUNT_LINE_ITEMS, amount(totals.lineExtensionAmount)]],
+      ['MOA', [AMOUNT_TAXABLE, amount(totals.taxExclusiveAmount)]],
+      ['MOA', ['124', amount(totals.taxAmount)]],
+      ...taxBreakdown.flatMap(subtotal => [
+        ['TAX', '7', 'VAT', '', '', ['', '', '', formatXmlAmount(subtotal.rate)], subtotal.category],
+        ['MOA', ['124', amount(subtotal.taxAmount)]],
+        ['MOA', ['125', amount(subtotal.taxableAmount)]]
+      ])
+    ]
+
+    const messageSegments = message.filter((segment): segment is SegmentData => !!segment)
+    const segments: SegmentData[] = [
+      ['UNB', ['UNOC', '3'], [options.senderId || 'SENDER', qualifier], [options.recipientId || 'RECIPIENT', qualifier],
+        [timestamp.slice(2, 10).replace(/-/g, ''), timestamp.slice(11, 16).replace(':', '')], reference],
+      ...messageSegments,
+      // UNT counts the message segments including UNH and UNT
+      ['UNT', String(messageSegments.length + 1), '1'],
+      ['UNZ', '1', reference]
+    ]
+
+    const { component, element, decimal, release, segment } = DEFAULT_EDIFACT_DELIMITERS
+    return `UNA${component}${element}${decimal}${release} ${segment}` + segments.map(segment => this.formatSegment(segment)).join('')
+  }
+
+  static getFilename(invoice: ExtractedInvoiceData, index: number = 0): string {
+    const base = (invoice.invoiceNumber || `invoice_${index + 1}`).replace(/[^A-Za-z0-9._-]/g, '_')
+    return `${base}.edi`
+  }
+
+  private static formatSegment(segment: SegmentData): string {
+    const { component, element, release, segment: terminator } = DEFAULT_EDIFACT_DELIMITERS
+    const escape = (value: string) => value.replace(/[?:+']/g, char => `${release}${char}`)
+    const trimTrailing = (values: string[]) => {
+      while (values.length > 0 && values[values.length - 1] === '') values.pop()
+      return values
+    }
+
+    const [tag, ...elements] = segment
+    const data = trimTrailing(elements.map(value => Array.isArray(value)
+      ? trimTrailing(value.map(part => escape(part || ''))).join(component)
+      : escape(value || '')))
+    return [tag, ...data].join(element) + terminator
+  }
+
+  // NAD with its VAT reference (RFF) and contact (CTA/COM) segment groups
+  private static buildParty(
+    qualifier: 'SU' | 'BY',
+    name?: string,
+    address?: string,
+    countryCode?: string,
+    vatId?: string,
+    phone?: string,
+    email?: string
+  ): SegmentData[] {
+    if (!name && !address) return []
+
+    const parts = splitPostalAddress(address)
+    return [
+      ['NAD', qualifier, '', '', [name?.slice(0, 35) || '', name?.slice(35, 70) || ''], (parts.street || address || '').slice(0, 35), parts.city, '', parts.postCode, countryCode],
+      ...(vatId ? [['RFF', ['VA', vatId]]] : []),
+      ...(phone || email ? [['CTA', 'IC']] : []),
+      ...(phone ? [['COM', [phone, 'TE']]] : []),
+      ...(email ? [['COM', [email, 'EM']]] : [])
+    ]
+  }
+}
+
+// UNB 0007 identification code qualifiers we expect trading partners to use
+const PARTY_ID_QUALIFIERS: Record<string, { label: string, pattern?: RegExp }> = {
+  '14': { label: 'GLN', pattern: /^\d{13}$/ },
+  '1': { label: 'DUNS number', pattern: /^\d{9}$/ },
+  'ZZ': { label: 'mutually defined' },
+  'ZZZ': { label: 'mutually defined' }
+}
+
+export class EdifactValidator {
+  /**
+   * Structural checks of the INVOIC message: the mandatory BGM/DTM data, the
+   * supplier and buyer NAD groups and the UNB party identifiers with their qualifier.
+   */
+  static validate(invoice: ExtractedInvoiceData, options: EdifactExportOptions = {}): ValidationIssue[] {
+    const issues: ValidationIssue[] = []
+    const report = (ruleId: string, field: string, message: string, severity: ValidationSeverity = 'fatal') => {
+      issues.push({ ruleId, severity, field, message })
+    }
+
+    if (!invoice.invoiceNumber?.trim()) report('EDIFACT-BGM', 'invoiceNumber', 'BGM requires the invoice number (1004)')
+    if (!formatXmlDate(invoice.date)) report('EDIFACT-DTM', 'date', 'DTM+137 requires a valid invoice date')
+    if (invoice.currency && !/^[A-Z]{3}$/.test(invoice.currency)) {
+      report('EDIFACT-CUX', 'currency', `"${invoice.currency}" is not an ISO 4217 currency code`)
+    }
+
+    // buildParty skips a NAD group without name and address
+    if (!invoice.vendor && !invoice.vendorAddress) report('EDIFACT-NAD', 'vendor', 'The supplier party (NAD+SU) requires a name or address')
+    if (!invoice.billTo && !invoice.billToAddress) report('EDIFACT-NAD', 'billTo', 'The buyer party (NAD+BY) requires a name or address')
+
+    const qualifier = options.partyIdQualifier || '14'
+    const qualifierRule = PARTY_ID_QUALIFIERS[qualifier]
+    if (!qualifierRule) {
+      report('EDIFACT-UNB', 'partyIdQualifier', `Unsupported party identification qualifier "${qualifier}"`)
+    }
+    ;([['senderId', options.senderId, 'sender'], ['recipientId', options.recipientId, 'recipient']] as const).forEach(([field, id, role]) => {
+      if (!id) {
+        report('EDIFACT-UNB', field, `No interchange ${role} ID configured; a placeholder is written to UNB`, 'warning')
+      } else if (qualifierRule?.pattern && !qualifierRule.pattern.test(id)) {
+        report('EDIFACT-UNB', field, `Interchange ${role} "${id}" is not a valid ${qualifierRule.label} for qualifier ${qualifier}`)
+      }
+    })
+
+    return issues
+  }
+}
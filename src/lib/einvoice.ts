@@ -0,0 +1,191 @@
+import { ExtractedInvoiceData, InvoiceItem, TaxBreakdown } from './ocr'
+
+// Shared EN 16931 semantics used by the UBL and CII serializers
+
+export interface InvoiceTotals {
+  lineExtensionAmount: number
+  taxExclusiveAmount: number
+  taxAmount: number
+  taxInclusiveAmount: number
+}
+
+export interface PostalAddressParts {
+  street?: string
+  postCode?: string
+  city?: string
+}
+
+// UNTDID 4461 payment means codes for the payment methods our OCR extracts
+const PAYMENT_MEANS_CODES: Record<string, string> = {
+  VISA: '54',
+  MASTERCARD: '54',
+  AMEX: '54',
+  DISCOVER: '54',
+  MAESTRO: '55',
+  CASH: '10',
+  CHIP: '48',
+  CONTACTLESS: '48',
+  'BANK TRANSFER': '30',
+  'WIRE TRANSFER': '30'
+}
+
+const PAYMENT_MEANS_NAMES: Record<string, string> = {
+  '1': 'Not defined',
+  '10': 'Cash',
+  '30': 'Credit transfer',
+  '31': 'Debit transfer',
+  '42': 'Bank account',
+  '48': 'Bank card',
+  '49': 'Direct debit',
+  '54': 'Credit card',
+  '55': 'Debit card',
+  '57': 'Standing agreement',
+  '58': 'SEPA credit transfer',
+  '59': 'SEPA direct debit'
+}
+
+// Accepts both OCR'd card brands and the names the XML parsers store for imported codes
+export function getPaymentMeansCode(paymentMethod?: string): string | undefined {
+  if (!paymentMethod) return undefined
+  return PAYMENT_MEANS_CODES[paymentMethod.toUpperCase()] ||
+    Object.keys(PAYMENT_MEANS_NAMES).find(code => PAYMENT_MEANS_NAMES[code].toUpperCase() === paymentMethod.toUpperCase()) ||
+    '1'
+}
+
+// Direct debits name the buyer's debited account (BT-91) instead of the payee account (BT-84)
+const DIRECT_DEBIT_CODES = ['49', '59']
+
+export function isDirectDebit(paymentMeansCode?: string): boolean {
+  return !!paymentMeansCode && DIRECT_DEBIT_CODES.includes(paymentMeansCode)
+}
+
+export function normalizeIban(iban?: string): string | undefined {
+  return iban?.replace(/\s/g, '').toUpperCase() || undefined
+}
+
+// ISO 7064 MOD 97-10 remainder of a digit and letter string, letters counting as 10-35
+export function mod97(value: string): number {
+  const digits = value.toUpperCase().split('').map(char => /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char).join('')
+
+  // Process in chunks so long inputs don't exceed Number precision
+  let remainder = 0
+  for (let i = 0; i < digits.length; i += 7) {
+    remainder = Number(`${remainder}${digits.slice(i, i + 7)}`) % 97
+  }
+  return remainder
+}
+
+export function isValidIban(iban: string): boolean {
+  const normalized = normalizeIban(iban) || ''
+  return /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(normalized) && mod97(`${normalized.slice(4)}${normalized.slice(0, 4)}`) === 1
+}
+
+// BT-87 carries only the last digits of the card, never the full primary account number
+const CARD_ACCOUNT_DIGITS = 4
+
+export function getCardAccountNumber(cardNumber?: string): string | undefined {
+  const digits = cardNumber?.replace(/\D/g, '')
+  return digits ? digits.slice(-CARD_ACCOUNT_DIGITS) : undefined
+}
+
+export function getPaymentMeansName(code?: string): string | undefined {
+  if (!code) return undefined
+  return PAYMENT_MEANS_NAMES[code] || code
+}
+
+// UNTDID 5305 duty/tax category codes as used in EN 16931 (BT-118)
+const TAX_CATEGORY_NAMES: Record<string, string> = {
+  S: 'Standard rate',
+  Z: 'Zero rated',
+  E: 'Exempt from tax',
+  AE: 'Reverse charge',
+  K: 'Intra-community supply',
+  G: 'Export outside the EU',
+  O: 'Not subject to VAT',
+  L: 'Canary Islands IGIC',
+  M: 'Ceuta and Melilla IPSI'
+}
+
+export function getTaxCategoryName(category?: string): string | undefined {
+  if (!category) return undefined
+  return TAX_CATEGORY_NAMES[category] || category
+}
+
+export function hasNegativeTotal(invoice: ExtractedInvoiceData): boolean {
+  return (invoice.total ?? 0) < 0
+}
+
+export function calculateInvoiceTotals(invoice: ExtractedInvoiceData): InvoiceTotals {
+  const itemsTotal = invoice.items?.reduce((sum, item) => sum + (item.amount || 0), 0) || 0
+  const taxAmount = invoice.tax || 0
+  const taxInclusiveAmount = invoice.total ?? ((invoice.subtotal ?? itemsTotal) + taxAmount)
+  const taxExclusiveAmount = invoice.subtotal ?? (taxInclusiveAmount - taxAmount)
+  const lineExtensionAmount = invoice.items && invoice.items.length > 0 ? itemsTotal : taxExclusiveAmount
+
+  return { lineExtensionAmount, taxExclusiveAmount, taxAmount, taxInclusiveAmount }
+}
+
+/**
+ * Split a one-line address into street, post code and city. The XML parsers
+ * join addresses as "street, postcode city", and most OCR'd European
+ * addresses follow the same pattern.
+ */
+export function splitPostalAddress(address?: string): PostalAddressParts {
+  if (!address) return {}
+
+  const parts = address.split(/\s*[,\n]\s*/).filter(Boolean)
+  for (let i = parts.length - 1; i >= 0; i--) {
+    const match = parts[i].match(/^(?:[A-Z]{1,2}-)?(\d{4,5}(?:\s?[A-Z]{2})?)\s+(.+)$/)
+    if (match) {
+      // Anything after the city line is usually the country, which travels separately
+      const street = parts.slice(0, i).join(', ')
+      return { street: street || undefined, postCode: match[1], city: match[2] }
+    }
+  }
+
+  return { street: address }
+}
+
+export function getTaxPercent(taxableAmount: number, taxAmount: number): number {
+  if (!taxableAmount || !taxAmount) return 0
+  return Math.round((taxAmount / taxableAmount) * 10000) / 100
+}
+
+/**
+ * Tax subtotals per category and rate. OCR'd invoices only carry a single tax
+ * amount, so the breakdown is derived from it with the rate back-calculated.
+ */
+export function getTaxBreakdown(invoice: ExtractedInvoiceData, defaultCategory?: string): TaxBreakdown[] {
+  if (invoice.taxBreakdown && invoice.taxBreakdown.length > 0) return invoice.taxBreakdown
+
+  const totals = calculateInvoiceTotals(invoice)
+  return [{
+    category: defaultCategory || (totals.taxAmount === 0 ? 'Z' : 'S'),
+    rate: getTaxPercent(totals.taxExclusiveAmount, totals.taxAmount),
+    taxableAmount: totals.taxExclusiveAmount,
+    taxAmount: totals.taxAmount
+  }]
+}
+
+// BR-16: an invoice needs at least one line, so fall back to a single summary line
+export function getInvoiceLines(invoice: ExtractedInvoiceData, defaultCategory?: string): InvoiceItem[] {
+  const [defaultTax] = getTaxBreakdown(invoice, defaultCategory)
+
+  if (invoice.items && invoice.items.length > 0) {
+    return invoice.items.map(item => ({
+      ...item,
+      taxCategory: item.taxCategory || defaultTax.category,
+      taxRate: item.taxRate ?? defaultTax.rate
+    }))
+  }
+
+  const { lineExtensionAmount } = calculateInvoiceTotals(invoice)
+  return [{
+    description: invoice.invoiceNumber ? `Invoice ${invoice.invoiceNumber}` : 'Invoice total',
+    quantity: 1,
+    unitPrice: lineExtensionAmount,
+    amount: lineExtensionAmount,
+    taxCategory: defaultTax.category,
+    taxRate: defaultTax.rate
+  }]
+}
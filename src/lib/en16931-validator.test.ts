@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import { EN16931ValidationOptions, EN16931Validator } from './en16931-validator'
+import { ExtractedInvoiceData } from './ocr'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'en16931-1',
+  invoiceNumber: 'INV-1',
+  date: '03/15/2025',
+  dueDate: '04/14/2025',
+  vendor: 'ACME B.V.',
+  vendorVatId: 'NL123456789B01',
+  vendorCountry: 'NL',
+  billTo: 'Buyer GmbH',
+  billToCountry: 'DE',
+  subtotal: 100,
+  tax: 21,
+  total: 121,
+  currency: 'EUR',
+  items: [
+    { description: 'Widget', quantity: 2, unitPrice: 30, amount: 60 },
+    { description: 'Gadget', quantity: 1, unitPrice: 40, amount: 40 }
+  ]
+}
+
+const ruleIds = (data: ExtractedInvoiceData, options?: EN16931ValidationOptions) =>
+  EN16931Validator.validate(data, options).issues.map(issue => issue.ruleId)
+
+describe('EN16931Validator', () => {
+  it('accepts a complete invoice', () => {
+    expect(EN16931Validator.validate(invoice)).toEqual({ isValid: true, issues: [] })
+  })
+
+  it('requires the invoice number, issue date and party names', () => {
+    const result = EN16931Validator.validate({ ...invoice, invoiceNumber: ' ', date: undefined, vendor: undefined, billTo: '' })
+
+    expect(result.isValid).toBe(false)
+    expect(result.issues.map(issue => [issue.ruleId, issue.field])).toEqual([
+      ['BR-02', 'invoiceNumber'],
+      ['BR-03', 'date'],
+      ['BR-06', 'vendor'],
+      ['BR-07', 'billTo']
+    ])
+  })
+
+  it('rejects malformed dates and currency codes', () => {
+    expect(ruleIds({ ...invoice, date: 'yesterday', currency: 'Euro' })).toEqual(['BR-03', 'BR-05'])
+  })
+
+  it('takes missing country codes from the options', () => {
+    const withoutCountries = { ...invoice, vendorCountry: undefined, billToCountry: undefined }
+
+    expect(ruleIds(withoutCountries)).toEqual(['BR-09', 'BR-11'])
+    expect(ruleIds(withoutCountries, { sellerCountryCode: 'NL', buyerCountryCode: 'DE' })).toEqual([])
+    expect(ruleIds(withoutCountries, { sellerCountryCode: 'Netherlands', buyerCountryCode: 'DE' })).toEqual(['BR-09'])
+  })
+
+  it('requires a country prefix on VAT identifiers', () => {
+    expect(ruleIds({ ...invoice, vendorVatId: 'NL123456789B01', billToVatId: '123456789' })).toEqual(['BR-CO-09'])
+  })
+
+  it('checks the totals against the lines and the VAT breakdown', () => {
+    expect(ruleIds({ ...invoice, subtotal: 90, total: 111 })).toContain('BR-CO-13')
+    expect(ruleIds({ ...invoice, total: 125 })).toEqual(['BR-CO-15'])
+    expect(ruleIds({ ...invoice, taxBreakdown: [{ category: 'S', rate: 21, taxableAmount: 100, taxAmount: 20 }] }))
+      .toEqual(['BR-CO-14', 'BR-CO-17'])
+  })
+
+  it('tolerates rounding differences below a cent', () => {
+    expect(ruleIds({ ...invoice, total: 121.004 })).toEqual([])
+  })
+
+  it('requires a due date when an amount is due', () => {
+    expect(ruleIds({ ...invoice, dueDate: undefined })).toEqual(['BR-CO-25'])
+  })
+
+  it('only warns when no lines were extracted', () => {
+    const result = EN16931Validator.validate({ ...invoice, items: undefined })
+
+    expect(result.isValid).toBe(true)
+    expect(result.issues).toMatchObject([{ ruleId: 'BR-16', severity: 'warning', field: 'items' }])
+  })
+
+  it('checks each line', () => {
+    const result = EN16931Validator.validate({
+      ...invoice,
+      items: [
+        { description: '', quantity: 2, unitPrice: 30, amount: 60 },
+        { description: 'Gadget', unitPrice: 40, amount: 40 }
+      ]
+    })
+
+    expect(result.issues.map(issue => [issue.ruleId, issue.field, issue.severity])).toEqual([
+      ['BR-25', 'items[0].description', 'fatal'],
+      ['BR-22', 'items[1].quantity', 'warning']
+    ])
+  })
+
+  it('validates credit notes with the signs they are exported with', () => {
+    const credit: ExtractedInvoiceData = {
+      ...invoice,
+      subtotal: -100,
+      tax: -21,
+      total: -121,
+      items: [{ description: 'Widget', quantity: 2, unitPrice: -50, amount: -100 }]
+    }
+
+    expect(ruleIds(credit)).toEqual([])
+    expect(ruleIds({ ...credit, items: [{ description: 'Widget', quantity: 2, unitPrice: 50, amount: -100 }] }))
+      .toEqual(['BR-27'])
+  })
+
+  it('requires the seller VAT identifier for standard rated invoices', () => {
+    expect(ruleIds({ ...invoice, vendorVatId: undefined })).toEqual(['BR-S-02'])
+  })
+
+  it('requires zero VAT on zero rated categories', () => {
+    const zeroRated: ExtractedInvoiceData = {
+      ...invoice,
+      tax: 0,
+      total: 100,
+      items: [{ description: 'Book', quantity: 1, unitPrice: 100, amount: 100, taxCategory: 'Z', taxRate: 5 }],
+      taxBreakdown: [{ category: 'Z', rate: 0, taxableAmount: 100, taxAmount: 0 }]
+    }
+
+    expect(ruleIds(zeroRated)).toEqual(['BR-Z-05'])
+  })
+
+  it('requires an exemption reason for exempt categories only', () => {
+    const exempt: ExtractedInvoiceData = {
+      ...invoice,
+      tax: 0,
+      total: 100,
+      items: [{ description: 'Training', quantity: 1, unitPrice: 100, amount: 100, taxCategory: 'E', taxRate: 0 }],
+      taxBreakdown: [{ category: 'E', rate: 0, taxableAmount: 100, taxAmount: 0 }]
+    }
+
+    expect(ruleIds(exempt)).toEqual(['BR-E-10'])
+    expect(ruleIds({ ...exempt, taxBreakdown: [{ ...exempt.taxBreakdown![0], exemptionReason: 'Article 132 VAT Directive' }] }))
+      .toEqual([])
+  })
+})
@@ -0,0 +1,281 @@
+import { ExtractedInvoiceData, InvoiceItem, TaxBreakdown } from './ocr'
+import { calculateInvoiceTotals, getInvoiceLines, getTaxBreakdown, hasNegativeTotal } from './einvoice'
+import { formatXmlDate } from './xml'
+
+// 'fatal' mirrors the flag used by the official EN 16931 schematron; fatal issues block e-invoice export
+export type ValidationSeverity = 'fatal' | 'warning'
+
+export interface ValidationIssue {
+  ruleId: string
+  severity: ValidationSeverity
+  field: string
+  message: string
+}
+
+export interface ValidationResult {
+  isValid: boolean
+  issues: ValidationIssue[]
+}
+
+export interface EN16931ValidationOptions {
+  sellerCountryCode?: string
+  buyerCountryCode?: string
+  defaultTaxCategory?: string
+}
+
+// Amounts are compared after rounding to cents, the precision of the exported XML
+const AMOUNT_TOLERANCE = 0.01
+
+const round = (value: number) => Math.round(value * 100) / 100
+const amountsDiffer = (a: number, b: number) => Math.abs(round(a) - round(b)) >= AMOUNT_TOLERANCE
+
+const isBlank = (value: string | undefined) => !value || value.trim() === ''
+
+type Reporter = (ruleId: string, field: string, message: string, severity?: ValidationSeverity) => void
+
+/**
+ * Checks ExtractedInvoiceData against the EN 16931-1 semantic rules. The data
+ * is validated the way the UBL/CII serializers will export it, so derived
+ * values (summary line, single VAT breakdown) are checked rather than flagged
+ * as missing.
+ */
+export class EN16931Validator {
+  static validate(invoice: ExtractedInvoiceData, options: EN16931ValidationOptions = {}): ValidationResult {
+    const issues: ValidationIssue[] = []
+    const report: Reporter = (ruleId, field, message, severity = 'fatal') => {
+      issues.push({ ruleId, severity, field, message })
+    }
+
+    // Credit notes are stored with negative amounts but exported as positive ones
+    const sign = hasNegativeTotal(invoice) ? -1 : 1
+    const lines = getInvoiceLines(invoice, options.defaultTaxCategory).map(item => ({
+      ...item,
+      amount: item.amount === undefined ? undefined : item.amount * sign,
+      unitPrice: item.unitPrice === undefined ? undefined : item.unitPrice * sign
+    }))
+    const breakdown = getTaxBreakdown(invoice, options.defaultTaxCategory).map(subtotal => ({
+      ...subtotal,
+      taxableAmount: subtotal.taxableAmount * sign,
+      taxAmount: subtotal.taxAmount * sign
+    }))
+    const rawTotals = calculateInvoiceTotals(invoice)
+    const totals = {
+      lineExtensionAmount: rawTotals.lineExtensionAmount * sign,
+      taxExclusiveAmount: rawTotals.taxExclusiveAmount * sign,
+      taxAmount: rawTotals.taxAmount * sign,
+      taxInclusiveAmount: rawTotals.taxInclusiveAmount * sign
+    }
+
+    this.checkHeader(invoice, options, report)
+    this.checkTotals(invoice, totals, breakdown, report)
+    this.checkLines(invoice, lines, report)
+    this.checkVatBreakdown(breakdown, report)
+    this.checkVatCategories(invoice, lines, breakdown, report)
+
+    return {
+      isValid: !issues.some(issue => issue.severity === 'fatal'),
+      issues
+    }
+  }
+
+  private static checkHeader(
+    invoice: ExtractedInvoiceData,
+    options: EN16931ValidationOptions,
+    report: Reporter
+  ) {
+    if (isBlank(invoice.invoiceNumber)) report('BR-02', 'invoiceNumber', 'An invoice shall have an invoice number')
+
+    if (isBlank(invoice.date)) {
+      report('BR-03', 'date', 'An invoice shall have an invoice issue date')
+    } else if (!formatXmlDate(invoice.date)) {
+      report('BR-03', 'date', `Invoice issue date "${invoice.date}" is not a valid date`)
+    }
+
+    if (invoice.currency && !/^[A-Z]{3}$/.test(invoice.currency)) {
+      report('BR-05', 'currency', `Invoice currency code "${invoice.currency}" is not an ISO 4217 code`)
+    }
+
+    if (isBlank(invoice.vendor)) report('BR-06', 'vendor', 'An invoice shall contain the seller name')
+    if (isBlank(invoice.billTo)) report('BR-07', 'billTo', 'An invoice shall contain the buyer name')
+
+    // BR-08 / BR-10 only require the address group, which the country code alone satisfies
+    const sellerCountry = invoice.vendorCountry || options.sellerCountryCode
+    if (isBlank(sellerCountry)) {
+      report('BR-09', 'vendorCountry', 'The seller postal address shall contain a country code')
+    } else if (!/^[A-Z]{2}$/.test(sellerCountry!)) {
+      report('BR-09', 'vendorCountry', `Seller country code "${sellerCountry}" is not an ISO 3166-1 alpha-2 code`)
+    }
+
+    const buyerCountry = invoice.billToCountry || options.buyerCountryCode
+    if (isBlank(buyerCountry)) {
+      report('BR-11', 'billToCountry', 'The buyer postal address shall contain a country code')
+    } else if (!/^[A-Z]{2}$/.test(buyerCountry!)) {
+      report('BR-11', 'billToCountry', `Buyer country code "${buyerCountry}" is not an ISO 3166-1 alpha-2 code`)
+    }
+
+    // VAT identifiers start with the ISO country code (Greece uses EL)
+    if (invoice.vendorVatId && !/^[A-Z]{2}/.test(invoice.vendorVatId)) {
+      report('BR-CO-09', 'vendorVatId', `Seller VAT identifier "${invoice.vendorVatId}" shall have a country prefix`)
+    }
+    if (invoice.billToVatId && !/^[A-Z]{2}/.test(invoice.billToVatId)) {
+      report('BR-CO-09', 'billToVatId', `Buyer VAT identifier "${invoice.billToVatId}" shall have a country prefix`)
+    }
+  }
+
+  private static checkTotals(
+    invoice: ExtractedInvoiceData,
+    totals: { lineExtensionAmount: number; taxExclusiveAmount: number; taxAmount: number; taxInclusiveAmount: number },
+    breakdown: TaxBreakdown[],
+    report: Reporter
+  ) {
+    const hasItems = !!invoice.items && invoice.items.length > 0
+    if (invoice.total === undefined && invoice.subtotal === undefined && !hasItems) {
+      report('BR-14', 'total', 'An invoice shall have the invoice total amount with VAT')
+    }
+
+    // No document-level allowances or charges are extracted, so the net total must equal the line sum
+    if (hasItems && amountsDiffer(totals.taxExclusiveAmount, totals.lineExtensionAmount)) {
+      report('BR-CO-13', 'subtotal',
+        `Invoice total without VAT (${round(totals.taxExclusiveAmount)}) shall equal the sum of line net amounts (${round(totals.lineExtensionAmount)})`)
+    }
+
+    const breakdownTax = breakdown.reduce((sum, subtotal) => sum + subtotal.taxAmount, 0)
+    if (amountsDiffer(totals.taxAmount, breakdownTax)) {
+      report('BR-CO-14', 'tax',
+        `Invoice total VAT amount (${round(totals.taxAmount)}) shall equal the sum of VAT category tax amounts (${round(breakdownTax)})`)
+    }
+
+    if (amountsDiffer(totals.taxInclusiveAmount, totals.taxExclusiveAmount + totals.taxAmount)) {
+      report('BR-CO-15', 'total',
+        `Invoice total with VAT (${round(totals.taxInclusiveAmount)}) shall equal total without VAT plus VAT (${round(totals.taxExclusiveAmount + totals.taxAmount)})`)
+    }
+
+    if (totals.taxInclusiveAmount > 0 && isBlank(invoice.dueDate)) {
+      report('BR-CO-25', 'dueDate', 'A positive amount due requires a payment due date or payment terms')
+    }
+  }
+
+  private static checkLines(
+    invoice: ExtractedInvoiceData,
+    lines: InvoiceItem[],
+    report: Reporter
+  ) {
+    if (!invoice.items || invoice.items.length === 0) {
+      report('BR-16', 'items', 'No invoice lines extracted; a single summary line will be exported', 'warning')
+      return
+    }
+
+    lines.forEach((item, index) => {
+      const field = `items[${index}]`
+      if (item.quantity === undefined) {
+        report('BR-22', `${field}.quantity`, `Line ${index + 1} has no invoiced quantity; 1 will be exported`, 'warning')
+      }
+      if (item.amount === undefined || isNaN(item.amount)) {
+        report('BR-24', `${field}.amount`, `Line ${index + 1} shall have a line net amount`)
+      }
+      if (isBlank(item.description)) {
+        report('BR-25', `${field}.description`, `Line ${index + 1} shall contain the item name`)
+      }
+      const netPrice = item.unitPrice ?? item.amount
+      if (netPrice === undefined) {
+        report('BR-26', `${field}.unitPrice`, `Line ${index + 1} shall contain the item net price`)
+      } else if (netPrice < 0) {
+        report('BR-27', `${field}.unitPrice`, `Line ${index + 1} item net price shall not be negative`)
+      }
+    })
+  }
+
+  private static checkVatBreakdown(
+    breakdown: TaxBreakdown[],
+    report: Reporter
+  ) {
+    breakdown.forEach((subtotal, index) => {
+      const field = `taxBreakdown[${index}]`
+      if (subtotal.taxableAmount === undefined || isNaN(subtotal.taxableAmount)) {
+        report('BR-45', `${field}.taxableAmount`, 'Each VAT breakdown shall have a VAT category taxable amount')
+      }
+      if (subtotal.taxAmount === undefined || isNaN(subtotal.taxAmount)) {
+        report('BR-46', `${field}.taxAmount`, 'Each VAT breakdown shall have a VAT category tax amount')
+      }
+      if (isBlank(subtotal.category)) {
+        report('BR-47', `${field}.category`, 'Each VAT breakdown shall be defined through a VAT category code')
+      }
+      if (subtotal.category !== 'O' && (subtotal.rate === undefined || isNaN(subtotal.rate))) {
+        report('BR-48', `${field}.rate`, 'Each VAT breakdown shall have a VAT category rate, except if the invoice is not subject to VAT')
+      }
+      if (amountsDiffer(subtotal.taxAmount, subtotal.taxableAmount * subtotal.rate / 100)) {
+        report('BR-CO-17', `${field}.taxAmount`,
+          `VAT category tax amount (${round(subtotal.taxAmount)}) shall equal taxable amount × rate (${round(subtotal.taxableAmount * subtotal.rate / 100)})`)
+      }
+    })
+  }
+
+  // BR-S-*, BR-Z-* and BR-E-*: standard rated, zero rated and exempt categories
+  private static checkVatCategories(
+    invoice: ExtractedInvoiceData,
+    lines: InvoiceItem[],
+    breakdown: TaxBreakdown[],
+    report: Reporter
+  ) {
+    const hasLinesFromData = !!invoice.items && invoice.items.length > 0
+
+    ;(['S', 'Z', 'E'] as const).forEach(category => {
+      const categoryLines = lines
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => item.taxCategory === category)
+      const categoryBreakdown = breakdown
+        .map((subtotal, index) => ({ subtotal, index }))
+        .filter(({ subtotal }) => subtotal.category === category)
+
+      if (categoryLines.length === 0 && categoryBreakdown.length === 0) return
+
+      if (categoryLines.length > 0 && categoryBreakdown.length === 0) {
+        report(`BR-${category}-01`, 'taxBreakdown', `Lines with VAT category ${category} require a VAT breakdown for category ${category}`)
+      }
+
+      if (isBlank(invoice.vendorVatId)) {
+        report(`BR-${category}-02`, 'vendorVatId', `An invoice with VAT category ${category} shall contain the seller VAT identifier`)
+      }
+
+      categoryLines.forEach(({ item, index }) => {
+        const rate = item.taxRate ?? 0
+        if (category === 'S' ? rate <= 0 : rate !== 0) {
+          report(`BR-${category}-05`, `items[${index}].taxRate`, category === 'S'
+            ? `Line ${index + 1} with VAT category S shall have a VAT rate greater than zero`
+            : `Line ${index + 1} with VAT category ${category} shall have a VAT rate of 0`)
+        }
+      })
+
+      categoryBreakdown.forEach(({ subtotal, index }) => {
+        const field = `taxBreakdown[${index}]`
+
+        // Only meaningful when the lines come from the document rather than the derived summary line
+        if (hasLinesFromData) {
+          const linesTotal = categoryLines
+            .filter(({ item }) => category !== 'S' || (item.taxRate ?? 0) === subtotal.rate)
+            .reduce((sum, { item }) => sum + (item.amount || 0), 0)
+          if (amountsDiffer(subtotal.taxableAmount, linesTotal)) {
+            report(`BR-${category}-08`, `${field}.taxableAmount`,
+              `VAT category ${category} taxable amount (${round(subtotal.taxableAmount)}) shall equal the sum of its line net amounts (${round(linesTotal)})`)
+          }
+        }
+
+        // BR-S-09 is the BR-CO-17 arithmetic already checked on every breakdown
+        if (category !== 'S' && round(subtotal.taxAmount) !== 0) {
+          report(`BR-${category}-09`, `${field}.taxAmount`, `VAT category ${category} tax amount shall be 0`)
+        }
+
+        if (category === 'E') {
+          if (isBlank(subtotal.exemptionReason)) {
+            report('BR-E-10', `${field}.exemptionReason`, 'VAT category E shall have a VAT exemption reason')
+          }
+        } else if (!isBlank(subtotal.exemptionReason)) {
+          report(`BR-${category}-10`, `${field}.exemptionReason`, `VAT category ${category} shall not have a VAT exemption reason`)
+        }
+      })
+    })
+  }
+}
+
+export const validateEN16931 = (invoice: ExtractedInvoiceData, options?: EN16931ValidationOptions) =>
+  EN16931Validator.validate(invoice, options)
@@ -1,6 +1,21 @@
 import * as XLSX from 'xlsx'
 import { saveAs } from 'file-saver'
+import JSZip from 'jszip'
 import { ExtractedInvoiceData } from './ocr'
+import { UBLSerializer, UBLExportOptions } from './ubl'
+import { PeppolEnvelope, PeppolEnvelopeOptions } from './peppol'
+import { CIISerializer, CIIProfile } from './cii'
+import { FacturXGenerator, FacturXExportOptions } from './facturx'
+import { EN16931Validator, ValidationIssue } from './en16931-validator'
+import { XRechnungSerializer, XRechnungValidator, XRechnungSyntax } from './xrechnung'
+import { FatturaPASerializer, FatturaPAExportOptions } from './fatturapa'
+import { CFDISerializer, CFDIExportOptions, CFDIValidator } from './cfdi'
+import { KSeFSerializer, KSeFExportOptions, KSeFValidator } from './ksef'
+import { FacturaeSerializer, FacturaeValidator, FacturaeExportOptions } from './facturae'
+import { EdifactSerializer, EdifactExportOptions, EdifactValidator } from './edifact'
+import { X12Serializer, X12ExportOptions, X12Validator } from './x12'
+import { ZATCASerializer, ZATCAValidator, ZATCAExportOptions, ZATCAInvoiceType } from './zatca'
+import { findLossyMappings } from './convert'
 
 export interface ExportOptions {
   filename?: string
@@ -8,6 +23,93 @@ export interface ExportOptions {
   dateFormat?: 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD'
 }
 
+export type EInvoiceFormat =
+  | 'ubl'
+  | 'peppol-sbd'
+  | 'cii'
+  | 'xrechnung-ubl'
+  | 'xrechnung-cii'
+  | 'fatturapa'
+  | 'cfdi'
+  | 'ksef'
+  | 'facturae'
+  | 'edifact'
+  | 'x12'
+  | 'zatca-simplified'
+  | 'zatca-standard'
+  | 'facturx-minimum'
+  | 'facturx-basicwl'
+  | 'facturx-basic'
+  | 'facturx-en16931'
+  | 'facturx-extended'
+
+export type EInvoiceExportOptions = ExportOptions & UBLExportOptions & PeppolEnvelopeOptions & FacturXExportOptions & FatturaPAExportOptions & CFDIExportOptions & KSeFExportOptions & FacturaeExportOptions & ZATCAExportOptions & EdifactExportOptions & X12ExportOptions
+
+export interface EInvoiceFormatInfo {
+  id: EInvoiceFormat
+  label: string
+  description: string
+}
+
+export const E_INVOICE_FORMATS: EInvoiceFormatInfo[] = [
+  { id: 'ubl', label: 'UBL', description: 'UBL 2.1 / Peppol BIS Billing 3.0' },
+  { id: 'peppol-sbd', label: 'Peppol SBD', description: 'Peppol BIS 3.0 UBL in an SBDH envelope for an access point' },
+  { id: 'cii', label: 'CII', description: 'UN/CEFACT CII D16B (ZUGFeRD, Factur-X, XRechnung)' },
+  { id: 'xrechnung-ubl', label: 'XRechnung (UBL)', description: 'XRechnung 3.0 CIUS in UBL syntax, requires Leitweg-ID' },
+  { id: 'xrechnung-cii', label: 'XRechnung (CII)', description: 'XRechnung 3.0 CIUS in CII syntax, requires Leitweg-ID' },
+  { id: 'fatturapa', label: 'FatturaPA', description: 'FatturaPA 1.2.2 for SDI (Italy), IT{VAT}_{progressivo}.xml' },
+  { id: 'cfdi', label: 'CFDI 4.0', description: 'Unsigned CFDI 4.0 Comprobante (Mexico) for PAC stamping' },
+  { id: 'ksef', label: 'KSeF FA(2)', description: 'Polish structured invoice FA(2) for KSeF submission' },
+  { id: 'facturae', label: 'Facturae 3.2.2', description: 'Spanish Facturae 3.2.2 for FACe, unsigned, requires DIR3 centres' },
+  { id: 'edifact', label: 'EDIFACT INVOIC', description: 'UN/EDIFACT INVOIC D.96A interchange (.edi)' },
+  { id: 'x12', label: 'X12 810', description: 'ANSI X12 810 invoice (004010) with ISA/GS envelope' },
+  { id: 'zatca-simplified', label: 'ZATCA Simplified', description: 'Saudi ZATCA Phase 2 simplified (B2C) invoice with hash chain and QR' },
+  { id: 'zatca-standard', label: 'ZATCA Standard', description: 'Saudi ZATCA Phase 2 standard (B2B) tax invoice with hash chain and QR' },
+  { id: 'facturx-minimum', label: 'Factur-X MINIMUM', description: 'PDF/A-3 with embedded CII, MINIMUM profile' },
+  { id: 'facturx-basicwl', label: 'Factur-X BASIC WL', description: 'PDF/A-3 with embedded CII, BASIC WL profile' },
+  { id: 'facturx-basic', label: 'Factur-X BASIC', description: 'PDF/A-3 with embedded CII, BASIC profile' },
+  { id: 'facturx-en16931', label: 'Factur-X EN 16931', description: 'PDF/A-3 with embedded CII, EN 16931 (COMFORT) profile' },
+  { id: 'facturx-extended', label: 'Factur-X EXTENDED', description: 'PDF/A-3 with embedded CII, EXTENDED profile' }
+]
+
+// Factur-X / ZUGFeRD hybrid PDF formats and the CII profile each one embeds
+const FACTURX_FORMAT_PROFILES: Partial<Record<EInvoiceFormat, CIIProfile>> = {
+  'facturx-minimum': 'MINIMUM',
+  'facturx-basicwl': 'BASIC WL',
+  'facturx-basic': 'BASIC',
+  'facturx-en16931': 'EN 16931',
+  'facturx-extended': 'EXTENDED'
+}
+
+// ZATCA invoices are hash-chained, so a batch is serialized in order rather than per invoice
+const ZATCA_FORMAT_TYPES: Partial<Record<EInvoiceFormat, ZATCAInvoiceType>> = {
+  'zatca-simplified': 'simplified',
+  'zatca-standard': 'standard'
+}
+
+const XRECHNUNG_FORMAT_SYNTAXES: Partial<Record<EInvoiceFormat, XRechnungSyntax>> = {
+  'xrechnung-ubl': 'ubl',
+  'xrechnung-cii': 'cii'
+}
+
+// MINIMUM and BASIC WL are not full EN 16931 invoices, so only the other formats are held to its rules
+const EN16931_FORMATS: EInvoiceFormat[] = ['ubl', 'cii', 'xrechnung-ubl', 'xrechnung-cii', 'facturx-basic', 'facturx-en16931', 'facturx-extended']
+
+export interface EInvoiceValidationResult {
+  isValid: boolean
+  invoices: {
+    row: number
+    invoiceNumber?: string
+    issues: ValidationIssue[]
+  }[]
+}
+
+interface EInvoiceFile {
+  name: string
+  content: string | Uint8Array
+  mimeType: string
+}
+
 export interface ExportRowData {
   'Row': number
   'Invoice Number': string
@@ -200,6 +302,120 @@ export class ExportService {
     XLSX.writeFile(workbook, `${filename}_${timestamp}.xlsx`)
   }
 
+  static async exportToEInvoice(
+    data: ExtractedInvoiceData[],
+    format: EInvoiceFormat,
+    options: EInvoiceExportOptions = {}
+  ): Promise<void> {
+    const { filename = 'invoices' } = options
+
+    if (data.length === 0) {
+      console.warn('No data to export')
+      return
+    }
+
+    const validation = this.validateEInvoiceData(data, format, options)
+    if (!validation.isValid) {
+      const blocked = validation.invoices.filter(invoice => invoice.issues.some(issue => issue.severity === 'fatal'))
+      throw new Error(`${blocked.length} invoice(s) are not compliant with ${format}: ${blocked
+        .map(invoice => `row ${invoice.row} (${invoice.issues.filter(issue => issue.severity === 'fatal').map(issue => issue.ruleId).join(', ')})`)
+        .join('; ')}`)
+    }
+
+    const zatcaInvoiceType = ZATCA_FORMAT_TYPES[format]
+    const files = zatcaInvoiceType
+      ? (await ZATCASerializer.toXMLChain(data, { ...options, zatcaInvoiceType })).map((result, index) => ({
+        name: ZATCASerializer.getFilename(data[index], options, index),
+        content: result.xml,
+        mimeType: 'application/xml;charset=utf-8'
+      }))
+      : await Promise.all(data.map((invoice, index) => this.serializeEInvoice(invoice, index, format, options)))
+
+    await this.saveEInvoiceFiles(files, filename)
+  }
+
+  static async serializeEInvoice(
+    invoice: ExtractedInvoiceData,
+    index: number,
+    format: EInvoiceFormat,
+    options: EInvoiceExportOptions = {}
+  ): Promise<EInvoiceFile> {
+    const facturXProfile = FACTURX_FORMAT_PROFILES[format]
+    if (facturXProfile) {
+      return {
+        name: FacturXGenerator.getFilename(invoice, index),
+        content: await FacturXGenerator.toPDF(invoice, { ...options, profile: facturXProfile }),
+        mimeType: 'application/pdf'
+      }
+    }
+
+    const zatcaInvoiceType = ZATCA_FORMAT_TYPES[format]
+    if (zatcaInvoiceType) {
+      return {
+        name: ZATCASerializer.getFilename(invoice, options, index),
+        content: (await ZATCASerializer.toXML(invoice, { ...options, zatcaInvoiceType })).xml,
+        mimeType: 'application/xml;charset=utf-8'
+      }
+    }
+
+    const xrechnungSyntax = XRECHNUNG_FORMAT_SYNTAXES[format]
+    if (xrechnungSyntax) {
+      return {
+        name: XRechnungSerializer.getFilename(invoice, xrechnungSyntax, index),
+        content: XRechnungSerializer.toXML(invoice, xrechnungSyntax, options),
+        mimeType: 'application/xml;charset=utf-8'
+      }
+    }
+
+    switch (format) {
+      case 'fatturapa':
+        return {
+          name: FatturaPASerializer.getFilename(invoice, options, index),
+          content: FatturaPASerializer.toXML(invoice, options, index),
+          mimeType: 'application/xml;charset=utf-8'
+        }
+      case 'cfdi':
+        return { name: CFDISerializer.getFilename(invoice, index), content: CFDISerializer.toXML(invoice, options), mimeType: 'application/xml;charset=utf-8' }
+      case 'ksef':
+        return { name: KSeFSerializer.getFilename(invoice, index), content: KSeFSerializer.toXML(invoice, options), mimeType: 'application/xml;charset=utf-8' }
+      case 'facturae':
+        return { name: FacturaeSerializer.getFilename(invoice, index), content: FacturaeSerializer.toXML(invoice, options), mimeType: 'application/xml;charset=utf-8' }
+      case 'edifact':
+        return { name: EdifactSerializer.getFilename(invoice, index), content: EdifactSerializer.toEDI(invoice, options, index), mimeType: 'application/edifact' }
+      case 'x12':
+        return { name: X12Serializer.getFilename(invoice, index), content: X12Serializer.toX12(invoice, options, index), mimeType: 'application/edi-x12' }
+      case 'peppol-sbd':
+        return { name: PeppolEnvelope.getFilename(invoice, index), content: PeppolEnvelope.fromInvoice(invoice, options), mimeType: 'application/xml;charset=utf-8' }
+      case 'cii':
+        return { name: CIISerializer.getFilename(invoice, index), content: CIISerializer.toXML(invoice, options), mimeType: 'application/xml;charset=utf-8' }
+      case 'ubl':
+      default:
+        return { name: UBLSerializer.getFilename(invoice, index), content: UBLSerializer.toXML(invoice, options), mimeType: 'application/xml;charset=utf-8' }
+    }
+  }
+
+  // Single invoices download as-is, batches as one ZIP archive
+  private static async saveEInvoiceFiles(files: EInvoiceFile[], filename: string): Promise<void> {
+    if (files.length === 1) {
+      const blob = new Blob([files[0].content as BlobPart], { type: files[0].mimeType })
+      saveAs(blob, files[0].name)
+      return
+    }
+
+    const zip = new JSZip()
+    const usedNames = new Set<string>()
+    files.forEach((file, index) => {
+      // Keep duplicate invoice numbers from overwriting each other in the archive
+      const name = usedNames.has(file.name) ? file.name.replace(/(\.\w+)$/, `_${index + 1}$1`) : file.name
+      usedNames.add(name)
+      zip.file(name, file.content)
+    })
+
+    const blob = await zip.generateAsync({ type: 'blob' })
+    const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-')
+    saveAs(blob, `${filename}_${timestamp}.zip`)
+  }
+
   private static generateSummary(data: ExtractedInvoiceData[]): SummaryData[] {
     if (data.length === 0) return []
     
@@ -240,6 +456,67 @@ export class ExportService {
     return summary
   }
 
+  // Invoices with fatal EN 16931, XRechnung BR-DE or national schema issues must be corrected before they can be exported in a compliant format
+  static validateEInvoiceData(
+    data: ExtractedInvoiceData[],
+    format: EInvoiceFormat,
+    options: EInvoiceExportOptions = {}
+  ): EInvoiceValidationResult {
+    const invoices = data.map((invoice, index) => ({
+      row: index + 1,
+      invoiceNumber: invoice.invoiceNumber,
+      issues: [...this.getComplianceIssues(invoice, index, format, options), ...this.getLossyMappingIssues(invoice, format, options)]
+    }))
+
+    return {
+      isValid: !invoices.some(invoice => invoice.issues.some(issue => issue.severity === 'fatal')),
+      invoices: invoices.filter(invoice => invoice.issues.length > 0)
+    }
+  }
+
+  // Fields the target format cannot carry are reported as warnings; they do not block the export
+  private static getLossyMappingIssues(invoice: ExtractedInvoiceData, format: EInvoiceFormat, options: EInvoiceExportOptions): ValidationIssue[] {
+    try {
+      return findLossyMappings(invoice, format, options).map(mapping => ({
+        ruleId: 'LOSSY',
+        severity: 'warning',
+        field: mapping.field,
+        message: mapping.message
+      }))
+    } catch {
+      // Invoices the serializer rejects are already reported by the compliance checks
+      return []
+    }
+  }
+
+  private static getComplianceIssues(
+    invoice: ExtractedInvoiceData,
+    index: number,
+    format: EInvoiceFormat,
+    options: EInvoiceExportOptions
+  ): ValidationIssue[] {
+    if (format === 'fatturapa') {
+      // National format: checked against the local copy of the FatturaPA schema instead of EN 16931
+      return FatturaPASerializer.validate(FatturaPASerializer.toXML(invoice, options, index)).map(violation => ({
+        ruleId: 'FatturaPA-XSD',
+        severity: 'fatal',
+        field: violation.path,
+        message: violation.message
+      }))
+    }
+    if (format === 'ksef') return KSeFValidator.validate(invoice, options)
+    if (format === 'peppol-sbd') return [...EN16931Validator.validate(invoice, options).issues, ...PeppolEnvelope.validate(invoice, options)]
+    if (format === 'facturae') return FacturaeValidator.validate(invoice, options)
+    if (format === 'cfdi') return CFDIValidator.validate(invoice, options)
+    if (format === 'edifact') return EdifactValidator.validate(invoice, options)
+    if (format === 'x12') return X12Validator.validate(invoice, options)
+    const zatcaInvoiceType = ZATCA_FORMAT_TYPES[format]
+    if (zatcaInvoiceType) return ZATCAValidator.validate(invoice, { ...options, zatcaInvoiceType })
+    if (XRECHNUNG_FORMAT_SYNTAXES[format]) return XRechnungValidator.validate(invoice, options).issues
+    if (EN16931_FORMATS.includes(format)) return EN16931Validator.validate(invoice, options).issues
+    return []
+  }
+
   // Utility method to validate data before export
   static validateExportData(data: ExtractedInvoiceData[]): {
     isValid: boolean
@@ -285,4 +562,10 @@ export const exportToCSV = (data: ExtractedInvoiceData[], options?: ExportOption
   ExportService.exportToCSV(data, options)
 
 export const exportToExcel = (data: ExtractedInvoiceData[], options?: ExportOptions) => 
-  ExportService.exportToExcel(data, options)
\ No newline at end of file
+  ExportService.exportToExcel(data, options)
+
+export const exportToEInvoice = (data: ExtractedInvoiceData[], format: EInvoiceFormat, options?: EInvoiceExportOptions) =>
+  ExportService.exportToEInvoice(data, format, options)
+
+export const validateEInvoiceData = (data: ExtractedInvoiceData[], format: EInvoiceFormat, options?: EInvoiceExportOptions) =>
+  ExportService.validateEInvoiceData(data, format, options)
\ No newline at end of file
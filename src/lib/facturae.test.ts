@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import { FacturaeSerializer, FacturaeValidator } from './facturae'
+import { ExtractedInvoiceData } from './ocr'
+import { elementNumber, elementText, findElements, parseXml } from './xml'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'facturae-1',
+  invoiceNumber: 'F2024-001',
+  date: '03/15/2024',
+  dueDate: '04/15/2024',
+  vendor: 'Acme SL',
+  vendorVatId: 'ESB12345674',
+  vendorAddress: 'Calle Mayor 1, 28013 Madrid',
+  vendorCountry: 'ES',
+  billTo: 'Ayuntamiento de Ejemplo',
+  billToVatId: 'ESP2800000A',
+  billToAddress: 'Plaza Mayor 1, 08001 Barcelona',
+  billToCountry: 'ES',
+  buyerAccountingOffice: 'L01080193',
+  buyerManagementBody: 'L01080194',
+  buyerProcessingUnit: 'L01080195',
+  subtotal: 100,
+  tax: 21,
+  total: 121,
+  currency: 'EUR',
+  paymentMethod: 'Bank transfer',
+  items: [{ description: 'Servicio', quantity: 2, unitPrice: 50, amount: 100, taxRate: 21 }]
+}
+
+// There is no Facturae reader, so the file is read back element by element
+function readBack(xml: string) {
+  const root = parseXml(xml).documentElement
+  return {
+    modality: elementText(root, 'FileHeader', 'Modality'),
+    invoicesCount: elementNumber(root, 'FileHeader', 'Batch', 'InvoicesCount'),
+    batchTotal: elementNumber(root, 'FileHeader', 'Batch', 'TotalInvoicesAmount', 'TotalAmount'),
+    sellerTaxId: elementText(root, 'Parties', 'SellerParty', 'TaxIdentification', 'TaxIdentificationNumber'),
+    seller: elementText(root, 'Parties', 'SellerParty', 'LegalEntity', 'CorporateName'),
+    sellerPostCode: elementText(root, 'Parties', 'SellerParty', 'LegalEntity', 'AddressInSpain', 'PostCode'),
+    buyerTaxId: elementText(root, 'Parties', 'BuyerParty', 'TaxIdentification', 'TaxIdentificationNumber'),
+    buyer: elementText(root, 'Parties', 'BuyerParty', 'LegalEntity', 'CorporateName'),
+    centres: findElements(root, 'Parties', 'BuyerParty', 'AdministrativeCentres', 'AdministrativeCentre').map(centre => [
+      elementText(centre, 'RoleTypeCode'),
+      elementText(centre, 'CentreCode')
+    ]),
+    invoices: findElements(root, 'Invoices', 'Invoice').map(entry => ({
+      invoiceNumber: elementText(entry, 'InvoiceHeader', 'InvoiceNumber'),
+      invoiceClass: elementText(entry, 'InvoiceHeader', 'InvoiceClass'),
+      date: elementText(entry, 'InvoiceIssueData', 'IssueDate'),
+      currency: elementText(entry, 'InvoiceIssueData', 'InvoiceCurrencyCode'),
+      net: elementNumber(entry, 'InvoiceTotals', 'TotalGrossAmountBeforeTaxes'),
+      tax: elementNumber(entry, 'InvoiceTotals', 'TotalTaxOutputs'),
+      total: elementNumber(entry, 'InvoiceTotals', 'InvoiceTotal'),
+      lines: findElements(entry, 'Items', 'InvoiceLine').map(line => ({
+        description: elementText(line, 'ItemDescription'),
+        quantity: elementNumber(line, 'Quantity'),
+        unitPrice: elementNumber(line, 'UnitPriceWithoutTax'),
+        amount: elementNumber(line, 'TotalCost'),
+        rate: elementNumber(line, 'TaxesOutputs', 'Tax', 'TaxRate')
+      }))
+    }))
+  }
+}
+
+describe('Facturae round trip', () => {
+  it('writes a schema-valid file that carries the invoice', () => {
+    const xml = FacturaeSerializer.toXML(invoice)
+
+    expect(FacturaeSerializer.validate(xml)).toEqual([])
+    expect(readBack(xml)).toEqual({
+      modality: 'I',
+      invoicesCount: 1,
+      batchTotal: 121,
+      sellerTaxId: 'B12345674',
+      seller: 'Acme SL',
+      sellerPostCode: '28013',
+      buyerTaxId: 'P2800000A',
+      buyer: 'Ayuntamiento de Ejemplo',
+      centres: [
+        ['01', 'L01080193'],
+        ['02', 'L01080194'],
+        ['03', 'L01080195']
+      ],
+      invoices: [{
+        invoiceNumber: 'F2024-001',
+        invoiceClass: 'OO',
+        date: '2024-03-15',
+        currency: 'EUR',
+        net: 100,
+        tax: 21,
+        total: 121,
+        lines: [{ description: 'Servicio', quantity: 2, unitPrice: 50, amount: 100, rate: 21 }]
+      }]
+    })
+  })
+
+  it('writes negative totals as a rectifying invoice that keeps the sign', () => {
+    const xml = FacturaeSerializer.toXML({
+      ...invoice,
+      subtotal: -100,
+      tax: -21,
+      total: -121,
+      items: [{ description: 'Servicio', quantity: -2, unitPrice: 50, amount: -100, taxRate: 21 }]
+    })
+
+    expect(FacturaeSerializer.validate(xml)).toEqual([])
+    expect(readBack(xml).invoices).toMatchObject([{ invoiceClass: 'OR', net: -100, tax: -21, total: -121 }])
+  })
+
+  it('batches invoices between the same parties into one file', () => {
+    const xml = FacturaeSerializer.toXML([invoice, { ...invoice, invoiceNumber: 'F2024-002' }])
+
+    expect(FacturaeSerializer.validate(xml)).toEqual([])
+    expect(readBack(xml)).toMatchObject({ modality: 'L', invoicesCount: 2, batchTotal: 242 })
+    expect(readBack(xml).invoices.map(entry => entry.invoiceNumber)).toEqual(['F2024-001', 'F2024-002'])
+    expect(() => FacturaeSerializer.toXML([invoice, { ...invoice, billToVatId: 'ESQ2800000B' }])).toThrow(
+      'All invoices of a Facturae batch must have the same seller and buyer'
+    )
+  })
+
+  it('names files after the invoice number', () => {
+    expect(FacturaeSerializer.getFilename({ ...invoice, invoiceNumber: 'F/2024 1' })).toBe('F_2024_1_facturae.xml')
+  })
+})
+
+describe('FacturaeValidator', () => {
+  it('accepts a complete invoice', () => {
+    expect(FacturaeValidator.validate(invoice)).toEqual([])
+  })
+
+  it('requires a valid DIR3 code for each administrative centre', () => {
+    const issues = FacturaeValidator.validate({ ...invoice, buyerAccountingOffice: undefined, buyerProcessingUnit: 'L01-08' })
+
+    // The malformed code also fails the CentreCode pattern of the schema
+    expect(issues.map(issue => issue.ruleId)).toContain('Facturae-XSD')
+    expect(issues.filter(issue => issue.ruleId === 'FACe-DIR3')).toMatchObject([
+      { ruleId: 'FACe-DIR3', severity: 'fatal', field: 'buyerAccountingOffice', message: 'FACe requires the DIR3 code of the oficina contable' },
+      { ruleId: 'FACe-DIR3', severity: 'fatal', field: 'buyerProcessingUnit', message: '"L01-08" is not a valid DIR3 code for the unidad tramitadora' }
+    ])
+  })
+})
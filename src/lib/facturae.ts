@@ -0,0 +1,480 @@
+import { ExtractedInvoiceData } from './ocr'
+import {
+  calculateInvoiceTotals,
+  getInvoiceLines,
+  getPaymentMeansCode,
+  getTaxBreakdown,
+  hasNegativeTotal,
+  splitPostalAddress
+} from './einvoice'
+import { ValidationIssue } from './en16931-validator'
+import { el, serializeXml, formatXmlAmount, formatXmlDate, XmlElement } from './xml'
+import { SchemaElement, SchemaViolation, UNBOUNDED, validateXmlSchema } from './xml-schema'
+
+export interface FacturaeExportOptions {
+  sellerCountryCode?: string
+  buyerCountryCode?: string
+  defaultTaxCategory?: string
+}
+
+const FACTURAE_NAMESPACE = 'http://www.facturae.gob.es/formato/Versiones/Facturaev3_2_2.xml'
+
+// FACe administrative centre roles and the invoice field holding each DIR3 code
+const ADMINISTRATIVE_CENTRES: Array<{ role: string; field: 'buyerAccountingOffice' | 'buyerManagementBody' | 'buyerProcessingUnit'; label: string }> = [
+  { role: '01', field: 'buyerAccountingOffice', label: 'oficina contable' },
+  { role: '02', field: 'buyerManagementBody', label: 'órgano gestor' },
+  { role: '03', field: 'buyerProcessingUnit', label: 'unidad tramitadora' }
+]
+
+// Facturae uses ISO 3166-1 alpha-3 country codes
+const COUNTRY_CODES: Record<string, string> = {
+  ES: 'ESP', PT: 'PRT', FR: 'FRA', DE: 'DEU', IT: 'ITA', NL: 'NLD', BE: 'BEL', LU: 'LUX', AT: 'AUT', IE: 'IRL',
+  DK: 'DNK', SE: 'SWE', FI: 'FIN', PL: 'POL', CZ: 'CZE', GR: 'GRC', GB: 'GBR', CH: 'CHE', AD: 'AND', US: 'USA', MX: 'MEX'
+}
+
+const EU_COUNTRIES = ['AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'EL', 'GR', 'ES', 'FI', 'FR', 'HR', 'HU', 'IE',
+  'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK']
+
+// The first two digits of a Spanish post code identify the province
+const PROVINCES = ['Álava', 'Albacete', 'Alicante', 'Almería', 'Ávila', 'Badajoz', 'Illes Balears', 'Barcelona', 'Burgos',
+  'Cáceres', 'Cádiz', 'Castellón', 'Ciudad Real', 'Córdoba', 'A Coruña', 'Cuenca', 'Girona', 'Granada', 'Guadalajara',
+  'Gipuzkoa', 'Huelva', 'Huesca', 'Jaén', 'León', 'Lleida', 'La Rioja', 'Lugo', 'Madrid', 'Málaga', 'Murcia', 'Navarra',
+  'Ourense', 'Asturias', 'Palencia', 'Las Palmas', 'Pontevedra', 'Salamanca', 'Santa Cruz de Tenerife', 'Cantabria',
+  'Segovia', 'Sevilla', 'Soria', 'Tarragona', 'Teruel', 'Toledo', 'Valencia', 'Valladolid', 'Bizkaia', 'Zamora',
+  'Zaragoza', 'Ceuta', 'Melilla']
+
+// UNTDID 4461 payment means to the Facturae PaymentMeans codes
+const PAYMENT_MEANS: Record<string, string> = {
+  '10': '01',
+  '49': '02',
+  '59': '02',
+  '30': '04',
+  '31': '04',
+  '42': '04',
+  '58': '04',
+  '20': '11',
+  '48': '19',
+  '54': '19',
+  '55': '19'
+}
+
+const AMOUNT_PATTERN = /^-?\d{1,15}\.\d{2}$/
+const SIX_DECIMAL_PATTERN = /^-?\d{1,15}\.\d{6}$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DIR3_PATTERN = /^[A-Z0-9]{9,10}$/
+
+const AMOUNT_SCHEMA = (name: string): SchemaElement => ({ name, children: [{ name: 'TotalAmount', pattern: AMOUNT_PATTERN }] })
+
+const ADDRESS_SCHEMAS: SchemaElement[] = [
+  {
+    name: 'AddressInSpain',
+    minOccurs: 0,
+    children: [
+      { name: 'Address', minLength: 1, maxLength: 80 },
+      { name: 'PostCode', pattern: /^\d{5}$/ },
+      { name: 'Town', minLength: 1, maxLength: 50 },
+      { name: 'Province', minLength: 1, maxLength: 20 },
+      { name: 'CountryCode', enumeration: ['ESP'] }
+    ]
+  },
+  {
+    name: 'OverseasAddress',
+    minOccurs: 0,
+    children: [
+      { name: 'Address', minLength: 1, maxLength: 80 },
+      { name: 'PostCodeAndTown', minLength: 1, maxLength: 50 },
+      { name: 'Province', minLength: 1, maxLength: 20 },
+      { name: 'CountryCode', pattern: /^[A-Z]{3}$/ }
+    ]
+  }
+]
+
+const PARTY_SCHEMA = (name: string, withCentres: boolean): SchemaElement => ({
+  name,
+  children: [
+    {
+      name: 'TaxIdentification',
+      children: [
+        { name: 'PersonTypeCode', enumeration: ['F', 'J'] },
+        { name: 'ResidenceTypeCode', enumeration: ['E', 'R', 'U'] },
+        { name: 'TaxIdentificationNumber', minLength: 3, maxLength: 30 }
+      ]
+    },
+    ...(withCentres ? [{
+      name: 'AdministrativeCentres',
+      minOccurs: 0,
+      children: [{
+        name: 'AdministrativeCentre',
+        maxOccurs: UNBOUNDED,
+        children: [
+          { name: 'CentreCode', pattern: DIR3_PATTERN },
+          { name: 'RoleTypeCode', enumeration: ['01', '02', '03', '04'] },
+          ...ADDRESS_SCHEMAS
+        ]
+      }]
+    }] : []),
+    {
+      name: 'LegalEntity',
+      minOccurs: 0,
+      children: [{ name: 'CorporateName', minLength: 1, maxLength: 80 }, ...ADDRESS_SCHEMAS]
+    },
+    {
+      name: 'Individual',
+      minOccurs: 0,
+      children: [
+        { name: 'Name', minLength: 1, maxLength: 40 },
+        { name: 'FirstSurname', minLength: 1, maxLength: 40 },
+        ...ADDRESS_SCHEMAS
+      ]
+    }
+  ]
+})
+
+const TAXES_OUTPUTS_SCHEMA: SchemaElement = {
+  name: 'TaxesOutputs',
+  children: [{
+    name: 'Tax',
+    maxOccurs: UNBOUNDED,
+    children: [
+      { name: 'TaxTypeCode', pattern: /^\d{2}$/ },
+      { name: 'TaxRate', pattern: AMOUNT_PATTERN },
+      AMOUNT_SCHEMA('TaxableBase'),
+      { ...AMOUNT_SCHEMA('TaxAmount'), minOccurs: 0 }
+    ]
+  }]
+}
+
+/**
+ * The parts of the Facturae 3.2.2 XSD (Facturaev3_2_2.xml) that apply to the
+ * elements this serializer emits. The XAdES signature FACe requires is added
+ * by the signing step, so ds:Signature is not part of it.
+ */
+export const FACTURAE_SCHEMA: SchemaElement = {
+  name: 'Facturae',
+  children: [
+    {
+      name: 'FileHeader',
+      children: [
+        { name: 'SchemaVersion', enumeration: ['3.2.2'] },
+        { name: 'Modality', enumeration: ['I', 'L'] },
+        { name: 'InvoiceIssuerType', enumeration: ['EM', 'RE', 'TE'] },
+        {
+          name: 'Batch',
+          children: [
+            { name: 'BatchIdentifier', minLength: 1, maxLength: 70 },
+            { name: 'InvoicesCount', pattern: /^[1-9]\d*$/ },
+            AMOUNT_SCHEMA('TotalInvoicesAmount'),
+            AMOUNT_SCHEMA('TotalOutstandingAmount'),
+            AMOUNT_SCHEMA('TotalExecutableAmount'),
+            { name: 'InvoiceCurrencyCode', pattern: /^[A-Z]{3}$/ }
+          ]
+        }
+      ]
+    },
+    {
+      name: 'Parties',
+      children: [PARTY_SCHEMA('SellerParty', false), PARTY_SCHEMA('BuyerParty', true)]
+    },
+    {
+      name: 'Invoices',
+      children: [{
+        name: 'Invoice',
+        maxOccurs: UNBOUNDED,
+        children: [
+          {
+            name: 'InvoiceHeader',
+            children: [
+              { name: 'InvoiceNumber', minLength: 1, maxLength: 20 },
+              { name: 'InvoiceDocumentType', enumeration: ['FC', 'FA', 'AF'] },
+              { name: 'InvoiceClass', enumeration: ['OO', 'OR', 'OC', 'CO', 'CR', 'CC'] },
+              {
+                name: 'Corrective',
+                minOccurs: 0,
+                children: [
+                  { name: 'ReasonCode', pattern: /^\d{2}$/ },
+                  { name: 'ReasonDescription', minLength: 1, maxLength: 100 },
+                  { name: 'TaxPeriod', children: [{ name: 'StartDate', pattern: DATE_PATTERN }, { name: 'EndDate', pattern: DATE_PATTERN }] },
+                  { name: 'CorrectionMethod', enumeration: ['01', '02', '03', '04'] },
+                  { name: 'CorrectionMethodDescription', minLength: 1, maxLength: 100 }
+                ]
+              }
+            ]
+          },
+          {
+            name: 'InvoiceIssueData',
+            children: [
+              { name: 'IssueDate', pattern: DATE_PATTERN },
+              { name: 'InvoiceCurrencyCode', pattern: /^[A-Z]{3}$/ },
+              { name: 'TaxCurrencyCode', pattern: /^[A-Z]{3}$/ },
+              { name: 'LanguageName', pattern: /^[a-z]{2}$/ }
+            ]
+          },
+          TAXES_OUTPUTS_SCHEMA,
+          {
+            name: 'InvoiceTotals',
+            children: [
+              { name: 'TotalGrossAmount', pattern: AMOUNT_PATTERN },
+              { name: 'TotalGrossAmountBeforeTaxes', pattern: AMOUNT_PATTERN },
+              { name: 'TotalTaxOutputs', pattern: AMOUNT_PATTERN },
+              { name: 'TotalTaxesWithheld', pattern: AMOUNT_PATTERN },
+              { name: 'InvoiceTotal', pattern: AMOUNT_PATTERN },
+              { name: 'TotalOutstandingAmount', pattern: AMOUNT_PATTERN },
+              { name: 'TotalExecutableAmount', pattern: AMOUNT_PATTERN }
+            ]
+          },
+          {
+            name: 'Items',
+            children: [{
+              name: 'InvoiceLine',
+              maxOccurs: UNBOUNDED,
+              children: [
+                { name: 'ItemDescription', minLength: 1, maxLength: 2500 },
+                { name: 'Quantity', pattern: /^-?\d+(\.\d+)?$/ },
+                { name: 'UnitPriceWithoutTax', pattern: SIX_DECIMAL_PATTERN },
+                { name: 'TotalCost', pattern: SIX_DECIMAL_PATTERN },
+                { name: 'GrossAmount', pattern: SIX_DECIMAL_PATTERN },
+                TAXES_OUTPUTS_SCHEMA,
+                { name: 'ArticleCode', minOccurs: 0, minLength: 1, maxLength: 20 }
+              ]
+            }]
+          },
+          {
+            name: 'PaymentDetails',
+            minOccurs: 0,
+            children: [{
+              name: 'Installment',
+              maxOccurs: UNBOUNDED,
+              children: [
+                { name: 'InstallmentDueDate', pattern: DATE_PATTERN },
+                { name: 'InstallmentAmount', pattern: AMOUNT_PATTERN },
+                { name: 'PaymentMeans', pattern: /^\d{2}$/ }
+              ]
+            }]
+          }
+        ]
+      }]
+    }
+  ]
+}
+
+// Spanish NIFs of legal entities start with a letter (B12345678); individuals end with one
+function getPersonTypeCode(taxId: string): 'F' | 'J' {
+  return /^[ABCDEFGHJNPQRSUVW]\d{7}[0-9A-J]$/.test(taxId) ? 'J' : 'F'
+}
+
+function getResidenceTypeCode(countryCode: string): 'R' | 'U' | 'E' {
+  if (countryCode === 'ES') return 'R'
+  return EU_COUNTRIES.includes(countryCode) ? 'U' : 'E'
+}
+
+export class FacturaeSerializer {
+  /**
+   * Serialize one file. Several invoices can share a file (batch modality L)
+   * when they have the same seller and buyer; the FileHeader carries their totals.
+   */
+  static toXML(invoices: ExtractedInvoiceData | ExtractedInvoiceData[], options: FacturaeExportOptions = {}): string {
+    const batch = Array.isArray(invoices) ? invoices : [invoices]
+    if (batch.length === 0) throw new Error('Facturae needs at least one invoice')
+    const [first] = batch
+    if (batch.some(invoice => invoice.vendorVatId !== first.vendorVatId || invoice.billToVatId !== first.billToVatId)) {
+      throw new Error('All invoices of a Facturae batch must have the same seller and buyer')
+    }
+
+    const currency = first.currency || 'EUR'
+    const batchTotal = batch.reduce((sum, invoice) => sum + calculateInvoiceTotals(invoice).taxInclusiveAmount, 0)
+    const sellerCountry = first.vendorCountry || options.sellerCountryCode || 'ES'
+    const buyerCountry = first.billToCountry || options.buyerCountryCode || 'ES'
+    const sellerTaxId = this.getTaxId(first.vendorVatId, sellerCountry)
+
+    const root = el('fe:Facturae', [
+      el('FileHeader', [
+        el('SchemaVersion', '3.2.2'),
+        el('Modality', batch.length > 1 ? 'L' : 'I'),
+        el('InvoiceIssuerType', 'EM'),
+        el('Batch', [
+          el('BatchIdentifier', `${sellerTaxId || ''}${first.invoiceNumber || ''}`.slice(0, 70)),
+          el('InvoicesCount', batch.length),
+          el('TotalInvoicesAmount', [el('TotalAmount', formatXmlAmount(batchTotal))]),
+          el('TotalOutstandingAmount', [el('TotalAmount', formatXmlAmount(batchTotal))]),
+          el('TotalExecutableAmount', [el('TotalAmount', formatXmlAmount(batchTotal))]),
+          el('InvoiceCurrencyCode', currency)
+        ])
+      ]),
+      el('Parties', [
+        this.buildParty('SellerParty', first.vendor, first.vendorAddress, sellerCountry, first.vendorVatId),
+        this.buildParty('BuyerParty', first.billTo, first.billToAddress, buyerCountry, first.billToVatId, first)
+      ]),
+      el('Invoices', batch.map(invoice => this.buildInvoice(invoice, options)))
+    ], { 'xmlns:fe': FACTURAE_NAMESPACE })
+
+    return serializeXml(root)
+  }
+
+  static getFilename(invoice: ExtractedInvoiceData, index: number = 0): string {
+    // Unsigned; the XAdES-signed copy sent to FACe is conventionally named .xsig
+    const base = (invoice.invoiceNumber || `invoice_${index + 1}`).replace(/[^A-Za-z0-9._-]/g, '_')
+    return `${base}_facturae.xml`
+  }
+
+  static validate(xml: string): SchemaViolation[] {
+    return validateXmlSchema(xml, FACTURAE_SCHEMA)
+  }
+
+  private static buildInvoice(invoice: ExtractedInvoiceData, options: FacturaeExportOptions): XmlElement | undefined {
+    // Rectifying invoices (OR) correct by differences, so credit notes keep their negative amounts
+    const isCorrective = hasNegativeTotal(invoice)
+    const totals = calculateInvoiceTotals(invoice)
+    const taxBreakdown = getTaxBreakdown(invoice, options.defaultTaxCategory)
+    const lines = getInvoiceLines(invoice, options.defaultTaxCategory)
+    const currency = invoice.currency || 'EUR'
+    const issueDate = formatXmlDate(invoice.date)
+    const paymentMeans = PAYMENT_MEANS[getPaymentMeansCode(invoice.paymentMethod) || '']
+
+    return el('Invoice', [
+      el('InvoiceHeader', [
+        el('InvoiceNumber', invoice.invoiceNumber),
+        el('InvoiceDocumentType', 'FC'),
+        el('InvoiceClass', isCorrective ? 'OR' : 'OO'),
+        isCorrective && el('Corrective', [
+          el('ReasonCode', '16'),
+          el('ReasonDescription', 'Base imponible'),
+          el('TaxPeriod', [el('StartDate', issueDate), el('EndDate', issueDate)]),
+          el('CorrectionMethod', '02'),
+          el('CorrectionMethodDescription', 'Rectificación por diferencias')
+        ])
+      ]),
+      el('InvoiceIssueData', [
+        el('IssueDate', issueDate),
+        el('InvoiceCurrencyCode', currency),
+        el('TaxCurrencyCode', currency),
+        el('LanguageName', 'es')
+      ]),
+      el('TaxesOutputs', taxBreakdown.map(subtotal => this.buildTax(subtotal.rate, subtotal.taxableAmount, subtotal.taxAmount))),
+      el('InvoiceTotals', [
+        el('TotalGrossAmount', formatXmlAmount(totals.lineExtensionAmount)),
+        el('TotalGrossAmountBeforeTaxes', formatXmlAmount(totals.taxExclusiveAmount)),
+        el('TotalTaxOutputs', formatXmlAmount(totals.taxAmount)),
+        el('TotalTaxesWithheld', formatXmlAmount(0)),
+        el('InvoiceTotal', formatXmlAmount(totals.taxInclusiveAmount)),
+        el('TotalOutstandingAmount', formatXmlAmount(totals.taxInclusiveAmount)),
+        el('TotalExecutableAmount', formatXmlAmount(totals.taxInclusiveAmount))
+      ]),
+      el('Items', lines.map((item, index) => {
+        const amount = item.amount ?? 0
+        const rate = item.taxRate ?? 0
+        return el('InvoiceLine', [
+          el('ItemDescription', item.description || `Item ${index + 1}`),
+          el('Quantity', item.quantity ?? 1),
+          el('UnitPriceWithoutTax', formatXmlAmount(item.unitPrice ?? amount, 6)),
+          el('TotalCost', formatXmlAmount(amount, 6)),
+          el('GrossAmount', formatXmlAmount(amount, 6)),
+          el('TaxesOutputs', [this.buildTax(rate, amount, amount * rate / 100)]),
+          el('ArticleCode', item.productCode?.slice(0, 20))
+        ])
+      })),
+      issueDate && paymentMeans && el('PaymentDetails', [
+        el('Installment', [
+          el('InstallmentDueDate', formatXmlDate(invoice.dueDate) || issueDate),
+          el('InstallmentAmount', formatXmlAmount(totals.taxInclusiveAmount)),
+          el('PaymentMeans', paymentMeans)
+        ])
+      ])
+    ])
+  }
+
+  // TaxTypeCode 01 is IVA
+  private static buildTax(rate: number, taxableAmount: number, taxAmount: number): XmlElement | undefined {
+    return el('Tax', [
+      el('TaxTypeCode', '01'),
+      el('TaxRate', formatXmlAmount(rate)),
+      el('TaxableBase', [el('TotalAmount', formatXmlAmount(taxableAmount))]),
+      el('TaxAmount', [el('TotalAmount', formatXmlAmount(taxAmount))])
+    ])
+  }
+
+  private static buildParty(
+    name: string,
+    partyName: string | undefined,
+    address: string | undefined,
+    countryCode: string,
+    vatId: string | undefined,
+    buyer?: ExtractedInvoiceData
+  ): XmlElement | undefined {
+    const taxId = this.getTaxId(vatId, countryCode)
+    const personType = countryCode === 'ES' && taxId ? getPersonTypeCode(taxId) : 'J'
+    const addressElement = this.buildAddress(address, countryCode)
+    const [firstName, ...surnames] = (partyName || '').split(/\s+/)
+
+    return el(name, [
+      el('TaxIdentification', [
+        el('PersonTypeCode', personType),
+        el('ResidenceTypeCode', getResidenceTypeCode(countryCode)),
+        el('TaxIdentificationNumber', taxId)
+      ]),
+      buyer && el('AdministrativeCentres', ADMINISTRATIVE_CENTRES.map(centre => buyer[centre.field]
+        ? el('AdministrativeCentre', [
+          el('CentreCode', buyer[centre.field]),
+          el('RoleTypeCode', centre.role),
+          addressElement
+        ])
+        : undefined)),
+      personType === 'J'
+        ? el('LegalEntity', [el('CorporateName', partyName?.slice(0, 80)), addressElement])
+        : el('Individual', [el('Name', firstName), el('FirstSurname', surnames.join(' ') || firstName), addressElement])
+    ])
+  }
+
+  private static buildAddress(address: string | undefined, countryCode: string): XmlElement | undefined {
+    if (!address) return undefined
+    const parts = splitPostalAddress(address)
+
+    if (countryCode === 'ES') {
+      return el('AddressInSpain', [
+        el('Address', (parts.street || address).slice(0, 80)),
+        el('PostCode', parts.postCode),
+        el('Town', parts.city),
+        el('Province', parts.postCode ? PROVINCES[parseInt(parts.postCode.slice(0, 2), 10) - 1] : undefined),
+        el('CountryCode', 'ESP')
+      ])
+    }
+
+    return el('OverseasAddress', [
+      el('Address', (parts.street || address).slice(0, 80)),
+      el('PostCodeAndTown', [parts.postCode, parts.city].filter(Boolean).join(' ') || undefined),
+      el('Province', parts.city?.slice(0, 20)),
+      el('CountryCode', COUNTRY_CODES[countryCode] || countryCode)
+    ])
+  }
+
+  // Residents are identified by their NIF; others by the full VAT number
+  private static getTaxId(vatId: string | undefined, countryCode: string): string | undefined {
+    const normalized = vatId?.replace(/[\s-]/g, '').toUpperCase()
+    return countryCode === 'ES' ? normalized?.replace(/^ES/, '') : normalized
+  }
+}
+
+export class FacturaeValidator {
+  /**
+   * Local XSD check of the generated file, plus the FACe requirement that
+   * public buyers are addressed through their three DIR3 administrative centres.
+   */
+  static validate(invoice: ExtractedInvoiceData, options: FacturaeExportOptions = {}): ValidationIssue[] {
+    const issues: ValidationIssue[] = FacturaeSerializer.validate(FacturaeSerializer.toXML(invoice, options)).map(violation => ({
+      ruleId: 'Facturae-XSD',
+      severity: 'fatal',
+      field: violation.path,
+      message: violation.message
+    }))
+
+    ADMINISTRATIVE_CENTRES.forEach(centre => {
+      const code = invoice[centre.field]
+      if (!code) {
+        issues.push({ ruleId: 'FACe-DIR3', severity: 'fatal', field: centre.field, message: `FACe requires the DIR3 code of the ${centre.label}` })
+      } else if (!DIR3_PATTERN.test(code)) {
+        issues.push({ ruleId: 'FACe-DIR3', severity: 'fatal', field: centre.field, message: `"${code}" is not a valid DIR3 code for the ${centre.label}` })
+      }
+    })
+
+    return issues
+  }
+}
@@ -0,0 +1,472 @@
+import {
+  AFRelationship,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  PDFString,
+  rgb
+} from 'pdf-lib'
+import fontkit from '@pdf-lib/fontkit'
+import { ExtractedInvoiceData } from './ocr'
+import { CIISerializer, CIIExportOptions, CIIProfile } from './cii'
+import { calculateInvoiceTotals, getInvoiceLines, getTaxBreakdown, hasNegativeTotal } from './einvoice'
+import { escapeXml, formatXmlDate } from './xml'
+
+export interface FacturXExportOptions extends CIIExportOptions {
+  /**
+   * TrueType/OpenType fonts to embed. PDF/A requires every font to be
+   * embedded, so without them the bundled DejaVu Sans is fetched from
+   * PDF_FONT_BASE_PATH. The bold font defaults to the regular one.
+   */
+  fontBytes?: Uint8Array | ArrayBuffer
+  boldFontBytes?: Uint8Array | ArrayBuffer
+  creator?: string
+}
+
+// Attachment name mandated by Factur-X 1.0 / ZUGFeRD 2.1+
+export const FACTURX_FILENAME = 'factur-x.xml'
+
+export const FACTURX_PROFILES: CIIProfile[] = ['MINIMUM', 'BASIC WL', 'BASIC', 'EN 16931', 'EXTENDED']
+
+// DejaVu Sans is copied into public/pdf-fonts by scripts/copy-pdf-fonts.mjs.
+// Set NEXT_PUBLIC_PDF_FONT_BASE_PATH when it is served from elsewhere.
+export const PDF_FONT_BASE_PATH = (process.env.NEXT_PUBLIC_PDF_FONT_BASE_PATH || '/pdf-fonts').replace(/\/$/, '')
+const DEFAULT_FONT_FILES = { regular: 'DejaVuSans.ttf', bold: 'DejaVuSans-Bold.ttf' }
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 50
+const FONT_SIZE = 9
+const LINE_HEIGHT = 13
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1)
+const MUTED_COLOR = rgb(0.45, 0.45, 0.45)
+
+interface PageFonts {
+  regular: PDFFont
+  bold: PDFFont
+}
+
+// Keeps track of the cursor while the invoice flows over one or more A4 pages
+class PageWriter {
+  page: PDFPage
+  y: number
+
+  constructor(private doc: PDFDocument, private fonts: PageFonts) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height >= MARGIN) return
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  text(value: string, x: number, options: { bold?: boolean; size?: number; align?: 'left' | 'right'; maxWidth?: number; muted?: boolean } = {}) {
+    const font = options.bold ? this.fonts.bold : this.fonts.regular
+    const size = options.size || FONT_SIZE
+    let content = this.sanitize(value, font)
+    if (options.maxWidth) content = this.truncate(content, font, size, options.maxWidth)
+
+    const width = font.widthOfTextAtSize(content, size)
+    this.page.drawText(content, {
+      x: options.align === 'right' ? x - width : x,
+      y: this.y,
+      size,
+      font,
+      color: options.muted ? MUTED_COLOR : TEXT_COLOR
+    })
+  }
+
+  rule() {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y + LINE_HEIGHT - 4 },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y + LINE_HEIGHT - 4 },
+      thickness: 0.5,
+      color: MUTED_COLOR
+    })
+  }
+
+  newLine(count: number = 1) {
+    this.y -= LINE_HEIGHT * count
+  }
+
+  // Standard fonts only cover WinAnsi; replace anything else instead of failing the export
+  private sanitize(value: string, font: PDFFont): string {
+    return Array.from(value.replace(/[\r\n\t]+/g, ' ')).map(char => {
+      try {
+        font.encodeText(char)
+        return char
+      } catch {
+        return '?'
+      }
+    }).join('')
+  }
+
+  private truncate(value: string, font: PDFFont, size: number, maxWidth: number): string {
+    if (font.widthOfTextAtSize(value, size) <= maxWidth) return value
+    let end = value.length
+    while (end > 0 && font.widthOfTextAtSize(`${value.slice(0, end)}...`, size) > maxWidth) end--
+    return `${value.slice(0, end)}...`
+  }
+}
+
+export class FacturXGenerator {
+  /**
+   * Build a Factur-X / ZUGFeRD hybrid invoice: a PDF/A-3 rendering of the
+   * invoice with the CII XML of the selected profile attached as factur-x.xml.
+   */
+  static async toPDF(invoice: ExtractedInvoiceData, options: FacturXExportOptions = {}): Promise<Uint8Array> {
+    const profile = options.profile || 'EN 16931'
+    const xml = CIISerializer.toXML(invoice, { ...options, profile })
+    const now = new Date()
+
+    const doc = await PDFDocument.create({ updateMetadata: false })
+    const fonts = await this.loadFonts(doc, options)
+
+    this.renderInvoice(doc, fonts, invoice, profile)
+
+    const title = `Invoice ${invoice.invoiceNumber || ''}`.trim()
+    const author = invoice.vendor || 'Unknown seller'
+    const subject = `Factur-X ${profile} invoice`
+    const creator = options.creator || 'Invoice OCR'
+    doc.setTitle(title)
+    doc.setAuthor(author)
+    doc.setSubject(subject)
+    doc.setCreator(creator)
+    doc.setProducer('pdf-lib')
+    doc.setCreationDate(now)
+    doc.setModificationDate(now)
+
+    await doc.attach(new TextEncoder().encode(xml), FACTURX_FILENAME, {
+      mimeType: 'text/xml',
+      description: `Factur-X ${profile} invoice`,
+      creationDate: now,
+      modificationDate: now,
+      // The XML only carries the full invoice from BASIC upwards
+      afRelationship: profile === 'MINIMUM' || profile === 'BASIC WL'
+        ? AFRelationship.Data
+        : AFRelationship.Alternative
+    })
+
+    this.addMetadata(doc, { title, author, subject, creator, producer: 'pdf-lib', date: now, profile })
+    this.addOutputIntent(doc)
+    this.setDocumentId(doc, invoice, now)
+
+    return doc.save({ useObjectStreams: false })
+  }
+
+  static getFilename(invoice: ExtractedInvoiceData, index: number = 0): string {
+    const base = (invoice.invoiceNumber || `invoice_${index + 1}`).replace(/[^A-Za-z0-9._-]/g, '_')
+    return `${base}_facturx.pdf`
+  }
+
+  private static async loadFonts(doc: PDFDocument, options: FacturXExportOptions): Promise<PageFonts> {
+    let regularBytes = options.fontBytes
+    let boldBytes = options.boldFontBytes || options.fontBytes
+    if (!regularBytes) {
+      [regularBytes, boldBytes] = await Promise.all([
+        this.fetchDefaultFont(DEFAULT_FONT_FILES.regular),
+        this.fetchDefaultFont(DEFAULT_FONT_FILES.bold)
+      ])
+    }
+
+    doc.registerFontkit(fontkit)
+    const regular = await doc.embedFont(regularBytes, { subset: true })
+    const bold = boldBytes === regularBytes ? regular : await doc.embedFont(boldBytes!, { subset: true })
+    return { regular, bold }
+  }
+
+  // A PDF/A-3 without embedded fonts is not a valid Factur-X, so a missing font stops the export
+  private static async fetchDefaultFont(file: string): Promise<ArrayBuffer> {
+    const url = `${PDF_FONT_BASE_PATH}/${file}`
+    try {
+      const response = await fetch(url)
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      return await response.arrayBuffer()
+    } catch (error) {
+      throw new Error(`Factur-X export needs an embedded font, but ${url} could not be loaded (${error instanceof Error ? error.message : 'Unknown error'}). Run the build so scripts/copy-pdf-fonts.mjs copies it, or pass fontBytes.`)
+    }
+  }
+
+  private static renderInvoice(doc: PDFDocument, fonts: PageFonts, invoice: ExtractedInvoiceData, profile: CIIProfile) {
+    const isCreditNote = hasNegativeTotal(invoice)
+    // Same sign convention as the embedded XML so both representations agree
+    const sign = isCreditNote ? -1 : 1
+    const currency = invoice.currency || 'EUR'
+    const money = (value: number | undefined) => `${((value ?? 0) * sign).toFixed(2)} ${currency}`
+    const totals = calculateInvoiceTotals(invoice)
+    const writer = new PageWriter(doc, fonts)
+    const right = PAGE_WIDTH - MARGIN
+
+    writer.text(isCreditNote ? 'CREDIT NOTE' : 'INVOICE', MARGIN, { bold: true, size: 18 })
+    writer.text(`Factur-X ${profile}`, right, { align: 'right', muted: true })
+    writer.newLine(2)
+
+    const details: Array<[string, string | undefined]> = [
+      ['Number', invoice.invoiceNumber],
+      ['Issue date', formatXmlDate(invoice.date)],
+      ['Due date', formatXmlDate(invoice.dueDate)],
+      ['Buyer reference', invoice.buyerReference],
+      ['Payment reference', invoice.transactionId],
+      ['Payment method', invoice.paymentMethod]
+    ]
+    details.filter(([, value]) => value).forEach(([label, value]) => {
+      writer.text(label, MARGIN, { bold: true })
+      writer.text(value!, MARGIN + 110)
+      writer.newLine()
+    })
+    writer.newLine()
+
+    // Seller and buyer side by side
+    const partyWidth = (PAGE_WIDTH - MARGIN * 2) / 2 - 10
+    const seller = [invoice.vendor, invoice.vendorAddress, invoice.vendorCountry,
+      invoice.vendorVatId && `VAT ID: ${invoice.vendorVatId}`, invoice.vendorPhone, invoice.vendorEmail]
+    const buyer = [invoice.billTo, invoice.billToAddress, invoice.billToCountry,
+      invoice.billToVatId && `VAT ID: ${invoice.billToVatId}`]
+    writer.text('Seller', MARGIN, { bold: true })
+    writer.text('Buyer', MARGIN + partyWidth + 20, { bold: true })
+    writer.newLine()
+    const sellerLines = seller.filter((line): line is string => !!line)
+    const buyerLines = buyer.filter((line): line is string => !!line)
+    for (let i = 0; i < Math.max(sellerLines.length, buyerLines.length); i++) {
+      if (sellerLines[i]) writer.text(sellerLines[i], MARGIN, { maxWidth: partyWidth })
+      if (buyerLines[i]) writer.text(buyerLines[i], MARGIN + partyWidth + 20, { maxWidth: partyWidth })
+      writer.newLine()
+    }
+    writer.newLine()
+
+    // Line items
+    const columns = { index: MARGIN, description: MARGIN + 25, quantity: 340, unitPrice: 420, rate: 465, amount: right }
+    const drawLineHeader = () => {
+      writer.text('#', columns.index, { bold: true })
+      writer.text('Description', columns.description, { bold: true })
+      writer.text('Qty', columns.quantity, { bold: true, align: 'right' })
+      writer.text('Unit price', columns.unitPrice, { bold: true, align: 'right' })
+      writer.text('VAT %', columns.rate, { bold: true, align: 'right' })
+      writer.text('Amount', columns.amount, { bold: true, align: 'right' })
+      writer.newLine()
+      writer.rule()
+    }
+    drawLineHeader()
+    getInvoiceLines(invoice).forEach((item, index) => {
+      const pageBefore = writer.page
+      writer.ensureSpace(LINE_HEIGHT)
+      if (writer.page !== pageBefore) drawLineHeader()
+
+      writer.text(String(index + 1), columns.index)
+      writer.text(item.description || `Item ${index + 1}`, columns.description, { maxWidth: columns.quantity - columns.description - 40 })
+      writer.text(String(item.quantity ?? 1), columns.quantity, { align: 'right' })
+      writer.text(((item.unitPrice ?? item.amount ?? 0) * sign).toFixed(2), columns.unitPrice, { align: 'right' })
+      writer.text((item.taxRate ?? 0).toFixed(2), columns.rate, { align: 'right' })
+      writer.text(money(item.amount), columns.amount, { align: 'right' })
+      writer.newLine()
+    })
+    writer.newLine()
+
+    // VAT breakdown and totals
+    const taxBreakdown = getTaxBreakdown(invoice)
+    writer.ensureSpace(LINE_HEIGHT * (taxBreakdown.length + 6))
+    writer.text('VAT breakdown', MARGIN, { bold: true })
+    writer.newLine()
+    taxBreakdown.forEach(subtotal => {
+      writer.text(`${subtotal.category} ${subtotal.rate.toFixed(2)}%`, MARGIN)
+      writer.text(`on ${money(subtotal.taxableAmount)}`, MARGIN + 80)
+      writer.text(money(subtotal.taxAmount), MARGIN + 260, { align: 'right' })
+      if (subtotal.exemptionReason) writer.text(subtotal.exemptionReason, MARGIN + 280, { maxWidth: right - MARGIN - 280, muted: true })
+      writer.newLine()
+    })
+    writer.newLine()
+
+    const totalLines: Array<[string, number]> = [
+      ['Net amount', totals.taxExclusiveAmount],
+      ['VAT', totals.taxAmount],
+      ['Total', totals.taxInclusiveAmount]
+    ]
+    totalLines.forEach(([label, value], index) => {
+      const isGrandTotal = index === totalLines.length - 1
+      if (isGrandTotal) writer.rule()
+      writer.text(label, right - 180, { bold: isGrandTotal })
+      writer.text(money(value), right, { align: 'right', bold: isGrandTotal })
+      writer.newLine()
+    })
+
+    writer.newLine(2)
+    writer.ensureSpace(LINE_HEIGHT)
+    writer.text(`Structured invoice data is embedded as ${FACTURX_FILENAME} (Factur-X ${profile}).`, MARGIN, { muted: true, size: 7 })
+  }
+
+  // PDF/A-3b identification plus the Factur-X extension schema; values must mirror the Info dictionary
+  private static addMetadata(doc: PDFDocument, info: {
+    title: string
+    author: string
+    subject: string
+    creator: string
+    producer: string
+    date: Date
+    profile: CIIProfile
+  }) {
+    const date = info.date.toISOString().replace(/\.\d{3}Z$/, 'Z')
+    const xmp = `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+      <pdfaid:part>3</pdfaid:part>
+      <pdfaid:conformance>B</pdfaid:conformance>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:format>application/pdf</dc:format>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(info.title)}</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>${escapeXml(info.author)}</rdf:li></rdf:Seq></dc:creator>
+      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(info.subject)}</rdf:li></rdf:Alt></dc:description>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">
+      <pdf:Producer>${escapeXml(info.producer)}</pdf:Producer>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/">
+      <xmp:CreatorTool>${escapeXml(info.creator)}</xmp:CreatorTool>
+      <xmp:CreateDate>${date}</xmp:CreateDate>
+      <xmp:ModifyDate>${date}</xmp:ModifyDate>
+      <xmp:MetadataDate>${date}</xmp:MetadataDate>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/" xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#" xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+      <pdfaExtension:schemas>
+        <rdf:Bag>
+          <rdf:li rdf:parseType="Resource">
+            <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+            <pdfaSchema:namespaceURI>urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#</pdfaSchema:namespaceURI>
+            <pdfaSchema:prefix>fx</pdfaSchema:prefix>
+            <pdfaSchema:property>
+              <rdf:Seq>
+                <rdf:li rdf:parseType="Resource">
+                  <pdfaProperty:name>DocumentFileName</pdfaProperty:name>
+                  <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                  <pdfaProperty:category>external</pdfaProperty:category>
+                  <pdfaProperty:description>The name of the embedded XML document</pdfaProperty:description>
+                </rdf:li>
+                <rdf:li rdf:parseType="Resource">
+                  <pdfaProperty:name>DocumentType</pdfaProperty:name>
+                  <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                  <pdfaProperty:category>external</pdfaProperty:category>
+                  <pdfaProperty:description>The type of the hybrid document in capital letters, e.g. INVOICE or ORDER</pdfaProperty:description>
+                </rdf:li>
+                <rdf:li rdf:parseType="Resource">
+                  <pdfaProperty:name>Version</pdfaProperty:name>
+                  <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                  <pdfaProperty:category>external</pdfaProperty:category>
+                  <pdfaProperty:description>The actual version of the standard applying to the embedded XML document</pdfaProperty:description>
+                </rdf:li>
+                <rdf:li rdf:parseType="Resource">
+                  <pdfaProperty:name>ConformanceLevel</pdfaProperty:name>
+                  <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                  <pdfaProperty:category>external</pdfaProperty:category>
+                  <pdfaProperty:description>The conformance level of the embedded XML document</pdfaProperty:description>
+                </rdf:li>
+              </rdf:Seq>
+            </pdfaSchema:property>
+          </rdf:li>
+        </rdf:Bag>
+      </pdfaExtension:schemas>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:fx="urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#">
+      <fx:DocumentType>INVOICE</fx:DocumentType>
+      <fx:DocumentFileName>${FACTURX_FILENAME}</fx:DocumentFileName>
+      <fx:Version>1.0</fx:Version>
+      <fx:ConformanceLevel>${info.profile}</fx:ConformanceLevel>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`
+
+    // PDF/A requires the metadata stream to stay uncompressed
+    const metadata = doc.context.stream(new TextEncoder().encode(xmp), {
+      Type: 'Metadata',
+      Subtype: 'XML'
+    })
+    doc.catalog.set(PDFName.of('Metadata'), doc.context.register(metadata))
+  }
+
+  private static addOutputIntent(doc: PDFDocument) {
+    const profile = doc.context.flateStream(buildSRGBProfile(), { N: 3 })
+    const outputIntent = doc.context.obj({
+      Type: 'OutputIntent',
+      S: 'GTS_PDFA1',
+      OutputConditionIdentifier: PDFString.of('sRGB IEC61966-2.1'),
+      Info: PDFString.of('sRGB IEC61966-2.1'),
+      DestOutputProfile: doc.context.register(profile)
+    })
+    doc.catalog.set(PDFName.of('OutputIntents'), doc.context.obj([doc.context.register(outputIntent)]))
+  }
+
+  // PDF/A requires a file identifier in the trailer
+  private static setDocumentId(doc: PDFDocument, invoice: ExtractedInvoiceData, date: Date) {
+    const seed = `${invoice.invoiceNumber || ''}|${invoice.vendor || ''}|${date.getTime()}`
+    let hash = ''
+    for (let round = 0; round < 4; round++) {
+      let h = 0x811c9dc5 ^ round
+      for (let i = 0; i < seed.length; i++) {
+        h ^= seed.charCodeAt(i)
+        h = Math.imul(h, 0x01000193)
+      }
+      hash += (h >>> 0).toString(16).padStart(8, '0')
+    }
+    const id = PDFHexString.of(hash)
+    doc.context.trailerInfo.ID = doc.context.obj([id, id])
+  }
+}
+
+/**
+ * Minimal ICC v2 display profile with the sRGB primaries (D50-adapted) and a
+ * 2.2 gamma. Generated instead of bundled so the export has no binary asset.
+ */
+function buildSRGBProfile(): Uint8Array {
+  const ascii = (value: string) => Array.from(value).map(char => char.charCodeAt(0))
+  const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+  const s15Fixed16 = (value: number) => uint32(Math.round(value * 65536) >>> 0)
+  const xyz = (x: number, y: number, z: number) => [...ascii('XYZ '), 0, 0, 0, 0, ...s15Fixed16(x), ...s15Fixed16(y), ...s15Fixed16(z)]
+  const description = 'sRGB IEC61966-2.1'
+
+  const tags: Array<[string, number[]]> = [
+    ['desc', [
+      ...ascii('desc'), 0, 0, 0, 0,
+      ...uint32(description.length + 1), ...ascii(description), 0,
+      0, 0, 0, 0, 0, 0, 0, 0, // Unicode language code and count
+      0, 0, 0, ...new Array(67).fill(0) // ScriptCode code, count and buffer
+    ]],
+    ['cprt', [...ascii('text'), 0, 0, 0, 0, ...ascii('No copyright, use freely'), 0]],
+    ['wtpt', xyz(0.9642, 1.0, 0.8249)],
+    ['rXYZ', xyz(0.4361, 0.2225, 0.0139)],
+    ['gXYZ', xyz(0.3851, 0.7169, 0.0971)],
+    ['bXYZ', xyz(0.1431, 0.0606, 0.7141)],
+    ['rTRC', [...ascii('curv'), 0, 0, 0, 0, ...uint32(1), 0x02, 0x33, 0, 0]]
+  ]
+
+  const tagTableSize = 4 + (tags.length + 2) * 12
+  let offset = 128 + tagTableSize
+  const table: number[] = [...uint32(tags.length + 2)]
+  const data: number[] = []
+  let curveOffset = 0
+  tags.forEach(([signature, bytes]) => {
+    while (bytes.length % 4 !== 0) bytes.push(0)
+    if (signature === 'rTRC') curveOffset = offset
+    table.push(...ascii(signature), ...uint32(offset), ...uint32(bytes.length))
+    data.push(...bytes)
+    offset += bytes.length
+  })
+  // All three channels share the same tone curve
+  table.push(...ascii('gTRC'), ...uint32(curveOffset), ...uint32(14), ...ascii('bTRC'), ...uint32(curveOffset), ...uint32(14))
+
+  const header = [
+    ...uint32(offset), 0, 0, 0, 0,
+    0x02, 0x10, 0, 0, ...ascii('mntr'), ...ascii('RGB '), ...ascii('XYZ '),
+    ...new Array(12).fill(0), ...ascii('acsp'),
+    ...new Array(24).fill(0), // platform, flags, manufacturer, model, attributes
+    0, 0, 0, 0, // rendering intent
+    ...s15Fixed16(0.9642), ...s15Fixed16(1.0), ...s15Fixed16(0.8249),
+    ...new Array(48).fill(0) // creator and reserved
+  ]
+
+  return new Uint8Array([...header, ...table, ...data])
+}
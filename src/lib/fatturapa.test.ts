@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { FatturaPAParser, FatturaPASerializer } from './fatturapa'
+import { ExtractedInvoiceData } from './ocr'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'fatturapa-1',
+  invoiceNumber: 'FT-2025/1',
+  date: '03/15/2025',
+  dueDate: '04/15/2025',
+  vendor: 'Rossi Srl',
+  vendorVatId: 'IT01234567890',
+  vendorAddress: 'Via Roma 1, 00100 Roma',
+  vendorCountry: 'IT',
+  billTo: 'Bianchi SpA',
+  billToVatId: 'IT09876543210',
+  billToAddress: 'Corso Milano 5, 20100 Milano',
+  subtotal: 100,
+  tax: 22,
+  total: 122,
+  currency: 'EUR',
+  paymentMethod: 'Credit transfer',
+  items: [{ description: 'Consulenza', quantity: 1, unitPrice: 100, amount: 100 }]
+}
+
+describe('FatturaPA round trip', () => {
+  it('reads back what it writes', () => {
+    const xml = FatturaPASerializer.toXML(invoice, { recipientCode: 'ABC1234' })
+    const parsed = FatturaPAParser.parse(xml)
+
+    expect(FatturaPASerializer.validate(xml)).toEqual([])
+    expect(parsed).toMatchObject({
+      invoiceNumber: 'FT-2025/1',
+      date: '03/15/2025',
+      dueDate: '04/15/2025',
+      vendor: 'Rossi Srl',
+      vendorVatId: 'IT01234567890',
+      vendorAddress: 'Via Roma 1, 00100 Roma',
+      vendorCountry: 'IT',
+      billTo: 'Bianchi SpA',
+      billToVatId: 'IT09876543210',
+      billToAddress: 'Corso Milano 5, 20100 Milano',
+      billToCountry: 'IT',
+      subtotal: 100,
+      tax: 22,
+      total: 122,
+      currency: 'EUR',
+      paymentMethod: 'Credit transfer',
+      processingMethod: 'fatturapa-xml'
+    })
+    expect(parsed.taxBreakdown).toMatchObject([{ category: 'S', rate: 22, taxableAmount: 100, taxAmount: 22 }])
+    expect(parsed.items).toMatchObject([{ description: 'Consulenza', quantity: 1, unitPrice: 100, amount: 100 }])
+  })
+
+  it('writes negative totals as a TD04 credit note and reads them back negative', () => {
+    const xml = FatturaPASerializer.toXML({
+      ...invoice,
+      subtotal: -100,
+      tax: -22,
+      total: -122,
+      items: [{ description: 'Consulenza', quantity: 1, unitPrice: -100, amount: -100 }]
+    })
+
+    expect(xml).toContain('<TipoDocumento>TD04</TipoDocumento>')
+    expect(FatturaPAParser.parse(xml)).toMatchObject({ subtotal: -100, tax: -22, total: -122 })
+  })
+
+  it('maps categories without VAT to a Natura code and back', () => {
+    const xml = FatturaPASerializer.toXML({ ...invoice, tax: 0, total: 100 }, { defaultTaxCategory: 'E' })
+
+    expect(xml).toContain('<Natura>N4</Natura>')
+    expect(FatturaPAParser.parse(xml).taxBreakdown).toMatchObject([{ category: 'E', rate: 0, taxableAmount: 100, taxAmount: 0 }])
+  })
+
+  it('names files after the transmitter and a base-36 progressive', () => {
+    expect(FatturaPASerializer.getFilename(invoice, { progressivo: 37 })).toBe('IT01234567890_00011.xml')
+    expect(FatturaPASerializer.getFilename(invoice, { transmitterVatId: 'IT11111111111' }, 1)).toBe('IT11111111111_00002.xml')
+  })
+})
@@ -0,0 +1,499 @@
+import { ExtractedInvoiceData, InvoiceItem, TaxBreakdown } from './ocr'
+import {
+  calculateInvoiceTotals,
+  getInvoiceLines,
+  getPaymentMeansCode,
+  getPaymentMeansName,
+  getTaxBreakdown,
+  hasNegativeTotal,
+  splitPostalAddress
+} from './einvoice'
+import {
+  el,
+  serializeXml,
+  formatXmlAmount,
+  formatXmlDate,
+  XmlElement,
+  parseXml,
+  findElement,
+  findElements,
+  elementText,
+  elementNumber,
+  parseXmlDate
+} from './xml'
+import { SchemaElement, SchemaViolation, UNBOUNDED, validateXmlSchema } from './xml-schema'
+
+export type FatturaPATransmissionFormat = 'FPR12' | 'FPA12'
+
+export interface FatturaPAExportOptions {
+  // FPR12 for businesses (B2B/B2C), FPA12 for the public administration
+  transmissionFormat?: FatturaPATransmissionFormat
+  // Intermediary sending the file to SDI; defaults to the seller
+  transmitterVatId?: string
+  // First progressive number of the batch; encoded in the file name and ProgressivoInvio
+  progressivo?: number
+  recipientCode?: string
+  recipientPec?: string
+  regimeFiscale?: string
+  sellerCountryCode?: string
+  buyerCountryCode?: string
+  defaultTaxCategory?: string
+}
+
+const FATTURAPA_NAMESPACE = 'http://ivaservizi.agenziaentrate.gov.it/docs/xsd/fatture/v1.2'
+
+// EN 16931 VAT categories without tax mapped to the FatturaPA Natura codes
+const NATURA_CODES: Record<string, string> = {
+  Z: 'N3.5',
+  E: 'N4',
+  O: 'N2.2',
+  AE: 'N6.9',
+  K: 'N3.2',
+  G: 'N3.1'
+}
+
+// UNTDID 4461 payment means to ModalitaPagamento
+const MODALITA_PAGAMENTO: Record<string, string> = {
+  '10': 'MP01',
+  '20': 'MP02',
+  '30': 'MP05',
+  '31': 'MP05',
+  '42': 'MP05',
+  '58': 'MP05',
+  '48': 'MP08',
+  '54': 'MP08',
+  '55': 'MP08',
+  '49': 'MP19',
+  '59': 'MP19'
+}
+
+const AMOUNT_PATTERN = /^-?\d{1,11}\.\d{2}$/
+const PRICE_PATTERN = /^-?\d{1,11}\.\d{2,8}$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const NATURA_VALUES = ['N1', 'N2.1', 'N2.2', 'N3.1', 'N3.2', 'N3.3', 'N3.4', 'N3.5', 'N3.6', 'N4', 'N5',
+  'N6.1', 'N6.2', 'N6.3', 'N6.4', 'N6.5', 'N6.6', 'N6.7', 'N6.8', 'N6.9', 'N7']
+
+const ID_FISCALE_SCHEMA: SchemaElement = {
+  name: 'IdFiscaleIVA',
+  children: [
+    { name: 'IdPaese', pattern: /^[A-Z]{2}$/ },
+    { name: 'IdCodice', minLength: 1, maxLength: 28 }
+  ]
+}
+
+const ANAGRAFICA_SCHEMA: SchemaElement = {
+  name: 'Anagrafica',
+  children: [{ name: 'Denominazione', minLength: 1, maxLength: 80 }]
+}
+
+const SEDE_SCHEMA: SchemaElement = {
+  name: 'Sede',
+  children: [
+    { name: 'Indirizzo', minLength: 1, maxLength: 60 },
+    { name: 'CAP', pattern: /^\d{5}$/ },
+    { name: 'Comune', minLength: 1, maxLength: 60 },
+    { name: 'Nazione', pattern: /^[A-Z]{2}$/ }
+  ]
+}
+
+/**
+ * The parts of the FatturaPA 1.2.2 XSD (Schema_del_file_xml_FatturaPA_v1.2.2)
+ * that apply to the elements this serializer emits: sequence order,
+ * cardinality, lengths, patterns and code lists.
+ */
+export const FATTURAPA_SCHEMA: SchemaElement = {
+  name: 'FatturaElettronica',
+  attributes: { versione: { required: true, enumeration: ['FPA12', 'FPR12'] } },
+  children: [
+    {
+      name: 'FatturaElettronicaHeader',
+      children: [
+        {
+          name: 'DatiTrasmissione',
+          children: [
+            { name: 'IdTrasmittente', children: ID_FISCALE_SCHEMA.children },
+            { name: 'ProgressivoInvio', pattern: /^[A-Za-z0-9]{1,10}$/ },
+            { name: 'FormatoTrasmissione', enumeration: ['FPA12', 'FPR12'] },
+            { name: 'CodiceDestinatario', pattern: /^[A-Z0-9]{6,7}$/ },
+            { name: 'PECDestinatario', minOccurs: 0, minLength: 7, maxLength: 256 }
+          ]
+        },
+        {
+          name: 'CedentePrestatore',
+          children: [
+            {
+              name: 'DatiAnagrafici',
+              children: [
+                ID_FISCALE_SCHEMA,
+                ANAGRAFICA_SCHEMA,
+                {
+                  name: 'RegimeFiscale',
+                  enumeration: ['RF01', 'RF02', 'RF04', 'RF05', 'RF06', 'RF07', 'RF08', 'RF09', 'RF10',
+                    'RF11', 'RF12', 'RF13', 'RF14', 'RF15', 'RF16', 'RF17', 'RF18', 'RF19']
+                }
+              ]
+            },
+            SEDE_SCHEMA,
+            {
+              name: 'Contatti',
+              minOccurs: 0,
+              children: [
+                { name: 'Telefono', minOccurs: 0, minLength: 5, maxLength: 12 },
+                { name: 'Email', minOccurs: 0, minLength: 7, maxLength: 256 }
+              ]
+            }
+          ]
+        },
+        {
+          name: 'CessionarioCommittente',
+          children: [
+            {
+              name: 'DatiAnagrafici',
+              children: [
+                { ...ID_FISCALE_SCHEMA, minOccurs: 0 },
+                { name: 'CodiceFiscale', minOccurs: 0, pattern: /^[A-Z0-9]{11,16}$/ },
+                ANAGRAFICA_SCHEMA
+              ]
+            },
+            SEDE_SCHEMA
+          ]
+        }
+      ]
+    },
+    {
+      name: 'FatturaElettronicaBody',
+      children: [
+        {
+          name: 'DatiGenerali',
+          children: [
+            {
+              name: 'DatiGeneraliDocumento',
+              children: [
+                { name: 'TipoDocumento', enumeration: ['TD01', 'TD02', 'TD03', 'TD04', 'TD05', 'TD06'] },
+                { name: 'Divisa', pattern: /^[A-Z]{3}$/ },
+                { name: 'Data', pattern: DATE_PATTERN },
+                { name: 'Numero', minLength: 1, maxLength: 20, pattern: /\d/ },
+                { name: 'ImportoTotaleDocumento', minOccurs: 0, pattern: AMOUNT_PATTERN }
+              ]
+            }
+          ]
+        },
+        {
+          name: 'DatiBeniServizi',
+          children: [
+            {
+              name: 'DettaglioLinee',
+              maxOccurs: UNBOUNDED,
+              children: [
+                { name: 'NumeroLinea', pattern: /^\d{1,4}$/ },
+                { name: 'Descrizione', minLength: 1, maxLength: 1000 },
+                { name: 'Quantita', minOccurs: 0, pattern: PRICE_PATTERN },
+                { name: 'UnitaMisura', minOccurs: 0, minLength: 1, maxLength: 10 },
+                { name: 'PrezzoUnitario', pattern: PRICE_PATTERN },
+                { name: 'PrezzoTotale', pattern: PRICE_PATTERN },
+                { name: 'AliquotaIVA', pattern: /^\d{1,3}\.\d{2}$/ },
+                { name: 'Natura', minOccurs: 0, enumeration: NATURA_VALUES }
+              ]
+            },
+            {
+              name: 'DatiRiepilogo',
+              maxOccurs: UNBOUNDED,
+              children: [
+                { name: 'AliquotaIVA', pattern: /^\d{1,3}\.\d{2}$/ },
+                { name: 'Natura', minOccurs: 0, enumeration: NATURA_VALUES },
+                { name: 'ImponibileImporto', pattern: AMOUNT_PATTERN },
+                { name: 'Imposta', pattern: AMOUNT_PATTERN },
+                { name: 'EsigibilitaIVA', minOccurs: 0, enumeration: ['I', 'D', 'S'] },
+                { name: 'RiferimentoNormativo', minOccurs: 0, minLength: 1, maxLength: 100 }
+              ]
+            }
+          ]
+        },
+        {
+          name: 'DatiPagamento',
+          minOccurs: 0,
+          maxOccurs: UNBOUNDED,
+          children: [
+            { name: 'CondizioniPagamento', enumeration: ['TP01', 'TP02', 'TP03'] },
+            {
+              name: 'DettaglioPagamento',
+              maxOccurs: UNBOUNDED,
+              children: [
+                { name: 'ModalitaPagamento', pattern: /^MP(0[1-9]|1\d|2[0-3])$/ },
+                { name: 'DataScadenzaPagamento', minOccurs: 0, pattern: DATE_PATTERN },
+                { name: 'ImportoPagamento', pattern: AMOUNT_PATTERN }
+              ]
+            }
+          ]
+        }
+      ]
+    }
+  ]
+}
+
+// Split "IT01234567890" into IdPaese and IdCodice, defaulting the country when no prefix is present
+function splitVatId(vatId: string | undefined, fallbackCountry: string): { country: string; code?: string } {
+  if (!vatId) return { country: fallbackCountry }
+  const compact = vatId.replace(/[\s.-]/g, '').toUpperCase()
+  const match = compact.match(/^([A-Z]{2})(.+)$/)
+  return match ? { country: match[1], code: match[2] } : { country: fallbackCountry, code: compact }
+}
+
+export class FatturaPASerializer {
+  static toXML(invoice: ExtractedInvoiceData, options: FatturaPAExportOptions = {}, index: number = 0): string {
+    const isCreditNote = hasNegativeTotal(invoice)
+    // Credit notes (TD04) carry positive amounts like the other syntaxes
+    const sign = isCreditNote ? -1 : 1
+    const amount = (value: number | undefined) => formatXmlAmount(value === undefined ? undefined : value * sign)
+    const format = options.transmissionFormat || 'FPR12'
+
+    const totals = calculateInvoiceTotals(invoice)
+    const lines = getInvoiceLines(invoice, options.defaultTaxCategory)
+    const taxBreakdown = getTaxBreakdown(invoice, options.defaultTaxCategory)
+    const sellerCountry = invoice.vendorCountry || options.sellerCountryCode || 'IT'
+    const buyerCountry = invoice.billToCountry || options.buyerCountryCode || 'IT'
+    const seller = splitVatId(invoice.vendorVatId, sellerCountry)
+    const buyer = splitVatId(invoice.billToVatId, buyerCountry)
+    const transmitter = options.transmitterVatId ? splitVatId(options.transmitterVatId, 'IT') : seller
+    const paymentMeansCode = getPaymentMeansCode(invoice.paymentMethod)
+
+    const root = el('p:FatturaElettronica', [
+      el('FatturaElettronicaHeader', [
+        el('DatiTrasmissione', [
+          el('IdTrasmittente', [el('IdPaese', transmitter.country), el('IdCodice', transmitter.code)]),
+          el('ProgressivoInvio', this.getProgressivo(options, index)),
+          el('FormatoTrasmissione', format),
+          el('CodiceDestinatario', this.getRecipientCode(options, format, buyerCountry)),
+          el('PECDestinatario', options.recipientPec)
+        ]),
+        el('CedentePrestatore', [
+          el('DatiAnagrafici', [
+            el('IdFiscaleIVA', [el('IdPaese', seller.country), el('IdCodice', seller.code)]),
+            el('Anagrafica', [el('Denominazione', invoice.vendor)]),
+            el('RegimeFiscale', options.regimeFiscale || 'RF01')
+          ]),
+          this.buildSede(invoice.vendorAddress, sellerCountry),
+          el('Contatti', [
+            el('Telefono', invoice.vendorPhone?.replace(/[^\d+]/g, '')),
+            el('Email', invoice.vendorEmail)
+          ])
+        ]),
+        el('CessionarioCommittente', [
+          el('DatiAnagrafici', [
+            el('IdFiscaleIVA', buyer.code ? [el('IdPaese', buyer.country), el('IdCodice', buyer.code)] : undefined),
+            el('Anagrafica', [el('Denominazione', invoice.billTo)])
+          ]),
+          this.buildSede(invoice.billToAddress, buyerCountry)
+        ])
+      ]),
+      el('FatturaElettronicaBody', [
+        el('DatiGenerali', [
+          el('DatiGeneraliDocumento', [
+            el('TipoDocumento', isCreditNote ? 'TD04' : 'TD01'),
+            el('Divisa', invoice.currency || 'EUR'),
+            el('Data', formatXmlDate(invoice.date)),
+            el('Numero', invoice.invoiceNumber),
+            el('ImportoTotaleDocumento', amount(totals.taxInclusiveAmount))
+          ])
+        ]),
+        el('DatiBeniServizi', [
+          ...lines.map((item, lineIndex) => el('DettaglioLinee', [
+            el('NumeroLinea', lineIndex + 1),
+            el('Descrizione', item.description || `Item ${lineIndex + 1}`),
+            el('Quantita', formatXmlAmount(item.quantity ?? 1)),
+            el('PrezzoUnitario', amount(item.unitPrice ?? item.amount)),
+            el('PrezzoTotale', amount(item.amount)),
+            el('AliquotaIVA', formatXmlAmount(item.taxRate ?? 0)),
+            el('Natura', this.getNatura(item.taxCategory, item.taxRate ?? 0))
+          ])),
+          // DatiRiepilogo: one summary per VAT rate (and Natura for untaxed amounts)
+          ...taxBreakdown.map(subtotal => el('DatiRiepilogo', [
+            el('AliquotaIVA', formatXmlAmount(subtotal.rate)),
+            el('Natura', this.getNatura(subtotal.category, subtotal.rate)),
+            el('ImponibileImporto', amount(subtotal.taxableAmount)),
+            el('Imposta', amount(subtotal.taxAmount)),
+            subtotal.rate > 0 && el('EsigibilitaIVA', 'I'),
+            el('RiferimentoNormativo', subtotal.exemptionReason?.slice(0, 100))
+          ]))
+        ]),
+        paymentMeansCode && el('DatiPagamento', [
+          el('CondizioniPagamento', 'TP02'),
+          el('DettaglioPagamento', [
+            el('ModalitaPagamento', MODALITA_PAGAMENTO[paymentMeansCode] || 'MP05'),
+            el('DataScadenzaPagamento', formatXmlDate(invoice.dueDate)),
+            el('ImportoPagamento', amount(totals.taxInclusiveAmount))
+          ])
+        ])
+      ])
+    ], {
+      versione: format,
+      'xmlns:ds': 'http://www.w3.org/2000/09/xmldsig#',
+      'xmlns:p': FATTURAPA_NAMESPACE,
+      'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance'
+    })
+
+    return serializeXml(root)
+  }
+
+  // SDI naming: IT{VAT of the transmitter}_{progressivo}.xml
+  static getFilename(invoice: ExtractedInvoiceData, options: FatturaPAExportOptions = {}, index: number = 0): string {
+    const transmitter = options.transmitterVatId
+      ? splitVatId(options.transmitterVatId, 'IT')
+      : splitVatId(invoice.vendorVatId, invoice.vendorCountry || options.sellerCountryCode || 'IT')
+    return `${transmitter.country}${transmitter.code || ''}_${this.getProgressivo(options, index)}.xml`
+  }
+
+  static validate(xml: string): SchemaViolation[] {
+    return validateXmlSchema(xml, FATTURAPA_SCHEMA)
+  }
+
+  // Five base-36 characters, as SDI accepts alphanumeric progressives
+  private static getProgressivo(options: FatturaPAExportOptions, index: number): string {
+    return ((options.progressivo ?? 1) + index).toString(36).toUpperCase().padStart(5, '0')
+  }
+
+  // '0000000' routes via PEC or the buyer's registered channel; 'XXXXXXX' marks foreign buyers
+  private static getRecipientCode(options: FatturaPAExportOptions, format: FatturaPATransmissionFormat, buyerCountry: string): string {
+    if (options.recipientCode) return options.recipientCode.toUpperCase()
+    if (buyerCountry !== 'IT') return 'XXXXXXX'
+    return format === 'FPA12' ? '999999' : '0000000'
+  }
+
+  private static getNatura(category: string | undefined, rate: number): string | undefined {
+    if (rate > 0) return undefined
+    return NATURA_CODES[category || ''] || 'N2.2'
+  }
+
+  private static buildSede(address: string | undefined, countryCode: string): XmlElement | undefined {
+    const parts = splitPostalAddress(address)
+    return el('Sede', [
+      el('Indirizzo', (parts.street || address)?.slice(0, 60)),
+      // Foreign addresses use the placeholder CAP
+      el('CAP', countryCode === 'IT' ? parts.postCode : '00000'),
+      el('Comune', parts.city?.slice(0, 60)),
+      el('Nazione', countryCode)
+    ])
+  }
+}
+
+// TD04 is the credit note, TD08 the simplified credit note
+const CREDIT_DOCUMENT_TYPES = ['TD04', 'TD08']
+
+// Natura codes back to EN 16931 categories; N3.x other than N3.1/N3.2 are exports and intra-EU supplies
+function getCategoryForNatura(natura: string | undefined, rate: number): string {
+  if (!natura) return rate > 0 ? 'S' : 'Z'
+  const exact = Object.keys(NATURA_CODES).find(category => NATURA_CODES[category] === natura)
+  if (exact) return exact
+  if (natura.startsWith('N6')) return 'AE'
+  if (natura.startsWith('N3')) return 'Z'
+  if (natura.startsWith('N4')) return 'E'
+  return 'O'
+}
+
+export class FatturaPAParser {
+  static isFatturaPA(doc: Document): boolean {
+    const root = doc.documentElement
+    return root.localName === 'FatturaElettronica' && root.namespaceURI === FATTURAPA_NAMESPACE
+  }
+
+  // A file may hold several bodies (lotto di fatture); the first one is read
+  static parse(xml: string, doc: Document = parseXml(xml)): ExtractedInvoiceData {
+    if (!this.isFatturaPA(doc)) {
+      throw new Error(`Not a FatturaPA invoice: unexpected root element <${doc.documentElement.localName}>`)
+    }
+
+    const root = doc.documentElement
+    const seller = findElement(root, 'FatturaElettronicaHeader', 'CedentePrestatore')
+    const buyer = findElement(root, 'FatturaElettronicaHeader', 'CessionarioCommittente')
+    const body = findElement(root, 'FatturaElettronicaBody')
+    const document = findElement(body, 'DatiGenerali', 'DatiGeneraliDocumento')
+    const payment = findElement(body, 'DatiPagamento', 'DettaglioPagamento')
+
+    // Stored with a negative sign so the row totals and a re-export treat it as a credit
+    const sign = CREDIT_DOCUMENT_TYPES.includes(elementText(document, 'TipoDocumento') || '') ? -1 : 1
+    const signed = (value: number | undefined) => value === undefined ? undefined : value * sign
+
+    const taxBreakdown: TaxBreakdown[] = findElements(body, 'DatiBeniServizi', 'DatiRiepilogo').map(summary => {
+      const rate = elementNumber(summary, 'AliquotaIVA') ?? 0
+      return {
+        category: getCategoryForNatura(elementText(summary, 'Natura'), rate),
+        rate,
+        taxableAmount: signed(elementNumber(summary, 'ImponibileImporto')) ?? 0,
+        taxAmount: signed(elementNumber(summary, 'Imposta')) ?? 0,
+        exemptionReason: elementText(summary, 'RiferimentoNormativo')
+      }
+    })
+
+    const items: InvoiceItem[] = findElements(body, 'DatiBeniServizi', 'DettaglioLinee').map(line => {
+      const taxRate = elementNumber(line, 'AliquotaIVA')
+      return {
+        description: elementText(line, 'Descrizione') || '',
+        quantity: elementNumber(line, 'Quantita'),
+        unitPrice: signed(elementNumber(line, 'PrezzoUnitario')),
+        amount: signed(elementNumber(line, 'PrezzoTotale')),
+        unitCode: elementText(line, 'UnitaMisura'),
+        productCode: elementText(line, 'CodiceArticolo', 'CodiceValore'),
+        taxRate,
+        taxCategory: getCategoryForNatura(elementText(line, 'Natura'), taxRate ?? 0)
+      }
+    })
+
+    const subtotal = taxBreakdown.length > 0 ? taxBreakdown.reduce((sum, tax) => sum + tax.taxableAmount, 0) : undefined
+    const tax = taxBreakdown.length > 0 ? taxBreakdown.reduce((sum, tax) => sum + tax.taxAmount, 0) : undefined
+    const modalita = elementText(payment, 'ModalitaPagamento')
+    const paymentMeansCode = Object.keys(MODALITA_PAGAMENTO).find(code => MODALITA_PAGAMENTO[code] === modalita)
+
+    return {
+      id: crypto.randomUUID(),
+      invoiceNumber: elementText(document, 'Numero'),
+      date: parseXmlDate(elementText(document, 'Data')),
+      dueDate: parseXmlDate(elementText(payment, 'DataScadenzaPagamento')),
+      vendor: this.getPartyName(seller),
+      vendorAddress: this.getPartyAddress(seller),
+      vendorPhone: elementText(seller, 'Contatti', 'Telefono'),
+      vendorEmail: elementText(seller, 'Contatti', 'Email'),
+      vendorVatId: this.getVatId(seller),
+      vendorCountry: elementText(seller, 'Sede', 'Nazione'),
+      billTo: this.getPartyName(buyer),
+      billToAddress: this.getPartyAddress(buyer),
+      billToVatId: this.getVatId(buyer),
+      billToCountry: elementText(buyer, 'Sede', 'Nazione'),
+      subtotal,
+      tax,
+      total: signed(elementNumber(document, 'ImportoTotaleDocumento')) ??
+        (subtotal !== undefined && tax !== undefined ? subtotal + tax : undefined),
+      currency: elementText(document, 'Divisa'),
+      paymentMethod: getPaymentMeansName(paymentMeansCode),
+      transactionId: elementText(payment, 'CodicePagamento'),
+      taxBreakdown: taxBreakdown.length > 0 ? taxBreakdown : undefined,
+      items,
+      rawText: xml,
+      processingMethod: 'fatturapa-xml',
+      confidence: 100
+    }
+  }
+
+  private static getVatId(party?: Element): string | undefined {
+    const idFiscale = findElement(party, 'DatiAnagrafici', 'IdFiscaleIVA')
+    const code = elementText(idFiscale, 'IdCodice')
+    return code ? `${elementText(idFiscale, 'IdPaese') || ''}${code}` : elementText(party, 'DatiAnagrafici', 'CodiceFiscale')
+  }
+
+  private static getPartyName(party?: Element): string | undefined {
+    const anagrafica = findElement(party, 'DatiAnagrafici', 'Anagrafica')
+    return elementText(anagrafica, 'Denominazione') ||
+      ([elementText(anagrafica, 'Nome'), elementText(anagrafica, 'Cognome')].filter(Boolean).join(' ') || undefined)
+  }
+
+  private static getPartyAddress(party?: Element): string | undefined {
+    const sede = findElement(party, 'Sede')
+    if (!sede) return undefined
+
+    const street = [elementText(sede, 'Indirizzo'), elementText(sede, 'NumeroCivico')].filter(Boolean).join(' ')
+    const cap = elementText(sede, 'CAP')
+    // 00000 is the placeholder CAP of foreign addresses
+    const cityLine = [cap === '00000' ? undefined : cap, elementText(sede, 'Comune')].filter(Boolean).join(' ')
+    const parts = [street, cityLine, elementText(sede, 'Provincia')].filter(Boolean)
+    return parts.length > 0 ? parts.join(', ') : undefined
+  }
+}
@@ -0,0 +1,122 @@
+import { File as NodeFile } from 'node:buffer'
+import { describe, expect, it, vi } from 'vitest'
+import { CFDISerializer } from './cfdi'
+import { CIISerializer } from './cii'
+import { EdifactSerializer } from './edifact'
+import { FatturaPASerializer } from './fatturapa'
+import { detectTextFormat, isPdfFileType, isStructuredFileType, PdfOpener, sniffFile } from './file-sniffer'
+import { ExtractedInvoiceData } from './ocr'
+import { UBLSerializer } from './ubl'
+import { X12Serializer } from './x12'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'sniff-1',
+  invoiceNumber: 'INV-1',
+  date: '03/15/2025',
+  vendor: 'Acme GmbH',
+  vendorVatId: 'DE123456789',
+  vendorCountry: 'DE',
+  billTo: 'Buyer AG',
+  billToCountry: 'DE',
+  subtotal: 100,
+  tax: 19,
+  total: 119,
+  currency: 'EUR',
+  items: [{ description: 'Item', quantity: 1, unitPrice: 100, amount: 100 }]
+}
+
+const INVOICE_TEXT = 'Invoice INV-1 from Acme GmbH to Buyer AG dated 15 March 2025 for one item at 100.00 plus VAT 19.00 total due 119.00 payable within thirty days'
+const SCANNER_FOOTER = 'Scanned with OfficeScan'
+
+const PDF_HEADER = '%PDF-1.7\n'
+
+// jsdom's Blob has no arrayBuffer() or text(), so the uploads are Node's Files
+function upload(content: string | Uint8Array, name: string): File {
+  return new NodeFile([content], name) as unknown as File
+}
+
+function pdfOpener(pages: string[], attachments: string[] = []): PdfOpener {
+  return async () => ({
+    pdf: {
+      numPages: pages.length,
+      getPage: async (pageNumber: number) => ({
+        getTextContent: async () => ({
+          items: [{ str: pages[pageNumber - 1], transform: [1, 0, 0, 1, 0, 700], width: 500, height: 10 }]
+        })
+      }),
+      getAttachments: async () => Object.fromEntries(attachments.map(filename => [filename, { filename, content: new Uint8Array() }]))
+    },
+    close: async () => undefined
+  })
+}
+
+describe('detectTextFormat', () => {
+  it('recognizes each XML syntax by its root element', () => {
+    expect(detectTextFormat(UBLSerializer.toXML(invoice))).toBe('ubl')
+    expect(detectTextFormat(CIISerializer.toXML(invoice))).toBe('cii')
+    expect(detectTextFormat(FatturaPASerializer.toXML(invoice))).toBe('fatturapa')
+    expect(detectTextFormat(CFDISerializer.toXML({ ...invoice, currency: 'MXN' }))).toBe('cfdi')
+    expect(detectTextFormat('<nfeProc xmlns="http://www.portalfiscal.inf.br/nfe" versao="4.00"/>')).toBe('nfe')
+  })
+
+  it('recognizes the EDI envelopes', () => {
+    expect(detectTextFormat(EdifactSerializer.toEDI(invoice))).toBe('edifact')
+    expect(detectTextFormat(X12Serializer.toX12(invoice))).toBe('x12')
+  })
+
+  it('accepts a byte order mark before the XML', () => {
+    expect(detectTextFormat(`\uFEFF${UBLSerializer.toXML(invoice)}`)).toBe('ubl')
+  })
+
+  it('does not guess at other text', () => {
+    expect(detectTextFormat('<html><body>Invoice</body></html>')).toBe('unknown')
+    expect(detectTextFormat('<Invoice')).toBe('unknown')
+    expect(detectTextFormat('Invoice INV-1, total 119.00')).toBe('unknown')
+  })
+})
+
+describe('sniffFile', () => {
+  it('classifies by content rather than by name or type', async () => {
+    const xml = upload(UBLSerializer.toXML(invoice), 'invoice.txt')
+    const png = upload(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), 'invoice.xml')
+    const webp = upload(new Uint8Array([0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x45, 0x42, 0x50]), 'scan')
+
+    expect(await sniffFile(xml)).toBe('ubl')
+    expect(await sniffFile(png)).toBe('image')
+    expect(await sniffFile(webp)).toBe('image')
+  })
+
+  it('tells text, scanned and hybrid PDFs apart with pdf.js', async () => {
+    const pdf = upload(PDF_HEADER, 'invoice.pdf')
+
+    expect(await sniffFile(pdf, pdfOpener([SCANNER_FOOTER, INVOICE_TEXT]))).toBe('text-pdf')
+    expect(await sniffFile(pdf, pdfOpener([SCANNER_FOOTER]))).toBe('scanned-pdf')
+    expect(await sniffFile(pdf, pdfOpener([INVOICE_TEXT], ['factur-x.xml']))).toBe('hybrid-pdf')
+  })
+
+  it('only reads the text layer of the first pages', async () => {
+    const pdf = upload(PDF_HEADER, 'invoice.pdf')
+
+    expect(await sniffFile(pdf, pdfOpener([SCANNER_FOOTER, SCANNER_FOOTER, SCANNER_FOOTER, INVOICE_TEXT]))).toBe('scanned-pdf')
+  })
+
+  it('falls back to the PDF bytes when pdf.js is unavailable', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const failing: PdfOpener = async () => { throw new Error('worker failed') }
+
+    expect(await sniffFile(upload(`${PDF_HEADER}<< /Type /Font >>`, 'a.pdf'))).toBe('text-pdf')
+    expect(await sniffFile(upload(`${PDF_HEADER}<< /EmbeddedFiles >> (factur-x.xml)`, 'b.pdf'), async () => null)).toBe('hybrid-pdf')
+    expect(await sniffFile(upload(`${PDF_HEADER}<< /Type /XObject /Subtype /Image >>`, 'c.pdf'), failing)).toBe('scanned-pdf')
+    expect(warn).toHaveBeenCalledOnce()
+    warn.mockRestore()
+  })
+})
+
+describe('file type groups', () => {
+  it('separates structured formats from PDFs', () => {
+    expect(isStructuredFileType('x12')).toBe(true)
+    expect(isStructuredFileType('hybrid-pdf')).toBe(false)
+    expect(isPdfFileType('hybrid-pdf')).toBe(true)
+    expect(isPdfFileType('image')).toBe(false)
+  })
+})
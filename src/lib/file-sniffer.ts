@@ -0,0 +1,145 @@
+import { parseXml } from './xml'
+import { UBLParser } from './ubl'
+import { CIIParser } from './cii'
+import { CFDIParser } from './cfdi'
+import { NFeParser } from './nfe'
+import { FatturaPAParser } from './fatturapa'
+import { isEdifact } from './edifact'
+import { isX12 } from './x12'
+import { PdfWithAttachments } from './pdf-attachments'
+import { PdfTextDocument, extractPageTextLayer, isTextLayerSufficient } from './pdf-text'
+
+// Uploads are classified by content, not by extension or MIME type, so a
+// mislabelled file (an .xml saved as .txt, a hybrid PDF, a scan) still ends up
+// in the right pipeline.
+
+export type DetectedFileType =
+  | 'image'
+  | 'scanned-pdf'
+  | 'text-pdf'
+  | 'hybrid-pdf'
+  | 'ubl'
+  | 'cii'
+  | 'fatturapa'
+  | 'cfdi'
+  | 'nfe'
+  | 'edifact'
+  | 'x12'
+  | 'unknown'
+
+export const FILE_TYPE_LABELS: Record<DetectedFileType, string> = {
+  'image': 'Image',
+  'scanned-pdf': 'Scanned PDF',
+  'text-pdf': 'Text PDF',
+  'hybrid-pdf': 'Hybrid PDF (embedded XML)',
+  'ubl': 'UBL XML',
+  'cii': 'CII XML',
+  'fatturapa': 'FatturaPA XML',
+  'cfdi': 'CFDI XML',
+  'nfe': 'NF-e XML',
+  'edifact': 'EDIFACT INVOIC',
+  'x12': 'X12 810',
+  'unknown': 'Unknown format'
+}
+
+// The subset of pdf.js' PDFDocumentProxy needed to tell text, scanned and hybrid PDFs apart
+export interface PdfForSniffing extends PdfWithAttachments, PdfTextDocument {}
+
+// Opens a PDF with the caller's pdf.js instance; returns null when pdf.js is unavailable (SSR)
+export type PdfOpener = (data: ArrayBuffer) => Promise<{ pdf: PdfForSniffing, close: () => Promise<void> } | null>
+
+const MAX_PAGES_TO_SNIFF = 3
+
+const IMAGE_SIGNATURES: Array<{ offset: number, bytes: number[] }> = [
+  { offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47] }, // PNG
+  { offset: 0, bytes: [0xff, 0xd8, 0xff] }, // JPEG
+  { offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF8
+  { offset: 0, bytes: [0x42, 0x4d] }, // BMP
+  { offset: 0, bytes: [0x49, 0x49, 0x2a, 0x00] }, // TIFF, little endian
+  { offset: 0, bytes: [0x4d, 0x4d, 0x00, 0x2a] }, // TIFF, big endian
+  { offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] } // WEBP after the RIFF size
+]
+
+const PDF_SIGNATURE = [0x25, 0x50, 0x44, 0x46, 0x2d] // %PDF-
+
+function startsWith(header: Uint8Array, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, i) => header[offset + i] === byte)
+}
+
+export function isStructuredFileType(type: DetectedFileType): boolean {
+  return ['ubl', 'cii', 'fatturapa', 'cfdi', 'nfe', 'edifact', 'x12'].includes(type)
+}
+
+export function isPdfFileType(type: DetectedFileType): boolean {
+  return type === 'scanned-pdf' || type === 'text-pdf' || type === 'hybrid-pdf'
+}
+
+export function detectTextFormat(text: string): DetectedFileType {
+  if (isEdifact(text)) return 'edifact'
+  if (isX12(text)) return 'x12'
+  if (!/^\uFEFF?\s*</.test(text)) return 'unknown'
+
+  let doc: Document
+  try {
+    doc = parseXml(text)
+  } catch {
+    return 'unknown'
+  }
+  if (UBLParser.isUBL(doc)) return 'ubl'
+  if (CIIParser.isCII(doc)) return 'cii'
+  if (CFDIParser.isCFDI(doc)) return 'cfdi'
+  if (NFeParser.isNFe(doc)) return 'nfe'
+  if (FatturaPAParser.isFatturaPA(doc)) return 'fatturapa'
+  return 'unknown'
+}
+
+async function classifyPdf(data: ArrayBuffer, openPdf?: PdfOpener): Promise<DetectedFileType> {
+  // pdf.js may transfer the buffer to its worker, so it gets a copy and the bytes stay readable for the fallback
+  const opened = openPdf ? await openPdf(data.slice(0)).catch(error => {
+    console.warn('⚠️ Could not open PDF for sniffing, using byte heuristics:', error)
+    return null
+  }) : null
+  if (!opened) return classifyPdfBytes(data)
+
+  const { pdf, close } = opened
+  try {
+    const attachments = Object.values((await pdf.getAttachments()) || {})
+    if (attachments.some(attachment => /\.xml$/i.test(attachment.filename))) return 'hybrid-pdf'
+
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, MAX_PAGES_TO_SNIFF); pageNumber++) {
+      const { text } = await extractPageTextLayer(await pdf.getPage(pageNumber))
+      if (isTextLayerSufficient(text)) return 'text-pdf'
+    }
+    return 'scanned-pdf'
+  } finally {
+    await close()
+  }
+}
+
+// Without pdf.js, look at the uncompressed object dictionaries. PDFs that keep
+// them in object streams will look scanned, which only costs an OCR pass.
+function classifyPdfBytes(data: ArrayBuffer): DetectedFileType {
+  const source = new TextDecoder('latin1').decode(data)
+  if (/\/EmbeddedFiles\b/.test(source) && /\.xml\b/i.test(source)) return 'hybrid-pdf'
+  if (/\/Type\s*\/Font\b/.test(source)) return 'text-pdf'
+  return 'scanned-pdf'
+}
+
+/**
+ * Classify an upload from its magic bytes and content. Text files are matched
+ * against the EDI envelopes and XML root elements the importers understand.
+ * PDFs are opened with the given pdf.js opener to check for an embedded
+ * invoice XML and a text layer; without one a byte-level heuristic is used.
+ */
+export async function sniffFile(file: File, openPdf?: PdfOpener): Promise<DetectedFileType> {
+  const header = new Uint8Array(await file.slice(0, 16).arrayBuffer())
+
+  if (startsWith(header, PDF_SIGNATURE)) {
+    return classifyPdf(await file.arrayBuffer(), openPdf)
+  }
+  if (IMAGE_SIGNATURES.some(signature => startsWith(header, signature.bytes, signature.offset))) {
+    return 'image'
+  }
+
+  return detectTextFormat(await file.text())
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { applyImageFilter } from './image-filters'
+
+// A one-row image of grey pixels; jsdom has no ImageData, and the filters only read these fields
+function grayRow(levels: number[]): ImageData {
+  const data = new Uint8ClampedArray(levels.flatMap(level => [level, level, level, 255]))
+  return { data, width: levels.length, height: 1 } as ImageData
+}
+
+function grayLevels(image: ImageData): number[] {
+  return Array.from({ length: image.width * image.height }, (_, pixel) => image.data[pixel * 4])
+}
+
+describe('applyImageFilter', () => {
+  it('thresholds black and white against the unfiltered neighbourhood', () => {
+    // Sampling pixels that were already set to white would push the threshold
+    // above the uniform grey and turn all but the first pixel black
+    const uniform = grayRow([100, 100, 100, 100])
+    applyImageFilter(uniform, 'blackwhite')
+
+    expect(grayLevels(uniform)).toEqual([255, 255, 255, 255])
+  })
+
+  it('keeps dark text black on a light background', () => {
+    const text = grayRow([200, 200, 50, 200, 200])
+    applyImageFilter(text, 'blackwhite')
+
+    expect(grayLevels(text)).toEqual([255, 255, 0, 255, 255])
+  })
+
+  it('converts to grayscale and keeps alpha', () => {
+    const image = { data: new Uint8ClampedArray([255, 0, 0, 128]), width: 1, height: 1 } as ImageData
+    applyImageFilter(image, 'sharpened')
+
+    expect(Array.from(image.data)).toEqual([50, 50, 50, 128])
+  })
+})
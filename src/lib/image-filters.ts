@@ -0,0 +1,118 @@
+// Per-pixel OCR preprocessing filters. They only touch ImageData, so the same
+// code runs in the preprocessing worker and, as a fallback, on the main thread.
+
+export type ImageFilter = 'adaptiveContrast' | 'enhanced' | 'blackwhite' | 'sharpened' | 'textOptimized'
+
+function toGray(data: Uint8ClampedArray, index: number): number {
+  return Math.round(0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2])
+}
+
+function setGray(data: Uint8ClampedArray, index: number, value: number) {
+  data[index] = value
+  data[index + 1] = value
+  data[index + 2] = value
+}
+
+// Boosts low-contrast scans hard and only nudges the extremes of normal ones
+function applyAdaptiveContrast(data: Uint8ClampedArray) {
+  let avgBrightness = 0
+  for (let i = 0; i < data.length; i += 4) {
+    avgBrightness += (data[i] + data[i + 1] + data[i + 2]) / 3
+  }
+  avgBrightness /= (data.length / 4)
+
+  const isLowContrast = avgBrightness > 100 && avgBrightness < 180
+
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = toGray(data, i)
+    let enhanced: number
+    if (isLowContrast) {
+      enhanced = gray < 128 ? Math.max(0, gray - 40) : Math.min(255, gray + 40)
+    } else {
+      enhanced = gray < 100 ? Math.max(0, gray - 15) :
+                 gray > 200 ? Math.min(255, gray + 15) : gray
+    }
+    setGray(data, i, enhanced)
+  }
+}
+
+function calculateAdaptiveThreshold(data: Uint8ClampedArray, index: number, width: number, height: number): number {
+  const pixel = Math.floor(index / 4)
+  const x = pixel % width
+  const y = Math.floor(pixel / width)
+
+  let sum = 0
+  let count = 0
+
+  // Sample surrounding pixels in a 5x5 area
+  for (let dy = -2; dy <= 2; dy++) {
+    for (let dx = -2; dx <= 2; dx++) {
+      const nx = x + dx
+      const ny = y + dy
+      if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+        sum += toGray(data, (ny * width + nx) * 4)
+        count++
+      }
+    }
+  }
+
+  const average = count > 0 ? sum / count : 128
+  return Math.max(80, Math.min(200, average - 10)) // Adaptive threshold with bounds
+}
+
+function applyVariantFilter(image: ImageData, filter: Exclude<ImageFilter, 'adaptiveContrast'>) {
+  const { data, width, height } = image
+  // The adaptive threshold samples neighbours, so it reads from an untouched copy.
+  // Reading in place would mix already thresholded pixels above and left into the average
+  const original = filter === 'blackwhite' ? new Uint8ClampedArray(data) : data
+
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = toGray(original, i)
+    let processed: number
+
+    switch (filter) {
+      case 'enhanced':
+        // Contrast boost with a slight brightness lift
+        processed = Math.max(0, Math.min(255, Math.round((gray - 128) * 1.3 + 128) + 10))
+        break
+      case 'blackwhite':
+        processed = gray < calculateAdaptiveThreshold(original, i, width, height) ? 0 : 255
+        break
+      case 'sharpened':
+        processed = Math.max(0, Math.min(255, gray + (gray - 128) * 0.5))
+        break
+      case 'textOptimized':
+        if (gray < 80) {
+          processed = Math.max(0, gray - 20) // Make dark text darker
+        } else if (gray > 200) {
+          processed = Math.min(255, gray + 20) // Make background lighter
+        } else {
+          processed = gray < 140 ? gray - 10 : gray + 10 // Increase contrast in mid-range
+        }
+        break
+    }
+
+    setGray(data, i, processed)
+  }
+}
+
+// Filters the image in place and converts it to grayscale
+export function applyImageFilter(image: ImageData, filter: ImageFilter) {
+  if (filter === 'adaptiveContrast') {
+    applyAdaptiveContrast(image.data)
+  } else {
+    applyVariantFilter(image, filter)
+  }
+}
+
+/**
+ * Copy a scaled image once per filter and apply each filter to its copy.
+ * ImageData is constructed from a buffer so this works in workers too.
+ */
+export function filterImage(source: ImageData, filters: ImageFilter[]): ImageData[] {
+  return filters.map(filter => {
+    const image = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height)
+    applyImageFilter(image, filter)
+    return image
+  })
+}
@@ -1,4 +1,5 @@
-import { ExtractedInvoiceData, InvoiceItem } from './ocr-engine'
+import { ExtractedInvoiceData, InvoiceItem } from './ocr'
+import { normalizeDate, parseAmount } from './ocr-normalize'
 
 interface ParsingConfig {
   fuzzyMatchThreshold: number
@@ -138,7 +139,7 @@ export class IntelligentParser {
         for (const pattern of datePatterns) {
           const match = line.match(pattern)
           if (match && match[1]) {
-            invoiceData.date = this.normalizeDate(match[1])
+            invoiceData.date = normalizeDate(match[1])
             console.log(`  📅 Date: ${invoiceData.date}`)
             break
           }
@@ -318,7 +319,7 @@ export class IntelligentParser {
     // Extract number from the fuzzy matched line
     const numberMatch = line.match(/\$?(\d+[,.]?\d*)/g)
     if (numberMatch) {
-      const amount = this.parseAmount(numberMatch[numberMatch.length - 1])
+      const amount = parseAmount(numberMatch[numberMatch.length - 1])
       if (amount > 0) {
         switch (fieldType) {
           case 'total':
@@ -365,7 +366,7 @@ export class IntelligentParser {
       let match
       while ((match = pattern.exec(rawText)) !== null) {
         const amountStr = match[1] || match[0]
-        const value = this.parseAmount(amountStr)
+        const value = parseAmount(amountStr)
         if (value > 0 && value < 10000) { // Reasonable range
           allAmounts.push({
             value,
@@ -472,7 +473,7 @@ export class IntelligentParser {
     if (/^\d+\.\d{2}$/.test(amountStr)) confidence += 10
     
     // Reduce confidence for suspicious amounts
-    const value = this.parseAmount(amountStr)
+    const value = parseAmount(amountStr)
     if (value < 0.01 || value > 5000) confidence -= 20
     if (amountStr.includes('000')) confidence -= 10 // Likely not a receipt amount
     
@@ -505,7 +506,7 @@ export class IntelligentParser {
       
       if (match && match[1] && match[2]) {
         const description = match[1].trim()
-        const amount = this.parseAmount(match[2])
+        const amount = parseAmount(match[2])
         
         // Validate it looks like a real item
         if (amount > 0 && amount < 200 && 
@@ -610,41 +611,6 @@ export class IntelligentParser {
     return date instanceof Date && !isNaN(date.getTime())
   }
 
-  private normalizeDate(dateStr: string): string {
-    // Parse and normalize date format to MM/DD/YYYY
-    const cleanDate = dateStr.replace(/[^\d\/\-\.]/g, '')
-    const parts = cleanDate.split(/[\/\-\.]/)
-    
-    if (parts.length === 3) {
-      const [part1, part2, part3] = parts.map(p => parseInt(p))
-      
-      let month: number, day: number, year: number
-      
-      if (part3 > 1900) {
-        // MM/DD/YYYY or DD/MM/YYYY format
-        if (part1 <= 12 && part2 <= 31) {
-          month = part1
-          day = part2
-        } else if (part2 <= 12 && part1 <= 31) {
-          month = part2
-          day = part1
-        } else {
-          return dateStr // Can't determine format
-        }
-        year = part3
-      } else {
-        // MM/DD/YY format
-        month = part1 <= 12 ? part1 : part2
-        day = part1 <= 12 ? part2 : part1
-        year = part3 + (part3 < 50 ? 2000 : 1900)
-      }
-      
-      return `${month.toString().padStart(2, '0')}/${day.toString().padStart(2, '0')}/${year}`
-    }
-    
-    return dateStr
-  }
-
   private normalizeTime(timeStr: string): string {
     // Clean up and normalize time format
     const cleaned = timeStr.replace(/\s+/g, ' ').trim()
@@ -671,32 +637,6 @@ export class IntelligentParser {
     return cleaned
   }
 
-  private parseAmount(amountStr: string): number {
-    if (!amountStr) return 0
-    
-    // Remove currency symbols and clean up
-    let cleaned = amountStr.replace(/[\$€£,\s]/g, '')
-    
-    // Handle European format (comma as decimal separator)
-    if (cleaned.includes(',') && !cleaned.includes('.')) {
-      cleaned = cleaned.replace(',', '.')
-    } else if (cleaned.includes(',') && cleaned.includes('.')) {
-      // Format like 1.234,56 - remove dots (thousand separators), convert comma to dot
-      const lastComma = cleaned.lastIndexOf(',')
-      const lastDot = cleaned.lastIndexOf('.')
-      if (lastComma > lastDot) {
-        // Comma is decimal separator
-        cleaned = cleaned.replace(/\./g, '').replace(',', '.')
-      } else {
-        // Dot is decimal separator
-        cleaned = cleaned.replace(/,/g, '')
-      }
-    }
-    
-    const number = parseFloat(cleaned)
-    return isNaN(number) ? 0 : Math.round(number * 100) / 100 // Round to 2 decimal places
-  }
-
   private getExtractionSummary(data: ExtractedInvoiceData): object {
     return {
       invoiceNumber: !!data.invoiceNumber,
@@ -0,0 +1,155 @@
+import { KSeFSerializer } from './ksef'
+
+export interface KSeFSession {
+  referenceNumber: string
+  nip: string
+  openedAt: string
+}
+
+export type KSeFInvoiceState = 'processing' | 'accepted' | 'rejected'
+
+export interface KSeFInvoiceStatus {
+  referenceNumber: string
+  state: KSeFInvoiceState
+  // Number assigned by KSeF once the invoice is accepted
+  ksefNumber?: string
+  errors?: string[]
+}
+
+/**
+ * The interactive session flow of KSeF: open a session for a seller NIP, send
+ * FA(2) documents, poll their status and close the session. The real API also
+ * needs token authorisation and encrypted payloads; this interface only models
+ * the submission flow so it can run against a local mock.
+ */
+export interface KSeFSessionClient {
+  openSession(nip: string): Promise<KSeFSession>
+  sendInvoice(session: KSeFSession, xml: string): Promise<KSeFInvoiceStatus>
+  getInvoiceStatus(session: KSeFSession, referenceNumber: string): Promise<KSeFInvoiceStatus>
+  closeSession(session: KSeFSession): Promise<void>
+}
+
+function formatReferenceDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+function randomHex(length: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(Math.ceil(length / 2)))
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('').slice(0, length).toUpperCase()
+}
+
+/**
+ * In-memory stand-in for KSeF. Invoices are checked against the local FA(2)
+ * schema and accepted with a KSeF-style number ({NIP}-{YYYYMMDD}-{hex}).
+ */
+export class MockKSeFClient implements KSeFSessionClient {
+  private sessions = new Set<string>()
+  private invoices = new Map<string, KSeFInvoiceStatus>()
+
+  async openSession(nip: string): Promise<KSeFSession> {
+    if (!/^\d{10}$/.test(nip)) throw new Error(`Invalid NIP: ${nip}`)
+
+    const now = new Date()
+    const session = { referenceNumber: `${formatReferenceDate(now)}-SE-${randomHex(10)}`, nip, openedAt: now.toISOString() }
+    this.sessions.add(session.referenceNumber)
+    return session
+  }
+
+  async sendInvoice(session: KSeFSession, xml: string): Promise<KSeFInvoiceStatus> {
+    this.assertOpen(session)
+
+    const referenceNumber = `${formatReferenceDate(new Date())}-EE-${randomHex(10)}`
+    const violations = KSeFSerializer.validate(xml)
+    const status: KSeFInvoiceStatus = violations.length > 0
+      ? { referenceNumber, state: 'rejected', errors: violations.map(violation => `${violation.path}: ${violation.message}`) }
+      : { referenceNumber, state: 'accepted', ksefNumber: `${session.nip}-${formatReferenceDate(new Date())}-${randomHex(12)}-${randomHex(2)}` }
+
+    this.invoices.set(referenceNumber, status)
+    return { referenceNumber, state: 'processing' }
+  }
+
+  async getInvoiceStatus(session: KSeFSession, referenceNumber: string): Promise<KSeFInvoiceStatus> {
+    this.assertOpen(session)
+
+    const status = this.invoices.get(referenceNumber)
+    if (!status) throw new Error(`Unknown invoice reference ${referenceNumber}`)
+    return status
+  }
+
+  async closeSession(session: KSeFSession): Promise<void> {
+    this.assertOpen(session)
+    this.sessions.delete(session.referenceNumber)
+  }
+
+  private assertOpen(session: KSeFSession) {
+    if (!this.sessions.has(session.referenceNumber)) {
+      throw new Error(`KSeF session ${session.referenceNumber} is not open`)
+    }
+  }
+}
+
+/**
+ * Talks JSON to a KSeF-like HTTP endpoint, e.g. a local mock server at
+ * http://localhost:4010. Routes: POST /sessions, POST /sessions/{ref}/invoices,
+ * GET /sessions/{ref}/invoices/{ref}, DELETE /sessions/{ref}.
+ */
+export class HttpKSeFClient implements KSeFSessionClient {
+  constructor(private baseUrl: string) {}
+
+  async openSession(nip: string): Promise<KSeFSession> {
+    return this.request<KSeFSession>('POST', '/sessions', { nip })
+  }
+
+  async sendInvoice(session: KSeFSession, xml: string): Promise<KSeFInvoiceStatus> {
+    return this.request<KSeFInvoiceStatus>('POST', `/sessions/${session.referenceNumber}/invoices`, { invoice: xml })
+  }
+
+  async getInvoiceStatus(session: KSeFSession, referenceNumber: string): Promise<KSeFInvoiceStatus> {
+    return this.request<KSeFInvoiceStatus>('GET', `/sessions/${session.referenceNumber}/invoices/${referenceNumber}`)
+  }
+
+  async closeSession(session: KSeFSession): Promise<void> {
+    await this.request<void>('DELETE', `/sessions/${session.referenceNumber}`)
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined
+    })
+    if (!response.ok) {
+      throw new Error(`KSeF ${method} ${path} failed: ${response.status} ${response.statusText}`)
+    }
+    return response.status === 204 ? (undefined as T) : response.json()
+  }
+}
+
+/**
+ * Send a batch of FA(2) documents in one session and poll until each one is
+ * accepted or rejected.
+ */
+export async function submitToKSeF(
+  client: KSeFSessionClient,
+  nip: string,
+  documents: string[],
+  options: { pollIntervalMs?: number; maxAttempts?: number } = {}
+): Promise<KSeFInvoiceStatus[]> {
+  const { pollIntervalMs = 1000, maxAttempts = 30 } = options
+  const session = await client.openSession(nip)
+
+  try {
+    const results: KSeFInvoiceStatus[] = []
+    for (const xml of documents) {
+      let status = await client.sendInvoice(session, xml)
+      for (let attempt = 0; status.state === 'processing' && attempt < maxAttempts; attempt++) {
+        if (attempt > 0) await new Promise(resolve => setTimeout(resolve, pollIntervalMs))
+        status = await client.getInvoiceStatus(session, status.referenceNumber)
+      }
+      results.push(status)
+    }
+    return results
+  } finally {
+    await client.closeSession(session)
+  }
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import { KSEF_FA2_NAMESPACE, KSeFSerializer, KSeFValidator } from './ksef'
+import { ExtractedInvoiceData } from './ocr'
+import { elementNumber, elementText, findElements, parseXml } from './xml'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'ksef-1',
+  invoiceNumber: 'FV/1/2025',
+  date: '03/15/2025',
+  dueDate: '03/29/2025',
+  vendor: 'Acme sp. z o.o.',
+  vendorVatId: 'PL5261040828',
+  vendorCountry: 'PL',
+  vendorAddress: 'ul. Prosta 1, 00-001 Warszawa',
+  vendorEmail: 'faktury@acme.pl',
+  billTo: 'Foo S.A.',
+  billToVatId: '7251801126',
+  billToCountry: 'PL',
+  billToAddress: 'ul. Krzywa 2, 00-002 Warszawa',
+  subtotal: 100,
+  tax: 23,
+  total: 123,
+  currency: 'PLN',
+  paymentMethod: 'Credit transfer',
+  items: [{ description: 'Usługa', quantity: 2, unitPrice: 50, amount: 100 }]
+}
+
+// There is no FA(2) reader, so the file is read back element by element
+function readBack(xml: string) {
+  const root = parseXml(xml).documentElement
+  return {
+    namespace: root.namespaceURI,
+    sellerNip: elementText(root, 'Podmiot1', 'DaneIdentyfikacyjne', 'NIP'),
+    seller: elementText(root, 'Podmiot1', 'DaneIdentyfikacyjne', 'Nazwa'),
+    buyerNip: elementText(root, 'Podmiot2', 'DaneIdentyfikacyjne', 'NIP'),
+    buyer: elementText(root, 'Podmiot2', 'DaneIdentyfikacyjne', 'Nazwa'),
+    currency: elementText(root, 'Fa', 'KodWaluty'),
+    date: elementText(root, 'Fa', 'P_1'),
+    invoiceNumber: elementText(root, 'Fa', 'P_2'),
+    net: elementNumber(root, 'Fa', 'P_13_1'),
+    tax: elementNumber(root, 'Fa', 'P_14_1'),
+    total: elementNumber(root, 'Fa', 'P_15'),
+    kind: elementText(root, 'Fa', 'RodzajFaktury'),
+    dueDate: elementText(root, 'Fa', 'Platnosc', 'TerminPlatnosci', 'Termin'),
+    lines: findElements(root, 'Fa', 'FaWiersz').map(line => ({
+      description: elementText(line, 'P_7'),
+      quantity: elementNumber(line, 'P_8B'),
+      unitPrice: elementNumber(line, 'P_9A'),
+      amount: elementNumber(line, 'P_11'),
+      rate: elementText(line, 'P_12')
+    }))
+  }
+}
+
+describe('KSeF FA(2) round trip', () => {
+  it('writes a schema-valid file that carries the invoice', () => {
+    const xml = KSeFSerializer.toXML(invoice)
+
+    expect(KSeFSerializer.validate(xml)).toEqual([])
+    expect(readBack(xml)).toEqual({
+      namespace: KSEF_FA2_NAMESPACE,
+      sellerNip: '5261040828',
+      seller: 'Acme sp. z o.o.',
+      buyerNip: '7251801126',
+      buyer: 'Foo S.A.',
+      currency: 'PLN',
+      date: '2025-03-15',
+      invoiceNumber: 'FV/1/2025',
+      net: 100,
+      tax: 23,
+      total: 123,
+      kind: 'VAT',
+      dueDate: '2025-03-29',
+      lines: [{ description: 'Usługa', quantity: 2, unitPrice: 50, amount: 100, rate: '23' }]
+    })
+  })
+
+  it('writes negative totals as a correction that keeps the sign', () => {
+    const xml = KSeFSerializer.toXML({
+      ...invoice,
+      subtotal: -100,
+      tax: -23,
+      total: -123,
+      items: [{ description: 'Usługa', quantity: 2, unitPrice: -50, amount: -100 }]
+    })
+
+    expect(readBack(xml)).toMatchObject({ kind: 'KOR', net: -100, tax: -23, total: -123 })
+  })
+
+  it('states the VAT in PLN for other currencies', () => {
+    const xml = KSeFSerializer.toXML({ ...invoice, currency: 'EUR' }, { plnExchangeRate: 4.3 })
+    const root = parseXml(xml).documentElement
+
+    expect(KSeFSerializer.validate(xml)).toEqual([])
+    expect(readBack(xml)).toMatchObject({ currency: 'EUR', tax: 23 })
+    expect(elementNumber(root, 'Fa', 'P_14_1W')).toBe(98.9)
+  })
+
+  it('identifies EU buyers by their VAT number', () => {
+    const root = parseXml(KSeFSerializer.toXML({ ...invoice, billToVatId: 'DE123456789', billToCountry: 'DE' })).documentElement
+
+    expect(elementText(root, 'Podmiot2', 'DaneIdentyfikacyjne', 'KodUE')).toBe('DE')
+    expect(elementText(root, 'Podmiot2', 'DaneIdentyfikacyjne', 'NrVatUE')).toBe('123456789')
+  })
+})
+
+describe('KSeFValidator', () => {
+  it('accepts a complete invoice', () => {
+    expect(KSeFValidator.validate(invoice)).toEqual([])
+  })
+
+  it('reports schema violations on the invoice fields they come from', () => {
+    const issues = KSeFValidator.validate({ ...invoice, vendorVatId: undefined, invoiceNumber: undefined })
+
+    expect(issues.map(issue => [issue.ruleId, issue.field])).toEqual([
+      ['KSeF-XSD', 'vendorVatId'],
+      ['KSeF-XSD', 'invoiceNumber']
+    ])
+  })
+
+  it('requires the PLN exchange rate for other currencies', () => {
+    expect(KSeFValidator.validate({ ...invoice, currency: 'EUR' })).toMatchObject([
+      { ruleId: 'KSeF-P_14W', severity: 'fatal', field: 'currency' }
+    ])
+    expect(KSeFValidator.validate({ ...invoice, currency: 'EUR' }, { plnExchangeRate: 4.3 })).toEqual([])
+  })
+
+  it('rejects corrections, which need the corrected invoice reference', () => {
+    expect(KSeFValidator.validate({ ...invoice, subtotal: -100, tax: -23, total: -123 })).toMatchObject([
+      { ruleId: 'KSeF-KOR', severity: 'fatal', field: 'total' }
+    ])
+  })
+
+  it('checks the NIP check digit', () => {
+    expect(KSeFValidator.validate({ ...invoice, vendorVatId: '5261040829' })).toMatchObject([
+      { ruleId: 'KSeF-NIP', field: 'vendorVatId', message: 'NIP 5261040829 has a wrong check digit' }
+    ])
+    expect(KSeFValidator.validate({ ...invoice, vendorVatId: 'DE123456789' }).map(issue => issue.ruleId)).toContain('KSeF-NIP')
+  })
+})
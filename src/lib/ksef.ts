@@ -0,0 +1,405 @@
+import { ExtractedInvoiceData } from './ocr'
+import {
+  calculateInvoiceTotals,
+  getInvoiceLines,
+  getPaymentMeansCode,
+  getTaxBreakdown,
+  hasNegativeTotal,
+  splitPostalAddress
+} from './einvoice'
+import { el, serializeXml, formatXmlAmount, formatXmlDate, XmlElement } from './xml'
+import { SchemaElement, SchemaViolation, UNBOUNDED, validateXmlSchema } from './xml-schema'
+import { ValidationIssue } from './en16931-validator'
+
+export interface KSeFExportOptions {
+  sellerCountryCode?: string
+  buyerCountryCode?: string
+  defaultTaxCategory?: string
+  // Recorded in Naglowek/SystemInfo
+  systemInfo?: string
+  // PLN per unit of the invoice currency; required for the VAT in PLN (P_14_xW) of invoices not issued in PLN
+  plnExchangeRate?: number
+}
+
+export const KSEF_FA2_NAMESPACE = 'http://crd.gov.pl/wzor/2023/06/29/12648/'
+
+const EU_COUNTRIES = ['AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'EL', 'ES', 'FI', 'FR', 'HR', 'HU', 'IE',
+  'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'RO', 'SE', 'SI', 'SK', 'XI']
+
+// UNTDID 4461 payment means to FormaPlatnosci
+const FORMA_PLATNOSCI: Record<string, string> = {
+  '10': '1',
+  '48': '2',
+  '54': '2',
+  '55': '2',
+  '20': '4',
+  '30': '6',
+  '31': '6',
+  '42': '6',
+  '58': '6'
+}
+
+// Fa element names of the P_13 (net) / P_14 (VAT) bucket for each rate or VAT category
+type RateBucket = { net: string; tax?: string }
+
+function getRateBucket(category: string, rate: number): RateBucket {
+  switch (category) {
+    case 'Z': return { net: 'P_13_6_1' }
+    case 'K': return { net: 'P_13_6_2' }
+    case 'G': return { net: 'P_13_6_3' }
+    case 'E': return { net: 'P_13_7' }
+    case 'O': return { net: 'P_13_8' }
+    case 'AE': return { net: 'P_13_10' }
+  }
+  if (rate >= 22) return { net: 'P_13_1', tax: 'P_14_1' }
+  if (rate >= 7) return { net: 'P_13_2', tax: 'P_14_2' }
+  if (rate >= 5) return { net: 'P_13_3', tax: 'P_14_3' }
+  return { net: 'P_13_4', tax: 'P_14_4' }
+}
+
+// P_12 line rate: the percentage for taxed lines, otherwise the FA(2) marker
+function getLineRate(category: string | undefined, rate: number): string {
+  switch (category) {
+    case 'E': return 'zw'
+    case 'AE': return 'oo'
+    case 'O': return 'np'
+    case 'Z':
+    case 'K':
+    case 'G': return '0'
+  }
+  return String(Math.round(rate))
+}
+
+// NIP is the 10-digit Polish tax ID; VAT numbers may carry the PL prefix
+function toNip(vatId?: string): string | undefined {
+  const digits = vatId?.replace(/^PL/i, '').replace(/[\s-]/g, '')
+  return digits && /^\d{10}$/.test(digits) ? digits : undefined
+}
+
+// The last NIP digit is a weighted mod 11 checksum of the first nine
+const NIP_WEIGHTS = [6, 5, 7, 2, 3, 4, 5, 6, 7]
+
+function isValidNip(nip: string): boolean {
+  const sum = NIP_WEIGHTS.reduce((total, weight, index) => total + weight * Number(nip[index]), 0)
+  return sum % 11 === Number(nip[9])
+}
+
+const AMOUNT_PATTERN = /^-?\d{1,16}(\.\d{1,2})?$/
+const QUANTITY_PATTERN = /^-?\d{1,16}(\.\d{1,6})?$/
+const PRICE_PATTERN = /^-?\d{1,16}(\.\d{1,8})?$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const ANSWER = { enumeration: ['1', '2'] }
+
+const ADDRESS_SCHEMA: SchemaElement = {
+  name: 'Adres',
+  children: [
+    { name: 'KodKraju', pattern: /^[A-Z]{2}$/ },
+    { name: 'AdresL1', minLength: 1, maxLength: 512 },
+    { name: 'AdresL2', minOccurs: 0, minLength: 1, maxLength: 512 }
+  ]
+}
+
+const CONTACT_SCHEMA: SchemaElement = {
+  name: 'DaneKontaktowe',
+  minOccurs: 0,
+  maxOccurs: 3,
+  children: [
+    { name: 'Email', minOccurs: 0, minLength: 3, maxLength: 255 },
+    { name: 'Telefon', minOccurs: 0, minLength: 1, maxLength: 16 }
+  ]
+}
+
+// P_14_xW repeat the VAT of a rate in PLN when the invoice is in another currency
+const BUCKET_ELEMENTS: SchemaElement[] = [
+  'P_13_1', 'P_14_1', 'P_14_1W', 'P_13_2', 'P_14_2', 'P_14_2W', 'P_13_3', 'P_14_3', 'P_14_3W', 'P_13_4', 'P_14_4', 'P_14_4W', 'P_13_5', 'P_14_5',
+  'P_13_6_1', 'P_13_6_2', 'P_13_6_3', 'P_13_7', 'P_13_8', 'P_13_9', 'P_13_10', 'P_13_11'
+].map(name => ({ name, minOccurs: 0, pattern: AMOUNT_PATTERN }))
+
+/**
+ * The parts of the FA(2) XSD (schemat_FA(2)_v1-0E) covering the elements this
+ * serializer emits, in schema sequence order.
+ */
+export const KSEF_FA2_SCHEMA: SchemaElement = {
+  name: 'Faktura',
+  children: [
+    {
+      name: 'Naglowek',
+      children: [
+        { name: 'KodFormularza', enumeration: ['FA'], attributes: { kodSystemowy: { required: true, enumeration: ['FA (2)'] }, wersjaSchemy: { required: true, enumeration: ['1-0E'] } } },
+        { name: 'WariantFormularza', enumeration: ['2'] },
+        { name: 'DataWytworzeniaFa', pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/ },
+        { name: 'SystemInfo', minOccurs: 0, minLength: 1, maxLength: 256 }
+      ]
+    },
+    {
+      name: 'Podmiot1',
+      children: [
+        {
+          name: 'DaneIdentyfikacyjne',
+          children: [
+            { name: 'NIP', pattern: /^[1-9]((\d[1-9])|([1-9]\d))\d{7}$/ },
+            { name: 'Nazwa', minLength: 1, maxLength: 512 }
+          ]
+        },
+        ADDRESS_SCHEMA,
+        CONTACT_SCHEMA
+      ]
+    },
+    {
+      name: 'Podmiot2',
+      children: [
+        {
+          name: 'DaneIdentyfikacyjne',
+          children: [
+            { name: 'NIP', minOccurs: 0, pattern: /^\d{10}$/ },
+            { name: 'KodUE', minOccurs: 0, enumeration: EU_COUNTRIES },
+            { name: 'NrVatUE', minOccurs: 0, pattern: /^[0-9A-Za-z+*]{2,12}$/ },
+            { name: 'BrakID', minOccurs: 0, enumeration: ['1'] },
+            { name: 'Nazwa', minOccurs: 0, minLength: 1, maxLength: 512 }
+          ]
+        },
+        { ...ADDRESS_SCHEMA, minOccurs: 0 }
+      ]
+    },
+    {
+      name: 'Fa',
+      children: [
+        { name: 'KodWaluty', pattern: /^[A-Z]{3}$/ },
+        { name: 'P_1', pattern: DATE_PATTERN },
+        { name: 'P_2', minLength: 1, maxLength: 256 },
+        ...BUCKET_ELEMENTS,
+        { name: 'P_15', pattern: AMOUNT_PATTERN },
+        {
+          name: 'Adnotacje',
+          children: [
+            { name: 'P_16', ...ANSWER },
+            { name: 'P_17', ...ANSWER },
+            { name: 'P_18', ...ANSWER },
+            { name: 'P_18A', ...ANSWER },
+            {
+              name: 'Zwolnienie',
+              children: [
+                { name: 'P_19', minOccurs: 0, enumeration: ['1'] },
+                { name: 'P_19A', minOccurs: 0, minLength: 1, maxLength: 256 },
+                { name: 'P_19N', minOccurs: 0, enumeration: ['1'] }
+              ]
+            },
+            { name: 'NoweSrodkiTransportu', children: [{ name: 'P_22N', enumeration: ['1'] }] },
+            { name: 'P_23', ...ANSWER },
+            { name: 'PMarzy', children: [{ name: 'P_PMarzyN', enumeration: ['1'] }] }
+          ]
+        },
+        { name: 'RodzajFaktury', enumeration: ['VAT', 'KOR', 'ZAL', 'ROZ', 'UPR', 'KOR_ZAL', 'KOR_ROZ'] },
+        {
+          name: 'FaWiersz',
+          minOccurs: 0,
+          maxOccurs: UNBOUNDED,
+          children: [
+            { name: 'NrWierszaFa', pattern: /^[1-9]\d*$/ },
+            { name: 'P_7', minOccurs: 0, minLength: 1, maxLength: 512 },
+            { name: 'P_8A', minOccurs: 0, minLength: 1, maxLength: 256 },
+            { name: 'P_8B', minOccurs: 0, pattern: QUANTITY_PATTERN },
+            { name: 'P_9A', minOccurs: 0, pattern: PRICE_PATTERN },
+            { name: 'P_11', minOccurs: 0, pattern: AMOUNT_PATTERN },
+            { name: 'P_12', minOccurs: 0, enumeration: ['23', '22', '8', '7', '5', '4', '3', '0', 'zw', 'oo', 'np'] }
+          ]
+        },
+        {
+          name: 'Platnosc',
+          minOccurs: 0,
+          children: [
+            { name: 'TerminPlatnosci', minOccurs: 0, maxOccurs: 100, children: [{ name: 'Termin', pattern: DATE_PATTERN }] },
+            { name: 'FormaPlatnosci', minOccurs: 0, enumeration: ['1', '2', '3', '4', '5', '6', '7'] }
+          ]
+        }
+      ]
+    }
+  ]
+}
+
+export class KSeFSerializer {
+  static toXML(invoice: ExtractedInvoiceData, options: KSeFExportOptions = {}): string {
+    // Corrections (KOR) state the differences, so credit notes keep their negative amounts
+    const isCorrection = hasNegativeTotal(invoice)
+    const totals = calculateInvoiceTotals(invoice)
+    const lines = getInvoiceLines(invoice, options.defaultTaxCategory)
+    const taxBreakdown = getTaxBreakdown(invoice, options.defaultTaxCategory)
+    const paymentMeansCode = getPaymentMeansCode(invoice.paymentMethod)
+    const currency = invoice.currency || 'PLN'
+    const plnRate = currency !== 'PLN' && options.plnExchangeRate && options.plnExchangeRate > 0 ? options.plnExchangeRate : undefined
+
+    // Sum the VAT breakdown into the P_13_x / P_14_x buckets
+    const buckets = new Map<string, number>()
+    const add = (name: string, value: number) => buckets.set(name, (buckets.get(name) || 0) + value)
+    taxBreakdown.forEach(subtotal => {
+      const bucket = getRateBucket(subtotal.category, subtotal.rate)
+      add(bucket.net, subtotal.taxableAmount)
+      if (bucket.tax) add(bucket.tax, subtotal.taxAmount)
+      if (bucket.tax && plnRate) add(`${bucket.tax}W`, subtotal.taxAmount * plnRate)
+    })
+
+    const exemption = taxBreakdown.find(subtotal => subtotal.category === 'E')
+    const hasReverseCharge = taxBreakdown.some(subtotal => subtotal.category === 'AE')
+
+    const root = el('Faktura', [
+      el('Naglowek', [
+        el('KodFormularza', 'FA', { kodSystemowy: 'FA (2)', wersjaSchemy: '1-0E' }),
+        el('WariantFormularza', '2'),
+        el('DataWytworzeniaFa', new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')),
+        el('SystemInfo', options.systemInfo || 'Invoice OCR')
+      ]),
+      el('Podmiot1', [
+        el('DaneIdentyfikacyjne', [
+          el('NIP', toNip(invoice.vendorVatId)),
+          el('Nazwa', invoice.vendor)
+        ]),
+        this.buildAddress(invoice.vendorAddress, invoice.vendorCountry || options.sellerCountryCode || 'PL'),
+        el('DaneKontaktowe', [
+          el('Email', invoice.vendorEmail),
+          el('Telefon', invoice.vendorPhone?.slice(0, 16))
+        ])
+      ]),
+      el('Podmiot2', [
+        el('DaneIdentyfikacyjne', [
+          ...this.buildBuyerId(invoice.billToVatId, invoice.billToCountry || options.buyerCountryCode),
+          el('Nazwa', invoice.billTo)
+        ]),
+        this.buildAddress(invoice.billToAddress, invoice.billToCountry || options.buyerCountryCode || 'PL')
+      ]),
+      el('Fa', [
+        el('KodWaluty', currency),
+        el('P_1', formatXmlDate(invoice.date)),
+        el('P_2', invoice.invoiceNumber),
+        ...BUCKET_ELEMENTS.map(bucket => buckets.has(bucket.name)
+          ? el(bucket.name, formatXmlAmount(buckets.get(bucket.name)))
+          : undefined),
+        el('P_15', formatXmlAmount(totals.taxInclusiveAmount)),
+        el('Adnotacje', [
+          el('P_16', '2'),
+          el('P_17', '2'),
+          el('P_18', hasReverseCharge ? '1' : '2'),
+          el('P_18A', '2'),
+          el('Zwolnienie', exemption
+            ? [el('P_19', '1'), el('P_19A', exemption.exemptionReason || 'Zwolnienie z VAT')]
+            : [el('P_19N', '1')]),
+          el('NoweSrodkiTransportu', [el('P_22N', '1')]),
+          el('P_23', '2'),
+          el('PMarzy', [el('P_PMarzyN', '1')])
+        ]),
+        el('RodzajFaktury', isCorrection ? 'KOR' : 'VAT'),
+        ...lines.map((item, index) => el('FaWiersz', [
+          el('NrWierszaFa', index + 1),
+          el('P_7', item.description || `Item ${index + 1}`),
+          el('P_8A', item.unitCode || 'szt.'),
+          el('P_8B', item.quantity ?? 1),
+          el('P_9A', formatXmlAmount(item.unitPrice ?? item.amount)),
+          el('P_11', formatXmlAmount(item.amount)),
+          el('P_12', getLineRate(item.taxCategory, item.taxRate ?? 0))
+        ])),
+        el('Platnosc', [
+          el('TerminPlatnosci', [el('Termin', formatXmlDate(invoice.dueDate))]),
+          el('FormaPlatnosci', FORMA_PLATNOSCI[paymentMeansCode || ''])
+        ])
+      ])
+    ], { xmlns: KSEF_FA2_NAMESPACE })
+
+    return serializeXml(root)
+  }
+
+  static getFilename(invoice: ExtractedInvoiceData, index: number = 0): string {
+    const base = (invoice.invoiceNumber || `invoice_${index + 1}`).replace(/[^A-Za-z0-9._-]/g, '_')
+    return `${base}_ksef_fa2.xml`
+  }
+
+  static validate(xml: string): SchemaViolation[] {
+    return validateXmlSchema(xml, KSEF_FA2_SCHEMA)
+  }
+
+  // Polish buyers are identified by NIP, EU buyers by their VAT number, everyone else with BrakID
+  private static buildBuyerId(vatId: string | undefined, countryCode?: string): Array<XmlElement | undefined> {
+    const nip = toNip(vatId)
+    if (nip && (!countryCode || countryCode === 'PL')) return [el('NIP', nip)]
+
+    const euVat = vatId?.replace(/[\s-]/g, '').toUpperCase().match(/^([A-Z]{2})([0-9A-Z+*]{2,12})$/)
+    if (euVat && EU_COUNTRIES.includes(euVat[1])) {
+      return [el('KodUE', euVat[1]), el('NrVatUE', euVat[2])]
+    }
+
+    return [el('BrakID', '1')]
+  }
+
+  private static buildAddress(address: string | undefined, countryCode: string): XmlElement | undefined {
+    if (!address) return undefined
+    const parts = splitPostalAddress(address)
+    const cityLine = [parts.postCode, parts.city].filter(Boolean).join(' ')
+    return el('Adres', [
+      el('KodKraju', countryCode),
+      el('AdresL1', parts.street || address),
+      el('AdresL2', cityLine)
+    ])
+  }
+}
+
+// Schema paths of the invoice fields a schema violation can be corrected in
+const KSEF_FIELD_PATHS: Array<[string, keyof ExtractedInvoiceData]> = [
+  ['/Faktura/Podmiot1/DaneIdentyfikacyjne/NIP', 'vendorVatId'],
+  ['/Faktura/Podmiot1/DaneIdentyfikacyjne/Nazwa', 'vendor'],
+  ['/Faktura/Podmiot1/Adres', 'vendorAddress'],
+  ['/Faktura/Podmiot1/DaneKontaktowe/Email', 'vendorEmail'],
+  ['/Faktura/Podmiot1/DaneKontaktowe/Telefon', 'vendorPhone'],
+  ['/Faktura/Podmiot2/DaneIdentyfikacyjne/Nazwa', 'billTo'],
+  ['/Faktura/Podmiot2/Adres', 'billToAddress'],
+  ['/Faktura/Fa/KodWaluty', 'currency'],
+  ['/Faktura/Fa/P_1', 'date'],
+  ['/Faktura/Fa/P_2', 'invoiceNumber'],
+  ['/Faktura/Fa/Platnosc/TerminPlatnosci', 'dueDate']
+]
+
+export class KSeFValidator {
+  /**
+   * Local FA(2) schema check of the generated file, with violations reported
+   * on the invoice fields they come from, plus the checks the schema cannot
+   * express: the NIP check digit, the PLN exchange rate of foreign currency
+   * invoices and the corrected invoice a correction has to reference.
+   */
+  static validate(invoice: ExtractedInvoiceData, options: KSeFExportOptions = {}): ValidationIssue[] {
+    const issues: ValidationIssue[] = KSeFSerializer.validate(KSeFSerializer.toXML(invoice, options)).map(violation => {
+      const field = KSEF_FIELD_PATHS.find(([path]) => violation.path.startsWith(path))?.[1]
+      return {
+        ruleId: 'KSeF-XSD',
+        severity: 'fatal',
+        field: field || violation.path,
+        message: field ? `${violation.message} (${violation.path})` : violation.message
+      }
+    })
+
+    const nip = toNip(invoice.vendorVatId)
+    if (invoice.vendorVatId && !nip) {
+      issues.push({ ruleId: 'KSeF-NIP', severity: 'fatal', field: 'vendorVatId', message: `"${invoice.vendorVatId}" is not a 10-digit Polish NIP` })
+    } else if (nip && !isValidNip(nip)) {
+      issues.push({ ruleId: 'KSeF-NIP', severity: 'fatal', field: 'vendorVatId', message: `NIP ${nip} has a wrong check digit` })
+    }
+
+    const currency = invoice.currency || 'PLN'
+    if (currency !== 'PLN' && !(options.plnExchangeRate && options.plnExchangeRate > 0)) {
+      issues.push({
+        ruleId: 'KSeF-P_14W',
+        severity: 'fatal',
+        field: 'currency',
+        message: `Invoices in ${currency} must state the VAT in PLN (P_14_xW); set the exchange rate from ${currency} to PLN`
+      })
+    }
+
+    // A KOR needs DaneFaKorygowanej (number, date and KSeF ID of the corrected invoice), which is not captured
+    if (hasNegativeTotal(invoice)) {
+      issues.push({
+        ruleId: 'KSeF-KOR',
+        severity: 'fatal',
+        field: 'total',
+        message: 'Corrections must reference the corrected invoice (DaneFaKorygowanej); issue them from the KSeF invoice they correct'
+      })
+    }
+
+    return issues
+  }
+}
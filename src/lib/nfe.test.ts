@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { convertInvoice } from './convert'
+import { isValidAccessKey, NFeParser } from './nfe'
+import { UBLParser } from './ubl'
+
+const ACCESS_KEY = '35250312345678000199550010000001231000000123'
+
+// An authorized NF-e as SEFAZ returns it: the NFe wrapped in nfeProc with the protocol
+const NFE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<nfeProc xmlns="http://www.portalfiscal.inf.br/nfe" versao="4.00">
+  <NFe>
+    <infNFe Id="NFe${ACCESS_KEY}" versao="4.00">
+      <ide><mod>55</mod><serie>1</serie><nNF>123</nNF><dhEmi>2025-03-15T10:00:00-03:00</dhEmi></ide>
+      <emit>
+        <CNPJ>12345678000199</CNPJ>
+        <xNome>Loja LTDA</xNome>
+        <enderEmit>
+          <xLgr>Rua A</xLgr><nro>10</nro><xBairro>Centro</xBairro><xMun>São Paulo</xMun><UF>SP</UF>
+          <CEP>01310100</CEP><cPais>1058</cPais><fone>1133334444</fone>
+        </enderEmit>
+      </emit>
+      <dest><CPF>12345678909</CPF><xNome>Fulano</xNome></dest>
+      <det nItem="1">
+        <prod>
+          <cProd>1</cProd><xProd>Produto</xProd><NCM>85171231</NCM>
+          <qCom>2.0000</qCom><vUnCom>50.00</vUnCom><vProd>100.00</vProd>
+        </prod>
+      </det>
+      <total>
+        <ICMSTot>
+          <vBC>100.00</vBC><vICMS>18.00</vICMS><vST>0.00</vST><vProd>100.00</vProd><vIPI>5.00</vIPI>
+          <vPIS>1.65</vPIS><vCOFINS>7.60</vCOFINS><vNF>105.00</vNF>
+        </ICMSTot>
+      </total>
+      <pag><detPag><tPag>17</tPag><vPag>105.00</vPag></detPag></pag>
+    </infNFe>
+  </NFe>
+  <protNFe><infProt><chNFe>${ACCESS_KEY}</chNFe></infProt></protNFe>
+</nfeProc>`
+
+describe('NFeParser', () => {
+  it('reads an authorized NF-e', () => {
+    const parsed = NFeParser.parse(NFE_XML)
+
+    expect(parsed).toMatchObject({
+      invoiceNumber: '1-123',
+      date: '03/15/2025',
+      vendor: 'Loja LTDA',
+      vendorAddress: 'Rua A, 10, Centro, 01310-100 São Paulo/SP',
+      vendorPhone: '1133334444',
+      vendorVatId: '12345678000199',
+      vendorCountry: 'BR',
+      billTo: 'Fulano',
+      billToVatId: '12345678909',
+      billToCountry: 'BR',
+      subtotal: 100,
+      tax: 5,
+      total: 105,
+      currency: 'BRL',
+      paymentMethod: 'PIX',
+      fiscalUuid: ACCESS_KEY,
+      processingMethod: 'nfe-xml'
+    })
+    // ICMS-ST is zero here, so it is left out and the IPI is the only tax on top of vProd
+    expect(parsed.taxComponents).toEqual([
+      { name: 'ICMS', amount: 18, taxableAmount: 100 },
+      { name: 'IPI', amount: 5 },
+      { name: 'PIS', amount: 1.65 },
+      { name: 'COFINS', amount: 7.6 }
+    ])
+    expect(parsed.items).toMatchObject([{ description: 'Produto', quantity: 2, unitPrice: 50, amount: 100, productCode: '85171231' }])
+  })
+
+  it('keeps the totals when converted to UBL and read back', () => {
+    const { output } = convertInvoice(NFE_XML, 'auto', 'ubl')
+
+    expect(UBLParser.parse(output)).toMatchObject({
+      invoiceNumber: '1-123',
+      date: '03/15/2025',
+      vendor: 'Loja LTDA',
+      billTo: 'Fulano',
+      subtotal: 100,
+      tax: 5,
+      total: 105,
+      currency: 'BRL'
+    })
+  })
+
+  it('rejects documents that are not NF-e', () => {
+    expect(() => NFeParser.parse('<NFe/>')).toThrow('Not an NF-e')
+  })
+})
+
+describe('isValidAccessKey', () => {
+  it('checks the modulo 11 check digit', () => {
+    expect(isValidAccessKey(ACCESS_KEY)).toBe(true)
+    expect(isValidAccessKey(`${ACCESS_KEY.slice(0, 43)}4`)).toBe(false)
+  })
+
+  it('requires 44 digits', () => {
+    expect(isValidAccessKey(ACCESS_KEY.slice(1))).toBe(false)
+    expect(isValidAccessKey(`${ACCESS_KEY.slice(0, 43)}X`)).toBe(false)
+  })
+})
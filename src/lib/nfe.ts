@@ -0,0 +1,150 @@
+import { ExtractedInvoiceData, InvoiceItem, TaxComponent } from './ocr'
+import { getPaymentMeansName } from './einvoice'
+import { parseXml, findElement, findElements, elementText, elementNumber, parseXmlDate } from './xml'
+
+// NF-e tPag payment forms mapped to UNTDID 4461 where an equivalent exists
+const PAYMENT_FORMS: Record<string, string> = {
+  '01': '10',
+  '02': '20',
+  '03': '54',
+  '04': '55'
+}
+
+const PAYMENT_FORM_NAMES: Record<string, string> = {
+  '05': 'Store credit',
+  '10': 'Food voucher',
+  '11': 'Meal voucher',
+  '15': 'Boleto bancário',
+  '16': 'Bank deposit',
+  '17': 'PIX',
+  '90': 'No payment'
+}
+
+/**
+ * Validate a 44-digit chave de acesso: the last digit is a modulo 11 check
+ * digit over the first 43 with weights 2..9 applied from the right.
+ */
+export function isValidAccessKey(key: string): boolean {
+  if (!/^\d{44}$/.test(key)) return false
+
+  let sum = 0
+  let weight = 2
+  for (let i = 42; i >= 0; i--) {
+    sum += Number(key[i]) * weight
+    weight = weight === 9 ? 2 : weight + 1
+  }
+  const remainder = sum % 11
+  const checkDigit = remainder < 2 ? 0 : 11 - remainder
+  return checkDigit === Number(key[43])
+}
+
+export class NFeParser {
+  static isNFe(doc: Document): boolean {
+    const root = doc.documentElement
+    return (root.localName === 'nfeProc' || root.localName === 'NFe') &&
+      (root.namespaceURI || '') === 'http://www.portalfiscal.inf.br/nfe'
+  }
+
+  static parse(xml: string, doc: Document = parseXml(xml)): ExtractedInvoiceData {
+    if (!this.isNFe(doc)) {
+      throw new Error(`Not an NF-e: unexpected root element <${doc.documentElement.localName}>`)
+    }
+
+    // Authorized files wrap the NFe in nfeProc together with the SEFAZ protocol
+    const root = doc.documentElement
+    const nfe = root.localName === 'nfeProc' ? findElement(root, 'NFe') : root
+    const infNFe = findElement(nfe, 'infNFe')
+    if (!infNFe) throw new Error('NF-e without infNFe')
+
+    const ide = findElement(infNFe, 'ide')
+    const emit = findElement(infNFe, 'emit')
+    const dest = findElement(infNFe, 'dest')
+    const icmsTot = findElement(infNFe, 'total', 'ICMSTot')
+    const firstInstallment = findElements(infNFe, 'cobr', 'dup')[0]
+    const payment = findElement(infNFe, 'pag', 'detPag')
+
+    const accessKey = this.getAccessKey(root, infNFe)
+    if (accessKey && !isValidAccessKey(accessKey)) {
+      console.warn(`NF-e access key ${accessKey} has an invalid check digit`)
+    }
+
+    const items: InvoiceItem[] = findElements(infNFe, 'det').map(det => ({
+      description: elementText(det, 'prod', 'xProd') || '',
+      quantity: elementNumber(det, 'prod', 'qCom'),
+      unitPrice: elementNumber(det, 'prod', 'vUnCom'),
+      amount: elementNumber(det, 'prod', 'vProd'),
+      // NCM is the fiscal classification of the product
+      productCode: elementText(det, 'prod', 'NCM')
+    }))
+
+    const taxComponents: TaxComponent[] = [
+      { name: 'ICMS', amount: elementNumber(icmsTot, 'vICMS'), taxableAmount: elementNumber(icmsTot, 'vBC') },
+      { name: 'ICMS-ST', amount: elementNumber(icmsTot, 'vST'), taxableAmount: elementNumber(icmsTot, 'vBCST') },
+      { name: 'IPI', amount: elementNumber(icmsTot, 'vIPI') },
+      { name: 'PIS', amount: elementNumber(icmsTot, 'vPIS') },
+      { name: 'COFINS', amount: elementNumber(icmsTot, 'vCOFINS') }
+    ].filter((component): component is TaxComponent => !!component.amount)
+
+    // ICMS, PIS and COFINS are included in the product prices; only IPI and ICMS-ST are added on top
+    const total = elementNumber(icmsTot, 'vNF')
+    const addedTax = (elementNumber(icmsTot, 'vIPI') || 0) + (elementNumber(icmsTot, 'vST') || 0)
+    const serie = elementText(ide, 'serie')
+    const number = elementText(ide, 'nNF')
+    const paymentForm = elementText(payment, 'tPag')
+    // cPais 1058 is Brazil; foreign buyers carry their own country code in xPais only
+    const buyerCountryCode = elementText(dest, 'enderDest', 'cPais')
+
+    return {
+      id: crypto.randomUUID(),
+      invoiceNumber: serie && number ? `${serie}-${number}` : number,
+      date: parseXmlDate(elementText(ide, 'dhEmi') || elementText(ide, 'dEmi')),
+      dueDate: parseXmlDate(elementText(firstInstallment, 'dVenc')),
+      vendor: elementText(emit, 'xNome'),
+      vendorAddress: this.getAddress(findElement(emit, 'enderEmit')),
+      vendorPhone: elementText(emit, 'enderEmit', 'fone'),
+      vendorVatId: elementText(emit, 'CNPJ') || elementText(emit, 'CPF'),
+      vendorCountry: 'BR',
+      billTo: elementText(dest, 'xNome'),
+      billToAddress: this.getAddress(findElement(dest, 'enderDest')),
+      billToVatId: elementText(dest, 'CNPJ') || elementText(dest, 'CPF') || elementText(dest, 'idEstrangeiro'),
+      billToCountry: !buyerCountryCode || buyerCountryCode === '1058' ? 'BR' : undefined,
+      subtotal: total === undefined ? elementNumber(icmsTot, 'vProd') : total - addedTax,
+      tax: addedTax,
+      total,
+      currency: 'BRL',
+      paymentMethod: paymentForm
+        ? PAYMENT_FORMS[paymentForm] ? getPaymentMeansName(PAYMENT_FORMS[paymentForm]) : PAYMENT_FORM_NAMES[paymentForm]
+        : undefined,
+      fiscalUuid: accessKey,
+      taxComponents: taxComponents.length > 0 ? taxComponents : undefined,
+      items,
+      rawText: xml,
+      processingMethod: 'nfe-xml',
+      confidence: 100
+    }
+  }
+
+  // Prefer the key confirmed by the SEFAZ protocol, else the infNFe Id ("NFe" + 44 digits)
+  private static getAccessKey(root: Element, infNFe: Element): string | undefined {
+    const protocolKey = elementText(root, 'protNFe', 'infProt', 'chNFe')
+    if (protocolKey) return protocolKey
+    const id = infNFe.getAttribute('Id')
+    return id ? id.replace(/^NFe/, '') : undefined
+  }
+
+  private static getAddress(address?: Element): string | undefined {
+    if (!address) return undefined
+
+    const street = [elementText(address, 'xLgr'), elementText(address, 'nro')].filter(Boolean).join(', ')
+    const cep = elementText(address, 'CEP')
+    const city = [elementText(address, 'xMun'), elementText(address, 'UF')].filter(Boolean).join('/')
+    const parts = [
+      street,
+      elementText(address, 'xCpl'),
+      elementText(address, 'xBairro'),
+      [cep && `${cep.slice(0, 5)}-${cep.slice(5)}`, city].filter(Boolean).join(' ')
+    ].filter(Boolean)
+
+    return parts.length > 0 ? parts.join(', ') : undefined
+  }
+}
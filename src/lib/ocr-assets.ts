@@ -0,0 +1,26 @@
+import type { WorkerOptions } from 'tesseract.js'
+
+// The pdf.js worker and the Tesseract worker, core and language data are
+// copied into public/ocr-assets by scripts/copy-ocr-assets.mjs and served from
+// our own origin, so nothing is fetched from a CDN and the app runs air-gapped.
+// Set NEXT_PUBLIC_OCR_ASSET_BASE_PATH when they live elsewhere, e.g. under the
+// app's basePath or on an internal static host.
+export const OCR_ASSET_BASE_PATH = (process.env.NEXT_PUBLIC_OCR_ASSET_BASE_PATH || '/ocr-assets').replace(/\/$/, '')
+
+// Workers load their scripts from blob URLs, where relative paths don't resolve
+function resolveAssetUrl(path: string): string {
+  const url = `${OCR_ASSET_BASE_PATH}/${path}`
+  return typeof window === 'undefined' ? url : new URL(url, window.location.href).href
+}
+
+export function getPdfjsWorkerSrc(): string {
+  return resolveAssetUrl('pdfjs/pdf.worker.min.mjs')
+}
+
+export function getTesseractWorkerOptions(): Partial<WorkerOptions> {
+  return {
+    workerPath: resolveAssetUrl('tesseract/worker.min.js'),
+    corePath: resolveAssetUrl('tesseract/core'),
+    langPath: resolveAssetUrl('tesseract/lang')
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeDate, parseAmount } from './ocr-normalize'
+
+describe('parseAmount', () => {
+  it('reads a comma after the last dot as the decimal separator', () => {
+    expect(parseAmount('64,00')).toBe(64)
+    expect(parseAmount('1.234,56')).toBe(1234.56)
+    expect(parseAmount('€ 1.234.567,8')).toBe(1234567.8)
+  })
+
+  it('reads commas as thousands separators in US notation', () => {
+    expect(parseAmount('$1,234.56')).toBe(1234.56)
+    expect(parseAmount('1,234,567.89')).toBe(1234567.89)
+    expect(parseAmount('1,234')).toBe(1234)
+  })
+
+  it('rounds to cents and keeps the sign', () => {
+    expect(parseAmount('12.345')).toBe(12.35)
+    expect(parseAmount('-19,99')).toBe(-19.99)
+  })
+
+  it('returns 0 when nothing numeric is left', () => {
+    expect(parseAmount('')).toBe(0)
+    expect(parseAmount('n/a')).toBe(0)
+  })
+})
+
+describe('normalizeDate', () => {
+  it('keeps month-first dates', () => {
+    expect(normalizeDate('03/15/2024')).toBe('03/15/2024')
+    expect(normalizeDate('3-5-2024')).toBe('03/05/2024')
+  })
+
+  it('reads dates as day-first when the first part cannot be a month', () => {
+    expect(normalizeDate('15.03.2024')).toBe('03/15/2024')
+    expect(normalizeDate('31/12/24')).toBe('12/31/2024')
+  })
+
+  it('reads ambiguous dates as month-first', () => {
+    expect(normalizeDate('05/06/2024')).toBe('05/06/2024')
+  })
+
+  it('reorders year-first dates', () => {
+    expect(normalizeDate('2024-03-15')).toBe('03/15/2024')
+  })
+
+  it('expands two-digit years around 1950', () => {
+    expect(normalizeDate('03/15/49')).toBe('03/15/2049')
+    expect(normalizeDate('03/15/50')).toBe('03/15/1950')
+  })
+
+  it('returns dates it cannot interpret unchanged', () => {
+    expect(normalizeDate('31/13/2024')).toBe('31/13/2024')
+    expect(normalizeDate('March 15')).toBe('March 15')
+  })
+})
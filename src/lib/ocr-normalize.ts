@@ -0,0 +1,59 @@
+// Amount and date normalization shared by the OCR parsers
+
+/**
+ * Parse an OCR'd amount in US (1,234.56) or European (1.234,56 / 64,00)
+ * notation, ignoring currency symbols. Returns 0 when nothing numeric is left.
+ * A comma after the last dot is the decimal separator unless it is followed
+ * by exactly three digits, so 1,234 stays one thousand two hundred and
+ * thirty-four.
+ */
+export function parseAmount(amountStr: string): number {
+  if (!amountStr) return 0
+
+  let cleaned = amountStr.replace(/[^\d.,-]/g, '')
+  const lastComma = cleaned.lastIndexOf(',')
+  const lastDot = cleaned.lastIndexOf('.')
+
+  if (lastComma > lastDot && !(lastDot === -1 && /,\d{3}$/.test(cleaned))) {
+    // Comma is the decimal separator, dots group thousands
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.')
+  } else {
+    cleaned = cleaned.replace(/,/g, '')
+  }
+
+  const number = parseFloat(cleaned)
+  return isNaN(number) ? 0 : Math.round(number * 100) / 100
+}
+
+/**
+ * Normalize an OCR'd date to the app's MM/DD/YYYY. Year-first dates are
+ * reordered, day-first dates are recognized when the first part can't be a
+ * month and two-digit years are expanded. Returns the input when it can't be
+ * interpreted, e.g. 31/13/2024.
+ */
+export function normalizeDate(dateStr: string): string {
+  const cleanDate = dateStr.replace(/[^\d\/\-\.]/g, '')
+  const parts = cleanDate.split(/[\/\-\.]/)
+  if (parts.length !== 3) return dateStr
+
+  // YYYY/MM/DD
+  if (parts[0].length === 4) {
+    return `${parts[1].padStart(2, '0')}/${parts[2].padStart(2, '0')}/${parts[0]}`
+  }
+
+  const [part1, part2, part3] = parts.map(part => parseInt(part))
+  let month: number
+  let day: number
+  if (part1 <= 12 && part2 <= 31) {
+    month = part1
+    day = part2
+  } else if (part2 <= 12 && part1 <= 31) {
+    month = part2
+    day = part1
+  } else {
+    return dateStr
+  }
+  const year = parts[2].length <= 2 ? part3 + (part3 < 50 ? 2000 : 1900) : part3
+
+  return `${month.toString().padStart(2, '0')}/${day.toString().padStart(2, '0')}/${year}`
+}
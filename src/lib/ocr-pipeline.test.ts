@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createOCRPipeline } from './ocr-pipeline'
+
+describe('OCRPipeline.processDocument', () => {
+  it('lists a failed file with its name and the error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    const pipeline = createOCRPipeline('fast', {
+      load: { name: 'test', load: async file => ({ file, fileType: 'scanned-pdf' }) },
+      rasterize: { name: 'test', rasterize: async () => { throw new Error('Invalid PDF structure') } }
+    })
+
+    const result = await pipeline.processDocument(new File(['%PDF-'], 'broken.pdf'))
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Invalid PDF structure',
+      failedStage: 'rasterize',
+      data: {
+        vendor: 'Error processing: broken.pdf',
+        rawText: 'Processing failed: Invalid PDF structure',
+        extraField1: 'Invalid PDF structure'
+      }
+    })
+  })
+})
@@ -0,0 +1,471 @@
+import { ExtractedInvoiceData } from './ocr'
+import { DetectedFileType, FILE_TYPE_LABELS, isPdfFileType, isStructuredFileType, sniffFile } from './file-sniffer'
+import { findEmbeddedInvoice } from './pdf-attachments'
+import { extractPageTextLayer, isTextLayerSufficient, renderPageToCanvas } from './pdf-text'
+import { OpenedPdf, openPdf } from './pdfjs'
+import { importInvoiceXML, isEdiFile, isXmlFile } from './xml-import'
+import { applyZatcaQR, scanZatcaQR } from './zatca'
+import { enhancePreprocess, loadImageToCanvas, multiVariantPreprocess, PreprocessStrategy } from './ocr-preprocess'
+import { bestOfConfigsRecognize, OCREngine, Recognition, RecognizeStrategy, singlePassRecognize, TesseractWorkerPool } from './ocr-recognize'
+import { QuickParser } from './quick-parser'
+import { IntelligentParser } from './intelligent-parser'
+
+// Every document goes load → rasterize → preprocess → recognize → parse →
+// validate. Structured e-invoices and hybrid PDFs with an embedded XML are
+// finished by the load stage; text-layer PDF pages skip preprocess and
+// recognize. Each stage is a strategy so presets can trade speed for accuracy.
+export type PipelineStageName = 'load' | 'rasterize' | 'preprocess' | 'recognize' | 'parse' | 'validate'
+
+export interface LoadedDocument {
+  file: File
+  fileType: DetectedFileType
+  invoice?: ExtractedInvoiceData // Set when the document needs no OCR
+  pdf?: OpenedPdf // Closed by the pipeline once the document is processed
+}
+
+// A PDF page read from its text layer, or an image to run through OCR
+export interface DocumentPage {
+  pageNumber: number
+  text?: string
+  image?: HTMLCanvasElement
+}
+
+export interface ParseContext {
+  fileName: string
+  processingMethod: string
+  confidence: number
+}
+
+export interface Validation {
+  score: number
+  acceptable: boolean
+}
+
+export interface LoadStrategy {
+  name: string
+  load: (file: File, detectedType?: DetectedFileType) => Promise<LoadedDocument>
+}
+
+export interface RasterizeStrategy {
+  name: string
+  rasterize: (document: LoadedDocument) => Promise<DocumentPage[]>
+}
+
+export interface ParseStrategy {
+  name: string
+  parse: (rawText: string, context: ParseContext) => ExtractedInvoiceData
+}
+
+export interface ValidateStrategy {
+  name: string
+  validate: (data: ExtractedInvoiceData) => Validation
+}
+
+export type { PreprocessStrategy, RecognizeStrategy }
+
+export interface OCRPipelineConfig {
+  name: string
+  createEngine: () => OCREngine
+  load: LoadStrategy
+  rasterize: RasterizeStrategy
+  preprocess: PreprocessStrategy
+  recognize: RecognizeStrategy
+  parse: ParseStrategy
+  validate: ValidateStrategy
+}
+
+export interface FileProgress {
+  status: 'queued' | 'processing' | 'done' | 'failed'
+  stage?: PipelineStageName
+  result?: ProcessingResult
+}
+
+export interface ProcessingResult {
+  success: boolean
+  data: ExtractedInvoiceData
+  error?: string
+  failedStage?: PipelineStageName
+  performance: {
+    totalTime: number
+    ocrTime: number
+    parsingTime: number
+  }
+}
+
+// Structured files go straight to the importers, hybrid PDFs to their attachment
+export const sniffingLoad: LoadStrategy = {
+  name: 'sniff',
+  load: async (file, detectedType) => {
+    const fileType = detectedType || await sniffFile(file, openPdf)
+    console.log(`🔎 ${file.name} detected as ${FILE_TYPE_LABELS[fileType]}`)
+
+    // Unrecognised content with an XML/EDI name still goes to the importer so the parse error is reported
+    if (isStructuredFileType(fileType) || (fileType === 'unknown' && (isXmlFile(file) || isEdiFile(file)))) {
+      console.log(`🧾 Parsing structured e-invoice: ${file.name}`)
+      return { file, fileType, invoice: await importInvoiceXML(file) }
+    }
+    if (fileType === 'unknown') {
+      throw new Error(`Unsupported file format: ${file.name}`)
+    }
+    if (!isPdfFileType(fileType)) {
+      return { file, fileType }
+    }
+
+    const pdf = await openPdf(await file.arrayBuffer())
+    if (!pdf) {
+      throw new Error('PDF processing only available in browser')
+    }
+    console.log(`📄 PDF loaded: ${pdf.pdf.numPages} pages`)
+
+    // Hybrid PDFs (Factur-X/ZUGFeRD) carry the invoice as XML; only OCR when there is none
+    if (fileType === 'hybrid-pdf') {
+      try {
+        const invoice = await findEmbeddedInvoice(pdf.pdf)
+        if (invoice) {
+          await pdf.close()
+          return { file, fileType, invoice }
+        }
+      } catch (error) {
+        console.warn('⚠️ Could not inspect PDF attachments, falling back to OCR:', error)
+      }
+    }
+    return { file, fileType, pdf }
+  }
+}
+
+/**
+ * Born-digital PDF pages come from the text layer; image-only pages are
+ * rendered at the given scale. maxOcrPages caps how many of those are
+ * rendered, since scanned pages are slow to recognize.
+ */
+export function createRasterizer(options: { pdfScale: number, maxOcrPages?: number }): RasterizeStrategy {
+  const maxOcrPages = options.maxOcrPages ?? Infinity
+
+  return {
+    name: `text-layer-first@${options.pdfScale}x`,
+    rasterize: async document => {
+      if (!document.pdf) {
+        return [{ pageNumber: 1, image: await loadImageToCanvas(document.file) }]
+      }
+
+      const { pdf } = document.pdf
+      const pages: DocumentPage[] = []
+      let ocrPages = 0
+
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber)
+        const { text, lines } = await extractPageTextLayer(page)
+
+        if (isTextLayerSufficient(text)) {
+          console.log(`📄 Page ${pageNumber}/${pdf.numPages}: ${lines.length} text lines from the PDF text layer`)
+          pages.push({ pageNumber, text })
+        } else if (ocrPages < maxOcrPages) {
+          console.log(`🖼️ Page ${pageNumber}/${pdf.numPages}: image-only, rendering for OCR`)
+          pages.push({ pageNumber, image: await renderPageToCanvas(page, options.pdfScale) })
+          ocrPages++
+        }
+      }
+      return pages
+    }
+  }
+}
+
+const quickParser = new QuickParser()
+const intelligentParser = new IntelligentParser()
+
+export const quickParse: ParseStrategy = {
+  name: 'quick',
+  parse: (rawText, context) => quickParser.parseInvoiceData(rawText, context.fileName)
+}
+
+export const intelligentParse: ParseStrategy = {
+  name: 'intelligent',
+  parse: (rawText, context) => intelligentParser.parseInvoiceData(rawText, context.fileName, context.processingMethod, context.confidence)
+}
+
+// Scores the fields a receipt needs; anything above half passes
+export const quickValidate: ValidateStrategy = {
+  name: 'quick',
+  validate: data => {
+    let score = 0
+
+    // Core data presence
+    if (data.total) score += 30
+    if (data.vendor) score += 25
+    if (data.date) score += 15
+    if (data.subtotal) score += 10
+    if (data.tax) score += 10
+    if (data.invoiceNumber) score += 5
+    if (data.time) score += 5
+
+    score = Math.min(100, score)
+    return { score, acceptable: score > 50 }
+  }
+}
+
+// Also checks that the totals add up and that enough text was read
+export const thoroughValidate: ValidateStrategy = {
+  name: 'thorough',
+  validate: data => {
+    let score = 0
+    let maxScore = 0
+
+    // Core fields scoring
+    if (data.total) { score += 25; maxScore += 25 }
+    if (data.vendor) { score += 20; maxScore += 20 }
+    if (data.date) { score += 15; maxScore += 15 }
+    if (data.subtotal) { score += 10; maxScore += 10 }
+    if (data.tax) { score += 10; maxScore += 10 }
+    maxScore += 50 // Base score potential
+
+    // Text quality indicators
+    if (data.rawText && data.rawText.length > 100) { score += 10; maxScore += 10 }
+    if (data.invoiceNumber) { score += 5; maxScore += 5 }
+    if (data.time) { score += 5; maxScore += 5 }
+
+    // Consistency checks
+    if (data.total && data.subtotal && data.tax) {
+      const difference = Math.abs(data.total - (data.subtotal + data.tax)) / data.total
+      if (difference < 0.05) { // Within 5%
+        score += 10
+      }
+      maxScore += 10
+    }
+
+    // OCR confidence bonus
+    if (data.confidence && data.confidence > 70) {
+      score += Math.min(15, (data.confidence - 70) * 0.5)
+    }
+    maxScore += 15
+
+    const qualityScore = maxScore > 0 ? (score / maxScore) * 100 : 0
+
+    // Must have at least a total amount or vendor, read from substantial text
+    const hasEssentialData = !!(data.total || data.vendor)
+    const hasSubstantialText = !!(data.rawText && data.rawText.length > 50)
+
+    return { score: qualityScore, acceptable: qualityScore >= 30 && hasEssentialData && hasSubstantialText }
+  }
+}
+
+export type OCRPreset = 'fast' | 'thorough'
+
+export const OCR_PRESETS: Record<OCRPreset, OCRPipelineConfig> = {
+  fast: {
+    name: 'fast',
+    createEngine: () => new TesseractWorkerPool(),
+    load: sniffingLoad,
+    rasterize: createRasterizer({ pdfScale: 2, maxOcrPages: 1 }),
+    preprocess: enhancePreprocess,
+    recognize: singlePassRecognize,
+    parse: quickParse,
+    validate: quickValidate
+  },
+  thorough: {
+    name: 'thorough',
+    createEngine: () => new TesseractWorkerPool(),
+    load: sniffingLoad,
+    rasterize: createRasterizer({ pdfScale: 3 }),
+    preprocess: multiVariantPreprocess,
+    recognize: bestOfConfigsRecognize,
+    parse: intelligentParse,
+    validate: thoroughValidate
+  }
+}
+
+export class OCRPipeline {
+  private engine: OCREngine | null = null
+
+  constructor(readonly config: OCRPipelineConfig) {}
+
+  // The OCR engine starts on first use, so batches of e-invoices never load Tesseract
+  private getEngine(): OCREngine {
+    if (!this.engine) {
+      console.log(`🚀 Starting ${this.config.name} OCR pipeline...`)
+      this.engine = this.config.createEngine()
+    }
+    return this.engine
+  }
+
+  async detectFileType(file: File): Promise<DetectedFileType> {
+    return sniffFile(file, openPdf)
+  }
+
+  /**
+   * Process a batch with as many documents in flight as the OCR engine has
+   * workers. Progress is reported per file index as documents move through
+   * the stages; results come back in the order of the files.
+   */
+  async processBatch(files: File[], onProgress?: (index: number, progress: FileProgress) => void): Promise<ProcessingResult[]> {
+    const results: ProcessingResult[] = []
+    const concurrency = Math.max(1, Math.min(files.length, this.getEngine().concurrency))
+    let nextIndex = 0
+
+    files.forEach((_, index) => onProgress?.(index, { status: 'queued' }))
+
+    const processNext = async () => {
+      while (nextIndex < files.length) {
+        const index = nextIndex++
+        onProgress?.(index, { status: 'processing', stage: 'load' })
+        const result = await this.processDocument(files[index], undefined, stage => onProgress?.(index, { status: 'processing', stage }))
+        results[index] = result
+        onProgress?.(index, { status: result.success ? 'done' : 'failed', stage: result.failedStage, result })
+      }
+    }
+
+    console.log(`📚 Processing ${files.length} documents, ${concurrency} at a time`)
+    await Promise.all(Array.from({ length: concurrency }, processNext))
+    return results
+  }
+
+  async processDocument(
+    file: File,
+    detectedType?: DetectedFileType,
+    onStage?: (stage: PipelineStageName) => void
+  ): Promise<ProcessingResult> {
+    const startTime = performance.now()
+    let stage: PipelineStageName = 'load'
+    let document: LoadedDocument | null = null
+    let ocrTime = 0
+    let parsingTime = 0
+    const enterStage = (next: PipelineStageName) => {
+      stage = next
+      onStage?.(next)
+    }
+
+    try {
+      document = await this.config.load.load(file, detectedType)
+      if (document.invoice) {
+        return this.createStructuredResult(document.invoice, startTime)
+      }
+
+      console.log(`📄 Processing: ${file.name}`)
+      const ocrStartTime = performance.now()
+      enterStage('rasterize')
+      const pages = await this.config.rasterize.rasterize(document)
+
+      const texts: string[] = []
+      const recognitions: Recognition[] = []
+      for (const page of pages) {
+        if (page.text !== undefined) {
+          texts.push(page.text)
+          continue
+        }
+        enterStage('preprocess')
+        const variants = await this.config.preprocess.preprocess(page.image!)
+        enterStage('recognize')
+        const recognition = await this.config.recognize.recognize(this.getEngine(), variants)
+        texts.push(recognition.text)
+        recognitions.push(recognition)
+      }
+      const rawText = texts.join('\n\n')
+      ocrTime = performance.now() - ocrStartTime
+      console.log(`📝 Text extraction completed: ${rawText.length} characters`)
+
+      enterStage('parse')
+      const parsingStartTime = performance.now()
+      const confidence = recognitions.length > 0
+        ? recognitions.reduce((sum, recognition) => sum + recognition.confidence, 0) / recognitions.length
+        : 100
+      const processingMethod = recognitions.length > 0 ? `${this.config.recognize.name}-ocr` : 'pdf-text-layer'
+      let invoiceData = this.config.parse.parse(rawText, { fileName: file.name, processingMethod, confidence })
+      invoiceData.processingMethod = processingMethod
+
+      // Saudi receipts carry seller, VAT number, timestamp and totals in a ZATCA QR code
+      if (!document.pdf && pages[0]?.image) {
+        const receiptQR = this.scanReceiptQR(pages[0].image)
+        if (receiptQR) {
+          console.log('🔳 ZATCA QR code found on receipt')
+          invoiceData = applyZatcaQR(invoiceData, receiptQR)
+        }
+      }
+      parsingTime = performance.now() - parsingStartTime
+
+      enterStage('validate')
+      const validation = this.config.validate.validate(invoiceData)
+      const totalTime = performance.now() - startTime
+      invoiceData.confidence = validation.score
+      invoiceData.processingTime = totalTime
+
+      console.log(`✅ Processing complete: ${validation.score.toFixed(1)}% confidence in ${totalTime.toFixed(0)}ms`)
+
+      return {
+        success: validation.acceptable,
+        data: invoiceData,
+        error: validation.acceptable ? undefined : `Low quality result (${validation.score.toFixed(1)}/100)`,
+        performance: { totalTime, ocrTime, parsingTime }
+      }
+    } catch (error) {
+      const totalTime = performance.now() - startTime
+      console.error(`❌ Processing failed in the ${stage} stage:`, error)
+      const errorMsg = error instanceof Error ? error.message : String(error)
+
+      // Listed with the file name and error so the row shows which upload failed
+      return {
+        success: false,
+        data: {
+          id: crypto.randomUUID(),
+          vendor: `Error processing: ${file.name}`,
+          rawText: `Processing failed: ${errorMsg}`,
+          extraField1: errorMsg,
+          processingTime: totalTime
+        },
+        error: errorMsg,
+        failedStage: stage,
+        performance: { totalTime, ocrTime, parsingTime }
+      }
+    } finally {
+      await document?.pdf?.close()
+    }
+  }
+
+  private createStructuredResult(invoiceData: ExtractedInvoiceData, startTime: number): ProcessingResult {
+    const totalTime = performance.now() - startTime
+    invoiceData.processingTime = totalTime
+
+    console.log(`✅ ${invoiceData.processingMethod} invoice parsed in ${totalTime.toFixed(0)}ms`)
+
+    return {
+      success: true,
+      data: invoiceData,
+      performance: { totalTime, ocrTime: 0, parsingTime: totalTime }
+    }
+  }
+
+  private scanReceiptQR(canvas: HTMLCanvasElement) {
+    try {
+      const imageData = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height)
+      return scanZatcaQR(imageData)
+    } catch (error) {
+      console.warn('⚠️ QR code scan failed:', error)
+      return null
+    }
+  }
+
+  async terminate() {
+    if (this.engine) {
+      await this.engine.terminate()
+      this.engine = null
+    }
+  }
+}
+
+/**
+ * Build a pipeline from a preset, optionally swapping individual stages,
+ * e.g. createOCRPipeline('fast', { parse: intelligentParse }).
+ */
+export function createOCRPipeline(preset: OCRPreset, overrides: Partial<OCRPipelineConfig> = {}): OCRPipeline {
+  return new OCRPipeline({ ...OCR_PRESETS[preset], ...overrides })
+}
+
+const pipelines = new Map<OCRPreset, OCRPipeline>()
+
+// One pipeline per preset, so the Tesseract workers are reused across batches
+export function getOCRPipeline(preset: OCRPreset): OCRPipeline {
+  let pipeline = pipelines.get(preset)
+  if (!pipeline) {
+    pipeline = createOCRPipeline(preset)
+    pipelines.set(preset, pipeline)
+  }
+  return pipeline
+}
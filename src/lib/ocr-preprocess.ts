@@ -0,0 +1,182 @@
+import { filterImage, ImageFilter } from './image-filters'
+import type { PreprocessRequest, PreprocessResponse } from './preprocess.worker'
+
+// Image preprocessing for the OCR pipeline's preprocess stage. Each strategy
+// turns a rasterized page or photo into one or more canvases to recognize.
+// The per-pixel work runs in a Web Worker where OffscreenCanvas is available.
+
+export interface ImageVariant {
+  canvas: HTMLCanvasElement
+  name: string
+  description: string
+}
+
+export interface PreprocessStrategy {
+  name: string
+  preprocess: (source: HTMLCanvasElement) => Promise<ImageVariant[]>
+}
+
+type VariantName = Exclude<ImageFilter, 'adaptiveContrast'>
+
+const VARIANT_DESCRIPTIONS: Record<VariantName, string> = {
+  enhanced: 'Enhanced contrast with noise reduction',
+  blackwhite: 'High contrast black and white',
+  sharpened: 'Sharpened with edge enhancement',
+  textOptimized: 'Optimized specifically for text recognition'
+}
+
+export function loadImageToCanvas(file: Blob): Promise<HTMLCanvasElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    const url = URL.createObjectURL(file)
+    img.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = img.width
+      canvas.height = img.height
+      canvas.getContext('2d')!.drawImage(img, 0, 0)
+      URL.revokeObjectURL(url)
+      resolve(canvas)
+    }
+    img.onerror = error => {
+      URL.revokeObjectURL(url)
+      reject(error)
+    }
+    img.src = url
+  })
+}
+
+function scaleCanvas(source: HTMLCanvasElement, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d')!
+
+  canvas.width = width
+  canvas.height = height
+
+  // High quality drawing
+  ctx.imageSmoothingEnabled = true
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(source, 0, 0, width, height)
+  return canvas
+}
+
+function imageDataToCanvas(image: ImageData): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = image.width
+  canvas.height = image.height
+  canvas.getContext('2d')!.putImageData(image, 0, 0)
+  return canvas
+}
+
+// A worker that hasn't answered by then is assumed stuck. Requests queue up in the
+// worker, so this leaves room for a batch of large scans that take seconds each
+const PREPROCESS_TIMEOUT_MS = 60000
+
+let preprocessWorker: Worker | null = null
+let workerUnavailable = false
+let nextRequestId = 0
+const pendingRequests = new Map<number, { resolve: (images: ImageData[]) => void, reject: (error: Error) => void, timer: ReturnType<typeof setTimeout> }>()
+
+function disablePreprocessWorker(reason: string) {
+  console.warn(`⚠️ Preprocessing worker unavailable (${reason}), preprocessing on the main thread`)
+  workerUnavailable = true
+  preprocessWorker?.terminate()
+  preprocessWorker = null
+  pendingRequests.forEach(request => {
+    clearTimeout(request.timer)
+    request.reject(new Error(reason))
+  })
+  pendingRequests.clear()
+}
+
+function getPreprocessWorker(): Worker | null {
+  if (workerUnavailable || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null
+  if (preprocessWorker) return preprocessWorker
+
+  try {
+    preprocessWorker = new Worker(new URL('./preprocess.worker.ts', import.meta.url), { type: 'module' })
+  } catch (error) {
+    disablePreprocessWorker(error instanceof Error ? error.message : String(error))
+    return null
+  }
+
+  preprocessWorker.onmessage = (event: MessageEvent<PreprocessResponse>) => {
+    const response = event.data
+    const request = pendingRequests.get(response.id)
+    if (!request) return
+
+    pendingRequests.delete(response.id)
+    clearTimeout(request.timer)
+    if ('error' in response) {
+      request.reject(new Error(response.error))
+    } else {
+      request.resolve(response.images)
+    }
+  }
+  preprocessWorker.onerror = event => disablePreprocessWorker(event.message || 'worker error')
+  // The response can't be matched to a request when it fails to deserialize
+  preprocessWorker.onmessageerror = () => disablePreprocessWorker('unreadable worker message')
+  return preprocessWorker
+}
+
+function filterInWorker(worker: Worker, source: HTMLCanvasElement, width: number, height: number, filters: ImageFilter[]): Promise<ImageData[]> {
+  // getImageData returns a copy, so its buffer can be transferred and the source stays usable for a fallback
+  const sourceData = source.getContext('2d')!.getImageData(0, 0, source.width, source.height)
+  const request: PreprocessRequest = { id: nextRequestId++, source: sourceData, width, height, filters }
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => disablePreprocessWorker(`no response within ${PREPROCESS_TIMEOUT_MS / 1000}s`), PREPROCESS_TIMEOUT_MS)
+    pendingRequests.set(request.id, { resolve, reject, timer })
+    worker.postMessage(request, [sourceData.data.buffer as ArrayBuffer])
+  })
+}
+
+/**
+ * Scale the source to width × height and return one filtered copy per filter.
+ * Runs in the preprocessing worker, or on the main thread when workers or
+ * OffscreenCanvas are unavailable or the worker fails or stops responding.
+ */
+async function renderFilteredImages(source: HTMLCanvasElement, width: number, height: number, filters: ImageFilter[]): Promise<HTMLCanvasElement[]> {
+  let images: ImageData[] | null = null
+
+  const worker = getPreprocessWorker()
+  if (worker) {
+    try {
+      images = await filterInWorker(worker, source, width, height, filters)
+    } catch (error) {
+      console.warn('⚠️ Preprocessing worker failed, retrying on the main thread:', error)
+    }
+  }
+
+  if (!images) {
+    const scaled = scaleCanvas(source, width, height)
+    images = filterImage(scaled.getContext('2d')!.getImageData(0, 0, width, height), filters)
+  }
+  return images.map(imageDataToCanvas)
+}
+
+// One upscaled, contrast-adjusted image; quick and good enough for clean receipts
+export const enhancePreprocess: PreprocessStrategy = {
+  name: 'enhance',
+  preprocess: async source => {
+    const targetWidth = Math.max(800, Math.min(1600, source.width * 1.5))
+    const targetHeight = Math.round((targetWidth / source.width) * source.height)
+    console.log(`🎯 Optimized size: ${targetWidth}x${targetHeight}`)
+
+    const [canvas] = await renderFilteredImages(source, targetWidth, targetHeight, ['adaptiveContrast'])
+    return [{ canvas, name: 'enhanced', description: 'Upscaled with adaptive contrast' }]
+  }
+}
+
+// Four differently processed images for the recognizer to pick the best reading from
+export const multiVariantPreprocess: PreprocessStrategy = {
+  name: 'multi-variant',
+  preprocess: async source => {
+    const targetWidth = Math.max(400, Math.min(2500, source.width * 2))
+    const targetHeight = Math.round((targetWidth / source.width) * source.height)
+    console.log(`🎯 Target dimensions: ${targetWidth}x${targetHeight}`)
+
+    const names = Object.keys(VARIANT_DESCRIPTIONS) as VariantName[]
+    const canvases = await renderFilteredImages(source, targetWidth, targetHeight, names)
+    return names.map((name, index) => ({ canvas: canvases[index], name, description: VARIANT_DESCRIPTIONS[name] }))
+  }
+}
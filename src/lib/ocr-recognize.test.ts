@@ -0,0 +1,94 @@
+import { PSM } from 'tesseract.js'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_RECOGNITION_PARAMETERS, TesseractWorkerPool } from './ocr-recognize'
+
+interface FakeWorker {
+  id: number
+  parameters: Record<string, unknown>
+  recognized: Record<string, unknown>[]
+  setParameters: (parameters: Record<string, unknown>) => Promise<void>
+  recognize: (image: unknown) => Promise<{ data: { text: string, confidence: number } }>
+  terminate: () => Promise<void>
+}
+
+const workers: FakeWorker[] = []
+const startFailures: Error[] = []
+
+vi.mock('tesseract.js', async importOriginal => ({
+  ...await importOriginal<typeof import('tesseract.js')>(),
+  createWorker: vi.fn(async () => {
+    const failure = startFailures.shift()
+    if (failure) throw failure
+    const worker: FakeWorker = {
+      id: workers.length + 1,
+      parameters: {},
+      recognized: [],
+      setParameters: vi.fn(async (parameters: Record<string, unknown>) => { worker.parameters = { ...worker.parameters, ...parameters } }),
+      recognize: vi.fn(async () => {
+        // Yield so that jobs started together overlap
+        await new Promise(resolve => setTimeout(resolve, 1))
+        worker.recognized.push(worker.parameters)
+        return { data: { text: `worker ${worker.id}`, confidence: 90 } }
+      }),
+      terminate: vi.fn(async () => undefined)
+    }
+    workers.push(worker)
+    return worker
+  })
+}))
+
+const image = {} as HTMLCanvasElement
+
+describe('TesseractWorkerPool', () => {
+  afterEach(() => {
+    workers.length = 0
+    startFailures.length = 0
+    vi.restoreAllMocks()
+  })
+
+  it('recognizes each job with its own parameters over the defaults', async () => {
+    const pool = new TesseractWorkerPool(1)
+
+    await pool.recognize(image, { tessedit_pageseg_mode: PSM.SINGLE_WORD, tessedit_char_whitelist: '0123456789' })
+    await pool.recognize(image)
+
+    expect(workers).toHaveLength(1)
+    expect(workers[0].recognized).toEqual([
+      { ...DEFAULT_RECOGNITION_PARAMETERS, tessedit_pageseg_mode: PSM.SINGLE_WORD, tessedit_char_whitelist: '0123456789' },
+      DEFAULT_RECOGNITION_PARAMETERS
+    ])
+    await pool.terminate()
+  })
+
+  it('skips setParameters when a worker already has the parameters', async () => {
+    const pool = new TesseractWorkerPool(1)
+
+    await pool.recognize(image)
+    await pool.recognize(image)
+
+    expect(workers[0].setParameters).toHaveBeenCalledOnce()
+    await pool.terminate()
+  })
+
+  it('starts no more workers than its concurrency and queues the other jobs', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    const pool = new TesseractWorkerPool(2)
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(() => pool.recognize(image)))
+
+    expect(workers).toHaveLength(2)
+    expect(new Set(results.map(result => result.text))).toEqual(new Set(['worker 1', 'worker 2']))
+    await pool.terminate()
+    workers.forEach(worker => expect(worker.terminate).toHaveBeenCalledOnce())
+  })
+
+  it('reports a worker that fails to start', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    startFailures.push(new Error('wasm missing'))
+    const pool = new TesseractWorkerPool(1)
+
+    await expect(pool.recognize(image)).rejects.toThrow('OCR initialization failed: wasm missing')
+    expect(await pool.recognize(image)).toEqual({ text: 'worker 1', confidence: 90 })
+    await pool.terminate()
+  })
+})
@@ -0,0 +1,271 @@
+import { createWorker, PSM, Worker, WorkerParams } from 'tesseract.js'
+import { getTesseractWorkerOptions } from './ocr-assets'
+import { ImageVariant } from './ocr-preprocess'
+
+export type RecognitionParameters = Partial<WorkerParams>
+
+export interface Recognition {
+  text: string
+  confidence: number
+}
+
+// What the recognize stage needs from Tesseract
+export interface OCREngine {
+  readonly concurrency: number // Recognitions that can run at the same time
+  recognize(image: HTMLCanvasElement, parameters?: RecognitionParameters): Promise<Recognition>
+  terminate(): Promise<void>
+}
+
+export interface RecognizeStrategy {
+  name: string
+  recognize: (engine: OCREngine, variants: ImageVariant[]) => Promise<Recognition>
+}
+
+interface OCRConfig {
+  name: string
+  description: string
+  parameters: RecognitionParameters
+}
+
+const DEFAULT_CHAR_WHITELIST = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz.,/$():- \n\t'
+
+export const DEFAULT_RECOGNITION_PARAMETERS: RecognitionParameters = {
+  tessedit_pageseg_mode: PSM.SINGLE_BLOCK, // Uniform block - best for receipts
+  preserve_interword_spaces: '1',
+  tessedit_char_whitelist: DEFAULT_CHAR_WHITELIST
+}
+
+const OCR_CONFIGURATIONS: OCRConfig[] = [
+  {
+    name: 'uniform_block',
+    description: 'Uniform block of text - ideal for receipts',
+    parameters: { tessedit_pageseg_mode: PSM.SINGLE_BLOCK }
+  },
+  {
+    name: 'single_word',
+    description: 'Single word recognition - good for amounts',
+    parameters: { tessedit_pageseg_mode: PSM.SINGLE_WORD, tessedit_char_whitelist: '0123456789.$,' }
+  },
+  {
+    name: 'single_text_line',
+    description: 'Single text line - good for structured data',
+    parameters: { tessedit_pageseg_mode: PSM.SINGLE_LINE }
+  },
+  {
+    name: 'single_column',
+    description: 'Single column of text - good for receipts',
+    parameters: { tessedit_pageseg_mode: PSM.SINGLE_COLUMN }
+  },
+  {
+    name: 'fully_automatic',
+    description: 'Fully automatic page segmentation',
+    parameters: { tessedit_pageseg_mode: PSM.AUTO }
+  },
+  {
+    name: 'sparse_text',
+    description: 'Sparse text - good for low-quality images',
+    parameters: { tessedit_pageseg_mode: PSM.SPARSE_TEXT }
+  },
+  {
+    name: 'raw_line',
+    description: 'Raw line - treats image as single text line',
+    parameters: { tessedit_pageseg_mode: PSM.RAW_LINE }
+  }
+]
+
+// Each worker holds its own copy of the language model, so large machines are capped
+const MAX_POOL_SIZE = 8
+
+export function getDefaultPoolSize(): number {
+  const cores = typeof navigator === 'undefined' ? 1 : navigator.hardwareConcurrency || 1
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores))
+}
+
+interface WaitingJob {
+  resolve: (worker: Worker) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Tesseract workers that recognize in parallel. Each job takes a free worker,
+ * sets its parameters on it with the defaults filled in, so jobs don't
+ * inherit each other's settings, and hands it to the next queued job when
+ * done. Workers start on demand, up to concurrency.
+ */
+export class TesseractWorkerPool implements OCREngine {
+  private workers: Promise<Worker>[] = []
+  private idle: Worker[] = []
+  private waiting: WaitingJob[] = []
+  private live = new Set<Worker>()
+  // Parameters last set on each worker, so repeated jobs skip setParameters
+  private appliedParameters = new WeakMap<Worker, string>()
+
+  constructor(readonly concurrency = getDefaultPoolSize()) {}
+
+  async recognize(image: HTMLCanvasElement, parameters: RecognitionParameters = {}): Promise<Recognition> {
+    const worker = await this.acquire()
+    try {
+      await this.applyParameters(worker, { ...DEFAULT_RECOGNITION_PARAMETERS, ...parameters })
+      const result = await worker.recognize(image)
+      return { text: result.data.text, confidence: result.data.confidence || 0 }
+    } finally {
+      this.release(worker)
+    }
+  }
+
+  private acquire(): Promise<Worker> {
+    const worker = this.idle.pop()
+    if (worker) return Promise.resolve(worker)
+    if (this.workers.length < this.concurrency) return this.addWorker()
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }))
+  }
+
+  private release(worker: Worker) {
+    // Workers finishing a job after terminate() are not handed out again
+    if (!this.live.has(worker)) return
+    const next = this.waiting.shift()
+    if (next) {
+      next.resolve(worker)
+    } else {
+      this.idle.push(worker)
+    }
+  }
+
+  private addWorker(): Promise<Worker> {
+    const started: Promise<Worker> = this.startWorker().catch(error => {
+      this.workers = this.workers.filter(worker => worker !== started)
+      console.error('❌ Failed to initialize OCR Engine:', error)
+      const failure = new Error(`OCR initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      // Queued jobs wait for a busy worker; with none left they would wait forever
+      if (this.workers.length === 0) {
+        this.waiting.splice(0).forEach(job => job.reject(failure))
+      }
+      throw failure
+    })
+    this.workers.push(started)
+    return started
+  }
+
+  private async startWorker(): Promise<Worker> {
+    console.log(`🧵 Starting Tesseract worker ${this.workers.length + 1}/${this.concurrency}`)
+    const worker = await createWorker('eng', undefined, getTesseractWorkerOptions())
+    this.live.add(worker)
+    console.log('✅ Tesseract worker ready')
+    return worker
+  }
+
+  private async applyParameters(worker: Worker, parameters: RecognitionParameters) {
+    const key = JSON.stringify(parameters)
+    if (this.appliedParameters.get(worker) === key) return
+
+    await worker.setParameters(parameters)
+    this.appliedParameters.set(worker, key)
+  }
+
+  async terminate(): Promise<void> {
+    if (this.workers.length === 0) return
+
+    console.log('🛑 Terminating Tesseract workers...')
+    const started = await Promise.allSettled(this.workers)
+    this.workers = []
+    this.idle = []
+    this.live.clear()
+    this.waiting.splice(0).forEach(job => job.reject(new Error('OCR engine terminated')))
+    await Promise.all(started.map(result => result.status === 'fulfilled' ? result.value.terminate() : undefined))
+  }
+}
+
+function calculateQualityScore(text: string, confidence: number): number {
+  let score = confidence || 0
+
+  // Bonus for containing monetary values
+  if (/\$\d+\.?\d{0,2}|\d+\.\d{2}/.test(text)) {
+    score += 15
+  }
+
+  // Bonus for containing common receipt words
+  const receiptWords = ['total', 'subtotal', 'tax', 'amount', 'receipt', 'invoice', 'date', 'time']
+  const foundWords = receiptWords.filter(word => text.toLowerCase().includes(word)).length
+  score += foundWords * 3
+
+  // Bonus for reasonable text length
+  if (text.length > 50 && text.length < 5000) {
+    score += 5
+  }
+
+  // Penalty for too many special characters (indicates OCR errors)
+  const specialCharRatio = (text.match(/[^a-zA-Z0-9\s.,\$:()\-]/g) || []).length / (text.length || 1)
+  if (specialCharRatio > 0.1) {
+    score -= Math.round(specialCharRatio * 20)
+  }
+
+  return Math.max(0, Math.min(100, score))
+}
+
+// One recognition of the first variant, retried in single word mode when it reads poorly
+export const singlePassRecognize: RecognizeStrategy = {
+  name: 'single-pass',
+  recognize: async (engine, variants) => {
+    const image = variants[0].canvas
+    let primary: Recognition | null = null
+
+    try {
+      primary = await engine.recognize(image)
+      console.log(`Primary OCR: ${primary.confidence}% confidence`)
+      if (primary.text.length > 50 && primary.confidence > 60) {
+        return primary
+      }
+    } catch (error) {
+      console.log('Primary OCR failed, trying fallback...', error)
+    }
+
+    try {
+      const fallback = await engine.recognize(image, { tessedit_pageseg_mode: PSM.SINGLE_WORD })
+      console.log(`Fallback OCR: ${fallback.confidence}% confidence`)
+      return primary && primary.confidence >= fallback.confidence ? primary : fallback
+    } catch (error) {
+      if (primary) return primary
+      console.error('All OCR attempts failed:', error)
+      throw new Error('OCR processing failed')
+    }
+  }
+}
+
+// Every variant with every page segmentation mode, keeping the reading that looks most like an invoice
+export const bestOfConfigsRecognize: RecognizeStrategy = {
+  name: 'best-of-configs',
+  recognize: async (engine, variants) => {
+    const attempts = variants.length * OCR_CONFIGURATIONS.length
+    console.log(`🔄 Starting multi-config OCR: ${variants.length} variants × ${OCR_CONFIGURATIONS.length} configs = ${attempts} attempts`)
+
+    // All attempts are queued at once so a worker pool runs them in parallel
+    const results = await Promise.all(variants.flatMap(variant => OCR_CONFIGURATIONS.map(async config => {
+      const method = `${variant.name}+${config.name}`
+      try {
+        const recognition = await engine.recognize(variant.canvas, config.parameters)
+        return { recognition, method, score: calculateQualityScore(recognition.text, recognition.confidence) }
+      } catch (error) {
+        console.log(`    ❌ ${method} failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        return null
+      }
+    })))
+
+    let best: Recognition = { text: '', confidence: 0 }
+    let bestScore = -1
+    let bestMethod = ''
+    for (const result of results) {
+      if (result && result.score > bestScore) {
+        best = result.recognition
+        bestScore = result.score
+        bestMethod = result.method
+      }
+    }
+
+    if (bestScore < 0) {
+      throw new Error('OCR processing failed')
+    }
+
+    console.log(`🏁 Best method: ${bestMethod} (${bestScore.toFixed(1)}% quality, ${best.text.length} chars)`)
+    return best
+  }
+}
@@ -0,0 +1,46 @@
+import { ExtractedInvoiceData } from './ocr'
+import { parseInvoiceXML } from './xml-import'
+
+// Attachment names used by Factur-X, ZUGFeRD 2.x and XRechnung hybrid PDFs
+const EMBEDDED_INVOICE_FILENAMES = ['factur-x.xml', 'zugferd-invoice.xml', 'xrechnung.xml']
+
+interface PdfAttachment {
+  filename: string
+  content: Uint8Array
+}
+
+// The subset of pdf.js' PDFDocumentProxy we need
+export interface PdfWithAttachments {
+  getAttachments(): Promise<Record<string, PdfAttachment> | null>
+}
+
+/**
+ * Look for an invoice XML embedded in a hybrid PDF and parse it. Standard
+ * attachment names are tried first, then any other XML attachment. Returns
+ * null when nothing parseable is attached so callers can fall back to OCR.
+ */
+export async function findEmbeddedInvoice(pdf: PdfWithAttachments): Promise<ExtractedInvoiceData | null> {
+  const attachments = Object.values((await pdf.getAttachments()) || {})
+  if (attachments.length === 0) return null
+
+  const isStandardName = (attachment: PdfAttachment) =>
+    EMBEDDED_INVOICE_FILENAMES.includes(attachment.filename.toLowerCase())
+  const candidates = [
+    ...attachments.filter(isStandardName),
+    ...attachments.filter(attachment => !isStandardName(attachment) && /\.xml$/i.test(attachment.filename))
+  ]
+
+  for (const attachment of candidates) {
+    try {
+      const xml = new TextDecoder('utf-8').decode(attachment.content)
+      const invoiceData = parseInvoiceXML(xml)
+      invoiceData.processingMethod = `embedded-${invoiceData.processingMethod}`
+      console.log(`📎 Using embedded invoice ${attachment.filename} (${invoiceData.processingMethod})`)
+      return invoiceData
+    } catch (error) {
+      console.warn(`Attachment ${attachment.filename} is not a supported invoice:`, error)
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { extractPageTextLayer, groupTextLines, isTextLayerSufficient } from './pdf-text'
+
+const BORN_DIGITAL_PAGE = [
+  'Acme GmbH, Hauptstraße 1, 10115 Berlin',
+  'Invoice INV-2024-001 dated 15 March 2025',
+  'Bill to: Buyer BV, Damrak 1, Amsterdam',
+  'Consulting services 2 x 50.00 100.00',
+  'Subtotal 100.00',
+  'VAT 19% 19.00',
+  'Total due 119.00 EUR'
+].join('\n')
+
+// pdf.js text item at (x, y) in PDF space, where y grows upwards
+function textItem(str: string, x: number, y: number, width: number = str.length * 5, height: number = 10) {
+  return { str, transform: [height, 0, 0, height, x, y], width, height }
+}
+
+describe('isTextLayerSufficient', () => {
+  it('accepts the text of a born-digital invoice', () => {
+    expect(isTextLayerSufficient(BORN_DIGITAL_PAGE)).toBe(true)
+  })
+
+  it('rejects the overlay text of a scan', () => {
+    expect(isTextLayerSufficient('Page 1 of 2')).toBe(false)
+    expect(isTextLayerSufficient('PAID 15.03.2025\nScanned with OfficeScan\nPage 1 of 1')).toBe(false)
+    expect(isTextLayerSufficient('')).toBe(false)
+  })
+
+  it('rejects enough words without an amount or an invoice keyword', () => {
+    const prose = 'This document was scanned at the front desk by the reception team and forwarded to the accounts team for review today'
+
+    expect(isTextLayerSufficient(prose)).toBe(false)
+    expect(isTextLayerSufficient(`${prose} total`)).toBe(false)
+    expect(isTextLayerSufficient(`${prose} total 119.00`)).toBe(true)
+  })
+
+  it('rejects glyphs that do not map to Unicode', () => {
+    const unmapped = BORN_DIGITAL_PAGE.replace(/[A-Za-z]/g, '\uFFFD')
+    const privateUse = BORN_DIGITAL_PAGE.replace(/[a-z]/g, '\uE000')
+
+    expect(isTextLayerSufficient(unmapped)).toBe(false)
+    expect(isTextLayerSufficient(privateUse)).toBe(false)
+  })
+})
+
+describe('groupTextLines', () => {
+  it('orders lines top to bottom and items left to right', () => {
+    const lines = groupTextLines([
+      textItem('119.00', 400, 100),
+      textItem('Total', 50, 100),
+      textItem('Invoice', 50, 700),
+      textItem('INV-1', 100, 701)
+    ])
+
+    expect(lines.map(line => line.text)).toEqual(['Invoice INV-1', 'Total 119.00'])
+    expect(lines[1]).toMatchObject({ x: 50, y: 100, width: 380 })
+  })
+
+  it('joins items without a gap and skips empty and marked-content entries', () => {
+    const lines = groupTextLines([
+      textItem('Sub', 50, 500, 15),
+      textItem('total', 65, 500),
+      textItem(' ', 90, 500),
+      { type: 'beginMarkedContent' }
+    ])
+
+    expect(lines.map(line => line.text)).toEqual(['Subtotal'])
+  })
+
+  it('keeps lines apart that are closer than a line height but not on the same baseline', () => {
+    const lines = groupTextLines([textItem('First', 50, 500), textItem('Second', 50, 490)])
+
+    expect(lines.map(line => line.text)).toEqual(['First', 'Second'])
+  })
+})
+
+describe('extractPageTextLayer', () => {
+  it('joins the page lines in reading order', async () => {
+    const page = { getTextContent: async () => ({ items: [textItem('Total 119.00', 50, 100), textItem('Invoice INV-1', 50, 700)] }) }
+
+    expect((await extractPageTextLayer(page)).text).toBe('Invoice INV-1\nTotal 119.00')
+  })
+})
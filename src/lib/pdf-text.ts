@@ -0,0 +1,134 @@
+// Born-digital PDFs carry their text, so pdf.js' text layer is read first and
+// Tesseract only runs on pages that are images of text (scans, photos, faxes).
+
+// The subset of pdf.js' TextItem we use; TextMarkedContent entries have no str
+interface PdfTextItem {
+  str: string
+  transform: number[]
+  width: number
+  height: number
+}
+
+export interface PdfTextPage {
+  getTextContent(): Promise<{ items: Array<PdfTextItem | object> }>
+}
+
+// The subset of pdf.js' PDFPageProxy needed to rasterize image-only pages for OCR
+export interface PdfRenderablePage extends PdfTextPage {
+  getViewport(params: { scale: number }): { width: number, height: number }
+  render(params: { canvasContext: CanvasRenderingContext2D, viewport: { width: number, height: number } }): { promise: Promise<void> }
+}
+
+// The subset of pdf.js' PDFDocumentProxy needed to walk the pages
+export interface PdfTextDocument<Page extends PdfTextPage = PdfTextPage> {
+  numPages: number
+  getPage(pageNumber: number): Promise<Page>
+}
+
+export interface PositionedText {
+  text: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface PdfTextLine extends PositionedText {
+  items: PositionedText[]
+}
+
+// Scans often still carry a little real text (a page number, a stamp, a footer
+// added by the scanner), so a page needs this many words before its text layer
+// is trusted over OCR
+export const MIN_PAGE_WORDS = 15
+
+// ...and has to read like an invoice: an amount and one of these words
+const AMOUNT_PATTERN = /\d[.,]\d{2}(?!\d)|\d{1,3}(?:[.,' ]\d{3})+(?!\d)|[$€£¥]\s?\d/
+const INVOICE_KEYWORDS = /\b(invoice|receipt|total|subtotal|amount|tax|vat|gst|due|qty|quantity|price|rechnung|betrag|summe|mwst|ust|facture|montant|tva|factura|importe|iva|fattura|importo|faktura|kwota|nota fiscal)\b/i
+
+// Fonts without a ToUnicode map extract as replacement or private-use characters
+const MIN_READABLE_RATIO = 0.8
+
+function isPositionedItem(item: PdfTextItem | object): item is PdfTextItem {
+  return 'str' in item && 'transform' in item
+}
+
+/**
+ * Group text items into lines by baseline and order them top to bottom, left
+ * to right, which is the reading order the OCR parsers expect. Items on the
+ * same line are joined with a space when there is a visible gap between them.
+ */
+export function groupTextLines(items: Array<PdfTextItem | object>): PdfTextLine[] {
+  const positioned: PositionedText[] = items
+    .filter(isPositionedItem)
+    .filter(item => item.str.trim())
+    .map(item => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      height: item.height || Math.abs(item.transform[3]) || 10
+    }))
+
+  // PDF y grows upwards, so the top of the page comes first with y descending
+  positioned.sort((a, b) => b.y - a.y || a.x - b.x)
+
+  const lines: PdfTextLine[] = []
+  for (const item of positioned) {
+    const line = lines.find(candidate => Math.abs(candidate.y - item.y) <= Math.min(candidate.height, item.height) / 2)
+    if (line) {
+      line.items.push(item)
+      line.height = Math.max(line.height, item.height)
+    } else {
+      lines.push({ ...item, items: [item] })
+    }
+  }
+
+  for (const line of lines) {
+    line.items.sort((a, b) => a.x - b.x)
+    line.text = line.items.reduce((text, item, index) => {
+      if (index === 0) return item.text
+      const previous = line.items[index - 1]
+      const gap = item.x - (previous.x + previous.width)
+      const separator = gap > line.height * 0.2 && !/\s$/.test(text) && !/^\s/.test(item.text) ? ' ' : ''
+      return text + separator + item.text
+    }, '')
+    line.x = line.items[0].x
+    const last = line.items[line.items.length - 1]
+    line.width = last.x + last.width - line.x
+  }
+
+  return lines.sort((a, b) => b.y - a.y)
+}
+
+/**
+ * Whether a page's text layer holds the invoice itself rather than a few
+ * overlay strings on a scanned image: enough readable words, an amount and
+ * an invoice keyword. Otherwise the page is rasterized and OCR'd.
+ */
+export function isTextLayerSufficient(text: string): boolean {
+  const characters = text.replace(/\s+/g, '')
+  const readable = characters.replace(/[\uFFFD\uE000-\uF8FF\u0000-\u001F]/g, '')
+  if (characters.length === 0 || readable.length / characters.length < MIN_READABLE_RATIO) return false
+
+  const words = text.split(/\s+/).filter(word => /[\p{L}\p{N}]{2,}/u.test(word))
+  if (words.length < MIN_PAGE_WORDS) return false
+
+  return AMOUNT_PATTERN.test(text) && INVOICE_KEYWORDS.test(text)
+}
+
+export async function extractPageTextLayer(page: PdfTextPage): Promise<{ text: string, lines: PdfTextLine[] }> {
+  const content = await page.getTextContent()
+  const lines = groupTextLines(content.items)
+  return { text: lines.map(line => line.text).join('\n'), lines }
+}
+
+export async function renderPageToCanvas(page: PdfRenderablePage, scale: number): Promise<HTMLCanvasElement> {
+  const viewport = page.getViewport({ scale })
+  const canvas = document.createElement('canvas')
+  canvas.width = viewport.width
+  canvas.height = viewport.height
+
+  await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise
+  return canvas
+}
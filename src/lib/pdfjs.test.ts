@@ -0,0 +1,19 @@
+import { describe, expect, it, vi } from 'vitest'
+import { getPdfjsWorkerSrc } from './ocr-assets'
+import { loadPdfjs } from './pdfjs'
+
+// pdf.js itself needs DOMMatrix, which jsdom lacks. Importing react-pdf sets
+// this relative workerSrc, which loadPdfjs has to replace.
+vi.mock('react-pdf', () => ({
+  pdfjs: { version: 'test', GlobalWorkerOptions: { workerSrc: 'pdf.worker.mjs' } }
+}))
+
+describe('loadPdfjs', () => {
+  it('points pdf.js at the worker served from our own origin', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    const pdfjs = await loadPdfjs()
+
+    expect(pdfjs?.GlobalWorkerOptions.workerSrc).toBe(new URL('/ocr-assets/pdfjs/pdf.worker.min.mjs', window.location.href).href)
+    expect(pdfjs?.GlobalWorkerOptions.workerSrc).toBe(getPdfjsWorkerSrc())
+  })
+})
@@ -0,0 +1,45 @@
+import { getPdfjsWorkerSrc } from './ocr-assets'
+
+type Pdfjs = typeof import('react-pdf')['pdfjs']
+
+export type PdfDocument = Awaited<ReturnType<Pdfjs['getDocument']>['promise']>
+
+export interface OpenedPdf {
+  pdf: PdfDocument
+  close: () => Promise<void>
+}
+
+// Dynamic import for PDF.js to avoid SSR issues
+let pdfjs: Pdfjs | null = null
+
+export async function loadPdfjs(): Promise<Pdfjs | null> {
+  if (typeof window !== 'undefined' && !pdfjs) {
+    const reactPdf = await import('react-pdf')
+    pdfjs = reactPdf.pdfjs
+
+    // Serve the worker from our own origin (see ocr-assets.ts). react-pdf sets
+    // its own relative workerSrc on import, so this has to overwrite it.
+    pdfjs.GlobalWorkerOptions.workerSrc = getPdfjsWorkerSrc()
+
+    console.log(`PDF.js loaded with version ${pdfjs.version}, worker: ${pdfjs.GlobalWorkerOptions.workerSrc}`)
+  }
+  return pdfjs
+}
+
+/**
+ * Open a PDF with the shared pdf.js instance. Returns null outside the
+ * browser. pdf.js may transfer the buffer to its worker, so pass a copy when
+ * the bytes are needed afterwards.
+ */
+export async function openPdf(data: ArrayBuffer): Promise<OpenedPdf | null> {
+  const pdfjsLib = await loadPdfjs()
+  if (!pdfjsLib) return null
+
+  const loadingTask = pdfjsLib.getDocument({
+    data,
+    useWorkerFetch: false,
+    isEvalSupported: false,
+    useSystemFonts: true
+  })
+  return { pdf: await loadingTask.promise, close: () => loadingTask.destroy() }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { checkParticipantIdentifier, getPeppolEndpoint, inferPeppolEndpoint } from './peppol-identifiers'
+
+describe('checkParticipantIdentifier', () => {
+  it.each([
+    ['0088', '5790000435975', '5790000435976', 'GS1 check digit'],
+    ['0002', '732829320', '732829321', 'Luhn'],
+    ['0007', '5560360793', '5560360794', 'Luhn'],
+    ['0211', '00743110157', '00743110158', 'Luhn'],
+    ['0192', '923609016', '923609017', 'MOD 11 with a check digit'],
+    ['0184', '13585628', '13585627', 'MOD 11 over all digits'],
+    ['0208', '0403170701', '0403170702', 'MOD 97'],
+    ['0151', '51824753556', '51824753557', 'MOD 89']
+  ])('verifies scheme %s (%s) by its %s', (scheme, valid, invalid) => {
+    expect(checkParticipantIdentifier(scheme, valid)).toBeUndefined()
+    expect(checkParticipantIdentifier(scheme, invalid)).toMatch(/has a wrong check digit/)
+  })
+
+  it('normalizes spaces, dots and case before checking', () => {
+    expect(checkParticipantIdentifier('0208', '0403.170.701')).toBeUndefined()
+    expect(checkParticipantIdentifier('9944', 'nl 123456789 b01')).toBeUndefined()
+  })
+
+  it('rejects identifiers in the wrong format and unknown schemes', () => {
+    expect(checkParticipantIdentifier('9930', 'DE12345678')).toBe('"DE12345678" is not a valid DE VAT number (9930)')
+    expect(checkParticipantIdentifier('0088', '579000043597')).toBe('"579000043597" is not a valid GS1 Global Location Number (0088)')
+    expect(checkParticipantIdentifier('1234', '5790000435975')).toBe('Unknown Peppol participant scheme 1234')
+  })
+})
+
+describe('inferPeppolEndpoint', () => {
+  it('uses the VAT scheme of the country', () => {
+    expect(inferPeppolEndpoint('DE123456789')).toEqual({ scheme: '9930', id: 'DE123456789' })
+    expect(inferPeppolEndpoint('EL123456789')).toEqual({ scheme: '9933', id: 'EL123456789' })
+    expect(inferPeppolEndpoint('123456789', 'de')).toEqual({ scheme: '9930', id: 'DE123456789' })
+  })
+
+  it('uses the organisation number where the Peppol authority registers by it', () => {
+    expect(inferPeppolEndpoint('NO923609016MVA')).toEqual({ scheme: '0192', id: '923609016' })
+    expect(inferPeppolEndpoint('SE556036079301')).toEqual({ scheme: '0007', id: '5560360793' })
+    expect(inferPeppolEndpoint('BE 0403.170.701')).toEqual({ scheme: '0208', id: '0403170701' })
+    expect(inferPeppolEndpoint('IT00743110157')).toEqual({ scheme: '0211', id: '00743110157' })
+  })
+
+  it('gives up on numbers that fail their scheme', () => {
+    expect(inferPeppolEndpoint('NO923609017MVA')).toBeUndefined()
+    expect(inferPeppolEndpoint('123456789')).toBeUndefined()
+    expect(inferPeppolEndpoint(undefined, 'DE')).toBeUndefined()
+  })
+})
+
+describe('getPeppolEndpoint', () => {
+  it('prefers the explicit endpoint over the VAT number', () => {
+    const invoice = { id: 'endpoint-1', vendorVatId: 'DE123456789', billToVatId: 'NL123456789B01' }
+
+    expect(getPeppolEndpoint({ ...invoice, vendorEndpointScheme: '0088', vendorEndpointId: '5790000435975' }, 'vendor'))
+      .toEqual({ scheme: '0088', id: '5790000435975' })
+    expect(getPeppolEndpoint(invoice, 'billTo')).toEqual({ scheme: '9944', id: 'NL123456789B01' })
+  })
+})
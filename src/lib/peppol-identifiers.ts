@@ -0,0 +1,222 @@
+import { ExtractedInvoiceData } from './ocr'
+
+export interface PeppolParticipantScheme {
+  code: string // ISO 6523 ICD, used as schemeID and as the participant identifier prefix
+  schemeId: string
+  name: string
+  country?: string
+  pattern: RegExp
+  checksum?: (value: string) => boolean
+}
+
+export interface PeppolDocumentType {
+  id: string
+  name: string
+  documentTypeId: string
+  processId: string
+}
+
+export interface PeppolEndpoint {
+  scheme: string
+  id: string
+}
+
+function digitsOf(value: string): number[] {
+  return value.replace(/\D/g, '').split('').map(Number)
+}
+
+// GS1 check digit (GLN): weights 3 and 1 alternating from the right
+function isValidGs1(value: string): boolean {
+  const digits = digitsOf(value)
+  const check = digits.pop()
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0)
+  return (10 - (sum % 10)) % 10 === check
+}
+
+function isValidLuhn(value: string): boolean {
+  const sum = digitsOf(value).reverse().reduce((total, digit, index) => {
+    if (index % 2 === 0) return total + digit
+    const doubled = digit * 2
+    return total + (doubled > 9 ? doubled - 9 : doubled)
+  }, 0)
+  return sum % 10 === 0
+}
+
+function isValidMod11(weights: number[]) {
+  return (value: string): boolean => {
+    const digits = digitsOf(value)
+    const sum = weights.reduce((total, weight, index) => total + weight * digits[index], 0)
+    const remainder = sum % 11
+    if (weights.length === digits.length) return remainder === 0
+    const check = remainder === 0 ? 0 : 11 - remainder
+    return check < 10 && check === digits[weights.length]
+  }
+}
+
+// Belgian enterprise number: the last two digits are 97 minus the first eight mod 97
+function isValidBelgianEnterpriseNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '')
+  return 97 - (Number(digits.slice(0, 8)) % 97) === Number(digits.slice(8))
+}
+
+function isValidAbn(value: string): boolean {
+  const digits = digitsOf(value)
+  digits[0] -= 1
+  const weights = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19]
+  return weights.reduce((total, weight, index) => total + weight * digits[index], 0) % 89 === 0
+}
+
+const vatScheme = (code: string, country: string, pattern: RegExp): PeppolParticipantScheme =>
+  ({ code, schemeId: `${country}:VAT`, name: `${country} VAT number`, country, pattern })
+
+/**
+ * Participant identifier schemes from the Peppol code list (ICD values and the
+ * 99xx VAT schemes) that the exporters can produce. Patterns follow each
+ * register's own format; check digits are verified where the register has one.
+ */
+export const PEPPOL_PARTICIPANT_SCHEMES: PeppolParticipantScheme[] = [
+  { code: '0002', schemeId: 'FR:SIRENE', name: 'French SIREN', country: 'FR', pattern: /^\d{9}$/, checksum: isValidLuhn },
+  { code: '0007', schemeId: 'SE:ORGNR', name: 'Swedish organisation number', country: 'SE', pattern: /^\d{10}$/, checksum: isValidLuhn },
+  { code: '0009', schemeId: 'FR:SIRET', name: 'French SIRET', country: 'FR', pattern: /^\d{14}$/, checksum: isValidLuhn },
+  { code: '0037', schemeId: 'FI:OVT', name: 'Finnish OVT code', country: 'FI', pattern: /^0037\d{8}[0-9A-Z]{0,5}$/ },
+  { code: '0060', schemeId: 'DUNS', name: 'D-U-N-S number', pattern: /^\d{9}$/ },
+  { code: '0088', schemeId: 'GLN', name: 'GS1 Global Location Number', pattern: /^\d{13}$/, checksum: isValidGs1 },
+  { code: '0106', schemeId: 'NL:KVK', name: 'Dutch Chamber of Commerce number', country: 'NL', pattern: /^\d{8}$/ },
+  { code: '0151', schemeId: 'AU:ABN', name: 'Australian Business Number', country: 'AU', pattern: /^\d{11}$/, checksum: isValidAbn },
+  { code: '0183', schemeId: 'CH:UIDB', name: 'Swiss UID', country: 'CH', pattern: /^CHE\d{9}$/ },
+  { code: '0184', schemeId: 'DK:DIGST', name: 'Danish CVR number', country: 'DK', pattern: /^DK\d{8}$|^\d{8}$/, checksum: isValidMod11([2, 7, 6, 5, 4, 3, 2, 1]) },
+  { code: '0190', schemeId: 'NL:OINO', name: 'Dutch OIN', country: 'NL', pattern: /^\d{20}$/ },
+  { code: '0192', schemeId: 'NO:ORG', name: 'Norwegian organisation number', country: 'NO', pattern: /^\d{9}$/, checksum: isValidMod11([3, 2, 7, 6, 5, 4, 3, 2]) },
+  { code: '0195', schemeId: 'SG:UEN', name: 'Singapore UEN', country: 'SG', pattern: /^[0-9A-Z]{9,10}$/ },
+  { code: '0204', schemeId: 'DE:LWID', name: 'German Leitweg-ID', country: 'DE', pattern: /^\d{2,12}(-[0-9A-Z]{1,30})?-\d{2}$/ },
+  { code: '0208', schemeId: 'BE:EN', name: 'Belgian enterprise number', country: 'BE', pattern: /^[01]\d{9}$/, checksum: isValidBelgianEnterpriseNumber },
+  { code: '0211', schemeId: 'IT:IVA', name: 'Italian partita IVA', country: 'IT', pattern: /^(IT)?\d{11}$/, checksum: isValidLuhn },
+  { code: '0216', schemeId: 'FI:OVT2', name: 'Finnish OVT code', country: 'FI', pattern: /^0037\d{8}[0-9A-Z]{0,5}$/ },
+  vatScheme('9910', 'HU', /^HU\d{8}$/),
+  vatScheme('9914', 'AT', /^ATU\d{8}$/),
+  vatScheme('9920', 'ES', /^ES[0-9A-Z]\d{7}[0-9A-Z]$/),
+  vatScheme('9925', 'BE', /^BE[01]\d{9}$/),
+  vatScheme('9926', 'BG', /^BG\d{9,10}$/),
+  vatScheme('9927', 'CH', /^CHE\d{9}(MWST|TVA|IVA)?$/),
+  vatScheme('9928', 'CY', /^CY\d{8}[A-Z]$/),
+  vatScheme('9929', 'CZ', /^CZ\d{8,10}$/),
+  vatScheme('9930', 'DE', /^DE\d{9}$/),
+  vatScheme('9931', 'EE', /^EE\d{9}$/),
+  vatScheme('9932', 'GB', /^GB(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/),
+  vatScheme('9933', 'GR', /^EL\d{9}$/),
+  vatScheme('9934', 'HR', /^HR\d{11}$/),
+  vatScheme('9935', 'IE', /^IE\d[0-9A-Z+*]\d{5}[A-Z]{1,2}$/),
+  vatScheme('9937', 'LT', /^LT(\d{9}|\d{12})$/),
+  vatScheme('9938', 'LU', /^LU\d{8}$/),
+  vatScheme('9939', 'LV', /^LV\d{11}$/),
+  vatScheme('9943', 'MT', /^MT\d{8}$/),
+  vatScheme('9944', 'NL', /^NL\d{9}B\d{2}$/),
+  vatScheme('9945', 'PL', /^PL\d{10}$/),
+  vatScheme('9946', 'PT', /^PT\d{9}$/),
+  vatScheme('9947', 'RO', /^RO\d{2,10}$/),
+  vatScheme('9949', 'SI', /^SI\d{8}$/),
+  vatScheme('9950', 'SK', /^SK\d{10}$/),
+  vatScheme('9957', 'FR', /^FR[0-9A-Z]{2}\d{9}$/),
+  { code: '9959', schemeId: 'US:EIN', name: 'US employer identification number', country: 'US', pattern: /^\d{9}$/ }
+]
+
+/**
+ * Document types a Peppol access point needs to route the SBD, with the
+ * process each one belongs to.
+ */
+export const PEPPOL_DOCUMENT_TYPES: PeppolDocumentType[] = [
+  {
+    id: 'bis3-invoice',
+    name: 'Peppol BIS Billing 3.0 Invoice',
+    documentTypeId: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0::2.1',
+    processId: 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0'
+  },
+  {
+    id: 'bis3-credit-note',
+    name: 'Peppol BIS Billing 3.0 Credit Note',
+    documentTypeId: 'urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2::CreditNote##urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0::2.1',
+    processId: 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0'
+  },
+  {
+    id: 'xrechnung-ubl-invoice',
+    name: 'XRechnung 3.0 UBL Invoice',
+    documentTypeId: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0::2.1',
+    processId: 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0'
+  },
+  {
+    id: 'xrechnung-ubl-credit-note',
+    name: 'XRechnung 3.0 UBL Credit Note',
+    documentTypeId: 'urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2::CreditNote##urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0::2.1',
+    processId: 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0'
+  },
+  {
+    id: 'bis3-order',
+    name: 'Peppol BIS Order 3.0',
+    documentTypeId: 'urn:oasis:names:specification:ubl:schema:xsd:Order-2::Order##urn:fdc:peppol.eu:poacc:trns:order:3::2.1',
+    processId: 'urn:fdc:peppol.eu:poacc:bis:ordering:3'
+  }
+]
+
+export function getPeppolScheme(code: string): PeppolParticipantScheme | undefined {
+  return PEPPOL_PARTICIPANT_SCHEMES.find(scheme => scheme.code === code)
+}
+
+export function getPeppolDocumentType(documentTypeId: string): PeppolDocumentType | undefined {
+  return PEPPOL_DOCUMENT_TYPES.find(documentType => documentType.documentTypeId === documentTypeId)
+}
+
+// Returns why the identifier is not valid for the scheme, or undefined when it is
+export function checkParticipantIdentifier(schemeCode: string, id: string): string | undefined {
+  const scheme = getPeppolScheme(schemeCode)
+  if (!scheme) return `Unknown Peppol participant scheme ${schemeCode}`
+
+  const value = id.replace(/[\s.]/g, '').toUpperCase()
+  if (!scheme.pattern.test(value)) return `"${id}" is not a valid ${scheme.name} (${scheme.code})`
+  if (scheme.checksum && !scheme.checksum(value)) return `"${id}" has a wrong check digit for ${scheme.name} (${scheme.code})`
+  return undefined
+}
+
+/**
+ * Pick the participant scheme for a VAT number. Countries whose Peppol
+ * authority registers participants by organisation number (NO, SE, DK, BE, IT)
+ * get that number instead of the VAT scheme.
+ */
+export function inferPeppolEndpoint(vatId: string | undefined, countryCode?: string): PeppolEndpoint | undefined {
+  if (!vatId) return undefined
+  const value = vatId.replace(/[\s.-]/g, '').toUpperCase()
+  const prefix = value.match(/^[A-Z]{2}/)?.[0]
+  const country = prefix === 'EL' ? 'GR' : prefix || countryCode?.toUpperCase()
+  if (!country) return undefined
+
+  const candidates: PeppolEndpoint[] = (() => {
+    switch (country) {
+      case 'NO': return [{ scheme: '0192', id: value.replace(/^NO/, '').replace(/MVA$/, '') }]
+      case 'SE': return [{ scheme: '0007', id: value.replace(/^SE/, '').slice(0, 10) }]
+      case 'DK': return [{ scheme: '0184', id: value.replace(/^DK/, '') }]
+      case 'BE': return [{ scheme: '0208', id: value.replace(/^BE/, '') }]
+      case 'IT': return [{ scheme: '0211', id: value.replace(/^IT/, '') }]
+      default: return []
+    }
+  })()
+
+  const vat = PEPPOL_PARTICIPANT_SCHEMES.find(scheme => scheme.schemeId === `${country}:VAT`)
+  if (vat) candidates.push({ scheme: vat.code, id: prefix ? value : `${country === 'GR' ? 'EL' : country}${value}` })
+
+  return candidates.find(candidate => !checkParticipantIdentifier(candidate.scheme, candidate.id))
+}
+
+// Explicit endpoint fields win over inference from the party's VAT number
+export function getPeppolEndpoint(invoice: ExtractedInvoiceData, party: 'vendor' | 'billTo'): PeppolEndpoint | undefined {
+  const explicit = party === 'vendor'
+    ? { scheme: invoice.vendorEndpointScheme, id: invoice.vendorEndpointId }
+    : { scheme: invoice.billToEndpointScheme, id: invoice.billToEndpointId }
+  if (explicit.scheme && explicit.id) return { scheme: explicit.scheme, id: explicit.id }
+
+  return party === 'vendor'
+    ? inferPeppolEndpoint(invoice.vendorVatId, invoice.vendorCountry)
+    : inferPeppolEndpoint(invoice.billToVatId, invoice.billToCountry)
+}
+
+export function formatParticipantId(endpoint: PeppolEndpoint): string {
+  return `${endpoint.scheme}:${endpoint.id}`
+}
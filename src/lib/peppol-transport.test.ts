@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ExtractedInvoiceData } from './ocr'
+import { PeppolEnvelope } from './peppol'
+import { FileDropTransport, MockAccessPoint, sendToPeppol } from './peppol-transport'
+import { UBLSerializer } from './ubl'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'transport-1',
+  invoiceNumber: 'INV-2024-001',
+  vendor: 'Acme GmbH',
+  vendorVatId: 'DE123456789',
+  billTo: 'Buyer BV',
+  billToVatId: 'NL123456789B01',
+  subtotal: 100,
+  tax: 19,
+  total: 119,
+  currency: 'EUR',
+  items: [{ description: 'Consulting', quantity: 1, unitPrice: 100, amount: 100, taxRate: 19 }]
+}
+
+const RECEIVER = '9944:NL123456789B01'
+const sbd = PeppolEnvelope.fromInvoice(invoice, { instanceIdentifier: 'msg-1' })
+
+describe('MockAccessPoint', () => {
+  it('delivers to the receiver inbox', async () => {
+    const accessPoint = new MockAccessPoint([RECEIVER])
+
+    expect(await accessPoint.send(sbd)).toMatchObject({ messageId: 'msg-1', state: 'delivered' })
+    expect(accessPoint.getInbox(RECEIVER)).toMatchObject([{ messageId: 'msg-1', header: { senderId: '9930:DE123456789' } }])
+    expect(accessPoint.getInbox(RECEIVER)[0].payload).toContain('<cbc:ID>INV-2024-001</cbc:ID>')
+  })
+
+  it('rejects receivers missing from the SMP', async () => {
+    const accessPoint = new MockAccessPoint(['0088:5790000435975'])
+
+    expect(await accessPoint.send(sbd)).toMatchObject({
+      state: 'rejected',
+      errors: [`Receiver ${RECEIVER} is not registered in the SMP`]
+    })
+    expect(accessPoint.getInbox(RECEIVER)).toEqual([])
+  })
+
+  it('rejects invalid participants and documents that are not an SBD', async () => {
+    const accessPoint = new MockAccessPoint()
+    const header = PeppolEnvelope.unwrap(sbd).header
+    const badReceiver = PeppolEnvelope.wrap(UBLSerializer.toXML(invoice), { ...header, receiverId: '9944:NL123' })
+
+    expect(await accessPoint.send(badReceiver)).toMatchObject({
+      state: 'rejected',
+      errors: ['Invalid receiver participant identifier "9944:NL123"']
+    })
+    expect(await accessPoint.send(UBLSerializer.toXML(invoice))).toMatchObject({
+      state: 'rejected',
+      errors: ['Not a Standard Business Document']
+    })
+  })
+})
+
+describe('FileDropTransport', () => {
+  it('writes the SBD to the outbox under its message ID', async () => {
+    const write = vi.fn()
+
+    expect(await new FileDropTransport(write).send(sbd)).toMatchObject({ messageId: 'msg-1', state: 'delivered' })
+    expect(write).toHaveBeenCalledWith('msg-1.sbd.xml', sbd)
+  })
+
+  it('rejects what the access point would reject instead of throwing', async () => {
+    const write = vi.fn()
+    const transport = new FileDropTransport(write)
+
+    expect(await transport.send(UBLSerializer.toXML(invoice))).toMatchObject({
+      state: 'rejected',
+      errors: ['Not a Standard Business Document']
+    })
+    expect(write).not.toHaveBeenCalled()
+  })
+})
+
+describe('sendToPeppol', () => {
+  it('returns one receipt per document in order', async () => {
+    const receipts = await sendToPeppol(new MockAccessPoint(), [sbd, 'not xml'])
+
+    expect(receipts.map(receipt => receipt.state)).toEqual(['delivered', 'rejected'])
+  })
+})
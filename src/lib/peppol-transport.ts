@@ -0,0 +1,144 @@
+import { saveAs } from 'file-saver'
+import { PeppolEnvelope, SBDHeader, isPeppolParticipantId } from './peppol'
+
+export type PeppolDeliveryState = 'delivered' | 'rejected'
+
+export interface PeppolReceipt {
+  messageId: string
+  state: PeppolDeliveryState
+  timestamp: string
+  errors?: string[]
+}
+
+export interface PeppolMessage {
+  messageId: string
+  header: SBDHeader
+  payload: string
+  receivedAt: string
+}
+
+/**
+ * Hands a Standard Business Document to a Peppol access point (C2). The AS4
+ * exchange with the receiver's access point (C3) and the SMP lookup happen
+ * behind this interface, so sending can be tested offline.
+ */
+export interface PeppolTransport {
+  send(sbd: string): Promise<PeppolReceipt>
+}
+
+function checkHeader(header: SBDHeader): string[] {
+  const errors: string[] = []
+  if (!isPeppolParticipantId(header.senderId)) errors.push(`Invalid sender participant identifier "${header.senderId}"`)
+  if (!isPeppolParticipantId(header.receiverId)) errors.push(`Invalid receiver participant identifier "${header.receiverId}"`)
+  if (!header.documentTypeId) errors.push('Missing DOCUMENTID scope')
+  if (!header.processId) errors.push('Missing PROCESSID scope')
+  return errors
+}
+
+function messageIdOf(header: SBDHeader): string {
+  return header.instanceIdentifier || crypto.randomUUID()
+}
+
+// A document that is not an SBD is rejected like any other invalid submission, not thrown
+function unwrapSubmission(sbd: string): ReturnType<typeof PeppolEnvelope.unwrap> | PeppolReceipt {
+  try {
+    return PeppolEnvelope.unwrap(sbd)
+  } catch (error) {
+    return {
+      messageId: crypto.randomUUID(),
+      state: 'rejected',
+      timestamp: new Date().toISOString(),
+      errors: [error instanceof Error ? error.message : String(error)]
+    }
+  }
+}
+
+/**
+ * In-memory access point. Registered receivers stand in for the SMP: when the
+ * list is given, documents for other participants are rejected. Delivered
+ * messages can be read back from the receiver's inbox.
+ */
+export class MockAccessPoint implements PeppolTransport {
+  private inboxes = new Map<string, PeppolMessage[]>()
+
+  constructor(private receivers?: string[]) {}
+
+  async send(sbd: string): Promise<PeppolReceipt> {
+    const envelope = unwrapSubmission(sbd)
+    if ('state' in envelope) return envelope
+
+    const timestamp = new Date().toISOString()
+    const { header, payload } = envelope
+    const messageId = messageIdOf(header)
+    const errors = checkHeader(header)
+    if (!payload) errors.push('The SBD has no business document')
+    if (this.receivers && !this.receivers.includes(header.receiverId)) {
+      errors.push(`Receiver ${header.receiverId} is not registered in the SMP`)
+    }
+    if (errors.length > 0) return { messageId, state: 'rejected', timestamp, errors }
+
+    const inbox = this.inboxes.get(header.receiverId) || []
+    inbox.push({ messageId, header, payload, receivedAt: timestamp })
+    this.inboxes.set(header.receiverId, inbox)
+    return { messageId, state: 'delivered', timestamp }
+  }
+
+  getInbox(receiverId: string): PeppolMessage[] {
+    return this.inboxes.get(receiverId) || []
+  }
+}
+
+/**
+ * Writes each SBD as a file for an access point that picks up documents from
+ * an outbox folder (phase4 and Oxalis both support this). In the browser the
+ * default writer saves to the downloads folder.
+ */
+export class FileDropTransport implements PeppolTransport {
+  constructor(
+    private write: (filename: string, content: string) => void | Promise<void> = (filename, content) =>
+      saveAs(new Blob([content], { type: 'application/xml;charset=utf-8' }), filename)
+  ) {}
+
+  async send(sbd: string): Promise<PeppolReceipt> {
+    const envelope = unwrapSubmission(sbd)
+    if ('state' in envelope) return envelope
+
+    const { header } = envelope
+    const messageId = messageIdOf(header)
+    const errors = checkHeader(header)
+    if (errors.length > 0) return { messageId, state: 'rejected', timestamp: new Date().toISOString(), errors }
+
+    await this.write(`${messageId}.sbd.xml`, sbd)
+    return { messageId, state: 'delivered', timestamp: new Date().toISOString() }
+  }
+}
+
+/**
+ * Posts the SBD to an access point's submission endpoint, e.g. a local mock
+ * at http://localhost:8080. Route: POST /outbox with an XML body, answered
+ * with a JSON PeppolReceipt.
+ */
+export class HttpAccessPointTransport implements PeppolTransport {
+  constructor(private baseUrl: string) {}
+
+  async send(sbd: string): Promise<PeppolReceipt> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/outbox`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/xml' },
+      body: sbd
+    })
+    if (!response.ok) {
+      throw new Error(`Access point POST /outbox failed: ${response.status} ${response.statusText}`)
+    }
+    return response.json()
+  }
+}
+
+// Send one document at a time so receipts line up with the input order
+export async function sendToPeppol(transport: PeppolTransport, documents: string[]): Promise<PeppolReceipt[]> {
+  const receipts: PeppolReceipt[] = []
+  for (const sbd of documents) {
+    receipts.push(await transport.send(sbd))
+  }
+  return receipts
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { ExtractedInvoiceData } from './ocr'
+import { getPeppolDocumentTypeId, isPeppolParticipantId, PeppolEnvelope, SBDHeader } from './peppol'
+import { PEPPOL_PROFILE_ID, UBLParser, UBLSerializer } from './ubl'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'peppol-1',
+  invoiceNumber: 'INV-2024-001',
+  date: '03/15/2024',
+  vendor: 'Acme GmbH',
+  vendorVatId: 'DE123456789',
+  vendorCountry: 'DE',
+  billTo: 'Buyer BV',
+  billToVatId: 'NL123456789B01',
+  billToCountry: 'NL',
+  subtotal: 100,
+  tax: 19,
+  total: 119,
+  currency: 'EUR',
+  items: [{ description: 'Consulting', quantity: 1, unitPrice: 100, amount: 100, taxRate: 19 }]
+}
+
+const options = { instanceIdentifier: 'msg-1', creationDateTime: '2024-03-15T10:00:00Z' }
+
+describe('PeppolEnvelope', () => {
+  it('wraps the UBL invoice in an SBDH addressed from its endpoints', () => {
+    const { header, payload } = PeppolEnvelope.unwrap(PeppolEnvelope.fromInvoice(invoice, options))
+
+    expect(header).toEqual<SBDHeader>({
+      senderId: '9930:DE123456789',
+      receiverId: '9944:NL123456789B01',
+      standard: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+      typeVersion: '2.1',
+      type: 'Invoice',
+      instanceIdentifier: 'msg-1',
+      creationDateTime: '2024-03-15T10:00:00Z',
+      documentTypeId: getPeppolDocumentTypeId('Invoice'),
+      processId: PEPPOL_PROFILE_ID,
+      countryC1: 'DE'
+    })
+    expect(UBLParser.parse(payload)).toMatchObject({ invoiceNumber: 'INV-2024-001', total: 119 })
+  })
+
+  it('addresses a credit note with the credit note document type', () => {
+    const sbd = PeppolEnvelope.fromInvoice({ ...invoice, subtotal: -100, tax: -19, total: -119 }, options)
+
+    expect(PeppolEnvelope.unwrap(sbd).header).toMatchObject({ type: 'CreditNote', documentTypeId: getPeppolDocumentTypeId('CreditNote') })
+  })
+
+  it('prefers explicit participant identifiers', () => {
+    const sbd = PeppolEnvelope.fromInvoice(invoice, { ...options, receiverParticipantId: '0088:5790000435975' })
+
+    expect(PeppolEnvelope.unwrap(sbd).header.receiverId).toBe('0088:5790000435975')
+  })
+
+  it('keeps the payload intact', () => {
+    const ubl = UBLSerializer.toXML(invoice)
+    const header = PeppolEnvelope.unwrap(PeppolEnvelope.fromInvoice(invoice, options)).header
+
+    expect(PeppolEnvelope.unwrap(PeppolEnvelope.wrap(ubl, header)).payload).toBe(ubl.replace(/^<\?xml[^>]*\?>\s*/, '').trim())
+  })
+
+  it('refuses to unwrap anything but an SBD', () => {
+    expect(() => PeppolEnvelope.unwrap(UBLSerializer.toXML(invoice))).toThrow('Not a Standard Business Document')
+  })
+
+  it('reports missing or invalid participants', () => {
+    expect(PeppolEnvelope.validate(invoice)).toEqual([])
+    expect(PeppolEnvelope.validate({ ...invoice, billToVatId: undefined })).toMatchObject([
+      { ruleId: 'PEPPOL-SBDH', severity: 'fatal', field: 'billToEndpointId' }
+    ])
+    expect(PeppolEnvelope.validate(invoice, { senderParticipantId: '0088:5790000435976' })).toMatchObject([
+      { ruleId: 'PEPPOL-SBDH', field: 'senderParticipantId', message: '"5790000435976" has a wrong check digit for GS1 Global Location Number (0088)' }
+    ])
+    expect(() => PeppolEnvelope.fromInvoice({ ...invoice, vendorVatId: undefined })).toThrow(
+      'Peppol sender and receiver participant identifiers are required'
+    )
+  })
+})
+
+describe('isPeppolParticipantId', () => {
+  it('checks the scheme prefix and the identifier', () => {
+    expect(isPeppolParticipantId('0088:5790000435975')).toBe(true)
+    expect(isPeppolParticipantId('5790000435975')).toBe(false)
+    expect(isPeppolParticipantId('0088:5790000435976')).toBe(false)
+    expect(isPeppolParticipantId('1234:5790000435975')).toBe(false)
+  })
+})
@@ -0,0 +1,161 @@
+import { ExtractedInvoiceData } from './ocr'
+import { UBLSerializer, UBLExportOptions, UBLDocumentType, UBL_NAMESPACES, PEPPOL_CUSTOMIZATION_ID, PEPPOL_PROFILE_ID } from './ubl'
+import { ValidationIssue } from './en16931-validator'
+import { checkParticipantIdentifier, formatParticipantId, getPeppolEndpoint } from './peppol-identifiers'
+import { el, serializeXml, parseXml, findElement, findElements, elementText } from './xml'
+
+export interface PeppolEnvelopeOptions extends UBLExportOptions {
+  // Participant identifiers as {scheme}:{value}, e.g. 0088:5790000435975; default to the invoice endpoints
+  senderParticipantId?: string
+  receiverParticipantId?: string
+  instanceIdentifier?: string
+  creationDateTime?: string
+}
+
+export interface SBDHeader {
+  senderId: string
+  receiverId: string
+  standard: string
+  typeVersion: string
+  type: string
+  instanceIdentifier: string
+  creationDateTime: string
+  documentTypeId: string
+  processId: string
+  countryC1?: string
+}
+
+export const SBDH_NAMESPACE = 'http://www.unece.org/cefact/namespaces/StandardBusinessDocumentHeader'
+export const PEPPOL_PARTICIPANT_SCHEME = 'iso6523-actorid-upis'
+export const PEPPOL_DOCUMENT_TYPE_SCHEME = 'busdox-docid-qns'
+export const PEPPOL_PROCESS_SCHEME = 'cenbii-procid-ubl'
+
+export function isPeppolParticipantId(participantId: string): boolean {
+  const match = participantId.match(/^(\d{4}):(\S+)$/)
+  return !!match && !checkParticipantIdentifier(match[1], match[2])
+}
+
+// Peppol document type identifier: {root namespace}::{local name}##{customization}::{UBL version}
+export function getPeppolDocumentTypeId(documentType: UBLDocumentType, customizationId: string = PEPPOL_CUSTOMIZATION_ID): string {
+  return `${UBL_NAMESPACES[documentType]}::${documentType}##${customizationId}::2.1`
+}
+
+export class PeppolEnvelope {
+  /**
+   * Wrap a UBL document in a Standard Business Document as required by the
+   * Peppol Business Message Envelope 2.0, ready to hand to an access point.
+   */
+  static wrap(payload: string, header: SBDHeader): string {
+    const root = el('StandardBusinessDocument', [
+      el('StandardBusinessDocumentHeader', [
+        el('HeaderVersion', '1.0'),
+        el('Sender', [el('Identifier', header.senderId, { Authority: PEPPOL_PARTICIPANT_SCHEME })]),
+        el('Receiver', [el('Identifier', header.receiverId, { Authority: PEPPOL_PARTICIPANT_SCHEME })]),
+        el('DocumentIdentification', [
+          el('Standard', header.standard),
+          el('TypeVersion', header.typeVersion),
+          el('InstanceIdentifier', header.instanceIdentifier),
+          el('Type', header.type),
+          el('CreationDateAndTime', header.creationDateTime)
+        ]),
+        el('BusinessScope', [
+          el('Scope', [
+            el('Type', 'DOCUMENTID'),
+            el('InstanceIdentifier', header.documentTypeId),
+            el('Identifier', PEPPOL_DOCUMENT_TYPE_SCHEME)
+          ]),
+          el('Scope', [
+            el('Type', 'PROCESSID'),
+            el('InstanceIdentifier', header.processId),
+            el('Identifier', PEPPOL_PROCESS_SCHEME)
+          ]),
+          header.countryC1 && el('Scope', [el('Type', 'COUNTRY_C1'), el('InstanceIdentifier', header.countryC1)])
+        ])
+      ])
+    ], { xmlns: SBDH_NAMESPACE })
+
+    // The payload keeps its own namespaces, so it is spliced in as-is after the header
+    const document = payload.replace(/^<\?xml[^>]*\?>\s*/, '').trim()
+    return serializeXml(root).replace(/<\/StandardBusinessDocument>\n$/, `${document}\n</StandardBusinessDocument>\n`)
+  }
+
+  static unwrap(sbd: string): { header: SBDHeader; payload: string } {
+    const root = parseXml(sbd).documentElement
+    const headerElement = findElement(root, 'StandardBusinessDocumentHeader')
+    if (root.localName !== 'StandardBusinessDocument' || !headerElement) {
+      throw new Error('Not a Standard Business Document')
+    }
+
+    const scopes = findElements(headerElement, 'BusinessScope', 'Scope')
+    const scope = (type: string) => elementText(scopes.find(element => elementText(element, 'Type') === type), 'InstanceIdentifier')
+    const header: SBDHeader = {
+      senderId: elementText(headerElement, 'Sender', 'Identifier') || '',
+      receiverId: elementText(headerElement, 'Receiver', 'Identifier') || '',
+      standard: elementText(headerElement, 'DocumentIdentification', 'Standard') || '',
+      typeVersion: elementText(headerElement, 'DocumentIdentification', 'TypeVersion') || '',
+      type: elementText(headerElement, 'DocumentIdentification', 'Type') || '',
+      instanceIdentifier: elementText(headerElement, 'DocumentIdentification', 'InstanceIdentifier') || '',
+      creationDateTime: elementText(headerElement, 'DocumentIdentification', 'CreationDateAndTime') || '',
+      documentTypeId: scope('DOCUMENTID') || '',
+      processId: scope('PROCESSID') || '',
+      countryC1: scope('COUNTRY_C1')
+    }
+
+    const match = sbd.match(/<\/(?:[\w-]+:)?StandardBusinessDocumentHeader>([\s\S]*)<\/(?:[\w-]+:)?StandardBusinessDocument>\s*$/)
+    return { header, payload: match ? match[1].trim() : '' }
+  }
+
+  static fromInvoice(invoice: ExtractedInvoiceData, options: PeppolEnvelopeOptions = {}): string {
+    const { senderParticipantId, receiverParticipantId } = this.getParticipantIds(invoice, options)
+    if (!senderParticipantId || !receiverParticipantId) {
+      throw new Error('Peppol sender and receiver participant identifiers are required')
+    }
+
+    const documentType = UBLSerializer.getDocumentType(invoice, options)
+    return this.wrap(UBLSerializer.toXML(invoice, options), {
+      senderId: senderParticipantId,
+      receiverId: receiverParticipantId,
+      standard: UBL_NAMESPACES[documentType],
+      typeVersion: '2.1',
+      type: documentType,
+      instanceIdentifier: options.instanceIdentifier || crypto.randomUUID(),
+      creationDateTime: options.creationDateTime || new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+      documentTypeId: getPeppolDocumentTypeId(documentType, options.customizationId),
+      processId: options.profileId || PEPPOL_PROFILE_ID,
+      countryC1: invoice.vendorCountry || options.sellerCountryCode
+    })
+  }
+
+  static getFilename(invoice: ExtractedInvoiceData, index: number = 0): string {
+    const base = (invoice.invoiceNumber || `invoice_${index + 1}`).replace(/[^A-Za-z0-9._-]/g, '_')
+    return `${base}.sbd.xml`
+  }
+
+  static validate(invoice: ExtractedInvoiceData, options: PeppolEnvelopeOptions = {}): ValidationIssue[] {
+    const issues: ValidationIssue[] = []
+    const participantIds = this.getParticipantIds(invoice, options)
+    const check = (field: 'senderParticipantId' | 'receiverParticipantId', role: string, invoiceField: string) => {
+      const participantId = participantIds[field]
+      const match = participantId?.match(/^(\d{4}):(\S+)$/)
+      const problem = !participantId
+        ? `The SBDH needs the ${role} participant identifier; set its endpoint or a VAT number`
+        : !match
+          ? `"${participantId}" is not a {scheme}:{identifier} participant identifier`
+          : checkParticipantIdentifier(match[1], match[2])
+      if (problem) issues.push({ ruleId: 'PEPPOL-SBDH', severity: 'fatal', field: options[field] ? field : invoiceField, message: problem })
+    }
+
+    check('senderParticipantId', 'sender', 'vendorEndpointId')
+    check('receiverParticipantId', 'receiver', 'billToEndpointId')
+    return issues
+  }
+
+  private static getParticipantIds(invoice: ExtractedInvoiceData, options: PeppolEnvelopeOptions) {
+    const sender = getPeppolEndpoint(invoice, 'vendor')
+    const receiver = getPeppolEndpoint(invoice, 'billTo')
+    return {
+      senderParticipantId: options.senderParticipantId || (sender && formatParticipantId(sender)),
+      receiverParticipantId: options.receiverParticipantId || (receiver && formatParticipantId(receiver))
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import { ExtractedInvoiceData, InvoiceItem } from './ocr'
+import { normalizeDate, parseAmount } from './ocr-normalize'
+
+/**
+ * Single-pass, keyword-driven parser for receipts. It looks for amounts next
+ * to total/subtotal/tax labels and takes vendor, date and items from the
+ * usual receipt layout. The 'fast' OCR preset uses it; the 'thorough' preset
+ * uses the IntelligentParser.
+ */
+export class QuickParser {
+  parseInvoiceData(rawText: string, fileName: string): ExtractedInvoiceData {
+    console.log(`🧠 Quick parsing ${fileName}...`)
+    
+    const lines = rawText.split('\n').map(line => line.trim()).filter(Boolean)
+    
+    const invoiceData: ExtractedInvoiceData = {
+      id: crypto.randomUUID(),
+      rawText
+    }
+
+    // Smart field extraction
+    this.extractAmounts(invoiceData, lines)
+    this.extractBasicFields(invoiceData, lines)
+    this.extractVendorInfo(invoiceData, lines)
+    this.extractTransactionData(invoiceData, lines)
+    this.extractItems(invoiceData, lines)
+
+    return invoiceData
+  }
+
+  private extractAmounts(data: ExtractedInvoiceData, lines: string[]) {
+    console.log('💰 Extracting amounts...')
+    
+    // Enhanced amount patterns
+    const amountPatterns = [
+      // Standard formats
+      /(?:total|amount)\s*:?\s*\$?([0-9]+\.?[0-9]{0,2})/gi,
+      /\$([0-9]+\.[0-9]{2})/g,
+      // European formats
+      /(?:totaal|bedrag)\s*:?\s*€?([0-9]+,?[0-9]{0,2})/gi,
+      // Context-based
+      /([0-9]+\.[0-9]{2})\s*(?:total|due|amount)/gi,
+    ]
+    
+    const amounts: { value: number, context: string, line: string }[] = []
+    
+    // Extract all potential amounts with context
+    lines.forEach(line => {
+      const lowerLine = line.toLowerCase()
+      
+      // Look for amounts in this line
+      amountPatterns.forEach(pattern => {
+        let match
+        while ((match = pattern.exec(line)) !== null) {
+          const value = parseAmount(match[1])
+          if (value > 0 && value < 10000) {
+            amounts.push({
+              value,
+              context: lowerLine,
+              line: line
+            })
+          }
+        }
+      })
+    })
+    
+    console.log(`Found ${amounts.length} potential amounts:`, amounts.map(a => `$${a.value} (${a.context.substring(0, 20)}...)`))
+    
+    // Smart assignment based on context
+    for (const amount of amounts) {
+      const context = amount.context
+      
+      if (context.includes('total') && !data.total) {
+        data.total = amount.value
+        data.currency = 'USD'
+        console.log(`  🎯 Total: $${amount.value} from "${amount.line}"`)
+      }
+      else if ((context.includes('subtotal') || context.includes('sub total')) && !data.subtotal) {
+        data.subtotal = amount.value
+        console.log(`  🎯 Subtotal: $${amount.value}`)
+      }
+      else if (context.includes('tax') && !data.tax) {
+        data.tax = amount.value
+        console.log(`  🎯 Tax: $${amount.value}`)
+      }
+    }
+    
+    // Fallback: use largest reasonable amount as total
+    if (!data.total && amounts.length > 0) {
+      const sortedAmounts = amounts.sort((a, b) => b.value - a.value)
+      const bestAmount = sortedAmounts[0]
+      if (bestAmount.value >= 1 && bestAmount.value <= 500) { // Reasonable range
+        data.total = bestAmount.value
+        data.currency = 'USD'
+        console.log(`  📊 Using best estimate for total: $${bestAmount.value}`)
+      }
+    }
+  }
+
+  private extractBasicFields(data: ExtractedInvoiceData, lines: string[]) {
+    console.log('📝 Extracting basic fields...')
+    
+    for (const line of lines) {
+      // Date patterns
+      if (!data.date) {
+        const dateMatch = line.match(/(\d{1,2}[\/\-\.]\d{1,2}[\/\-\.]\d{2,4})/)
+        if (dateMatch) {
+          data.date = normalizeDate(dateMatch[1])
+          console.log(`  📅 Date: ${data.date}`)
+        }
+      }
+      
+      // Time patterns
+      if (!data.time) {
+        const timeMatch = line.match(/(\d{1,2}:\d{2}(?:\s*(?:AM|PM|am|pm))?)/)
+        if (timeMatch) {
+          data.time = timeMatch[1]
+          console.log(`  🕐 Time: ${data.time}`)
+        }
+      }
+      
+      // Invoice number
+      if (!data.invoiceNumber) {
+        const invMatch = line.match(/(?:check|invoice|receipt|ticket)[\s:#]*([A-Za-z0-9\-]{3,})/i)
+        if (invMatch) {
+          data.invoiceNumber = invMatch[1]
+          console.log(`  📋 Invoice #: ${data.invoiceNumber}`)
+        }
+      }
+    }
+  }
+
+  private extractVendorInfo(data: ExtractedInvoiceData, lines: string[]) {
+    console.log('🏪 Extracting vendor info...')
+    
+    // Find vendor name (usually in first few lines)
+    if (!data.vendor && lines.length > 0) {
+      for (let i = 0; i < Math.min(5, lines.length); i++) {
+        const line = lines[i]
+        
+        // Skip obvious non-vendor lines
+        if (!/^(invoice|bill|receipt|check|server|total|date|item|\d+)/i.test(line) && 
+            line.length > 3 && line.length < 50) {
+          data.vendor = line
+          console.log(`  🏪 Vendor: ${data.vendor}`)
+          break
+        }
+      }
+    }
+    
+    // Phone number
+    const fullText = lines.join(' ')
+    const phoneMatch = fullText.match(/(\(?\d{3}\)?[\s\-\.]?\d{3}[\s\-\.]?\d{4})/)
+    if (phoneMatch) {
+      data.vendorPhone = phoneMatch[1]
+      console.log(`  📞 Phone: ${data.vendorPhone}`)
+    }
+  }
+
+  private extractTransactionData(data: ExtractedInvoiceData, lines: string[]) {
+    console.log('💳 Extracting transaction data...')
+    
+    for (const line of lines) {
+      // Card type
+      if (!data.paymentMethod && /mastercard|visa|amex|discover/i.test(line)) {
+        const cardMatch = line.match(/(mastercard|visa|amex|discover)/i)
+        if (cardMatch) {
+          data.paymentMethod = cardMatch[1].toUpperCase()
+          console.log(`  💳 Payment: ${data.paymentMethod}`)
+        }
+      }
+      
+      // Transaction references
+      if (!data.transactionId) {
+        const transMatch = line.match(/(?:ref|reference|trans)[\s:#]*([A-Za-z0-9]{6,})/i)
+        if (transMatch) {
+          data.transactionId = transMatch[1]
+          console.log(`  🔗 Transaction ID: ${data.transactionId}`)
+        }
+      }
+    }
+  }
+
+  private extractItems(data: ExtractedInvoiceData, lines: string[]) {
+    const items: InvoiceItem[] = []
+    
+    for (const line of lines) {
+      // Look for item lines with amounts
+      const itemMatch = line.match(/^(.{5,40}?)\s+.*?\$?([0-9]+\.?[0-9]{0,2})\s*$/)
+      if (itemMatch) {
+        const description = itemMatch[1].trim()
+        const amount = parseAmount(itemMatch[2])
+        
+        if (amount > 0 && amount < 100 && 
+            !/(total|subtotal|tax|amount|payment|card|server)/i.test(description)) {
+          items.push({
+            description,
+            amount,
+            quantity: 1,
+            unitPrice: amount
+          })
+        }
+      }
+    }
+    
+    if (items.length > 0) {
+      data.items = items
+      console.log(`  📋 Found ${items.length} items`)
+    }
+  }
+}
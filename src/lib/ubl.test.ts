@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { ExtractedInvoiceData } from './ocr'
+import { UBLParser, UBLSerializer } from './ubl'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'ubl-1',
+  invoiceNumber: 'INV-2025-001',
+  date: '03/15/2025',
+  dueDate: '04/14/2025',
+  vendor: 'ACME B.V.',
+  vendorAddress: 'Hoofdstraat 1, 1011 AB Amsterdam',
+  vendorVatId: 'NL123456789B01',
+  vendorCountry: 'NL',
+  vendorEmail: 'billing@acme.nl',
+  billTo: 'Smith & Sons',
+  billToVatId: 'DE123456789',
+  billToCountry: 'DE',
+  buyerReference: 'PO-42',
+  subtotal: 100,
+  tax: 21,
+  total: 121,
+  currency: 'EUR',
+  paymentMethod: 'VISA',
+  cardNumber: '4111111111111234',
+  items: [
+    { description: 'Widget', quantity: 2, unitPrice: 30, amount: 60 },
+    { description: 'Gadget <large>', quantity: 1, unitPrice: 40, amount: 40 }
+  ]
+}
+
+describe('UBL round trip', () => {
+  it('reads back what it writes', () => {
+    const parsed = UBLParser.parse(UBLSerializer.toXML(invoice))
+
+    expect(parsed).toMatchObject({
+      invoiceNumber: 'INV-2025-001',
+      date: '03/15/2025',
+      dueDate: '04/14/2025',
+      vendor: 'ACME B.V.',
+      vendorVatId: 'NL123456789B01',
+      vendorCountry: 'NL',
+      vendorEmail: 'billing@acme.nl',
+      billTo: 'Smith & Sons',
+      billToVatId: 'DE123456789',
+      billToCountry: 'DE',
+      buyerReference: 'PO-42',
+      subtotal: 100,
+      tax: 21,
+      total: 121,
+      currency: 'EUR',
+      processingMethod: 'ubl-xml'
+    })
+    expect(parsed.taxBreakdown).toMatchObject([{ category: 'S', rate: 21, taxableAmount: 100, taxAmount: 21 }])
+    expect(parsed.items).toMatchObject([
+      { description: 'Widget', quantity: 2, unitPrice: 30, amount: 60 },
+      { description: 'Gadget <large>', quantity: 1, unitPrice: 40, amount: 40 }
+    ])
+  })
+
+  it('exports only the last digits of the card number', () => {
+    const xml = UBLSerializer.toXML(invoice)
+
+    expect(xml).not.toContain('4111111111111234')
+    expect(UBLParser.parse(xml).cardNumber).toBe('1234')
+  })
+
+  it('writes negative totals as a credit note and reads them back negative', () => {
+    const credit: ExtractedInvoiceData = {
+      ...invoice,
+      subtotal: -100,
+      tax: -21,
+      total: -121,
+      items: [{ description: 'Widget', quantity: 2, unitPrice: -50, amount: -100 }]
+    }
+    const xml = UBLSerializer.toXML(credit)
+    const parsed = UBLParser.parse(xml)
+
+    expect(UBLSerializer.getDocumentType(credit)).toBe('CreditNote')
+    expect(xml).not.toContain('-121')
+    expect(parsed).toMatchObject({ subtotal: -100, tax: -21, total: -121 })
+    expect(parsed.items).toMatchObject([{ description: 'Widget', amount: -100 }])
+  })
+
+  it('rejects documents that are not UBL', () => {
+    expect(() => UBLParser.parse('<Invoice/>')).toThrow('Not a UBL invoice')
+  })
+})
@@ -0,0 +1,332 @@
+import { ExtractedInvoiceData, InvoiceItem, TaxBreakdown } from './ocr'
+import {
+  calculateInvoiceTotals,
+  getCardAccountNumber,
+  getInvoiceLines,
+  getPaymentMeansCode,
+  getPaymentMeansName,
+  getTaxBreakdown,
+  hasNegativeTotal,
+  isDirectDebit,
+  normalizeIban,
+  splitPostalAddress
+} from './einvoice'
+import { getPeppolEndpoint, PeppolEndpoint } from './peppol-identifiers'
+import {
+  el,
+  serializeXml,
+  formatXmlAmount,
+  formatXmlDate,
+  XmlElement,
+  parseXml,
+  findElement,
+  findElements,
+  elementText,
+  elementNumber,
+  parseXmlDate
+} from './xml'
+
+export type UBLDocumentType = 'Invoice' | 'CreditNote'
+
+export interface UBLExportOptions {
+  documentType?: UBLDocumentType
+  customizationId?: string
+  profileId?: string
+  sellerContactName?: string
+  sellerCountryCode?: string
+  buyerCountryCode?: string
+  defaultTaxCategory?: string
+}
+
+// Peppol BIS Billing 3.0 identifiers
+export const PEPPOL_CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0'
+export const PEPPOL_PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0'
+
+export const UBL_NAMESPACES: Record<UBLDocumentType, string> = {
+  Invoice: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+  CreditNote: 'urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2'
+}
+const CAC_NAMESPACE = 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2'
+const CBC_NAMESPACE = 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2'
+
+export class UBLSerializer {
+  static getDocumentType(invoice: ExtractedInvoiceData, options: UBLExportOptions = {}): UBLDocumentType {
+    if (options.documentType) return options.documentType
+    return hasNegativeTotal(invoice) ? 'CreditNote' : 'Invoice'
+  }
+
+  static toXML(invoice: ExtractedInvoiceData, options: UBLExportOptions = {}): string {
+    const documentType = this.getDocumentType(invoice, options)
+    const isCreditNote = documentType === 'CreditNote'
+    // Credit notes carry positive amounts; the document type conveys the sign
+    const sign = isCreditNote && (invoice.total ?? 0) < 0 ? -1 : 1
+    const currency = invoice.currency || 'EUR'
+    const amount = (value: number | undefined) => formatXmlAmount(value === undefined ? undefined : value * sign)
+    const currencyAttr = { currencyID: currency }
+
+    const totals = calculateInvoiceTotals(invoice)
+    const taxBreakdown = getTaxBreakdown(invoice, options.defaultTaxCategory)
+    const lines = getInvoiceLines(invoice, options.defaultTaxCategory)
+    const paymentMeansCode = getPaymentMeansCode(invoice.paymentMethod)
+    const paymentAccount = normalizeIban(invoice.paymentAccountIban)
+
+    const root = el(documentType, [
+      el('cbc:CustomizationID', options.customizationId || PEPPOL_CUSTOMIZATION_ID),
+      el('cbc:ProfileID', options.profileId || PEPPOL_PROFILE_ID),
+      el('cbc:ID', invoice.invoiceNumber),
+      el('cbc:IssueDate', formatXmlDate(invoice.date)),
+      !isCreditNote && el('cbc:DueDate', formatXmlDate(invoice.dueDate)),
+      el(isCreditNote ? 'cbc:CreditNoteTypeCode' : 'cbc:InvoiceTypeCode', isCreditNote ? '381' : '380'),
+      el('cbc:DocumentCurrencyCode', currency),
+      el('cbc:BuyerReference', invoice.buyerReference),
+      el('cac:AccountingSupplierParty', [
+        this.buildParty({
+          name: invoice.vendor,
+          address: invoice.vendorAddress,
+          countryCode: invoice.vendorCountry || options.sellerCountryCode,
+          vatId: invoice.vendorVatId,
+          endpoint: getPeppolEndpoint(invoice, 'vendor'),
+          contactName: options.sellerContactName,
+          phone: invoice.vendorPhone,
+          email: invoice.vendorEmail
+        })
+      ]),
+      el('cac:AccountingCustomerParty', [
+        this.buildParty({
+          name: invoice.billTo,
+          address: invoice.billToAddress,
+          countryCode: invoice.billToCountry || options.buyerCountryCode,
+          vatId: invoice.billToVatId,
+          endpoint: getPeppolEndpoint(invoice, 'billTo')
+        })
+      ]),
+      paymentMeansCode && el('cac:PaymentMeans', [
+        el('cbc:PaymentMeansCode', paymentMeansCode),
+        isCreditNote && el('cbc:PaymentDueDate', formatXmlDate(invoice.dueDate)),
+        el('cbc:PaymentID', invoice.transactionId),
+        invoice.cardNumber && el('cac:CardAccount', [
+          el('cbc:PrimaryAccountNumberID', getCardAccountNumber(invoice.cardNumber)),
+          el('cbc:NetworkID', invoice.paymentMethod)
+        ]),
+        !isDirectDebit(paymentMeansCode) && el('cac:PayeeFinancialAccount', [
+          el('cbc:ID', paymentAccount),
+          paymentAccount && el('cac:FinancialInstitutionBranch', [el('cbc:ID', invoice.paymentAccountBic)])
+        ]),
+        isDirectDebit(paymentMeansCode) && el('cac:PaymentMandate', [
+          el('cac:PayerFinancialAccount', [el('cbc:ID', paymentAccount)])
+        ])
+      ]),
+      el('cac:TaxTotal', [
+        el('cbc:TaxAmount', amount(totals.taxAmount), currencyAttr),
+        ...taxBreakdown.map(subtotal => el('cac:TaxSubtotal', [
+          el('cbc:TaxableAmount', amount(subtotal.taxableAmount), currencyAttr),
+          el('cbc:TaxAmount', amount(subtotal.taxAmount), currencyAttr),
+          this.buildTaxCategory('cac:TaxCategory', subtotal.category, subtotal.rate, subtotal.exemptionReason)
+        ]))
+      ]),
+      el('cac:LegalMonetaryTotal', [
+        el('cbc:LineExtensionAmount', amount(totals.lineExtensionAmount), currencyAttr),
+        el('cbc:TaxExclusiveAmount', amount(totals.taxExclusiveAmount), currencyAttr),
+        el('cbc:TaxInclusiveAmount', amount(totals.taxInclusiveAmount), currencyAttr),
+        el('cbc:PayableAmount', amount(totals.taxInclusiveAmount), currencyAttr)
+      ]),
+      ...lines.map((item, index) => el(isCreditNote ? 'cac:CreditNoteLine' : 'cac:InvoiceLine', [
+        el('cbc:ID', index + 1),
+        el(isCreditNote ? 'cbc:CreditedQuantity' : 'cbc:InvoicedQuantity', item.quantity ?? 1, { unitCode: item.unitCode || 'C62' }),
+        el('cbc:LineExtensionAmount', amount(item.amount), currencyAttr),
+        el('cac:Item', [
+          el('cbc:Name', item.description || `Item ${index + 1}`),
+          this.buildTaxCategory('cac:ClassifiedTaxCategory', item.taxCategory || 'S', item.taxRate ?? 0)
+        ]),
+        el('cac:Price', [
+          el('cbc:PriceAmount', amount(item.unitPrice ?? item.amount), currencyAttr)
+        ])
+      ]))
+    ], {
+      xmlns: UBL_NAMESPACES[documentType],
+      'xmlns:cac': CAC_NAMESPACE,
+      'xmlns:cbc': CBC_NAMESPACE
+    })
+
+    return serializeXml(root)
+  }
+
+  static getFilename(invoice: ExtractedInvoiceData, index: number = 0): string {
+    const base = (invoice.invoiceNumber || `invoice_${index + 1}`).replace(/[^A-Za-z0-9._-]/g, '_')
+    return `${base}.xml`
+  }
+
+  private static buildParty(party: {
+    name?: string
+    address?: string
+    countryCode?: string
+    vatId?: string
+    endpoint?: PeppolEndpoint
+    contactName?: string
+    phone?: string
+    email?: string
+  }): XmlElement | undefined {
+    const address = splitPostalAddress(party.address)
+    return el('cac:Party', [
+      party.endpoint
+        ? el('cbc:EndpointID', party.endpoint.id, { schemeID: party.endpoint.scheme })
+        : party.email && el('cbc:EndpointID', party.email, { schemeID: 'EM' }),
+      el('cac:PartyName', [el('cbc:Name', party.name)]),
+      el('cac:PostalAddress', [
+        el('cbc:StreetName', address.street),
+        el('cbc:CityName', address.city),
+        el('cbc:PostalZone', address.postCode),
+        el('cac:Country', [el('cbc:IdentificationCode', party.countryCode)])
+      ]),
+      el('cac:PartyTaxScheme', [
+        el('cbc:CompanyID', party.vatId),
+        party.vatId && el('cac:TaxScheme', [el('cbc:ID', 'VAT')])
+      ]),
+      el('cac:PartyLegalEntity', [el('cbc:RegistrationName', party.name)]),
+      el('cac:Contact', [
+        el('cbc:Name', party.contactName),
+        el('cbc:Telephone', party.phone),
+        el('cbc:ElectronicMail', party.email)
+      ])
+    ])
+  }
+
+  private static buildTaxCategory(
+    name: string,
+    category: string,
+    percent: number,
+    exemptionReason?: string
+  ): XmlElement | undefined {
+    return el(name, [
+      el('cbc:ID', category),
+      el('cbc:Percent', formatXmlAmount(percent)),
+      el('cbc:TaxExemptionReason', exemptionReason),
+      el('cac:TaxScheme', [el('cbc:ID', 'VAT')])
+    ])
+  }
+}
+
+export class UBLParser {
+  static isUBL(doc: Document): boolean {
+    const root = doc.documentElement
+    return (root.localName === 'Invoice' || root.localName === 'CreditNote') &&
+      (root.namespaceURI || '').startsWith('urn:oasis:names:specification:ubl:schema:xsd:')
+  }
+
+  static parse(xml: string, doc: Document = parseXml(xml)): ExtractedInvoiceData {
+    if (!this.isUBL(doc)) {
+      throw new Error(`Not a UBL invoice: unexpected root element <${doc.documentElement.localName}>`)
+    }
+
+    const root = doc.documentElement
+    const isCreditNote = root.localName === 'CreditNote'
+    // Stored with a negative sign so the row totals and a UBL re-export treat it as a credit
+    const sign = isCreditNote ? -1 : 1
+    const signed = (value: number | undefined) => value === undefined ? undefined : value * sign
+
+    const currency = elementText(root, 'DocumentCurrencyCode')
+    const supplier = findElement(root, 'AccountingSupplierParty', 'Party')
+    const customer = findElement(root, 'AccountingCustomerParty', 'Party')
+    const monetaryTotal = findElement(root, 'LegalMonetaryTotal')
+    const taxTotal = this.findDocumentTaxTotal(root, currency)
+    const paymentMeans = findElement(root, 'PaymentMeans')
+    const paymentMeansCode = elementText(paymentMeans, 'PaymentMeansCode')
+
+    const taxBreakdown: TaxBreakdown[] = findElements(taxTotal, 'TaxSubtotal').map(subtotal => ({
+      category: elementText(subtotal, 'TaxCategory', 'ID') || 'S',
+      rate: elementNumber(subtotal, 'TaxCategory', 'Percent') ?? 0,
+      taxableAmount: signed(elementNumber(subtotal, 'TaxableAmount')) ?? 0,
+      taxAmount: signed(elementNumber(subtotal, 'TaxAmount')) ?? 0,
+      exemptionReason: elementText(subtotal, 'TaxCategory', 'TaxExemptionReason')
+    }))
+
+    const lineName = isCreditNote ? 'CreditNoteLine' : 'InvoiceLine'
+    const quantityName = isCreditNote ? 'CreditedQuantity' : 'InvoicedQuantity'
+    const items: InvoiceItem[] = findElements(root, lineName).map(line => {
+      const priceAmount = elementNumber(line, 'Price', 'PriceAmount')
+      const baseQuantity = elementNumber(line, 'Price', 'BaseQuantity') || 1
+      return {
+        description: elementText(line, 'Item', 'Name') || elementText(line, 'Item', 'Description') || '',
+        quantity: elementNumber(line, quantityName),
+        unitPrice: signed(priceAmount === undefined ? undefined : priceAmount / baseQuantity),
+        amount: signed(elementNumber(line, 'LineExtensionAmount')),
+        unitCode: findElement(line, quantityName)?.getAttribute('unitCode') || undefined,
+        taxRate: elementNumber(line, 'Item', 'ClassifiedTaxCategory', 'Percent'),
+        taxCategory: elementText(line, 'Item', 'ClassifiedTaxCategory', 'ID')
+      }
+    })
+
+    return {
+      id: crypto.randomUUID(),
+      invoiceNumber: elementText(root, 'ID'),
+      date: parseXmlDate(elementText(root, 'IssueDate')),
+      dueDate: parseXmlDate(elementText(root, 'DueDate') || elementText(paymentMeans, 'PaymentDueDate')),
+      vendor: this.getPartyName(supplier),
+      vendorAddress: this.getPartyAddress(supplier),
+      vendorPhone: elementText(supplier, 'Contact', 'Telephone'),
+      vendorEmail: elementText(supplier, 'Contact', 'ElectronicMail'),
+      vendorVatId: elementText(supplier, 'PartyTaxScheme', 'CompanyID'),
+      vendorCountry: elementText(supplier, 'PostalAddress', 'Country', 'IdentificationCode'),
+      ...this.getPartyEndpoint(supplier, 'vendor'),
+      billTo: this.getPartyName(customer),
+      billToAddress: this.getPartyAddress(customer),
+      billToVatId: elementText(customer, 'PartyTaxScheme', 'CompanyID'),
+      billToCountry: elementText(customer, 'PostalAddress', 'Country', 'IdentificationCode'),
+      ...this.getPartyEndpoint(customer, 'billTo'),
+      buyerReference: elementText(root, 'BuyerReference'),
+      subtotal: signed(elementNumber(monetaryTotal, 'TaxExclusiveAmount')),
+      tax: signed(elementNumber(taxTotal, 'TaxAmount')),
+      total: signed(elementNumber(monetaryTotal, 'TaxInclusiveAmount') ?? elementNumber(monetaryTotal, 'PayableAmount')),
+      currency,
+      paymentMethod: getPaymentMeansName(paymentMeansCode),
+      transactionId: elementText(paymentMeans, 'PaymentID'),
+      cardNumber: elementText(paymentMeans, 'CardAccount', 'PrimaryAccountNumberID'),
+      paymentAccountIban: elementText(paymentMeans, 'PayeeFinancialAccount', 'ID') ||
+        elementText(paymentMeans, 'PaymentMandate', 'PayerFinancialAccount', 'ID'),
+      paymentAccountBic: elementText(paymentMeans, 'PayeeFinancialAccount', 'FinancialInstitutionBranch', 'ID'),
+      taxBreakdown: taxBreakdown.length > 0 ? taxBreakdown : undefined,
+      items,
+      rawText: xml,
+      processingMethod: 'ubl-xml',
+      confidence: 100
+    }
+  }
+
+  // A second TaxTotal may exist in the tax currency (BT-111); prefer the one in document currency
+  private static findDocumentTaxTotal(root: Element, currency?: string): Element | undefined {
+    const taxTotals = findElements(root, 'TaxTotal')
+    return taxTotals.find(taxTotal =>
+      !currency || findElement(taxTotal, 'TaxAmount')?.getAttribute('currencyID') === currency
+    ) || taxTotals[0]
+  }
+
+  // Email endpoints (EM) are already covered by the contact email
+  private static getPartyEndpoint(party: Element | undefined, prefix: 'vendor' | 'billTo'): Partial<ExtractedInvoiceData> {
+    const endpoint = findElement(party, 'EndpointID')
+    const scheme = endpoint?.getAttribute('schemeID')
+    const id = endpoint?.textContent?.trim()
+    if (!scheme || !id || scheme === 'EM') return {}
+    return prefix === 'vendor'
+      ? { vendorEndpointId: id, vendorEndpointScheme: scheme }
+      : { billToEndpointId: id, billToEndpointScheme: scheme }
+  }
+
+  private static getPartyName(party?: Element): string | undefined {
+    return elementText(party, 'PartyName', 'Name') || elementText(party, 'PartyLegalEntity', 'RegistrationName')
+  }
+
+  private static getPartyAddress(party?: Element): string | undefined {
+    const address = findElement(party, 'PostalAddress')
+    if (!address) return undefined
+
+    const cityLine = [elementText(address, 'PostalZone'), elementText(address, 'CityName')].filter(Boolean).join(' ')
+    const parts = [
+      elementText(address, 'StreetName'),
+      elementText(address, 'AdditionalStreetName'),
+      cityLine,
+      elementText(address, 'CountrySubentity')
+    ].filter(Boolean)
+
+    return parts.length > 0 ? parts.join(', ') : undefined
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { ExtractedInvoiceData } from './ocr'
+import { isX12, X12Parser, X12Serializer, X12Validator } from './x12'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'x12-1',
+  invoiceNumber: 'INV-810',
+  date: '03/15/2025',
+  dueDate: '04/14/2025',
+  vendor: 'Acme Supply Inc',
+  vendorAddress: '1 Main St, Springfield, IL 62701',
+  vendorCountry: 'US',
+  billTo: 'Widget Corp',
+  billToAddress: '5 Oak Ave, Denver, CO 80202',
+  billToCountry: 'US',
+  subtotal: 100,
+  tax: 8,
+  total: 108,
+  currency: 'USD',
+  items: [{ description: 'Bolts', quantity: 4, unitPrice: 25, amount: 100, productCode: '012345678905' }]
+}
+
+const options = { senderId: 'ACME', receiverId: 'WIDGET', controlNumber: 42 }
+
+describe('X12 810 round trip', () => {
+  it('reads back what it writes', () => {
+    const x12 = X12Serializer.toX12(invoice, options)
+    const parsed = X12Parser.parse(x12)
+
+    expect(isX12(x12)).toBe(true)
+    expect(parsed).toMatchObject({
+      invoiceNumber: 'INV-810',
+      date: '03/15/2025',
+      dueDate: '04/14/2025',
+      vendor: 'Acme Supply Inc',
+      vendorAddress: '1 Main St, Springfield, IL 62701',
+      vendorCountry: 'US',
+      billTo: 'Widget Corp',
+      billToAddress: '5 Oak Ave, Denver, CO 80202',
+      billToCountry: 'US',
+      subtotal: 100,
+      tax: 8,
+      total: 108,
+      currency: 'USD',
+      processingMethod: 'x12-810'
+    })
+    expect(parsed.items).toMatchObject([
+      { description: 'Bolts', quantity: 4, unitCode: 'EA', unitPrice: 25, amount: 100, productCode: '012345678905' }
+    ])
+  })
+
+  it('reads files written with other delimiters', () => {
+    const x12 = X12Serializer.toX12(invoice, { ...options, elementSeparator: '|', segmentTerminator: '\n' })
+
+    expect(x12).toContain('BIG|20250315|INV-810\n')
+    expect(X12Parser.parse(x12)).toMatchObject({ invoiceNumber: 'INV-810', total: 108 })
+  })
+
+  it('replaces delimiters in values, as X12 has no release character', () => {
+    const x12 = X12Serializer.toX12({ ...invoice, items: [{ ...invoice.items![0], description: 'Bolts*large~M8' }] }, options)
+
+    expect(X12Parser.parse(x12).items).toMatchObject([{ description: 'Bolts large M8' }])
+  })
+
+  it('pads the interchange IDs to 15 characters', () => {
+    expect(X12Serializer.toX12(invoice, options)).toContain('*ZZ*ACME           *ZZ*WIDGET         *')
+  })
+})
+
+describe('X12Validator', () => {
+  it('accepts a complete invoice', () => {
+    expect(X12Validator.validate(invoice, options)).toEqual([])
+  })
+
+  it('requires the BIG data and both N1 parties', () => {
+    const issues = X12Validator.validate({ ...invoice, date: undefined, invoiceNumber: ' ', vendor: undefined }, options)
+
+    expect(issues.map(issue => [issue.ruleId, issue.field])).toEqual([
+      ['X12-BIG', 'date'],
+      ['X12-BIG', 'invoiceNumber'],
+      ['X12-N1', 'vendor']
+    ])
+  })
+
+  it('checks the interchange IDs against their qualifier', () => {
+    expect(X12Validator.validate(invoice, { ...options, senderQualifier: '01', senderId: 'ACME' })).toMatchObject([
+      { ruleId: 'X12-ISA', severity: 'fatal', field: 'senderId' }
+    ])
+    expect(X12Validator.validate(invoice, { ...options, receiverId: 'A-VERY-LONG-RECEIVER-ID' })).toMatchObject([
+      { ruleId: 'X12-ISA', field: 'receiverId' }
+    ])
+    expect(X12Validator.validate(invoice).map(issue => [issue.field, issue.severity])).toEqual([
+      ['senderId', 'warning'],
+      ['receiverId', 'warning']
+    ])
+  })
+})
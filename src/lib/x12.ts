@@ -0,0 +1,442 @@
+import { ExtractedInvoiceData, InvoiceItem, TaxComponent } from './ocr'
+import { calculateInvoiceTotals, getInvoiceLines, getTaxBreakdown, hasNegativeTotal } from './einvoice'
+import { formatXmlAmount, formatXmlDate, parseXmlDate } from './xml'
+import { ValidationIssue, ValidationSeverity } from './en16931-validator'
+
+export interface X12Delimiters {
+  element: string
+  component: string
+  segment: string
+}
+
+export interface X12Segment {
+  tag: string
+  elements: string[]
+}
+
+export interface X12ExportOptions {
+  // ISA05-08: interchange sender/receiver qualifiers and IDs (padded to 15 characters)
+  senderQualifier?: string
+  senderId?: string
+  receiverQualifier?: string
+  receiverId?: string
+  // GS02/GS03: application sender and receiver codes, default to the ISA IDs
+  applicationSenderCode?: string
+  applicationReceiverCode?: string
+  // ISA13/GS06 control number
+  controlNumber?: number
+  usageIndicator?: 'P' | 'T'
+  elementSeparator?: string
+  componentSeparator?: string
+  segmentTerminator?: string
+  // Written after each segment terminator, e.g. "\n" for readable files
+  segmentSuffix?: string
+  // TXI01 tax type: ST (sales tax) for US invoices, VA for VAT
+  taxTypeCode?: string
+  defaultTaxCategory?: string
+}
+
+export const DEFAULT_X12_DELIMITERS: X12Delimiters = {
+  element: '*',
+  component: '>',
+  segment: '~'
+}
+
+// N101 entity identifier codes for each party, most specific first
+const SELLER_ENTITY_CODES = ['SE', 'VN', 'SU', 'RI']
+const BUYER_ENTITY_CODES = ['BT', 'BY', 'ST']
+
+// TXI01 tax type codes
+const TAX_TYPE_NAMES: Record<string, string> = {
+  ST: 'Sales tax',
+  VA: 'VAT',
+  GS: 'GST',
+  LS: 'State and local sales tax',
+  SP: 'State/provincial tax',
+  CP: 'County tax',
+  CT: 'City tax',
+  LT: 'Local tax',
+  EV: 'Environmental tax'
+}
+
+// IT1 product ID qualifiers, preferred order
+const PRODUCT_ID_QUALIFIERS = ['VP', 'BP', 'UP', 'EN', 'VN', 'IN', 'SK']
+
+/**
+ * Split an interchange into segments. The separators are not fixed in X12:
+ * they are read from the fixed-width ISA segment (positions 4, 105 and 106).
+ */
+export function tokenizeX12(text: string): X12Segment[] {
+  const content = text.replace(/^\uFEFF/, '').trimStart()
+  if (!content.startsWith('ISA') || content.length < 106) {
+    throw new Error('Not an X12 interchange: missing ISA segment')
+  }
+
+  const delimiters: X12Delimiters = {
+    element: content[3],
+    component: content[104],
+    segment: content[105]
+  }
+
+  return content
+    .split(delimiters.segment)
+    .map(segment => segment.replace(/^[\r\n]+/, '').trim())
+    .filter(Boolean)
+    .map(segment => {
+      const [tag, ...elements] = segment.split(delimiters.element)
+      return { tag, elements }
+    })
+}
+
+export function isX12(text: string): boolean {
+  return /^\uFEFF?\s*ISA[\s\S]{100}/.test(text.slice(0, 128))
+}
+
+// Dates are CCYYMMDD (or YYMMDD in the ISA)
+function parseX12Date(value?: string): string | undefined {
+  if (!value) return undefined
+  return parseXmlDate(/^\d{6}$/.test(value) ? `20${value}` : value)
+}
+
+export class X12Parser {
+  static parse(text: string): ExtractedInvoiceData {
+    const segments = tokenizeX12(text)
+    const start = segments.findIndex(segment => segment.tag === 'ST')
+    if (start === -1) throw new Error('X12 interchange without a transaction set (ST)')
+    if (segments[start].elements[0] !== '810') {
+      throw new Error(`Unsupported X12 transaction set: ${segments[start].elements[0] || 'unknown'}`)
+    }
+
+    const transactionCount = segments.filter(segment => segment.tag === 'ST').length
+    if (transactionCount > 1) {
+      console.warn(`X12 interchange contains ${transactionCount} transaction sets; only the first one is imported`)
+    }
+
+    const end = segments.findIndex((segment, index) => index > start && segment.tag === 'SE')
+    const transaction = segments.slice(start + 1, end === -1 ? undefined : end)
+
+    const invoice: ExtractedInvoiceData = {
+      id: crypto.randomUUID(),
+      rawText: text,
+      processingMethod: 'x12-810',
+      confidence: 100
+    }
+    const items: InvoiceItem[] = []
+    const taxComponents: TaxComponent[] = []
+    const parties = new Map<string, { name?: string; street?: string; cityLine?: string; country?: string; taxId?: string; phone?: string; email?: string }>()
+    let isCreditMemo = false
+    let termsDays: number | undefined
+
+    // N3/N4/REF/PER belong to the preceding N1, TXI to the preceding IT1 until TDS starts the summary
+    let party: ReturnType<typeof parties.get>
+    let item: InvoiceItem | undefined
+    let inSummary = false
+
+    const amount = (value?: string) => {
+      const parsed = parseFloat(value || '')
+      return isNaN(parsed) ? undefined : parsed
+    }
+
+    for (const { tag, elements } of transaction) {
+      switch (tag) {
+        case 'BIG':
+          invoice.date = parseX12Date(elements[0])
+          invoice.invoiceNumber = elements[1] || undefined
+          isCreditMemo = elements[6] === 'CR'
+          break
+
+        case 'CUR':
+          invoice.currency = elements[1] || undefined
+          break
+
+        case 'N1':
+          party = { name: elements[1] || undefined }
+          parties.set(elements[0], party)
+          break
+
+        case 'N3':
+          if (party) party.street = elements.filter(Boolean).join(' ')
+          break
+
+        case 'N4':
+          if (party) {
+            const region = [elements[1], elements[2]].filter(Boolean).join(' ')
+            party.cityLine = [elements[0], region].filter(Boolean).join(', ')
+            party.country = elements[3] || undefined
+          }
+          break
+
+        case 'REF':
+          // TJ = federal tax ID, VX = VAT registration number
+          if (party && (elements[0] === 'TJ' || elements[0] === 'VX')) party.taxId = elements[1]
+          break
+
+        case 'PER':
+          if (party) {
+            for (let i = 2; i < elements.length; i += 2) {
+              if (elements[i] === 'TE') party.phone = elements[i + 1]
+              if (elements[i] === 'EM') party.email = elements[i + 1]
+            }
+          }
+          break
+
+        case 'ITD':
+          // ITD06 net due date, otherwise ITD07 net days from the invoice date
+          invoice.dueDate = parseX12Date(elements[5]) || invoice.dueDate
+          termsDays = amount(elements[6])
+          break
+
+        case 'IT1': {
+          party = undefined
+          const quantity = amount(elements[1])
+          const unitPrice = amount(elements[3])
+          item = {
+            description: '',
+            quantity,
+            unitCode: elements[2] || undefined,
+            unitPrice,
+            amount: quantity !== undefined && unitPrice !== undefined ? Math.round(quantity * unitPrice * 100) / 100 : unitPrice
+          }
+          // IT106 onwards are qualifier/ID pairs
+          const productIds = new Map<string, string>()
+          for (let i = 5; i + 1 < elements.length; i += 2) {
+            if (elements[i] && elements[i + 1]) productIds.set(elements[i], elements[i + 1])
+          }
+          const qualifier = PRODUCT_ID_QUALIFIERS.find(code => productIds.has(code)) || Array.from(productIds.keys())[0]
+          if (qualifier) item.productCode = productIds.get(qualifier)
+          items.push(item)
+          break
+        }
+
+        case 'PID':
+          // PID01 F = free-form description in PID05
+          if (item && elements[0] === 'F' && elements[4]) {
+            item.description = [item.description, elements[4]].filter(Boolean).join(' ')
+          }
+          break
+
+        case 'TDS':
+          inSummary = true
+          item = undefined
+          // N2: two implied decimal places
+          invoice.total = amount(elements[0]) === undefined ? undefined : amount(elements[0])! / 100
+          break
+
+        case 'TXI': {
+          const taxAmount = amount(elements[1])
+          const rate = amount(elements[2])
+          if (item && !inSummary) {
+            item.taxRate = rate
+          } else if (taxAmount !== undefined) {
+            taxComponents.push({
+              name: TAX_TYPE_NAMES[elements[0]] || elements[0],
+              amount: taxAmount,
+              taxableAmount: amount(elements[7])
+            })
+          }
+          break
+        }
+      }
+    }
+
+    const seller = SELLER_ENTITY_CODES.map(code => parties.get(code)).find(Boolean)
+    const buyer = BUYER_ENTITY_CODES.map(code => parties.get(code)).find(Boolean)
+    const address = (entry?: { street?: string; cityLine?: string }) =>
+      [entry?.street, entry?.cityLine].filter(Boolean).join(', ') || undefined
+
+    invoice.vendor = seller?.name
+    invoice.vendorAddress = address(seller)
+    invoice.vendorCountry = seller?.country
+    invoice.vendorVatId = seller?.taxId
+    invoice.vendorPhone = seller?.phone
+    invoice.vendorEmail = seller?.email
+    invoice.billTo = buyer?.name
+    invoice.billToAddress = address(buyer)
+    invoice.billToCountry = buyer?.country
+    invoice.billToVatId = buyer?.taxId
+    invoice.currency = invoice.currency || 'USD'
+
+    if (!invoice.dueDate && termsDays !== undefined && invoice.date) {
+      const dueDate = new Date(invoice.date)
+      dueDate.setDate(dueDate.getDate() + termsDays)
+      if (!isNaN(dueDate.getTime())) {
+        invoice.dueDate = `${String(dueDate.getMonth() + 1).padStart(2, '0')}/${String(dueDate.getDate()).padStart(2, '0')}/${dueDate.getFullYear()}`
+      }
+    }
+
+    // TDS is the grand total; the taxes are itemized by TXI
+    const tax = taxComponents.reduce((sum, component) => sum + component.amount, 0)
+    invoice.tax = Math.round(tax * 100) / 100
+    if (invoice.total !== undefined) invoice.subtotal = Math.round((invoice.total - tax) * 100) / 100
+    if (taxComponents.length > 1) invoice.taxComponents = taxComponents
+
+    // Stored with a negative sign like the other credit note imports
+    if (isCreditMemo) {
+      const negate = (value?: number) => value === undefined ? undefined : -Math.abs(value)
+      invoice.total = negate(invoice.total)
+      invoice.subtotal = negate(invoice.subtotal)
+      invoice.tax = negate(invoice.tax)
+      items.forEach(line => {
+        line.amount = negate(line.amount)
+        line.unitPrice = negate(line.unitPrice)
+      })
+    }
+
+    invoice.items = items
+    return invoice
+  }
+}
+
+export class X12Serializer {
+  static toX12(invoice: ExtractedInvoiceData, options: X12ExportOptions = {}, index: number = 0): string {
+    const element = options.elementSeparator || DEFAULT_X12_DELIMITERS.element
+    const component = options.componentSeparator || DEFAULT_X12_DELIMITERS.component
+    const terminator = options.segmentTerminator || DEFAULT_X12_DELIMITERS.segment
+    const suffix = options.segmentSuffix ?? ''
+    if ([element, component, terminator].some(delimiter => delimiter.length !== 1) ||
+      new Set([element, component, terminator]).size !== 3) {
+      throw new Error('X12 element, component and segment separators must be three different single characters')
+    }
+
+    const isCreditMemo = hasNegativeTotal(invoice)
+    // Credit memos carry positive amounts; BIG07 CR conveys the sign
+    const sign = isCreditMemo ? -1 : 1
+    const amount = (value: number | undefined) => formatXmlAmount(value === undefined ? undefined : value * sign)
+    const date = (value: string | undefined) => formatXmlDate(value)?.replace(/-/g, '')
+    // Values cannot contain the separators (there is no release character in 004010)
+    const clean = (value: string | number | undefined) => value === undefined
+      ? ''
+      : String(value).replace(new RegExp(`[${[element, component, terminator].map(char => `\\${char}`).join('')}\\r\\n]`, 'g'), ' ')
+
+    const totals = calculateInvoiceTotals(invoice)
+    const taxBreakdown = getTaxBreakdown(invoice, options.defaultTaxCategory)
+    const lines = getInvoiceLines(invoice, options.defaultTaxCategory)
+    const taxType = options.taxTypeCode || 'ST'
+
+    const controlNumber = (options.controlNumber ?? index + 1) % 1000000000
+    const now = new Date().toISOString()
+    const senderId = options.senderId || 'SENDER'
+    const receiverId = options.receiverId || 'RECEIVER'
+
+    const transaction: Array<Array<string | number | undefined>> = [
+      ['ST', '810', '0001'],
+      ['BIG', date(invoice.date), invoice.invoiceNumber, '', '', '', '', isCreditMemo ? 'CR' : undefined],
+      ['CUR', 'SE', invoice.currency || 'USD'],
+      ...this.buildParty('SE', invoice.vendor, invoice.vendorAddress, invoice.vendorCountry, invoice.vendorVatId, invoice.vendorPhone, invoice.vendorEmail),
+      ...this.buildParty('BT', invoice.billTo, invoice.billToAddress, invoice.billToCountry, invoice.billToVatId),
+      ...(invoice.dueDate ? [['ITD', '01', '3', '', '', '', date(invoice.dueDate)]] : []),
+      ...lines.flatMap((item, lineIndex) => [
+        ['IT1', lineIndex + 1, item.quantity ?? 1, item.unitCode || 'EA', amount(item.unitPrice ?? item.amount), '',
+          ...(item.productCode ? ['VP', item.productCode] : [])],
+        ['PID', 'F', '', '', '', (item.description || `Item ${lineIndex + 1}`).slice(0, 80)],
+        ...(item.taxRate !== undefined ? [['TXI', taxType, '', formatXmlAmount(item.taxRate)]] : [])
+      ]),
+      // TDS01 is N2: the amount in cents without a decimal point
+      ['TDS', Math.round((totals.taxInclusiveAmount * sign) * 100)],
+      ...taxBreakdown.map(subtotal => ['TXI', taxType, amount(subtotal.taxAmount), formatXmlAmount(subtotal.rate), '', '', '', '', amount(subtotal.taxableAmount)]),
+      ['CTT', lines.length]
+    ]
+
+    const segments: Array<Array<string | number | undefined>> = [
+      ['ISA', '00', ''.padEnd(10), '00', ''.padEnd(10),
+        (options.senderQualifier || 'ZZ').padEnd(2), senderId.padEnd(15).slice(0, 15),
+        (options.receiverQualifier || 'ZZ').padEnd(2), receiverId.padEnd(15).slice(0, 15),
+        now.slice(2, 10).replace(/-/g, ''), now.slice(11, 16).replace(':', ''),
+        'U', '00401', String(controlNumber).padStart(9, '0'), '0', options.usageIndicator || 'P', component],
+      ['GS', 'IN', options.applicationSenderCode || senderId, options.applicationReceiverCode || receiverId,
+        now.slice(0, 10).replace(/-/g, ''), now.slice(11, 16).replace(':', ''), controlNumber, 'X', '004010'],
+      ...transaction,
+      // SE01 counts the transaction set segments including ST and SE
+      ['SE', transaction.length + 1, '0001'],
+      ['GE', 1, controlNumber],
+      ['IEA', 1, String(controlNumber).padStart(9, '0')]
+    ]
+
+    return segments.map(([tag, ...values]) => {
+      // The ISA is fixed width, so its empty elements are kept
+      const data = tag === 'ISA' ? values.map(String) : values.map(clean)
+      if (tag !== 'ISA') while (data.length > 0 && data[data.length - 1] === '') data.pop()
+      return [tag, ...data].join(element) + terminator + suffix
+    }).join('')
+  }
+
+  static getFilename(invoice: ExtractedInvoiceData, index: number = 0): string {
+    const base = (invoice.invoiceNumber || `invoice_${index + 1}`).replace(/[^A-Za-z0-9._-]/g, '_')
+    return `${base}_810.x12`
+  }
+
+  // N1 loop: name, address (N3/N4), tax ID (REF) and contact (PER)
+  private static buildParty(
+    entityCode: string,
+    name?: string,
+    address?: string,
+    countryCode?: string,
+    taxId?: string,
+    phone?: string,
+    email?: string
+  ): Array<Array<string | undefined>> {
+    if (!name) return []
+
+    // "Street, City, ST 12345" as the OCR and the other importers store US addresses
+    const parts = address?.split(/\s*[,\n]\s*/).filter(Boolean) || []
+    const regionMatch = parts[parts.length - 1]?.match(/^([A-Z]{2})\s+(\d{5}(?:-\d{4})?)$/)
+    const cityParts = regionMatch ? parts.slice(-2) : []
+    const street = regionMatch ? parts.slice(0, -2) : parts
+
+    return [
+      ['N1', entityCode, name.slice(0, 60)],
+      ...(street.length > 0 ? [['N3', street.join(' ').slice(0, 55)]] : []),
+      ...(regionMatch ? [['N4', cityParts[0], regionMatch[1], regionMatch[2], countryCode]] : []),
+      ...(taxId ? [['REF', countryCode && countryCode !== 'US' ? 'VX' : 'TJ', taxId]] : []),
+      ...(phone || email ? [['PER', 'IC', '', ...(phone ? ['TE', phone] : []), ...(email ? ['EM', email] : [])]] : [])
+    ]
+  }
+}
+
+// ISA05/ISA07 interchange ID qualifiers
+const INTERCHANGE_ID_QUALIFIERS: Record<string, { label: string, pattern?: RegExp }> = {
+  '01': { label: 'DUNS number', pattern: /^\d{9}$/ },
+  '08': { label: 'UCC EDI communications ID' },
+  '12': { label: 'phone number', pattern: /^\d{10}$/ },
+  '14': { label: 'DUNS plus suffix', pattern: /^\d{9}.{1,4}$/ },
+  'ZZ': { label: 'mutually defined' }
+}
+
+export class X12Validator {
+  /**
+   * Structural checks of the 810: the BIG data, the SE and BT N1 loops and
+   * the ISA sender and receiver IDs with their qualifiers.
+   */
+  static validate(invoice: ExtractedInvoiceData, options: X12ExportOptions = {}): ValidationIssue[] {
+    const issues: ValidationIssue[] = []
+    const report = (ruleId: string, field: string, message: string, severity: ValidationSeverity = 'fatal') => {
+      issues.push({ ruleId, severity, field, message })
+    }
+
+    if (!formatXmlDate(invoice.date)) report('X12-BIG', 'date', 'BIG01 requires a valid invoice date')
+    if (!invoice.invoiceNumber?.trim()) report('X12-BIG', 'invoiceNumber', 'BIG02 requires the invoice number')
+
+    // buildParty skips an N1 loop without a name
+    if (!invoice.vendor?.trim()) report('X12-N1', 'vendor', 'The selling party (N1*SE) requires a name')
+    if (!invoice.billTo?.trim()) report('X12-N1', 'billTo', 'The bill-to party (N1*BT) requires a name')
+
+    ;([
+      ['senderQualifier', 'senderId', options.senderQualifier, options.senderId, 'sender'],
+      ['receiverQualifier', 'receiverId', options.receiverQualifier, options.receiverId, 'receiver']
+    ] as const).forEach(([qualifierField, idField, qualifier = 'ZZ', id, role]) => {
+      const qualifierRule = INTERCHANGE_ID_QUALIFIERS[qualifier]
+      if (!qualifierRule) {
+        report('X12-ISA', qualifierField, `Unsupported interchange ID qualifier "${qualifier}" for the ${role}`)
+      }
+      if (!id) {
+        report('X12-ISA', idField, `No interchange ${role} ID configured; a placeholder is written to the ISA`, 'warning')
+      } else if (id.length > 15) {
+        report('X12-ISA', idField, `Interchange ${role} ID "${id}" is longer than 15 characters`)
+      } else if (qualifierRule?.pattern && !qualifierRule.pattern.test(id)) {
+        report('X12-ISA', idField, `Interchange ${role} ID "${id}" is not a valid ${qualifierRule.label} for qualifier ${qualifier}`)
+      }
+    })
+
+    return issues
+  }
+}
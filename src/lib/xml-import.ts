@@ -0,0 +1,58 @@
+import { ExtractedInvoiceData } from './ocr'
+import { parseXml } from './xml'
+import { UBLParser } from './ubl'
+import { CIIParser } from './cii'
+import { CFDIParser } from './cfdi'
+import { NFeParser } from './nfe'
+import { FatturaPAParser } from './fatturapa'
+import { EdifactParser, isEdifact } from './edifact'
+import { X12Parser, isX12 } from './x12'
+
+// Structured e-invoices are read directly instead of going through OCR.
+// The XML syntax is detected from the root element, EDIFACT and X12 from their envelope header.
+
+export function isXmlFile(file: File): boolean {
+  return file.type === 'application/xml' ||
+    file.type === 'text/xml' ||
+    file.name.toLowerCase().endsWith('.xml')
+}
+
+// EDIFACT and X12 share the .edi extension, so the content decides which parser runs
+export function isEdiFile(file: File): boolean {
+  return file.type === 'application/edifact' ||
+    file.type === 'application/edi-x12' ||
+    /\.(edi|edifact|x12|810)$/i.test(file.name)
+}
+
+export function parseInvoiceXML(xml: string): ExtractedInvoiceData {
+  const doc = parseXml(xml)
+
+  if (UBLParser.isUBL(doc)) {
+    return UBLParser.parse(xml, doc)
+  }
+
+  if (CIIParser.isCII(doc)) {
+    return CIIParser.parse(xml, doc)
+  }
+
+  if (CFDIParser.isCFDI(doc)) {
+    return CFDIParser.parse(xml, doc)
+  }
+
+  if (NFeParser.isNFe(doc)) {
+    return NFeParser.parse(xml, doc)
+  }
+
+  if (FatturaPAParser.isFatturaPA(doc)) {
+    return FatturaPAParser.parse(xml, doc)
+  }
+
+  throw new Error(`Unsupported XML invoice format: <${doc.documentElement.localName}>`)
+}
+
+export async function importInvoiceXML(file: File): Promise<ExtractedInvoiceData> {
+  const xml = await file.text()
+  if (isEdifact(xml)) return EdifactParser.parse(xml)
+  if (isX12(xml)) return X12Parser.parse(xml)
+  return parseInvoiceXML(xml)
+}
@@ -0,0 +1,104 @@
+import { childElements, parseXml } from './xml'
+
+/**
+ * A compact description of an XSD content model: sequences of elements with
+ * occurrence limits and simple-type facets. It covers what the national
+ * e-invoice schemas constrain for the elements we generate, without needing an
+ * XSD engine in the browser.
+ */
+export interface SchemaElement {
+  name: string
+  minOccurs?: number
+  maxOccurs?: number
+  pattern?: RegExp
+  enumeration?: string[]
+  minLength?: number
+  maxLength?: number
+  // Attribute facets (required attributes and allowed values)
+  attributes?: Record<string, { required?: boolean; enumeration?: string[]; pattern?: RegExp }>
+  children?: SchemaElement[]
+}
+
+export interface SchemaViolation {
+  path: string
+  message: string
+}
+
+export const UNBOUNDED = Infinity
+
+function validateValue(value: string, schema: SchemaElement, path: string, violations: SchemaViolation[]) {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    violations.push({ path, message: `Value "${value}" is shorter than ${schema.minLength} characters` })
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    violations.push({ path, message: `Value "${value}" is longer than ${schema.maxLength} characters` })
+  }
+  if (schema.pattern && !schema.pattern.test(value)) {
+    violations.push({ path, message: `Value "${value}" does not match pattern ${schema.pattern.source}` })
+  }
+  if (schema.enumeration && !schema.enumeration.includes(value)) {
+    violations.push({ path, message: `Value "${value}" is not one of ${schema.enumeration.join(', ')}` })
+  }
+}
+
+function validateElement(element: Element, schema: SchemaElement, path: string, violations: SchemaViolation[]) {
+  Object.entries(schema.attributes || {}).forEach(([name, facet]) => {
+    const value = element.getAttribute(name)
+    if (value === null) {
+      if (facet.required) violations.push({ path, message: `Missing required attribute ${name}` })
+      return
+    }
+    if (facet.enumeration && !facet.enumeration.includes(value)) {
+      violations.push({ path, message: `Attribute ${name}="${value}" is not one of ${facet.enumeration.join(', ')}` })
+    }
+    if (facet.pattern && !facet.pattern.test(value)) {
+      violations.push({ path, message: `Attribute ${name}="${value}" does not match pattern ${facet.pattern.source}` })
+    }
+  })
+
+  if (!schema.children) {
+    validateValue(element.textContent?.trim() || '', schema, path, violations)
+    return
+  }
+
+  // Children must follow the sequence order; the cursor only moves forward
+  const counts = new Map<string, number>()
+  let cursor = 0
+  childElements(element).forEach(child => {
+    const index = schema.children!.findIndex((definition, i) => i >= cursor && definition.name === child.localName)
+    const childPath = `${path}/${child.localName}`
+    if (index === -1) {
+      const known = schema.children!.some(definition => definition.name === child.localName)
+      violations.push({ path: childPath, message: known ? 'Element is out of sequence order' : 'Element is not allowed here' })
+      return
+    }
+
+    cursor = index
+    const definition = schema.children![index]
+    const count = (counts.get(definition.name) || 0) + 1
+    counts.set(definition.name, count)
+    if (count > (definition.maxOccurs ?? 1)) {
+      violations.push({ path: childPath, message: `Element occurs more than ${definition.maxOccurs ?? 1} time(s)` })
+    }
+    validateElement(child, definition, childPath, violations)
+  })
+
+  schema.children.forEach(definition => {
+    if ((counts.get(definition.name) || 0) < (definition.minOccurs ?? 1)) {
+      violations.push({ path: `${path}/${definition.name}`, message: 'Required element is missing' })
+    }
+  })
+}
+
+export function validateXmlSchema(xml: string | Document, schema: SchemaElement): SchemaViolation[] {
+  const doc = typeof xml === 'string' ? parseXml(xml) : xml
+  const root = doc.documentElement
+  const violations: SchemaViolation[] = []
+
+  if (root.localName !== schema.name) {
+    return [{ path: `/${root.localName}`, message: `Expected root element ${schema.name}` }]
+  }
+
+  validateElement(root, schema, `/${schema.name}`, violations)
+  return violations
+}
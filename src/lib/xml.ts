@@ -0,0 +1,172 @@
+// Minimal XML building helpers shared by the e-invoice serializers
+
+export type XmlAttributes = Record<string, string | number | undefined>
+
+export interface XmlElement {
+  name: string
+  attributes?: XmlAttributes
+  text?: string
+  children?: XmlElement[]
+}
+
+type XmlContent = string | number | null | undefined | Array<XmlElement | null | undefined | false | ''>
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// The serializer escapes like Canonical XML (C14N) does, so its output can be
+// hashed as is: quotes stay literal in text, '>' and "'" in attribute values
+function escapeXmlText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r/g, '&#xD;')
+}
+
+function escapeXmlAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;')
+    .replace(/\n/g, '&#xA;')
+    .replace(/\r/g, '&#xD;')
+}
+
+/**
+ * Build an element. Elements without content are returned as undefined so
+ * optional invoice fields can be passed straight through without checks.
+ */
+export function el(name: string, content?: XmlContent, attributes?: XmlAttributes): XmlElement | undefined {
+  if (Array.isArray(content)) {
+    const children = content.filter((child): child is XmlElement => !!child)
+    if (children.length === 0) return undefined
+    return { name, attributes, children }
+  }
+
+  if (content === undefined || content === null || content === '') return undefined
+  if (typeof content === 'number' && isNaN(content)) return undefined
+
+  return { name, attributes, text: String(content) }
+}
+
+function serializeAttributes(attributes?: XmlAttributes): string {
+  if (!attributes) return ''
+
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => ` ${key}="${escapeXmlAttribute(String(value))}"`)
+    .join('')
+}
+
+function serializeElement(element: XmlElement, depth: number, indent: string): string {
+  const pad = indent.repeat(depth)
+  const open = `${element.name}${serializeAttributes(element.attributes)}`
+
+  if (element.children && element.children.length > 0) {
+    const inner = element.children
+      .map(child => serializeElement(child, depth + 1, indent))
+      .join(indent ? '\n' : '')
+    return indent
+      ? `${pad}<${open}>\n${inner}\n${pad}</${element.name}>`
+      : `<${open}>${inner}</${element.name}>`
+  }
+
+  if (element.text !== undefined) {
+    return `${pad}<${open}>${escapeXmlText(element.text)}</${element.name}>`
+  }
+
+  return `${pad}<${open}/>`
+}
+
+export function serializeXml(root: XmlElement | undefined, options: { indent?: string } = {}): string {
+  if (!root) throw new Error('Cannot serialize an empty XML document')
+
+  const { indent = '  ' } = options
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeElement(root, 0, indent)}\n`
+}
+
+// Fixed-point amount as required by most e-invoice schemas (no thousands separators)
+export function formatXmlAmount(value: number | undefined, decimals: number = 2): string | undefined {
+  if (value === undefined || isNaN(value)) return undefined
+  return (Math.round(value * Math.pow(10, decimals)) / Math.pow(10, decimals)).toFixed(decimals)
+}
+
+/**
+ * Convert the app's normalized MM/DD/YYYY dates (or ISO dates) to the
+ * YYYY-MM-DD form used by UBL, CII and most national formats.
+ */
+export function formatXmlDate(dateStr: string | undefined): string | undefined {
+  if (!dateStr) return undefined
+
+  const iso = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`
+
+  const us = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (us) return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`
+
+  const date = new Date(dateStr)
+  if (isNaN(date.getTime())) return undefined
+
+  const month = (date.getMonth() + 1).toString().padStart(2, '0')
+  const day = date.getDate().toString().padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// Reading helpers. Matching is done on local names so documents parse the
+// same whatever namespace prefixes the sender chose.
+
+export function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  const parserError = doc.getElementsByTagName('parsererror')[0]
+  if (parserError) {
+    throw new Error(`Invalid XML: ${parserError.textContent?.trim().split('\n')[0] || 'parse error'}`)
+  }
+  return doc
+}
+
+export function childElements(parent: Element, localName?: string): Element[] {
+  return Array.from(parent.children).filter(child => !localName || child.localName === localName)
+}
+
+// Follow a path of direct children, e.g. findElement(party, 'PostalAddress', 'Country')
+export function findElement(parent: Element | undefined, ...path: string[]): Element | undefined {
+  let current: Element | undefined = parent
+  for (const name of path) {
+    if (!current) return undefined
+    current = childElements(current, name)[0]
+  }
+  return current
+}
+
+export function findElements(parent: Element | undefined, ...path: string[]): Element[] {
+  if (!parent || path.length === 0) return []
+  const container = findElement(parent, ...path.slice(0, -1))
+  return container ? childElements(container, path[path.length - 1]) : []
+}
+
+export function elementText(parent: Element | undefined, ...path: string[]): string | undefined {
+  const text = findElement(parent, ...path)?.textContent?.trim()
+  return text || undefined
+}
+
+export function elementNumber(parent: Element | undefined, ...path: string[]): number | undefined {
+  const text = elementText(parent, ...path)
+  if (text === undefined) return undefined
+  const value = parseFloat(text)
+  return isNaN(value) ? undefined : value
+}
+
+// Back to the MM/DD/YYYY form the OCR parsers produce, so imported and scanned rows sort together
+export function parseXmlDate(dateStr: string | undefined): string | undefined {
+  if (!dateStr) return undefined
+  const match = dateStr.match(/^(\d{4})-?(\d{2})-?(\d{2})/)
+  return match ? `${match[2]}/${match[3]}/${match[1]}` : dateStr
+}
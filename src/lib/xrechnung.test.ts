@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { CIIParser } from './cii'
+import { ExtractedInvoiceData } from './ocr'
+import { UBLParser } from './ubl'
+import { isValidLeitwegId, XRechnungSerializer, XRechnungValidator } from './xrechnung'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'xrechnung-1',
+  invoiceNumber: 'RE-2025-001',
+  date: '03/15/2025',
+  dueDate: '04/14/2025',
+  vendor: 'Muster GmbH',
+  vendorAddress: 'Hauptstr. 1, 10115 Berlin',
+  vendorCountry: 'DE',
+  vendorVatId: 'DE123456789',
+  vendorPhone: '+49 30 123456',
+  vendorEmail: 'rechnung@muster.de',
+  billTo: 'Stadt Musterhausen',
+  billToAddress: 'Rathausplatz 1, 12345 Musterhausen',
+  billToCountry: 'DE',
+  buyerReference: '04011000-1234512345-06',
+  subtotal: 100,
+  tax: 19,
+  total: 119,
+  currency: 'EUR',
+  paymentMethod: 'SEPA credit transfer',
+  paymentAccountIban: 'DE89 3704 0044 0532 0130 00',
+  paymentAccountBic: 'COBADEFFXXX',
+  items: [{ description: 'Beratung', quantity: 1, unitPrice: 100, amount: 100, taxRate: 19 }]
+}
+
+const ruleIds = (data: ExtractedInvoiceData) => XRechnungValidator.validate(data).issues.map(issue => [issue.ruleId, issue.field])
+
+describe('isValidLeitwegId', () => {
+  it('checks the MOD 97-10 check digits', () => {
+    expect(isValidLeitwegId('04011000-1234512345-06')).toBe(true)
+    expect(isValidLeitwegId('04011000-1234512345-07')).toBe(false)
+    expect(isValidLeitwegId('991-33333TEST-33')).toBe(true)
+    expect(isValidLeitwegId('991-33333test-33')).toBe(true)
+  })
+
+  it('requires a 2 to 12 digit coarse address', () => {
+    expect(isValidLeitwegId('0-1234512345-06')).toBe(false)
+    expect(isValidLeitwegId('04011000-06')).toBe(false)
+    expect(isValidLeitwegId('PO-42')).toBe(false)
+  })
+})
+
+describe('XRechnungValidator', () => {
+  it('accepts a complete invoice paid by credit transfer', () => {
+    expect(XRechnungValidator.validate(invoice)).toEqual({ isValid: true, issues: [] })
+  })
+
+  it('requires the buyer reference and seller contact', () => {
+    expect(ruleIds({ ...invoice, buyerReference: undefined, vendorPhone: undefined, vendorEmail: ' ' })).toEqual([
+      ['BR-DE-15', 'buyerReference'],
+      ['BR-DE-6', 'vendorPhone'],
+      ['BR-DE-7', 'vendorEmail']
+    ])
+  })
+
+  it('warns about a Leitweg-ID with wrong check digits', () => {
+    expect(XRechnungValidator.validate({ ...invoice, buyerReference: '04011000-1234512345-07' })).toMatchObject({
+      isValid: true,
+      issues: [{ ruleId: 'BR-DE-15', severity: 'warning', field: 'buyerReference' }]
+    })
+  })
+
+  it('requires post code and city in both addresses', () => {
+    expect(ruleIds({ ...invoice, vendorAddress: 'Hauptstr. 1', billToAddress: undefined })).toEqual([
+      ['BR-DE-3', 'vendorAddress'],
+      ['BR-DE-4', 'vendorAddress'],
+      ['BR-DE-8', 'billToAddress'],
+      ['BR-DE-9', 'billToAddress']
+    ])
+  })
+
+  it('requires the account for credit transfers and direct debits', () => {
+    expect(ruleIds({ ...invoice, paymentAccountIban: undefined })).toEqual([['BR-DE-23', 'paymentAccountIban']])
+    expect(ruleIds({ ...invoice, paymentMethod: 'SEPA direct debit', paymentAccountIban: undefined })).toEqual([['BR-DE-25', 'paymentAccountIban']])
+    expect(ruleIds({ ...invoice, paymentMethod: 'SEPA direct debit' })).toEqual([])
+    expect(XRechnungValidator.validate({ ...invoice, paymentAccountIban: 'DE89370400440532013001' }).issues).toMatchObject([
+      { ruleId: 'BR-DE-19', severity: 'warning', field: 'paymentAccountIban' }
+    ])
+  })
+
+  it('accepts bank transfers and card payments with their account details', () => {
+    expect(ruleIds({ ...invoice, paymentMethod: 'Bank Transfer' })).toEqual([])
+    expect(ruleIds({ ...invoice, paymentMethod: 'VISA', paymentAccountIban: undefined, cardNumber: '4111111111111234' })).toEqual([])
+    expect(ruleIds({ ...invoice, paymentMethod: 'VISA', cardNumber: undefined })).toEqual([['BR-DE-24', 'cardNumber']])
+  })
+
+  it('rejects payment means other than transfer, card or direct debit', () => {
+    expect(ruleIds({ ...invoice, paymentMethod: 'Cash' })).toEqual([['BR-DE-13', 'paymentMethod']])
+    expect(ruleIds({ ...invoice, paymentMethod: undefined })).toContainEqual(['BR-DE-1', 'paymentMethod'])
+  })
+
+  it('requires the seller VAT ID for standard rated invoices', () => {
+    expect(ruleIds({ ...invoice, vendorVatId: undefined })).toContainEqual(['BR-DE-16', 'vendorVatId'])
+  })
+})
+
+describe('XRechnungSerializer', () => {
+  it('writes the payee account in both syntaxes', () => {
+    const expected = { paymentAccountIban: 'DE89370400440532013000', paymentAccountBic: 'COBADEFFXXX', buyerReference: '04011000-1234512345-06' }
+
+    expect(UBLParser.parse(XRechnungSerializer.toXML(invoice, 'ubl'))).toMatchObject(expected)
+    expect(CIIParser.parse(XRechnungSerializer.toXML(invoice, 'cii'))).toMatchObject(expected)
+  })
+
+  it('writes the debited account of a direct debit as the payer account', () => {
+    const directDebit = { ...invoice, paymentMethod: 'SEPA direct debit', paymentAccountBic: undefined }
+
+    expect(XRechnungSerializer.toXML(directDebit, 'ubl')).toContain('<cac:PayerFinancialAccount>')
+    expect(XRechnungSerializer.toXML(directDebit, 'cii')).toContain('<ram:PayerPartyDebtorFinancialAccount>')
+    expect(UBLParser.parse(XRechnungSerializer.toXML(directDebit, 'ubl')).paymentAccountIban).toBe('DE89370400440532013000')
+  })
+})
@@ -0,0 +1,133 @@
+import { ExtractedInvoiceData } from './ocr'
+import { UBLSerializer, UBLExportOptions, PEPPOL_PROFILE_ID } from './ubl'
+import { CIISerializer, CIIExportOptions } from './cii'
+import { getInvoiceLines, getPaymentMeansCode, getTaxBreakdown, isValidIban, mod97, splitPostalAddress } from './einvoice'
+import { EN16931Validator, EN16931ValidationOptions, ValidationIssue, ValidationResult } from './en16931-validator'
+
+export type XRechnungSyntax = 'ubl' | 'cii'
+
+export type XRechnungExportOptions = UBLExportOptions & CIIExportOptions & EN16931ValidationOptions
+
+// XRechnung 3.0 CIUS specification identifier (BT-24), shared by both syntaxes
+export const XRECHNUNG_CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0'
+
+// BR-DE-13: exactly one of credit transfer, payment card or direct debit must be described
+const CREDIT_TRANSFER_CODES = ['30', '58']
+const PAYMENT_CARD_CODES = ['48', '54', '55']
+const DIRECT_DEBIT_CODES = ['59']
+
+// VAT categories for which BR-DE-16 requires a seller VAT identifier or tax number
+const VAT_REGISTRATION_CATEGORIES = ['S', 'Z', 'E', 'AE', 'K', 'G', 'L', 'M']
+
+const isBlank = (value: string | undefined) => !value || value.trim() === ''
+
+/**
+ * Leitweg-ID: coarse address (2-12 digits), optional fine address (up to 30
+ * alphanumerics) and two check digits computed with ISO 7064 MOD 97-10.
+ */
+export function isValidLeitwegId(id: string): boolean {
+  const match = id.trim().toUpperCase().match(/^(\d{2,12})(?:-([0-9A-Z]{1,30}))?-(\d{2})$/)
+  if (!match) return false
+
+  return mod97(`${match[1]}${match[2] || ''}${match[3]}`) === 1
+}
+
+export class XRechnungValidator {
+  /**
+   * EN 16931 rules plus the German national BR-DE rules of the XRechnung CIUS.
+   * Contact name falls back to the seller name the same way the serializer does.
+   */
+  static validate(invoice: ExtractedInvoiceData, options: XRechnungExportOptions = {}): ValidationResult {
+    const issues: ValidationIssue[] = [...EN16931Validator.validate(invoice, options).issues]
+    const report = (ruleId: string, field: string, message: string) => {
+      issues.push({ ruleId, severity: 'fatal', field, message })
+    }
+
+    // Buyer reference
+    if (isBlank(invoice.buyerReference)) {
+      report('BR-DE-15', 'buyerReference', 'An XRechnung shall contain the buyer reference (Leitweg-ID for public buyers)')
+    } else if (/^\d{2,12}(-[0-9A-Za-z]{1,30})?-\d{2}$/.test(invoice.buyerReference!.trim()) && !isValidLeitwegId(invoice.buyerReference!)) {
+      issues.push({
+        ruleId: 'BR-DE-15',
+        severity: 'warning',
+        field: 'buyerReference',
+        message: `Buyer reference "${invoice.buyerReference}" looks like a Leitweg-ID but its check digits are wrong`
+      })
+    }
+
+    // Seller address and contact
+    const sellerAddress = splitPostalAddress(invoice.vendorAddress)
+    if (isBlank(sellerAddress.city)) report('BR-DE-3', 'vendorAddress', 'The seller address shall contain a city')
+    if (isBlank(sellerAddress.postCode)) report('BR-DE-4', 'vendorAddress', 'The seller address shall contain a post code')
+
+    if (isBlank(options.sellerContactName || invoice.vendor)) {
+      report('BR-DE-5', 'vendor', 'The seller contact shall contain a contact point name')
+    }
+    if (isBlank(invoice.vendorPhone)) report('BR-DE-6', 'vendorPhone', 'The seller contact shall contain a telephone number')
+    if (isBlank(invoice.vendorEmail)) report('BR-DE-7', 'vendorEmail', 'The seller contact shall contain an email address')
+
+    // Buyer address
+    const buyerAddress = splitPostalAddress(invoice.billToAddress)
+    if (isBlank(buyerAddress.city)) report('BR-DE-8', 'billToAddress', 'The buyer address shall contain a city')
+    if (isBlank(buyerAddress.postCode)) report('BR-DE-9', 'billToAddress', 'The buyer address shall contain a post code')
+
+    // Payment means
+    const paymentMeansCode = getPaymentMeansCode(invoice.paymentMethod)
+    if (!paymentMeansCode) {
+      report('BR-DE-1', 'paymentMethod', 'An XRechnung shall contain payment instructions')
+    } else if (PAYMENT_CARD_CODES.includes(paymentMeansCode)) {
+      if (isBlank(invoice.cardNumber)) {
+        report('BR-DE-24', 'cardNumber', 'Payment by card requires the card account number')
+      }
+    } else if (CREDIT_TRANSFER_CODES.includes(paymentMeansCode) || DIRECT_DEBIT_CODES.includes(paymentMeansCode)) {
+      const isCreditTransfer = CREDIT_TRANSFER_CODES.includes(paymentMeansCode)
+      if (isBlank(invoice.paymentAccountIban)) {
+        report(isCreditTransfer ? 'BR-DE-23' : 'BR-DE-25', 'paymentAccountIban', isCreditTransfer
+          ? 'Payment by credit transfer requires the payee account IBAN (BT-84)'
+          : 'Payment by direct debit requires the debited account IBAN (BT-91)')
+      } else if (!isValidIban(invoice.paymentAccountIban!)) {
+        issues.push({
+          ruleId: isCreditTransfer ? 'BR-DE-19' : 'BR-DE-20',
+          severity: 'warning',
+          field: 'paymentAccountIban',
+          message: `"${invoice.paymentAccountIban}" is not a valid IBAN`
+        })
+      }
+    } else {
+      report('BR-DE-13', 'paymentMethod',
+        `Payment means "${invoice.paymentMethod}" is not a credit transfer, payment card or direct debit`)
+    }
+
+    // Seller VAT registration
+    const categories = [
+      ...getTaxBreakdown(invoice, options.defaultTaxCategory).map(subtotal => subtotal.category),
+      ...getInvoiceLines(invoice, options.defaultTaxCategory).map(item => item.taxCategory || 'S')
+    ]
+    if (categories.some(category => VAT_REGISTRATION_CATEGORIES.includes(category)) && isBlank(invoice.vendorVatId)) {
+      report('BR-DE-16', 'vendorVatId', 'The seller VAT identifier or tax number is required for the VAT categories used')
+    }
+
+    return {
+      isValid: !issues.some(issue => issue.severity === 'fatal'),
+      issues
+    }
+  }
+}
+
+export class XRechnungSerializer {
+  static toXML(invoice: ExtractedInvoiceData, syntax: XRechnungSyntax, options: XRechnungExportOptions = {}): string {
+    const xrechnungOptions = {
+      ...options,
+      sellerContactName: options.sellerContactName || invoice.vendor
+    }
+
+    return syntax === 'cii'
+      ? CIISerializer.toXML(invoice, { ...xrechnungOptions, profile: 'EN 16931', guidelineId: XRECHNUNG_CUSTOMIZATION_ID })
+      : UBLSerializer.toXML(invoice, { ...xrechnungOptions, customizationId: XRECHNUNG_CUSTOMIZATION_ID, profileId: PEPPOL_PROFILE_ID })
+  }
+
+  static getFilename(invoice: ExtractedInvoiceData, syntax: XRechnungSyntax, index: number = 0): string {
+    const base = (invoice.invoiceNumber || `invoice_${index + 1}`).replace(/[^A-Za-z0-9._-]/g, '_')
+    return `${base}_xrechnung_${syntax}.xml`
+  }
+}
@@ -0,0 +1,128 @@
+import { createHash } from 'crypto'
+import { describe, expect, it } from 'vitest'
+import { ExtractedInvoiceData } from './ocr'
+import { UBLParser } from './ubl'
+import {
+  decodeZatcaQR,
+  encodeZatcaQR,
+  getZatcaHashInput,
+  ZATCA_INITIAL_PREVIOUS_HASH,
+  ZATCASerializer,
+  ZATCAValidator
+} from './zatca'
+
+const invoice: ExtractedInvoiceData = {
+  id: 'zatca-1',
+  invoiceNumber: 'INV-1',
+  date: '03/15/2025',
+  time: '3:05 PM',
+  vendor: "O'Brien & Sons",
+  vendorVatId: '300000000000003',
+  vendorAddress: 'King Fahd Rd, 12345 Riyadh',
+  billTo: 'Buyer Co',
+  subtotal: 100,
+  tax: 15,
+  total: 115,
+  currency: 'SAR',
+  items: [{ description: 'Item', quantity: 1, unitPrice: 100, amount: 100 }]
+}
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('base64')
+
+describe('ZATCA round trip', () => {
+  it('writes UBL that reads back as the invoice', async () => {
+    const { xml } = await ZATCASerializer.toXML(invoice)
+
+    expect(UBLParser.parse(xml)).toMatchObject({
+      invoiceNumber: 'INV-1',
+      date: '03/15/2025',
+      vendor: "O'Brien & Sons",
+      vendorVatId: '300000000000003',
+      vendorCountry: 'SA',
+      billTo: 'Buyer Co',
+      subtotal: 100,
+      tax: 15,
+      total: 115,
+      currency: 'SAR'
+    })
+  })
+
+  it('hashes the document without the signature and the QR', async () => {
+    const { xml, invoiceHash } = await ZATCASerializer.toXML(invoice)
+    const hashInput = getZatcaHashInput(xml)
+
+    expect(hashInput).not.toContain('<ext:UBLExtensions>')
+    expect(hashInput).not.toContain('<cac:Signature>')
+    expect(hashInput).not.toContain('<cbc:ID>QR</cbc:ID>')
+    expect(sha256(hashInput)).toBe(invoiceHash)
+  })
+
+  it('puts the invoice data and hash into the QR', async () => {
+    const { qrCode, invoiceHash } = await ZATCASerializer.toXML(invoice)
+
+    expect(decodeZatcaQR(qrCode)).toEqual({
+      sellerName: "O'Brien & Sons",
+      vatNumber: '300000000000003',
+      timestamp: '2025-03-15T15:05:00',
+      total: 115,
+      vatTotal: 15,
+      invoiceHash
+    })
+  })
+
+  it('chains each invoice to the hash and counter of the one before', async () => {
+    const [first, second] = await ZATCASerializer.toXMLChain([invoice, { ...invoice, invoiceNumber: 'INV-2' }])
+
+    expect(first.xml).toContain(ZATCA_INITIAL_PREVIOUS_HASH)
+    expect(second.xml).toContain(first.invoiceHash)
+    expect([first.invoiceCounter, second.invoiceCounter]).toEqual([1, 2])
+  })
+
+  it('states the VAT total in SAR for other currencies', async () => {
+    const { xml } = await ZATCASerializer.toXML({ ...invoice, currency: 'USD' }, { exchangeRate: 3.75 })
+
+    expect(xml).toContain('<cbc:TaxAmount currencyID="SAR">56.25</cbc:TaxAmount>')
+    expect(UBLParser.parse(xml)).toMatchObject({ tax: 15, total: 115, currency: 'USD' })
+    await expect(ZATCASerializer.toXML({ ...invoice, currency: 'USD' })).rejects.toThrow()
+  })
+
+  it('names files after the VAT number, issue time and invoice number', () => {
+    expect(ZATCASerializer.getFilename(invoice)).toBe('300000000000003_20250315T150500_INV-1.xml')
+  })
+})
+
+describe('ZATCA QR', () => {
+  it('decodes what it encodes', () => {
+    const data = { sellerName: 'شركة', vatNumber: '300000000000003', timestamp: '2025-03-15T15:05:00', total: 115, vatTotal: 15 }
+
+    expect(decodeZatcaQR(encodeZatcaQR(data))).toEqual({ ...data, invoiceHash: undefined })
+  })
+
+  it('rejects payloads that are not ZATCA TLV', () => {
+    expect(decodeZatcaQR('not base64!')).toBeNull()
+    expect(decodeZatcaQR(btoa('https://example.com'))).toBeNull()
+  })
+})
+
+describe('ZATCAValidator', () => {
+  it('accepts a complete invoice', () => {
+    expect(ZATCAValidator.validate(invoice)).toEqual([])
+  })
+
+  it('requires a 15-digit seller VAT number and the SAR exchange rate', () => {
+    const issues = ZATCAValidator.validate({ ...invoice, vendorVatId: '123', currency: 'USD' })
+
+    expect(issues.map(issue => [issue.ruleId, issue.field])).toEqual([
+      ['BR-KSA-40', 'vendorVatId'],
+      ['BR-53', 'currency']
+    ])
+    expect(ZATCAValidator.validate({ ...invoice, currency: 'USD' }, { exchangeRate: 3.75 })).toEqual([])
+  })
+
+  it('requires the buyer name on standard invoices only', () => {
+    const withoutBuyer = { ...invoice, billTo: undefined }
+
+    expect(ZATCAValidator.validate(withoutBuyer, { zatcaInvoiceType: 'simplified' })).toEqual([])
+    expect(ZATCAValidator.validate(withoutBuyer, { zatcaInvoiceType: 'standard' }).map(issue => issue.ruleId)).toEqual(['BR-KSA-42'])
+  })
+})
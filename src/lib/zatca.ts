@@ -0,0 +1,454 @@
+import jsQR from 'jsqr'
+import { ExtractedInvoiceData, TaxBreakdown } from './ocr'
+import {
+  calculateInvoiceTotals,
+  getInvoiceLines,
+  getPaymentMeansCode,
+  getTaxBreakdown,
+  hasNegativeTotal,
+  splitPostalAddress
+} from './einvoice'
+import { ValidationIssue } from './en16931-validator'
+import { el, serializeXml, formatXmlAmount, formatXmlDate, XmlElement } from './xml'
+
+export type ZATCAInvoiceType = 'standard' | 'simplified'
+
+export interface ZATCAExportOptions {
+  // Simplified (B2C) invoices are reported, standard (B2B) invoices are cleared
+  zatcaInvoiceType?: ZATCAInvoiceType
+  // Hash of the last invoice issued by this EGS unit; a new chain starts from ZATCA_INITIAL_PREVIOUS_HASH
+  previousInvoiceHash?: string
+  // Invoice counter value (ICV) of the first invoice in the batch
+  invoiceCounter?: number
+  // Commercial registration number, the seller's other ID (BT-29)
+  sellerRegistrationNumber?: string
+  // SAR per unit of the invoice currency; required for invoices not issued in SAR (BT-111)
+  exchangeRate?: number
+  buyerCountryCode?: string
+  defaultTaxCategory?: string
+}
+
+export interface ZATCAInvoiceResult {
+  xml: string
+  // Base64 SHA-256 of the invoice, the PIH of the next invoice in the chain
+  invoiceHash: string
+  invoiceCounter: number
+  qrCode: string
+}
+
+export interface ZATCAQRData {
+  sellerName: string
+  vatNumber: string
+  timestamp: string
+  total: number
+  vatTotal: number
+  invoiceHash?: string
+}
+
+// PIH of the first invoice: base64 of the hex SHA-256 digest of "0"
+export const ZATCA_INITIAL_PREVIOUS_HASH = 'NWZlY2ViNjZmZmM4NmYzOGQ5NTI3ODZjNmQ2OTZjNzljMmRiYzIzOWRkNGU5MWI0NjcyOWQ3M2EyN2ZiNTdlOQ=='
+
+const INVOICE_TYPE_NAMES: Record<ZATCAInvoiceType, string> = {
+  standard: '0100000',
+  simplified: '0200000'
+}
+
+// QR TLV tags of the Phase 2 format; 7-9 (signature, public key, certificate signature) are added when signing
+const QR_TAGS = {
+  sellerName: 1,
+  vatNumber: 2,
+  timestamp: 3,
+  total: 4,
+  vatTotal: 5,
+  invoiceHash: 6
+}
+
+const CAC_NAMESPACE = 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2'
+const CBC_NAMESPACE = 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2'
+const EXT_NAMESPACE = 'urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2'
+
+// The EGS unit puts its XAdES signature into the extension and references it from cac:Signature
+const SIGNATURE_EXTENSION_URI = 'urn:oasis:names:specification:ubl:dsig:enveloped:xades'
+const SIGNATURE_ID = 'urn:oasis:names:specification:ubl:signature:Invoice'
+
+// Left out of the invoice hash: the signature parts and the QR, which depend on the hash
+const UNHASHED_ELEMENTS = [
+  /<ext:UBLExtensions>[\s\S]*?<\/ext:UBLExtensions>/,
+  /<cac:Signature>[\s\S]*?<\/cac:Signature>/,
+  /<cac:AdditionalDocumentReference>\s*<cbc:ID>QR<\/cbc:ID>[\s\S]*?<\/cac:AdditionalDocumentReference>/
+]
+
+const isBlank = (value: string | undefined) => !value || value.trim() === ''
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary)
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value.trim())
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+/**
+ * The hash input of an invoice: the document without the XML declaration,
+ * the UBL extensions, the signature and the QR reference. The elements are
+ * cut out with their surrounding whitespace left in place, as removing the
+ * nodes does, and serializeXml already escapes like C14N 1.1.
+ */
+export function getZatcaHashInput(xml: string): string {
+  return UNHASHED_ELEMENTS.reduce((text, element) => text.replace(element, ''), xml.replace(/^<\?xml[^>]*\?>\n/, ''))
+}
+
+async function sha256Base64(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return toBase64(new Uint8Array(digest))
+}
+
+// HH:MM:SS from OCR'd times such as "3:05 PM" or "15:05:12"
+function formatIssueTime(time?: string): string {
+  const match = time?.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?/i)
+  if (!match) return '00:00:00'
+
+  let hours = parseInt(match[1], 10) % 24
+  if (match[4]?.toUpperCase() === 'PM' && hours < 12) hours += 12
+  if (match[4]?.toUpperCase() === 'AM' && hours === 12) hours = 0
+  return `${String(hours).padStart(2, '0')}:${match[2]}:${match[3] || '00'}`
+}
+
+/**
+ * Encode the QR payload: one tag byte, one length byte and the UTF-8 value
+ * per field, base64 encoded as a whole.
+ */
+export function encodeZatcaQR(data: ZATCAQRData): string {
+  const encoder = new TextEncoder()
+  const fields: Array<[number, string | undefined]> = [
+    [QR_TAGS.sellerName, data.sellerName],
+    [QR_TAGS.vatNumber, data.vatNumber],
+    [QR_TAGS.timestamp, data.timestamp],
+    [QR_TAGS.total, formatXmlAmount(data.total)],
+    [QR_TAGS.vatTotal, formatXmlAmount(data.vatTotal)],
+    [QR_TAGS.invoiceHash, data.invoiceHash]
+  ]
+
+  const bytes: number[] = []
+  fields.forEach(([tag, value]) => {
+    if (value === undefined) return
+    const encoded = encoder.encode(value)
+    if (encoded.length > 255) throw new Error(`ZATCA QR field ${tag} is longer than 255 bytes`)
+    bytes.push(tag, encoded.length, ...encoded)
+  })
+  return toBase64(new Uint8Array(bytes))
+}
+
+// Returns null for anything that is not a well-formed ZATCA TLV payload
+export function decodeZatcaQR(payload: string): ZATCAQRData | null {
+  let bytes: Uint8Array
+  try {
+    bytes = fromBase64(payload)
+  } catch {
+    return null
+  }
+
+  const decoder = new TextDecoder('utf-8', { fatal: true })
+  const values = new Map<number, string>()
+  let offset = 0
+  try {
+    while (offset < bytes.length) {
+      const tag = bytes[offset]
+      const length = bytes[offset + 1]
+      if (length === undefined || offset + 2 + length > bytes.length) return null
+      // Tags 7-9 hold binary signature data; only the text fields are read
+      if (tag <= QR_TAGS.invoiceHash) values.set(tag, decoder.decode(bytes.subarray(offset + 2, offset + 2 + length)))
+      offset += 2 + length
+    }
+  } catch {
+    return null
+  }
+
+  const total = parseFloat(values.get(QR_TAGS.total) || '')
+  const vatTotal = parseFloat(values.get(QR_TAGS.vatTotal) || '')
+  if (!values.get(QR_TAGS.sellerName) || !values.get(QR_TAGS.vatNumber) || isNaN(total) || isNaN(vatTotal)) return null
+
+  return {
+    sellerName: values.get(QR_TAGS.sellerName)!,
+    vatNumber: values.get(QR_TAGS.vatNumber)!,
+    timestamp: values.get(QR_TAGS.timestamp) || '',
+    total,
+    vatTotal,
+    invoiceHash: values.get(QR_TAGS.invoiceHash)
+  }
+}
+
+// Look for a ZATCA QR code in a scanned receipt
+export function scanZatcaQR(image: ImageData): ZATCAQRData | null {
+  const code = jsQR(image.data, image.width, image.height)
+  return code ? decodeZatcaQR(code.data) : null
+}
+
+/**
+ * Fill invoice fields from a decoded QR. The QR is read byte-exact, so its
+ * values replace what OCR made of the printed receipt.
+ */
+export function applyZatcaQR(invoice: ExtractedInvoiceData, qr: ZATCAQRData): ExtractedInvoiceData {
+  const timestamp = qr.timestamp.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}:\d{2}(?::\d{2})?))?/)
+  return {
+    ...invoice,
+    vendor: qr.sellerName,
+    vendorVatId: qr.vatNumber,
+    vendorCountry: 'SA',
+    date: timestamp ? `${timestamp[2]}/${timestamp[3]}/${timestamp[1]}` : invoice.date,
+    time: timestamp?.[4] || invoice.time,
+    total: qr.total,
+    tax: qr.vatTotal,
+    subtotal: Math.round((qr.total - qr.vatTotal) * 100) / 100,
+    currency: invoice.currency || 'SAR'
+  }
+}
+
+export class ZATCAValidator {
+  /**
+   * The KSA rules the generated XML cannot satisfy on its own. Signing and
+   * clearance are left to the EGS unit, so the cryptographic rules are not checked.
+   */
+  static validate(invoice: ExtractedInvoiceData, options: ZATCAExportOptions = {}): ValidationIssue[] {
+    const issues: ValidationIssue[] = []
+    const report = (ruleId: string, field: string, message: string) => {
+      issues.push({ ruleId, severity: 'fatal', field, message })
+    }
+
+    if (isBlank(invoice.invoiceNumber)) report('BR-02', 'invoiceNumber', 'An invoice shall have an invoice number')
+    if (!formatXmlDate(invoice.date)) report('BR-03', 'date', 'An invoice shall have an issue date')
+    if (isBlank(invoice.vendor)) report('BR-06', 'vendor', 'An invoice shall contain the seller name')
+
+    if (!/^3\d{13}3$/.test(invoice.vendorVatId?.replace(/\s/g, '') || '')) {
+      report('BR-KSA-40', 'vendorVatId', 'The seller VAT number shall have 15 digits, starting and ending with 3')
+    }
+
+    if (options.zatcaInvoiceType === 'standard' && isBlank(invoice.billTo)) {
+      report('BR-KSA-42', 'billTo', 'A standard tax invoice shall contain the buyer name')
+    }
+
+    if (hasNegativeTotal(invoice)) {
+      // The extracted data does not carry the original invoice number for the billing reference
+      issues.push({
+        ruleId: 'BR-KSA-56',
+        severity: 'warning',
+        field: 'invoiceNumber',
+        message: 'A credit note shall reference the original invoice; add it before reporting'
+      })
+    }
+
+    const currency = invoice.currency || 'SAR'
+    if (currency !== 'SAR' && !(options.exchangeRate && options.exchangeRate > 0)) {
+      report('BR-53', 'currency', `The VAT total must also be stated in SAR; set the exchange rate from ${currency} to SAR`)
+    }
+
+    if (invoice.total === undefined) report('BR-14', 'total', 'An invoice shall have the amount due for payment')
+    return issues
+  }
+}
+
+export class ZATCASerializer {
+  static async toXML(invoice: ExtractedInvoiceData, options: ZATCAExportOptions = {}): Promise<ZATCAInvoiceResult> {
+    const previousInvoiceHash = options.previousInvoiceHash || ZATCA_INITIAL_PREVIOUS_HASH
+    const invoiceCounter = options.invoiceCounter ?? 1
+
+    // The QR is not hashed, so the hash is taken from the document with a stand-in for it
+    const unsignedXml = serializeXml(this.buildInvoice(invoice, options, previousInvoiceHash, invoiceCounter, 'QR'))
+    const invoiceHash = await sha256Base64(getZatcaHashInput(unsignedXml))
+
+    const totals = calculateInvoiceTotals(invoice)
+    const sign = hasNegativeTotal(invoice) ? -1 : 1
+    const qrCode = encodeZatcaQR({
+      sellerName: invoice.vendor || '',
+      vatNumber: invoice.vendorVatId?.replace(/\s/g, '') || '',
+      timestamp: `${formatXmlDate(invoice.date)}T${formatIssueTime(invoice.time)}`,
+      total: totals.taxInclusiveAmount * sign,
+      vatTotal: totals.taxAmount * sign,
+      invoiceHash
+    })
+
+    const xml = serializeXml(this.buildInvoice(invoice, options, previousInvoiceHash, invoiceCounter, qrCode))
+    return { xml, invoiceHash, invoiceCounter, qrCode }
+  }
+
+  /**
+   * Serialize a batch in issue order, each invoice carrying the hash of the
+   * one before it (PIH) and the next counter value (ICV).
+   */
+  static async toXMLChain(invoices: ExtractedInvoiceData[], options: ZATCAExportOptions = {}): Promise<ZATCAInvoiceResult[]> {
+    const results: ZATCAInvoiceResult[] = []
+    let previousInvoiceHash = options.previousInvoiceHash
+    let invoiceCounter = options.invoiceCounter ?? 1
+
+    for (const invoice of invoices) {
+      const result = await this.toXML(invoice, { ...options, previousInvoiceHash, invoiceCounter })
+      results.push(result)
+      previousInvoiceHash = result.invoiceHash
+      invoiceCounter++
+    }
+    return results
+  }
+
+  static getFilename(invoice: ExtractedInvoiceData, options: ZATCAExportOptions = {}, index: number = 0): string {
+    // EGS file naming: {VAT number}_{issue date}T{issue time}_{invoice number}.xml
+    const vatNumber = invoice.vendorVatId?.replace(/\s/g, '') || 'unknown'
+    const timestamp = `${(formatXmlDate(invoice.date) || '').replace(/-/g, '')}T${formatIssueTime(invoice.time).replace(/:/g, '')}`
+    const number = (invoice.invoiceNumber || `invoice_${(options.invoiceCounter ?? 1) + index}`).replace(/[^A-Za-z0-9-]/g, '-')
+    return `${vatNumber}_${timestamp}_${number}.xml`
+  }
+
+  private static buildInvoice(
+    invoice: ExtractedInvoiceData,
+    options: ZATCAExportOptions,
+    previousInvoiceHash: string,
+    invoiceCounter: number,
+    qrCode: string
+  ): XmlElement | undefined {
+    // Credit notes stay <Invoice> documents in KSA; the type code carries the direction
+    const isCreditNote = hasNegativeTotal(invoice)
+    const sign = isCreditNote ? -1 : 1
+    const invoiceType = options.zatcaInvoiceType || 'simplified'
+    const currency = invoice.currency || 'SAR'
+    const amount = (value: number | undefined) => formatXmlAmount(value === undefined ? undefined : value * sign)
+    const currencyAttr = { currencyID: currency }
+    const exchangeRate = this.getExchangeRate(currency, options)
+
+    const totals = calculateInvoiceTotals(invoice)
+    const taxBreakdown = getTaxBreakdown(invoice, options.defaultTaxCategory)
+    const lines = getInvoiceLines(invoice, options.defaultTaxCategory)
+
+    return el('Invoice', [
+      // Placeholders the EGS unit fills in when signing; both are excluded from the hash
+      el('ext:UBLExtensions', [
+        el('ext:UBLExtension', [
+          el('ext:ExtensionURI', SIGNATURE_EXTENSION_URI),
+          { name: 'ext:ExtensionContent' }
+        ])
+      ]),
+      el('cbc:ProfileID', 'reporting:1.0'),
+      el('cbc:ID', invoice.invoiceNumber),
+      el('cbc:UUID', invoice.id),
+      el('cbc:IssueDate', formatXmlDate(invoice.date)),
+      el('cbc:IssueTime', formatIssueTime(invoice.time)),
+      el('cbc:InvoiceTypeCode', isCreditNote ? '381' : '388', { name: INVOICE_TYPE_NAMES[invoiceType] }),
+      el('cbc:DocumentCurrencyCode', currency),
+      el('cbc:TaxCurrencyCode', 'SAR'),
+      el('cac:AdditionalDocumentReference', [
+        el('cbc:ID', 'ICV'),
+        el('cbc:UUID', invoiceCounter)
+      ]),
+      el('cac:AdditionalDocumentReference', [
+        el('cbc:ID', 'PIH'),
+        el('cac:Attachment', [el('cbc:EmbeddedDocumentBinaryObject', previousInvoiceHash, { mimeCode: 'text/plain' })])
+      ]),
+      el('cac:AdditionalDocumentReference', [
+        el('cbc:ID', 'QR'),
+        el('cac:Attachment', [el('cbc:EmbeddedDocumentBinaryObject', qrCode, { mimeCode: 'text/plain' })])
+      ]),
+      el('cac:Signature', [
+        el('cbc:ID', SIGNATURE_ID),
+        el('cbc:SignatureMethod', SIGNATURE_EXTENSION_URI)
+      ]),
+      el('cac:AccountingSupplierParty', [
+        this.buildParty(invoice.vendor, invoice.vendorAddress, 'SA', invoice.vendorVatId, options.sellerRegistrationNumber)
+      ]),
+      el('cac:AccountingCustomerParty', [
+        this.buildParty(invoice.billTo, invoice.billToAddress, invoice.billToCountry || options.buyerCountryCode, invoice.billToVatId)
+      ]),
+      el('cac:PaymentMeans', [
+        el('cbc:PaymentMeansCode', getPaymentMeansCode(invoice.paymentMethod) || '1'),
+        // KSA-10: credit notes state the reason for issuing them
+        isCreditNote && el('cbc:InstructionNote', 'Refund')
+      ]),
+      // The first TaxTotal is the VAT in the tax currency (SAR, BT-111) without subtotals
+      el('cac:TaxTotal', [el('cbc:TaxAmount', amount(totals.taxAmount * exchangeRate), { currencyID: 'SAR' })]),
+      el('cac:TaxTotal', [
+        el('cbc:TaxAmount', amount(totals.taxAmount), currencyAttr),
+        ...taxBreakdown.map(subtotal => el('cac:TaxSubtotal', [
+          el('cbc:TaxableAmount', amount(subtotal.taxableAmount), currencyAttr),
+          el('cbc:TaxAmount', amount(subtotal.taxAmount), currencyAttr),
+          this.buildTaxCategory('cac:TaxCategory', subtotal)
+        ]))
+      ]),
+      el('cac:LegalMonetaryTotal', [
+        el('cbc:LineExtensionAmount', amount(totals.lineExtensionAmount), currencyAttr),
+        el('cbc:TaxExclusiveAmount', amount(totals.taxExclusiveAmount), currencyAttr),
+        el('cbc:TaxInclusiveAmount', amount(totals.taxInclusiveAmount), currencyAttr),
+        el('cbc:PayableAmount', amount(totals.taxInclusiveAmount), currencyAttr)
+      ]),
+      ...lines.map((item, index) => {
+        const lineAmount = item.amount ?? 0
+        const lineTax = lineAmount * (item.taxRate ?? 0) / 100
+        return el('cac:InvoiceLine', [
+          el('cbc:ID', index + 1),
+          el('cbc:InvoicedQuantity', Math.abs(item.quantity ?? 1), { unitCode: item.unitCode || 'PCE' }),
+          el('cbc:LineExtensionAmount', amount(lineAmount), currencyAttr),
+          // KSA-11/12: line VAT and the line amount including VAT
+          el('cac:TaxTotal', [
+            el('cbc:TaxAmount', amount(lineTax), currencyAttr),
+            el('cbc:RoundingAmount', amount(lineAmount + lineTax), currencyAttr)
+          ]),
+          el('cac:Item', [
+            el('cbc:Name', item.description || `Item ${index + 1}`),
+            this.buildTaxCategory('cac:ClassifiedTaxCategory', {
+              category: item.taxCategory || 'S',
+              rate: item.taxRate ?? 0,
+              taxableAmount: lineAmount,
+              taxAmount: lineTax
+            })
+          ]),
+          el('cac:Price', [el('cbc:PriceAmount', amount(item.unitPrice ?? item.amount), currencyAttr)])
+        ])
+      })
+    ], {
+      xmlns: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+      'xmlns:cac': CAC_NAMESPACE,
+      'xmlns:cbc': CBC_NAMESPACE,
+      'xmlns:ext': EXT_NAMESPACE
+    })
+  }
+
+  private static getExchangeRate(currency: string, options: ZATCAExportOptions): number {
+    if (currency === 'SAR') return 1
+    if (!options.exchangeRate || options.exchangeRate <= 0) {
+      throw new Error(`ZATCA invoices in ${currency} need an exchange rate to SAR for the VAT total in SAR (BT-111)`)
+    }
+    return options.exchangeRate
+  }
+
+  private static buildParty(
+    name: string | undefined,
+    address: string | undefined,
+    countryCode: string | undefined,
+    vatId?: string,
+    registrationNumber?: string
+  ): XmlElement | undefined {
+    const parts = splitPostalAddress(address)
+    return el('cac:Party', [
+      registrationNumber && el('cac:PartyIdentification', [el('cbc:ID', registrationNumber, { schemeID: 'CRN' })]),
+      el('cac:PostalAddress', [
+        el('cbc:StreetName', parts.street || address),
+        el('cbc:CityName', parts.city),
+        el('cbc:PostalZone', parts.postCode),
+        el('cac:Country', [el('cbc:IdentificationCode', countryCode)])
+      ]),
+      el('cac:PartyTaxScheme', [
+        el('cbc:CompanyID', vatId?.replace(/\s/g, '')),
+        vatId && el('cac:TaxScheme', [el('cbc:ID', 'VAT')])
+      ]),
+      el('cac:PartyLegalEntity', [el('cbc:RegistrationName', name)])
+    ])
+  }
+
+  private static buildTaxCategory(name: string, subtotal: TaxBreakdown): XmlElement | undefined {
+    return el(name, [
+      el('cbc:ID', subtotal.category),
+      el('cbc:Percent', formatXmlAmount(subtotal.rate)),
+      el('cbc:TaxExemptionReason', subtotal.exemptionReason),
+      el('cac:TaxScheme', [el('cbc:ID', 'VAT')])
+    ])
+  }
+}